@@ -1,6 +1,7 @@
 import { Route, Switch, useLocation } from "wouter";
 import { useEffect } from "react";
 import { AuthProvider } from "@/hooks/use-auth";
+import { CompanyProvider } from "@/hooks/use-company";
 import Login from "@/pages/login";
 import Register from "@/pages/register";
 import ForgotPassword from "@/pages/forgot-password";
@@ -56,10 +57,15 @@ function AuthRoute({ component: Component, ...rest }: { component: React.Compone
 
 // Import additional pages
 import CompanyProfile from "@/pages/company-profile";
+import CompanyMembers from "@/pages/company-members";
+import AcceptInvitation from "@/pages/accept-invitation";
 import Services from "@/pages/services";
 import ServicePage from "@/pages/service";
 import JobOffers from "@/pages/job-offers";
 import JobOfferPage from "@/pages/job-offer";
+import Trash from "@/pages/trash";
+import Activity from "@/pages/activity";
+import Appointments from "@/pages/appointments";
 
 function Router() {
   return (
@@ -75,16 +81,28 @@ function Router() {
       <Route path="/settings" component={() => <ProtectedRoute component={Settings} />} />
       
       {/* Company management */}
+      <Route path="/company-profile/members" component={() => <ProtectedRoute component={CompanyMembers} />} />
+      <Route path="/company-profile/new" component={() => <ProtectedRoute component={CompanyProfile} />} />
       <Route path="/company-profile" component={() => <ProtectedRoute component={CompanyProfile} />} />
+      <Route path="/invite/:token" component={() => <ProtectedRoute component={AcceptInvitation} />} />
       
       {/* Services management */}
       <Route path="/services" component={() => <ProtectedRoute component={Services} />} />
       <Route path="/service/:id" component={() => <ProtectedRoute component={ServicePage} />} />
       
+      {/* Appointments */}
+      <Route path="/appointments" component={() => <ProtectedRoute component={Appointments} />} />
+      
       {/* Job offers management */}
       <Route path="/job-offers" component={() => <ProtectedRoute component={JobOffers} />} />
       <Route path="/job-offer/:id" component={() => <ProtectedRoute component={JobOfferPage} />} />
       
+      {/* Trash */}
+      <Route path="/trash" component={() => <ProtectedRoute component={Trash} />} />
+      
+      {/* Audit log */}
+      <Route path="/activity" component={() => <ProtectedRoute component={Activity} />} />
+      
       {/* Default route */}
       <Route path="/" component={() => <AuthRoute component={Login} />} />
       <Route component={NotFound} />
@@ -95,7 +113,9 @@ function Router() {
 function App() {
   return (
     <AuthProvider>
-      <Router />
+      <CompanyProvider>
+        <Router />
+      </CompanyProvider>
     </AuthProvider>
   );
 }
@@ -0,0 +1,125 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Loader2 } from "lucide-react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+
+import { API } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import type { AppointmentResponse } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface RescheduleDialogProps {
+  appointment: AppointmentResponse | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Escolha de um novo horário para o agendamento entre os horários livres do
+ * serviço num dia. O horário atual aparece ocupado pelo próprio agendamento.
+ */
+export function RescheduleDialog({ appointment, onOpenChange }: RescheduleDialogProps) {
+  const { toast } = useToast();
+  const [date, setDate] = useState(() => appointment ? format(new Date(appointment.startsAt), "yyyy-MM-dd") : "");
+  const [startsAt, setStartsAt] = useState<string | null>(null);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['/api/services', appointment?.serviceId, 'slots', date],
+    queryFn: () => API.getServiceSlots(appointment!.serviceId, { from: date, days: 1 }),
+    enabled: !!appointment && !!date,
+    staleTime: 0
+  });
+
+  const rescheduleMutation = useMutation({
+    mutationFn: () => API.rescheduleAppointment(appointment!.id, startsAt!),
+    onSuccess: (updated) => {
+      toast({
+        title: "Sucesso",
+        description: `Agendamento remarcado para ${format(new Date(updated.startsAt), "dd/MM/yyyy 'às' HH:mm")}.`
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro",
+        description: error.message || "Não foi possível remarcar o agendamento",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const changeDate = (value: string) => {
+    setDate(value);
+    setStartsAt(null);
+  };
+
+  return (
+    <Dialog open={appointment !== null} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Remarcar agendamento</DialogTitle>
+          <DialogDescription>
+            {appointment?.customerName}
+            {appointment?.service && ` · ${appointment.service.name}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid gap-2 sm:max-w-xs">
+            <Label htmlFor="reschedule-date">Dia</Label>
+            <Input
+              id="reschedule-date"
+              type="date"
+              value={date}
+              min={format(new Date(), "yyyy-MM-dd")}
+              onChange={event => changeDate(event.target.value)}
+            />
+          </div>
+
+          {isLoading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-5 w-5 animate-spin text-gray-500" />
+            </div>
+          ) : error ? (
+            <p className="text-sm text-destructive">{(error as Error).message}</p>
+          ) : data && data.slots.length === 0 ? (
+            <p className="text-sm text-gray-500">Nenhum horário livre neste dia.</p>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {data?.slots.map(slot => (
+                <Button
+                  key={slot.startsAt}
+                  type="button"
+                  size="sm"
+                  variant={slot.startsAt === startsAt ? "default" : "outline"}
+                  onClick={() => setStartsAt(slot.startsAt)}
+                >
+                  {format(new Date(slot.startsAt), "HH:mm")}
+                </Button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={rescheduleMutation.isPending}>
+            Cancelar
+          </Button>
+          <Button onClick={() => rescheduleMutation.mutate()} disabled={!startsAt || rescheduleMutation.isPending}>
+            {rescheduleMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Remarcar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,132 @@
+import { ChevronLeft, ChevronRight, History, Loader2 } from "lucide-react";
+
+import type { AuditChanges, AuditLogPageResponse, AuditLogResponse } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  auditActionBadgeClasses,
+  auditActionLabels,
+  auditEntityTypeLabels,
+  auditFieldLabels,
+} from "@/lib/audit-labels";
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/;
+
+// Valor de um campo como texto curto: datas no formato local, objetos resumidos
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "boolean") return value ? "Sim" : "Não";
+  if (typeof value === "string") {
+    return ISO_DATE_PATTERN.test(value) ? new Date(value).toLocaleString("pt-PT") : value;
+  }
+  if (Array.isArray(value)) return value.map(formatValue).join(", ");
+  if (typeof value === "object") return "(dados estruturados)";
+  return String(value);
+}
+
+// Cada campo alterado com o valor anterior riscado e o novo ao lado
+export function AuditChangeList({ changes }: { changes: AuditChanges }) {
+  return (
+    <dl className="grid grid-cols-[minmax(8rem,auto)_1fr] gap-x-4 gap-y-1 text-sm">
+      {Object.entries(changes).map(([field, change]) => (
+        <div key={field} className="contents">
+          <dt className="text-gray-500">{auditFieldLabels[field] ?? field}</dt>
+          <dd className="break-words">
+            <span className="text-gray-500 line-through">{formatValue(change.before)}</span>
+            {" → "}
+            <span>{formatValue(change.after)}</span>
+          </dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
+
+function AuditLogEntry({ entry, showEntity }: { entry: AuditLogResponse; showEntity: boolean }) {
+  const hasChanges = Object.keys(entry.changes).length > 0;
+
+  return (
+    <li className="space-y-2 p-4">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <Badge className={auditActionBadgeClasses[entry.action]}>{auditActionLabels[entry.action]}</Badge>
+        {showEntity && (
+          <span className="font-medium">
+            {auditEntityTypeLabels[entry.entityType]} #{entry.entityId}
+          </span>
+        )}
+        <span className="text-gray-500">
+          por {entry.actorEmail || (entry.actorUid ? entry.actorUid : "visitante da página pública")}
+        </span>
+        {entry.createdAt && (
+          <span className="ml-auto text-gray-500">{new Date(entry.createdAt).toLocaleString("pt-PT")}</span>
+        )}
+      </div>
+
+      {/* Na criação e na exclusão só interessa o lado que existe */}
+      {entry.action === "update" && hasChanges && <AuditChangeList changes={entry.changes} />}
+
+      {(entry.ipAddress || entry.userAgent) && (
+        <p className="text-xs text-gray-400 truncate">
+          {entry.requestMethod} {entry.requestPath} · {entry.ipAddress} · {entry.userAgent}
+        </p>
+      )}
+    </li>
+  );
+}
+
+interface AuditLogListProps {
+  data: AuditLogPageResponse | undefined;
+  isLoading: boolean;
+  onPageChange: (page: number) => void;
+  // Na aba de histórico de um registro o tipo e o id são sempre os mesmos
+  showEntity?: boolean;
+}
+
+// Lista paginada de registros de auditoria, do mais recente para o mais antigo
+export function AuditLogList({ data, isLoading, onPageChange, showEntity = true }: AuditLogListProps) {
+  if (isLoading || !data) {
+    return (
+      <div className="flex items-center justify-center h-40">
+        <Loader2 className="mr-2 h-6 w-6 animate-spin" />
+        <span>Carregando atividade...</span>
+      </div>
+    );
+  }
+
+  if (data.entries.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center text-center p-6">
+        <History className="h-10 w-10 text-gray-400 mb-2" />
+        <p className="text-sm text-gray-500">Nenhuma alteração registrada</p>
+      </div>
+    );
+  }
+
+  const pageCount = Math.max(1, Math.ceil(data.total / data.pageSize));
+
+  return (
+    <div className="space-y-4">
+      <ul className="divide-y rounded-md border bg-white">
+        {data.entries.map(entry => (
+          <AuditLogEntry key={entry.id} entry={entry} showEntity={showEntity} />
+        ))}
+      </ul>
+
+      <div className="flex items-center justify-between text-sm text-gray-500">
+        <span>
+          Página {data.page} de {pageCount} · {data.total} registro(s)
+        </span>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => onPageChange(data.page - 1)} disabled={data.page <= 1}>
+            <ChevronLeft className="h-4 w-4 mr-1" />
+            Anterior
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => onPageChange(data.page + 1)} disabled={data.page >= pageCount}>
+            Próxima
+            <ChevronRight className="h-4 w-4 ml-1" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
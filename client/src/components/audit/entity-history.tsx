@@ -0,0 +1,45 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { History } from "lucide-react";
+
+import { API } from "@/lib/api";
+import type { AuditEntityType } from "@shared/schema";
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
+import { AuditLogList } from "@/components/audit/audit-log-list";
+
+const PAGE_SIZE = 10;
+
+interface EntityHistoryProps {
+  companyId: number;
+  entityType: AuditEntityType;
+  entityId: number;
+}
+
+// Aba "Histórico" dos editores: alterações de um único registro
+export function EntityHistory({ companyId, entityType, entityId }: EntityHistoryProps) {
+  const [page, setPage] = useState(1);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['/api/companies', companyId, 'audit-logs', { entityType, entityId, page }],
+    queryFn: () => API.getCompanyAuditLogs(companyId, { entityType, entityId, page, pageSize: PAGE_SIZE }),
+    // Volta a buscar sempre que a aba é aberta, já que cada edição gera um registro
+    staleTime: 0
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <History className="h-5 w-5 mr-2" />
+          Histórico de alterações
+        </CardTitle>
+        <CardDescription>
+          Quem alterou este registro, quando e o que mudou.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <AuditLogList data={data} isLoading={isLoading} onPageChange={setPage} showEntity={false} />
+      </CardContent>
+    </Card>
+  );
+}
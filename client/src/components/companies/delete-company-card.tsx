@@ -0,0 +1,114 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Loader2, Trash2 } from "lucide-react";
+
+import { useToast } from "@/hooks/use-toast";
+import { API } from "@/lib/api";
+import type { CompanyWithRoleResponse } from "@shared/schema";
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+interface DeleteCompanyCardProps {
+  company: CompanyWithRoleResponse;
+}
+
+// Zona de perigo do perfil: só o dono vê e a confirmação exige digitar o nome da empresa
+export function DeleteCompanyCard({ company }: DeleteCompanyCardProps) {
+  const { toast } = useToast();
+  const [_, navigate] = useLocation();
+  const [open, setOpen] = useState(false);
+  const [confirmation, setConfirmation] = useState("");
+
+  const deleteMutation = useMutation({
+    mutationFn: () => API.deleteCompany(company.id),
+    onSuccess: () => {
+      toast({
+        title: "Empresa excluída",
+        description: `${company.name} e todos os seus dados foram excluídos.`,
+      });
+      setOpen(false);
+      navigate("/dashboard");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro",
+        description: error.message || "Não foi possível excluir a empresa",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const handleOpenChange = (value: boolean) => {
+    if (deleteMutation.isPending) return;
+    setOpen(value);
+    setConfirmation("");
+  };
+
+  return (
+    <Card className="border-red-200">
+      <CardHeader>
+        <CardTitle className="text-red-700">Excluir empresa</CardTitle>
+        <CardDescription>
+          Exclui permanentemente a empresa com os seus serviços, imagens, vagas, candidaturas,
+          membros e convites.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Button variant="destructive" onClick={() => setOpen(true)}>
+          <Trash2 className="mr-2 h-4 w-4" />
+          Excluir empresa
+        </Button>
+      </CardContent>
+
+      <AlertDialog open={open} onOpenChange={handleOpenChange}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Você tem certeza?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Esta ação não pode ser desfeita. Para confirmar, digite <strong>{company.name}</strong> abaixo.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <Input
+            value={confirmation}
+            onChange={event => setConfirmation(event.target.value)}
+            placeholder={company.name}
+            disabled={deleteMutation.isPending}
+          />
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={deleteMutation.isPending}>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(event) => {
+                // Mantém o diálogo aberto até a exclusão terminar
+                event.preventDefault();
+                deleteMutation.mutate();
+              }}
+              disabled={confirmation.trim() !== company.name || deleteMutation.isPending}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              {deleteMutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Excluindo...
+                </>
+              ) : (
+                "Excluir empresa"
+              )}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,357 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Loader2, Users, Mail, Phone, FileText, Download, MessageSquare, History } from "lucide-react";
+
+import { useToast } from "@/hooks/use-toast";
+import { API } from "@/lib/api";
+import { applicationStageLabels, applicationStageBadgeClasses } from "@/lib/application-stages";
+import { applicationStages, type ApplicationStage, type JobApplicationResponse } from "@shared/schema";
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Separator } from "@/components/ui/separator";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+  SheetDescription,
+} from "@/components/ui/sheet";
+
+const ALL_STAGES = "all";
+
+const formatDateTime = (value: string | null) =>
+  value ? new Date(value).toLocaleString('pt-PT', { dateStyle: 'short', timeStyle: 'short' }) : '';
+
+interface ApplicantPipelineProps {
+  jobOfferId: number;
+  canEdit: boolean;
+}
+
+export function ApplicantPipeline({ jobOfferId, canEdit }: ApplicantPipelineProps) {
+  const [stageFilter, setStageFilter] = useState<ApplicationStage | typeof ALL_STAGES>(ALL_STAGES);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  const { data: applications = [], isLoading } = useQuery({
+    queryKey: ['/api/job-offers', jobOfferId, 'applications'],
+    queryFn: () => API.getJobOfferApplications(jobOfferId)
+  });
+
+  const countByStage = (stage: ApplicationStage) =>
+    applications.filter(application => application.stage === stage).length;
+
+  const visibleApplications = stageFilter === ALL_STAGES
+    ? applications
+    : applications.filter(application => application.stage === stageFilter);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Users className="h-5 w-5 mr-2" />
+          Candidaturas
+        </CardTitle>
+        <CardDescription>
+          Acompanhe os candidatos desta vaga ao longo do processo seletivo
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Tabs value={stageFilter} onValueChange={value => setStageFilter(value as ApplicationStage | typeof ALL_STAGES)}>
+          <TabsList className="flex h-auto flex-wrap justify-start">
+            <TabsTrigger value={ALL_STAGES}>Todas ({applications.length})</TabsTrigger>
+            {applicationStages.map(stage => (
+              <TabsTrigger key={stage} value={stage}>
+                {applicationStageLabels[stage]} ({countByStage(stage)})
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-24">
+            <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+            <span>Carregando candidaturas...</span>
+          </div>
+        ) : visibleApplications.length === 0 ? (
+          <p className="text-sm text-gray-500 py-6 text-center">
+            {applications.length === 0
+              ? "Ainda não há candidaturas para esta vaga."
+              : "Nenhuma candidatura nesta etapa."}
+          </p>
+        ) : (
+          <ul className="divide-y rounded-md border">
+            {visibleApplications.map(application => (
+              <li key={application.id}>
+                <button
+                  type="button"
+                  className="flex w-full items-center justify-between gap-4 p-4 text-left hover:bg-gray-50"
+                  onClick={() => setSelectedId(application.id)}
+                >
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{application.name}</p>
+                    <p className="text-sm text-gray-500 truncate">
+                      {application.email} · {formatDateTime(application.createdAt)}
+                    </p>
+                  </div>
+                  <StageBadge stage={application.stage} />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+
+      <ApplicationSheet
+        applicationId={selectedId}
+        summary={applications.find(application => application.id === selectedId)}
+        canEdit={canEdit}
+        onClose={() => setSelectedId(null)}
+      />
+    </Card>
+  );
+}
+
+function StageBadge({ stage }: { stage: ApplicationStage }) {
+  return (
+    <Badge className={applicationStageBadgeClasses[stage]}>
+      {applicationStageLabels[stage]}
+    </Badge>
+  );
+}
+
+interface ApplicationSheetProps {
+  applicationId: number | null;
+  summary?: JobApplicationResponse;
+  canEdit: boolean;
+  onClose: () => void;
+}
+
+// Painel lateral com os dados do candidato, o CV, a etapa, as notas e o histórico
+function ApplicationSheet({ applicationId, summary, canEdit, onClose }: ApplicationSheetProps) {
+  const { toast } = useToast();
+  const [note, setNote] = useState("");
+
+  const { data: application, isLoading } = useQuery({
+    queryKey: ['/api/applications', applicationId],
+    queryFn: () => applicationId ? API.getApplication(applicationId) : Promise.resolve(null),
+    enabled: applicationId !== null
+  });
+
+  const stageMutation = useMutation({
+    mutationFn: (stage: ApplicationStage) => {
+      if (!applicationId) throw new Error("Candidatura não encontrada");
+      return API.updateApplicationStage(applicationId, stage);
+    },
+    onSuccess: (updated) => {
+      toast({
+        title: "Etapa atualizada",
+        description: `${updated.name} está agora em ${applicationStageLabels[updated.stage]}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro",
+        description: error.message || "Não foi possível atualizar a etapa",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const noteMutation = useMutation({
+    mutationFn: (body: string) => {
+      if (!applicationId) throw new Error("Candidatura não encontrada");
+      return API.addApplicationNote(applicationId, body);
+    },
+    onSuccess: () => {
+      setNote("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro",
+        description: error.message || "Não foi possível adicionar a nota",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const cvMutation = useMutation({
+    mutationFn: (id: number) => API.downloadApplicationCv(id),
+    onSuccess: (blob) => {
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = application?.cvFileName || "cv";
+      link.click();
+      URL.revokeObjectURL(url);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro",
+        description: error.message || "Não foi possível baixar o CV",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      setNote("");
+      onClose();
+    }
+  };
+
+  return (
+    <Sheet open={applicationId !== null} onOpenChange={handleOpenChange}>
+      <SheetContent className="w-full overflow-y-auto sm:max-w-lg">
+        <SheetHeader>
+          <SheetTitle>{application?.name || summary?.name || "Candidatura"}</SheetTitle>
+          <SheetDescription>
+            Candidatura recebida em {formatDateTime(application?.createdAt ?? summary?.createdAt ?? null)}
+          </SheetDescription>
+        </SheetHeader>
+
+        {isLoading || !application ? (
+          <div className="flex items-center justify-center h-40">
+            <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+            <span>Carregando...</span>
+          </div>
+        ) : (
+          <div className="space-y-6 py-6">
+            <div className="space-y-2 text-sm">
+              <p className="flex items-center">
+                <Mail className="mr-2 h-4 w-4 text-gray-400" />
+                <a href={`mailto:${application.email}`} className="text-primary hover:underline">
+                  {application.email}
+                </a>
+              </p>
+              {application.phone && (
+                <p className="flex items-center">
+                  <Phone className="mr-2 h-4 w-4 text-gray-400" />
+                  {application.phone}
+                </p>
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                className="mt-2"
+                onClick={() => cvMutation.mutate(application.id)}
+                disabled={cvMutation.isPending}
+              >
+                {cvMutation.isPending
+                  ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  : <Download className="mr-2 h-4 w-4" />}
+                {application.cvFileName}
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Etapa</p>
+              <Select
+                value={application.stage}
+                onValueChange={value => stageMutation.mutate(value as ApplicationStage)}
+                disabled={!canEdit || stageMutation.isPending}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {applicationStages.map(stage => (
+                    <SelectItem key={stage} value={stage}>
+                      {applicationStageLabels[stage]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {application.coverLetter && (
+              <div className="space-y-2">
+                <p className="flex items-center text-sm font-medium">
+                  <FileText className="mr-2 h-4 w-4" /> Carta de apresentação
+                </p>
+                <p className="whitespace-pre-line text-sm text-gray-600">{application.coverLetter}</p>
+              </div>
+            )}
+
+            <Separator />
+
+            <div className="space-y-3">
+              <p className="flex items-center text-sm font-medium">
+                <MessageSquare className="mr-2 h-4 w-4" /> Notas
+              </p>
+              {application.notes.length === 0 ? (
+                <p className="text-sm text-gray-500">Nenhuma nota ainda.</p>
+              ) : (
+                <ul className="space-y-3">
+                  {application.notes.map(item => (
+                    <li key={item.id} className="rounded-md bg-gray-50 p-3 text-sm">
+                      <p className="whitespace-pre-line">{item.body}</p>
+                      <p className="mt-1 text-xs text-gray-500">
+                        {item.author?.displayName || item.author?.email || "Usuário removido"} · {formatDateTime(item.createdAt)}
+                      </p>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {canEdit && (
+                <div className="space-y-2">
+                  <Textarea
+                    placeholder="Escreva uma nota sobre o candidato"
+                    value={note}
+                    onChange={event => setNote(event.target.value)}
+                  />
+                  <div className="flex justify-end">
+                    <Button
+                      size="sm"
+                      onClick={() => noteMutation.mutate(note)}
+                      disabled={!note.trim() || noteMutation.isPending}
+                    >
+                      {noteMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Adicionar nota
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <Separator />
+
+            <div className="space-y-3">
+              <p className="flex items-center text-sm font-medium">
+                <History className="mr-2 h-4 w-4" /> Histórico
+              </p>
+              <ul className="space-y-2 text-sm">
+                {application.history.map(change => (
+                  <li key={change.id} className="flex flex-wrap items-center gap-2">
+                    {change.fromStage ? (
+                      <>
+                        <StageBadge stage={change.fromStage} />
+                        <span className="text-gray-400">→</span>
+                        <StageBadge stage={change.toStage} />
+                      </>
+                    ) : (
+                      <span>Candidatura recebida</span>
+                    )}
+                    <span className="text-xs text-gray-500">
+                      {change.user ? `${change.user.displayName || change.user.email} · ` : ""}
+                      {formatDateTime(change.createdAt)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
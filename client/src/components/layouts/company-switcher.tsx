@@ -0,0 +1,66 @@
+import { useLocation } from "wouter";
+import { Building2, Plus } from "lucide-react";
+import { useCompany } from "@/hooks/use-company";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+// Valor especial do seletor que leva ao cadastro de uma nova empresa
+const NEW_COMPANY_VALUE = "new";
+
+interface CompanySwitcherProps {
+  onNavigate?: () => void;
+}
+
+export function CompanySwitcher({ onNavigate }: CompanySwitcherProps) {
+  const { companies, activeCompany, setActiveCompanyId, isLoading } = useCompany();
+  const [_, navigate] = useLocation();
+
+  if (isLoading) {
+    return null;
+  }
+
+  const handleChange = (value: string) => {
+    if (value === NEW_COMPANY_VALUE) {
+      navigate("/company-profile/new");
+    } else {
+      setActiveCompanyId(Number(value));
+    }
+    onNavigate?.();
+  };
+
+  return (
+    <div className="px-2 pt-4">
+      <p className="px-2 pb-2 text-xs font-medium uppercase tracking-wider text-gray-400">
+        Empresa ativa
+      </p>
+      <Select value={activeCompany ? String(activeCompany.id) : undefined} onValueChange={handleChange}>
+        <SelectTrigger className="bg-gray-700 border-gray-600 text-white">
+          <span className="flex items-center truncate">
+            <Building2 className="mr-2 h-4 w-4 flex-shrink-0" />
+            <SelectValue placeholder="Nenhuma empresa" />
+          </span>
+        </SelectTrigger>
+        <SelectContent>
+          {companies.map(company => (
+            <SelectItem key={company.id} value={String(company.id)}>
+              {company.name}
+            </SelectItem>
+          ))}
+          {companies.length > 0 && <SelectSeparator />}
+          <SelectItem value={NEW_COMPANY_VALUE}>
+            <span className="flex items-center">
+              <Plus className="mr-2 h-4 w-4" />
+              Nova empresa
+            </span>
+          </SelectItem>
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
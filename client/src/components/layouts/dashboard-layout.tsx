@@ -2,6 +2,8 @@ import { ReactNode, useState } from "react";
 import { SidebarNav, SidebarNavItem } from "@/components/ui/sidebar-nav";
 import { AvatarWithStatus } from "@/components/ui/avatar-with-status";
 import { useAuth } from "@/hooks/use-auth";
+import { CompanySwitcher } from "@/components/layouts/company-switcher";
+import { CommandPalette } from "@/components/search/command-palette";
 import { 
   LayoutDashboard, 
   User, 
@@ -12,6 +14,9 @@ import {
   Building2,
   ShoppingBag,
   Briefcase,
+  Trash2,
+  History,
+  CalendarDays,
   Shield
 } from "lucide-react";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
@@ -34,7 +39,7 @@ export function DashboardLayout({ children, title, contentId }: DashboardLayoutP
   
   // Format the createdAt timestamp or use fallback
   const formattedCreatedAt = userData?.createdAt 
-    ? format(new Date(userData.createdAt.toDate()), 'MMMM yyyy')
+    ? format(new Date(userData.createdAt), 'MMMM yyyy')
     : 'Recent';
   
   const initials = user?.displayName
@@ -56,6 +61,7 @@ export function DashboardLayout({ children, title, contentId }: DashboardLayoutP
                 />
               </div>
               <div className="flex-1 flex flex-col overflow-y-auto">
+                <CompanySwitcher />
                 <SidebarNav className="flex-1 px-2 py-4">
                   <SidebarNavItem
                     href="/dashboard"
@@ -72,11 +78,26 @@ export function DashboardLayout({ children, title, contentId }: DashboardLayoutP
                     icon={ShoppingBag}
                     title="Serviços"
                   />
+                  <SidebarNavItem
+                    href="/appointments"
+                    icon={CalendarDays}
+                    title="Agenda"
+                  />
                   <SidebarNavItem
                     href="/job-offers"
                     icon={Briefcase}
                     title="Vagas"
                   />
+                  <SidebarNavItem
+                    href="/activity"
+                    icon={History}
+                    title="Atividade"
+                  />
+                  <SidebarNavItem
+                    href="/trash"
+                    icon={Trash2}
+                    title="Lixeira"
+                  />
                   <SidebarNavItem
                     href="/profile"
                     icon={User}
@@ -143,6 +164,7 @@ export function DashboardLayout({ children, title, contentId }: DashboardLayoutP
                     <X className="h-5 w-5 text-white" />
                   </Button>
                 </div>
+                <CompanySwitcher onNavigate={() => setSheetOpen(false)} />
                 <div className="flex-1 px-2 py-4">
                   <SidebarNav>
                     <SidebarNavItem
@@ -163,12 +185,30 @@ export function DashboardLayout({ children, title, contentId }: DashboardLayoutP
                       title="Serviços"
                       onClick={() => setSheetOpen(false)}
                     />
+                    <SidebarNavItem
+                      href="/appointments"
+                      icon={CalendarDays}
+                      title="Agenda"
+                      onClick={() => setSheetOpen(false)}
+                    />
                     <SidebarNavItem
                       href="/job-offers"
                       icon={Briefcase}
                       title="Vagas"
                       onClick={() => setSheetOpen(false)}
                     />
+                    <SidebarNavItem
+                      href="/activity"
+                      icon={History}
+                      title="Atividade"
+                      onClick={() => setSheetOpen(false)}
+                    />
+                    <SidebarNavItem
+                      href="/trash"
+                      icon={Trash2}
+                      title="Lixeira"
+                      onClick={() => setSheetOpen(false)}
+                    />
                     <SidebarNavItem
                       href="/profile"
                       icon={User}
@@ -216,7 +256,10 @@ export function DashboardLayout({ children, title, contentId }: DashboardLayoutP
           <main className="flex-1 relative z-0 overflow-y-auto focus:outline-none">
             <div className="py-6" id={contentId}>
               <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8">
-                <h1 className="text-2xl font-semibold text-gray-900">{title}</h1>
+                <div className="flex flex-col-reverse gap-4 sm:flex-row sm:items-center sm:justify-between">
+                  <h1 className="text-2xl font-semibold text-gray-900">{title}</h1>
+                  <CommandPalette />
+                </div>
                 <div className="py-4">{children}</div>
               </div>
             </div>
@@ -0,0 +1,65 @@
+import { ChevronLeft, ChevronRight } from "lucide-react";
+
+import { cn } from "@/lib/utils";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationLink,
+} from "@/components/ui/pagination";
+
+interface CursorPaginationProps {
+  page: number;
+  pageSize: number;
+  total: number;
+  hasNext: boolean;
+  onPrevious: () => void;
+  onNext: () => void;
+}
+
+// Anterior/Próxima para listas paginadas por cursor; sem salto direto para uma página
+export function CursorPagination({ page, pageSize, total, hasNext, onPrevious, onNext }: CursorPaginationProps) {
+  const hasPrevious = page > 1;
+  const pageCount = Math.max(1, Math.ceil(total / pageSize));
+
+  // Só aparece quando há mais de uma página
+  if (!hasPrevious && !hasNext) return null;
+
+  const disabledClasses = "pointer-events-none opacity-50";
+
+  return (
+    <Pagination className="mt-6">
+      <PaginationContent>
+        <PaginationItem>
+          <PaginationLink
+            size="default"
+            className={cn("gap-1 pl-2.5 cursor-pointer", !hasPrevious && disabledClasses)}
+            aria-label="Página anterior"
+            aria-disabled={!hasPrevious}
+            onClick={() => hasPrevious && onPrevious()}
+          >
+            <ChevronLeft className="h-4 w-4" />
+            <span>Anterior</span>
+          </PaginationLink>
+        </PaginationItem>
+        <PaginationItem>
+          <span className="px-4 text-sm text-gray-500">
+            Página {page} de {pageCount}
+          </span>
+        </PaginationItem>
+        <PaginationItem>
+          <PaginationLink
+            size="default"
+            className={cn("gap-1 pr-2.5 cursor-pointer", !hasNext && disabledClasses)}
+            aria-label="Próxima página"
+            aria-disabled={!hasNext}
+            onClick={() => hasNext && onNext()}
+          >
+            <span>Próxima</span>
+            <ChevronRight className="h-4 w-4" />
+          </PaginationLink>
+        </PaginationItem>
+      </PaginationContent>
+    </Pagination>
+  );
+}
@@ -0,0 +1,12 @@
+import { Badge } from "@/components/ui/badge";
+
+// Estado do horário no momento da consulta; sem horário cadastrado não mostra nada
+export function OpenNowBadge({ openNow }: { openNow: boolean | null }) {
+  if (openNow === null) return null;
+
+  return openNow ? (
+    <Badge className="border-transparent bg-green-100 text-green-800 hover:bg-green-100">Aberto agora</Badge>
+  ) : (
+    <Badge variant="secondary">Fechado agora</Badge>
+  );
+}
@@ -0,0 +1,318 @@
+import { format } from "date-fns";
+import { CalendarOff, Copy, Plus, Trash2 } from "lucide-react";
+
+import {
+  openingHoursSchema,
+  weekdays,
+  type OpeningHours,
+  type OpeningHoursException,
+  type TimeInterval,
+  type Weekday,
+} from "@shared/schema";
+import {
+  getPortugueseHolidays,
+  portugueseTimezones,
+  weekdayLabels,
+} from "@shared/opening-hours";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+// Limites do servidor para intervalos por dia e exceções
+const MAX_INTERVALS = 6;
+const MAX_EXCEPTIONS = 100;
+
+// Novo intervalo começa uma hora depois do último do dia, ou às 9h
+function nextInterval(intervals: TimeInterval[]): TimeInterval {
+  const last = intervals[intervals.length - 1];
+  if (!last) return { start: "09:00", end: "18:00" };
+
+  const hour = Math.min(Number(last.end.slice(0, 2)) + 1, 22);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return { start: `${pad(hour)}:00`, end: `${pad(hour + 1)}:00` };
+}
+
+interface IntervalListProps {
+  intervals: TimeInterval[];
+  onChange: (intervals: TimeInterval[]) => void;
+  disabled?: boolean;
+  label: string;
+}
+
+// Intervalos de um dia: início e fim de cada um, com botões para adicionar e remover
+function IntervalList({ intervals, onChange, disabled, label }: IntervalListProps) {
+  const update = (index: number, changes: Partial<TimeInterval>) =>
+    onChange(intervals.map((interval, current) => current === index ? { ...interval, ...changes } : interval));
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {intervals.map((interval, index) => (
+        <div key={index} className="flex items-center gap-1">
+          <Input
+            type="time"
+            className="w-28"
+            value={interval.start}
+            onChange={event => update(index, { start: event.target.value })}
+            disabled={disabled}
+            aria-label={`${label}: início do intervalo ${index + 1}`}
+          />
+          <span className="text-gray-500">–</span>
+          <Input
+            type="time"
+            className="w-28"
+            value={interval.end}
+            onChange={event => update(index, { end: event.target.value })}
+            disabled={disabled}
+            aria-label={`${label}: fim do intervalo ${index + 1}`}
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => onChange(intervals.filter((_, current) => current !== index))}
+            disabled={disabled}
+            aria-label={`${label}: remover intervalo ${index + 1}`}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([...intervals, nextInterval(intervals)])}
+        disabled={disabled || intervals.length >= MAX_INTERVALS}
+      >
+        <Plus className="mr-1 h-4 w-4" /> Intervalo
+      </Button>
+    </div>
+  );
+}
+
+interface OpeningHoursEditorProps {
+  value: OpeningHours;
+  onChange: (value: OpeningHours) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Editor do horário semanal: intervalos por dia, exceções por data e
+ * fecho nos feriados nacionais.
+ *
+ * Os erros aparecem junto do dia ou da exceção a que se referem, com as
+ * mesmas regras que o servidor aplica.
+ */
+export function OpeningHoursEditor({ value, onChange, disabled }: OpeningHoursEditorProps) {
+  const validation = openingHoursSchema.safeParse(value);
+  const issues = validation.success ? [] : validation.error.issues;
+
+  // Mensagens dos erros dentro de um caminho (ex.: ["weekly", "mon"]), sem repetir
+  const messagesAt = (...prefix: (string | number)[]) => Array.from(new Set(
+    issues
+      .filter(issue => prefix.every((segment, index) => issue.path[index] === segment))
+      .map(issue => issue.message)
+  ));
+  const exceptionListMessages = issues
+    .filter(issue => issue.path.length === 1 && issue.path[0] === "exceptions")
+    .map(issue => issue.message);
+
+  const setDay = (day: Weekday, intervals: TimeInterval[]) =>
+    onChange({ ...value, weekly: { ...value.weekly, [day]: intervals } });
+
+  // Copia o horário de segunda para os outros dias úteis
+  const copyMondayToWeekdays = () => {
+    const monday = value.weekly.mon;
+    const weekly = { ...value.weekly };
+    (["tue", "wed", "thu", "fri"] as const).forEach(day => {
+      weekly[day] = monday.map(interval => ({ ...interval }));
+    });
+    onChange({ ...value, weekly });
+  };
+
+  const setException = (index: number, changes: Partial<OpeningHoursException>) =>
+    onChange({
+      ...value,
+      exceptions: value.exceptions.map((exception, current) => current === index ? { ...exception, ...changes } : exception),
+    });
+
+  const addException = () =>
+    onChange({
+      ...value,
+      exceptions: [...value.exceptions, { date: format(new Date(), "yyyy-MM-dd"), intervals: [], note: null }],
+    });
+
+  const removeException = (index: number) =>
+    onChange({ ...value, exceptions: value.exceptions.filter((_, current) => current !== index) });
+
+  const holidays = getPortugueseHolidays(new Date().getFullYear());
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 gap-2 sm:max-w-xs">
+        <Label>Fuso horário</Label>
+        <Select value={value.timezone} onValueChange={timezone => onChange({ ...value, timezone })} disabled={disabled}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {portugueseTimezones.map(timezone => (
+              <SelectItem key={timezone.value} value={timezone.value}>{timezone.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {messagesAt("timezone").map(message => (
+          <p key={message} className="text-sm font-medium text-destructive">{message}</p>
+        ))}
+      </div>
+
+      <div className="space-y-1">
+        <div className="flex items-center justify-between">
+          <h4 className="text-sm font-medium">Semana</h4>
+          <Button type="button" variant="ghost" size="sm" onClick={copyMondayToWeekdays} disabled={disabled}>
+            <Copy className="mr-1 h-4 w-4" /> Copiar segunda para os dias úteis
+          </Button>
+        </div>
+
+        {weekdays.map(day => {
+          const intervals = value.weekly[day];
+          const isOpen = intervals.length > 0;
+
+          return (
+            <div key={day} className="grid grid-cols-1 gap-2 border-b py-3 last:border-b-0 sm:grid-cols-[10rem_1fr]">
+              <div className="flex items-center gap-2">
+                <Switch
+                  checked={isOpen}
+                  onCheckedChange={checked => setDay(day, checked ? [nextInterval([])] : [])}
+                  disabled={disabled}
+                  aria-label={`${weekdayLabels[day]} aberto`}
+                />
+                <span className="text-sm font-medium">{weekdayLabels[day]}</span>
+              </div>
+              <div className="space-y-1">
+                {isOpen ? (
+                  <IntervalList
+                    intervals={intervals}
+                    onChange={next => setDay(day, next)}
+                    disabled={disabled}
+                    label={weekdayLabels[day]}
+                  />
+                ) : (
+                  <p className="py-2 text-sm text-gray-500">Fechado</p>
+                )}
+                {messagesAt("weekly", day).map(message => (
+                  <p key={message} className="text-sm font-medium text-destructive">{message}</p>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h4 className="text-sm font-medium">Feriados nacionais</h4>
+            <p className="text-sm text-gray-500">
+              Fechar nos feriados obrigatórios de Portugal. Para abrir num feriado, cadastre uma exceção.
+            </p>
+          </div>
+          <Switch
+            checked={value.closedOnPublicHolidays}
+            onCheckedChange={closedOnPublicHolidays => onChange({ ...value, closedOnPublicHolidays })}
+            disabled={disabled}
+            aria-label="Fechar nos feriados nacionais"
+          />
+        </div>
+        {value.closedOnPublicHolidays && (
+          <ul className="grid grid-cols-1 gap-x-6 gap-y-1 text-sm text-gray-600 sm:grid-cols-2">
+            {holidays.map(holiday => (
+              <li key={holiday.date} className="flex justify-between gap-2">
+                <span>{holiday.name}</span>
+                <span className="text-gray-500">{format(new Date(`${holiday.date}T12:00:00`), "dd/MM/yyyy")}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <h4 className="text-sm font-medium">Exceções</h4>
+            <p className="text-sm text-gray-500">Datas com horário diferente da semana, como férias ou horário especial.</p>
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={addException}
+            disabled={disabled || value.exceptions.length >= MAX_EXCEPTIONS}
+          >
+            <CalendarOff className="mr-1 h-4 w-4" /> Adicionar data
+          </Button>
+        </div>
+
+        {exceptionListMessages.map(message => (
+          <p key={message} className="text-sm font-medium text-destructive">{message}</p>
+        ))}
+
+        {value.exceptions.map((exception, index) => {
+          const isClosed = exception.intervals.length === 0;
+
+          return (
+            <div key={index} className="space-y-3 rounded-md bg-gray-50 p-3">
+              <div className="grid grid-cols-1 gap-3 sm:grid-cols-[10rem_1fr_auto_auto] sm:items-center">
+                <Input
+                  type="date"
+                  value={exception.date}
+                  onChange={event => setException(index, { date: event.target.value })}
+                  disabled={disabled}
+                  aria-label={`Data da exceção ${index + 1}`}
+                />
+                <Input
+                  placeholder="Nota (ex.: Férias de verão)"
+                  value={exception.note ?? ""}
+                  onChange={event => setException(index, { note: event.target.value || null })}
+                  disabled={disabled}
+                  aria-label={`Nota da exceção ${index + 1}`}
+                />
+                <label className="flex items-center gap-2 text-sm">
+                  <Switch
+                    checked={isClosed}
+                    onCheckedChange={closed => setException(index, { intervals: closed ? [] : [nextInterval([])] })}
+                    disabled={disabled}
+                  />
+                  Fechado
+                </label>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => removeException(index)}
+                  disabled={disabled}
+                  aria-label={`Remover exceção ${index + 1}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              {!isClosed && (
+                <IntervalList
+                  intervals={exception.intervals}
+                  onChange={intervals => setException(index, { intervals })}
+                  disabled={disabled}
+                  label={`Exceção ${index + 1}`}
+                />
+              )}
+              {messagesAt("exceptions", index).map(message => (
+                <p key={message} className="text-sm font-medium text-destructive">{message}</p>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
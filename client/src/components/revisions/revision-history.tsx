@@ -0,0 +1,201 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { GitCompare, Layers, Loader2, RotateCcw } from "lucide-react";
+
+import { useToast } from "@/hooks/use-toast";
+import { API } from "@/lib/api";
+import type { RevisionEntityType, RevisionResponse } from "@shared/schema";
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { AuditChangeList } from "@/components/audit/audit-log-list";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+interface RevisionHistoryProps {
+  entityType: RevisionEntityType;
+  entityId: number;
+  // Editores restauram serviços e vagas; o perfil da empresa exige administrador
+  canRestore: boolean;
+}
+
+// O que muda no registro se a versão selecionada for restaurada
+function RevisionDiff({ revision }: { revision: RevisionResponse }) {
+  const { data, isLoading } = useQuery({
+    queryKey: ['/api/revisions', revision.entityType, revision.entityId, 'diff', revision.id],
+    queryFn: () => API.getRevisionDiff(revision.id),
+    staleTime: 0
+  });
+
+  if (isLoading || !data) {
+    return (
+      <div className="flex items-center text-sm text-gray-500">
+        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        Comparando com a versão atual...
+      </div>
+    );
+  }
+
+  if (Object.keys(data.changes).length === 0) {
+    return <p className="text-sm text-gray-500">Esta versão é igual ao estado atual.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-gray-500">Estado atual → esta versão</p>
+      <AuditChangeList changes={data.changes} />
+    </div>
+  );
+}
+
+// Aba "Versões" dos editores: cada gravação do registro, com comparação e restauração
+export function RevisionHistory({ entityType, entityId, canRestore }: RevisionHistoryProps) {
+  const { toast } = useToast();
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [revisionToRestore, setRevisionToRestore] = useState<RevisionResponse | null>(null);
+
+  const { data: revisions, isLoading } = useQuery({
+    queryKey: ['/api/revisions', entityType, entityId],
+    queryFn: () => API.getRevisions(entityType, entityId),
+    // Cada gravação no editor gera uma versão nova
+    staleTime: 0
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: (revision: RevisionResponse) => API.restoreRevision(revision),
+    onSuccess: (_, revision) => {
+      toast({
+        title: "Sucesso",
+        description: `Versão ${revision.version} restaurada.`
+      });
+      setSelectedId(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro",
+        description: error.message || "Não foi possível restaurar a versão",
+        variant: "destructive"
+      });
+    },
+    onSettled: () => {
+      setRevisionToRestore(null);
+    }
+  });
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Layers className="h-5 w-5 mr-2" />
+            Versões salvas
+          </CardTitle>
+          <CardDescription>
+            Cada gravação guarda uma cópia dos dados. Restaurar uma versão cria uma versão nova;
+            as anteriores não são alteradas.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading || !revisions ? (
+            <div className="flex items-center justify-center h-40">
+              <Loader2 className="mr-2 h-6 w-6 animate-spin" />
+              <span>Carregando versões...</span>
+            </div>
+          ) : revisions.length === 0 ? (
+            <div className="flex flex-col items-center justify-center text-center p-6">
+              <Layers className="h-10 w-10 text-gray-400 mb-2" />
+              <p className="text-sm text-gray-500">Nenhuma versão salva ainda</p>
+            </div>
+          ) : (
+            <ul className="divide-y rounded-md border bg-white">
+              {revisions.map((revision, index) => {
+                const isCurrent = index === 0;
+                const isSelected = selectedId === revision.id;
+
+                return (
+                  <li key={revision.id} className="space-y-3 p-4">
+                    <div className="flex flex-wrap items-center gap-2 text-sm">
+                      <span className="font-medium">Versão {revision.version}</span>
+                      {isCurrent && <Badge variant="secondary">Atual</Badge>}
+                      <span className="text-gray-500">
+                        por {revision.author ? revision.author.displayName || revision.author.email : "registro anterior ao histórico"}
+                      </span>
+                      {revision.createdAt && (
+                        <span className="text-gray-500">· {new Date(revision.createdAt).toLocaleString("pt-PT")}</span>
+                      )}
+                      {!isCurrent && (
+                        <div className="ml-auto flex gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setSelectedId(isSelected ? null : revision.id)}
+                          >
+                            <GitCompare className="h-4 w-4 mr-1" />
+                            {isSelected ? "Ocultar diferenças" : "Comparar"}
+                          </Button>
+                          {canRestore && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setRevisionToRestore(revision)}
+                              disabled={restoreMutation.isPending}
+                            >
+                              <RotateCcw className="h-4 w-4 mr-1" />
+                              Restaurar esta versão
+                            </Button>
+                          )}
+                        </div>
+                      )}
+                    </div>
+
+                    {isSelected && <RevisionDiff revision={revision} />}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={revisionToRestore !== null} onOpenChange={open => !open && !restoreMutation.isPending && setRevisionToRestore(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restaurar a versão {revisionToRestore?.version}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Os dados atuais serão substituídos pelos desta versão. O estado atual continua
+              guardado no histórico e pode ser restaurado depois.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={restoreMutation.isPending}>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(event) => {
+                // Mantém o diálogo aberto até a restauração terminar
+                event.preventDefault();
+                if (revisionToRestore) restoreMutation.mutate(revisionToRestore);
+              }}
+              disabled={restoreMutation.isPending}
+            >
+              {restoreMutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Restaurando...
+                </>
+              ) : (
+                "Restaurar"
+              )}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,188 @@
+import { useEffect, useState } from "react";
+import { useLocation } from "wouter";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import {
+  Briefcase,
+  Building2,
+  CalendarDays,
+  History,
+  LayoutDashboard,
+  Plus,
+  Search,
+  Settings,
+  ShoppingBag,
+  Trash2,
+  User,
+  Users,
+  type LucideIcon,
+} from "lucide-react";
+
+import { API } from "@/lib/api";
+import { useCompany } from "@/hooks/use-company";
+import { useDebouncedValue } from "@/hooks/use-cursor-pagination";
+import { jobOfferStatusLabels } from "@/lib/job-offer-statuses";
+import { hasCompanyRole, normalizeSearchText, type SearchResult } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut,
+} from "@/components/ui/command";
+
+interface PalettePage {
+  href: string;
+  title: string;
+  icon: LucideIcon;
+  // Outras palavras que encontram a página
+  keywords?: string;
+  // Só aparece para quem pode criar registros
+  requiresEditor?: boolean;
+}
+
+const pages: PalettePage[] = [
+  { href: "/dashboard", title: "Dashboard", icon: LayoutDashboard, keywords: "início painel" },
+  { href: "/company-profile", title: "Empresa", icon: Building2, keywords: "perfil página pública" },
+  { href: "/company-profile/members", title: "Equipe", icon: Users, keywords: "membros convites" },
+  { href: "/services", title: "Serviços", icon: ShoppingBag },
+  { href: "/service/new", title: "Novo serviço", icon: Plus, keywords: "criar adicionar", requiresEditor: true },
+  { href: "/appointments", title: "Agenda", icon: CalendarDays, keywords: "agendamentos marcações calendário" },
+  { href: "/job-offers", title: "Vagas", icon: Briefcase, keywords: "emprego ofertas" },
+  { href: "/job-offer/new", title: "Nova vaga", icon: Plus, keywords: "criar adicionar", requiresEditor: true },
+  { href: "/activity", title: "Atividade", icon: History, keywords: "auditoria histórico" },
+  { href: "/trash", title: "Lixeira", icon: Trash2, keywords: "excluídos restaurar" },
+  { href: "/profile", title: "Meu Perfil", icon: User, keywords: "conta" },
+  { href: "/settings", title: "Configurações", icon: Settings, keywords: "preferências" },
+];
+
+// A busca no servidor só começa com 2 caracteres, o mínimo que a rota aceita
+const MIN_QUERY_LENGTH = 2;
+
+const resultPaths: Record<SearchResult["entityType"], string> = {
+  service: "/service",
+  job_offer: "/job-offer",
+};
+
+// Paleta de comandos (Ctrl+K / ⌘K): páginas do painel e busca nos serviços e vagas da empresa ativa
+export function CommandPalette() {
+  const [, setLocation] = useLocation();
+  const { activeCompany } = useCompany();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const debouncedQuery = useDebouncedValue(query.trim(), 200);
+  const canEdit = hasCompanyRole(activeCompany?.role, "editor");
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() === "k" && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault();
+        setOpen(current => !current);
+      }
+    };
+
+    document.addEventListener("keydown", onKeyDown);
+    return () => document.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  const searchEnabled = open && !!activeCompany && debouncedQuery.length >= MIN_QUERY_LENGTH;
+
+  const { data, isFetching } = useQuery({
+    queryKey: ['/api/companies', activeCompany?.id, 'search', debouncedQuery],
+    queryFn: () => API.searchCompany(activeCompany!.id, { q: debouncedQuery }),
+    enabled: searchEnabled,
+    placeholderData: keepPreviousData
+  });
+
+  const results = searchEnabled ? data?.results ?? [] : [];
+  const services = results.filter(result => result.entityType === "service");
+  const jobOffers = results.filter(result => result.entityType === "job_offer");
+
+  const normalizedQuery = normalizeSearchText(query.trim());
+  const matchingPages = pages.filter(page =>
+    (!page.requiresEditor || canEdit) &&
+    normalizeSearchText(`${page.title} ${page.keywords ?? ""}`).includes(normalizedQuery)
+  );
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (!nextOpen) setQuery("");
+  };
+
+  const goTo = (href: string) => {
+    handleOpenChange(false);
+    setLocation(href);
+  };
+
+  const renderResult = (result: SearchResult) => (
+    <CommandItem
+      key={`${result.entityType}:${result.id}`}
+      value={`${result.entityType}:${result.id}`}
+      onSelect={() => goTo(`${resultPaths[result.entityType]}/${result.id}`)}
+    >
+      {result.entityType === "service" ? <ShoppingBag /> : <Briefcase />}
+      <div className="min-w-0 flex-1">
+        <p className="truncate font-medium">{result.title}</p>
+        {result.snippet && <p className="truncate text-xs text-muted-foreground">{result.snippet}</p>}
+      </div>
+      {result.status && <CommandShortcut className="tracking-normal">{jobOfferStatusLabels[result.status]}</CommandShortcut>}
+    </CommandItem>
+  );
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        className="w-full justify-start text-gray-500 sm:w-64"
+        onClick={() => setOpen(true)}
+      >
+        <Search className="mr-2 h-4 w-4" />
+        Buscar...
+        <kbd className="ml-auto rounded border bg-gray-100 px-1.5 text-xs font-medium">Ctrl K</kbd>
+      </Button>
+
+      <CommandDialog
+        open={open}
+        onOpenChange={handleOpenChange}
+        // A busca já vem filtrada do servidor e as páginas são filtradas abaixo, sem diferenciar acentos
+        commandProps={{ shouldFilter: false }}
+      >
+        <CommandInput
+          placeholder="Buscar páginas, serviços e vagas..."
+          value={query}
+          onValueChange={setQuery}
+        />
+        <CommandList>
+          <CommandEmpty>
+            {isFetching ? "Buscando..." : "Nenhum resultado encontrado."}
+          </CommandEmpty>
+
+          {matchingPages.length > 0 && (
+            <CommandGroup heading="Páginas">
+              {matchingPages.map(page => (
+                <CommandItem key={page.href} value={`page:${page.href}`} onSelect={() => goTo(page.href)}>
+                  <page.icon />
+                  {page.title}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+
+          {services.length > 0 && (
+            <CommandGroup heading="Serviços">
+              {services.map(renderResult)}
+            </CommandGroup>
+          )}
+
+          {jobOffers.length > 0 && (
+            <CommandGroup heading="Vagas">
+              {jobOffers.map(renderResult)}
+            </CommandGroup>
+          )}
+        </CommandList>
+      </CommandDialog>
+    </>
+  );
+}
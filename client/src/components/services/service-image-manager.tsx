@@ -0,0 +1,255 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Loader2, Trash2, ImagePlus, Star, GripVertical } from "lucide-react";
+
+import { useToast } from "@/hooks/use-toast";
+import { API } from "@/lib/api";
+import { cn } from "@/lib/utils";
+import type { ServiceImageResponse } from "@shared/schema";
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+
+// Formatos aceitos pelo envio de imagens (o servidor converte tudo para WebP)
+const ACCEPTED_IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp"];
+const MAX_IMAGE_SIZE = 10 * 1024 * 1024; // 10MB
+
+// Miniatura gerada no envio; imagens antigas só têm a URL original
+const previewUrl = (image: ServiceImageResponse) => image.variants?.medium.url ?? image.url;
+
+interface ServiceImageManagerProps {
+  serviceId: number;
+  images: ServiceImageResponse[];
+}
+
+// Imagens do serviço: envio, ordem por arrastar e soltar, capa e texto alternativo
+export function ServiceImageManager({ serviceId, images }: ServiceImageManagerProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [orderedImages, setOrderedImages] = useState(images);
+  const [draggedId, setDraggedId] = useState<number | null>(null);
+
+  // A lista local acompanha o servidor sempre que o serviço é recarregado
+  useEffect(() => {
+    setOrderedImages(images);
+  }, [images]);
+
+  const showError = (description: string) => (error: Error) => {
+    toast({
+      title: "Erro",
+      description: error.message || description,
+      variant: "destructive",
+    });
+  };
+
+  const uploadMutation = useMutation({
+    mutationFn: (file: File) => API.uploadServiceImage(serviceId, file),
+    onSuccess: () => {
+      toast({
+        title: "Sucesso",
+        description: "Imagem enviada com sucesso!",
+      });
+    },
+    onError: showError("Não foi possível enviar a imagem"),
+    onSettled: () => {
+      // Reset file input
+      if (fileInputRef.current) {
+        fileInputRef.current.value = "";
+      }
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (imageId: number) => API.deleteServiceImage(serviceId, imageId),
+    onSuccess: () => {
+      toast({
+        title: "Sucesso",
+        description: "Imagem removida com sucesso!",
+      });
+    },
+    onError: showError("Não foi possível remover a imagem")
+  });
+
+  const coverMutation = useMutation({
+    mutationFn: (imageId: number) => API.updateServiceImage(serviceId, imageId, { isCover: true }),
+    onError: showError("Não foi possível definir a imagem de capa")
+  });
+
+  const altTextMutation = useMutation({
+    mutationFn: ({ imageId, altText }: { imageId: number; altText: string }) =>
+      API.updateServiceImage(serviceId, imageId, { altText: altText.trim() || null }),
+    onError: showError("Não foi possível salvar o texto alternativo")
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: (imageIds: number[]) => API.reorderServiceImages(serviceId, imageIds),
+    onError: (error: Error) => {
+      setOrderedImages(images);
+      showError("Não foi possível salvar a nova ordem")(error);
+    }
+  });
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) {
+      toast({
+        title: "Erro",
+        description: "Por favor, selecione uma imagem JPEG, PNG ou WebP",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (file.size > MAX_IMAGE_SIZE) {
+      toast({
+        title: "Erro",
+        description: "O tamanho máximo da imagem é 10MB",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    uploadMutation.mutate(file);
+  };
+
+  // Reordena localmente enquanto arrasta; a ordem só é gravada ao soltar
+  const handleDragOver = (e: React.DragEvent, targetId: number) => {
+    e.preventDefault();
+    if (draggedId === null || draggedId === targetId) return;
+
+    setOrderedImages(current => {
+      const from = current.findIndex(image => image.id === draggedId);
+      const to = current.findIndex(image => image.id === targetId);
+      const next = [...current];
+      next.splice(to, 0, ...next.splice(from, 1));
+      return next;
+    });
+  };
+
+  const handleDragEnd = () => {
+    setDraggedId(null);
+
+    const imageIds = orderedImages.map(image => image.id);
+    if (imageIds.some((id, index) => id !== images[index]?.id)) {
+      reorderMutation.mutate(imageIds);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <ImagePlus className="h-5 w-5 mr-2" />
+          Imagens do serviço
+        </CardTitle>
+        <CardDescription>
+          Adicione imagens para ilustrar o seu serviço. Arraste para mudar a ordem.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {/* Hidden file input */}
+        <input
+          type="file"
+          ref={fileInputRef}
+          onChange={handleFileChange}
+          accept={ACCEPTED_IMAGE_TYPES.join(",")}
+          className="hidden"
+        />
+
+        {/* Current images */}
+        {orderedImages.length > 0 ? (
+          <ul className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-4 mb-6">
+            {orderedImages.map((image, index) => (
+              <li
+                key={image.id}
+                draggable
+                onDragStart={() => setDraggedId(image.id)}
+                onDragOver={e => handleDragOver(e, image.id)}
+                onDragEnd={handleDragEnd}
+                className={cn(
+                  "space-y-2 rounded-md border p-2 bg-white",
+                  draggedId === image.id && "opacity-50"
+                )}
+              >
+                <div className="relative group">
+                  <img
+                    src={previewUrl(image)}
+                    alt={image.altText || `Imagem ${index + 1}`}
+                    className="aspect-video object-cover w-full rounded-md"
+                  />
+                  <GripVertical className="absolute left-1 top-1 h-5 w-5 cursor-grab rounded bg-white/80 text-gray-600" />
+                  {image.isCover && (
+                    <Badge className="absolute right-1 top-1">Capa</Badge>
+                  )}
+                  <div className="absolute inset-0 bg-black bg-opacity-40 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-2">
+                    {!image.isCover && (
+                      <Button
+                        variant="secondary"
+                        size="sm"
+                        onClick={() => coverMutation.mutate(image.id)}
+                        disabled={coverMutation.isPending}
+                      >
+                        <Star className="h-4 w-4 mr-1" />
+                        Capa
+                      </Button>
+                    )}
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      onClick={() => deleteMutation.mutate(image.id)}
+                      disabled={deleteMutation.isPending}
+                    >
+                      <Trash2 className="h-4 w-4 mr-1" />
+                      Remover
+                    </Button>
+                  </div>
+                </div>
+                <Input
+                  key={`${image.id}-${image.altText ?? ""}`}
+                  placeholder="Texto alternativo (descreva a imagem)"
+                  defaultValue={image.altText ?? ""}
+                  maxLength={255}
+                  onBlur={e => {
+                    if (e.target.value.trim() !== (image.altText ?? "")) {
+                      altTextMutation.mutate({ imageId: image.id, altText: e.target.value });
+                    }
+                  }}
+                />
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div className="flex flex-col items-center justify-center text-center p-6 border-2 border-dashed border-gray-300 rounded-md mb-6">
+            <ImagePlus className="h-10 w-10 text-gray-400 mb-2" />
+            <p className="text-sm text-gray-500">
+              Nenhuma imagem adicionada ainda
+            </p>
+          </div>
+        )}
+
+        {/* Upload button */}
+        <Button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={uploadMutation.isPending}
+          className="w-full"
+        >
+          {uploadMutation.isPending ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Enviando imagem...
+            </>
+          ) : (
+            <>
+              <ImagePlus className="mr-2 h-4 w-4" />
+              Adicionar imagem
+            </>
+          )}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,85 @@
+import { useState, type KeyboardEvent } from "react";
+import { X } from "lucide-react";
+
+import { serviceTagSchema } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+
+const MAX_TAGS = 20;
+
+interface ServiceTagsInputProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  // Etiquetas já usadas na empresa, sugeridas enquanto se escreve
+  suggestions?: string[];
+}
+
+/**
+ * Etiquetas livres do serviço. Enter ou vírgula acrescentam a etiqueta escrita,
+ * já no formato em que o servidor a grava; Backspace num campo vazio tira a última.
+ */
+export function ServiceTagsInput({ value, onChange, suggestions = [] }: ServiceTagsInputProps) {
+  const [draft, setDraft] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const addTag = (text: string) => {
+    const parsed = serviceTagSchema.safeParse(text);
+    if (!parsed.success) {
+      setError(text.trim() ? parsed.error.issues[0].message : null);
+      return;
+    }
+    if (!value.includes(parsed.data)) {
+      if (value.length >= MAX_TAGS) {
+        setError(`O serviço pode ter no máximo ${MAX_TAGS} etiquetas`);
+        return;
+      }
+      onChange([...value, parsed.data]);
+    }
+    setDraft("");
+    setError(null);
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Enter" || event.key === ",") {
+      event.preventDefault();
+      addTag(draft);
+    } else if (event.key === "Backspace" && !draft && value.length > 0) {
+      onChange(value.slice(0, -1));
+    }
+  };
+
+  const available = suggestions.filter(tag => !value.includes(tag));
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {value.map(tag => (
+            <Badge key={tag} variant="secondary" className="gap-1">
+              {tag}
+              <button
+                type="button"
+                onClick={() => onChange(value.filter(current => current !== tag))}
+                aria-label={`Remover etiqueta ${tag}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+      <Input
+        value={draft}
+        list="service-tag-suggestions"
+        placeholder="Escreva uma etiqueta e prima Enter"
+        onChange={event => setDraft(event.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={() => draft && addTag(draft)}
+      />
+      <datalist id="service-tag-suggestions">
+        {available.map(tag => <option key={tag} value={tag} />)}
+      </datalist>
+      {error && <p className="text-sm font-medium text-destructive">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,339 @@
+import { useState } from "react";
+import { Check, FileEdit, Loader2, Plus, Trash2, X } from "lucide-react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+
+import { API } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { getCategoryOptions, NO_CATEGORY, type CategoryOption } from "@/lib/service-categories";
+import { MAX_SERVICE_CATEGORY_DEPTH, type ServiceCategoryResponse } from "@shared/schema";
+import { getCategoryDescendantIds, getCategorySubtreeHeight } from "@shared/service-categories";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+interface ServiceTaxonomyDialogProps {
+  companyId: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Categoria ou etiqueta à espera de confirmação para ser excluída
+type PendingDelete =
+  | { kind: "category"; category: ServiceCategoryResponse }
+  | { kind: "tag"; tag: string };
+
+// Categorias que podem receber `category` (ou uma nova, sem subcategorias) sem passar do limite de níveis
+function getParentOptions(categories: ServiceCategoryResponse[], category?: ServiceCategoryResponse): CategoryOption[] {
+  const excluded = category ? getCategoryDescendantIds(categories, category.id) : [];
+  const height = category ? getCategorySubtreeHeight(categories, category.id) : 1;
+
+  return getCategoryOptions(categories).filter(option =>
+    !excluded.includes(option.category.id) && option.category.depth + 1 + height <= MAX_SERVICE_CATEGORY_DEPTH
+  );
+}
+
+const toParentId = (value: string) => value === NO_CATEGORY ? null : Number(value);
+
+/**
+ * Gestão das categorias (em árvore) e das etiquetas dos serviços da empresa.
+ * Excluir uma categoria passa as subcategorias e os serviços para a categoria
+ * superior; excluir uma etiqueta tira-a de todos os serviços.
+ */
+export function ServiceTaxonomyDialog({ companyId, open, onOpenChange }: ServiceTaxonomyDialogProps) {
+  const { toast } = useToast();
+  const [newName, setNewName] = useState("");
+  const [newParent, setNewParent] = useState(NO_CATEGORY);
+  const [editingCategory, setEditingCategory] = useState<{ id: number; name: string; parent: string } | null>(null);
+  const [editingTag, setEditingTag] = useState<{ tag: string; name: string } | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<PendingDelete | null>(null);
+
+  const { data: categories = [], isLoading: isLoadingCategories } = useQuery({
+    queryKey: ['/api/companies', companyId, 'service-categories'],
+    queryFn: () => API.getServiceCategories(companyId),
+    enabled: open
+  });
+
+  const { data: tags = [], isLoading: isLoadingTags } = useQuery({
+    queryKey: ['/api/companies', companyId, 'service-tags'],
+    queryFn: () => API.getServiceTags(companyId),
+    enabled: open
+  });
+
+  const showError = (fallback: string) => (error: Error) => {
+    toast({
+      title: "Erro",
+      description: error.message || fallback,
+      variant: "destructive"
+    });
+  };
+
+  const createCategoryMutation = useMutation({
+    mutationFn: () => API.createServiceCategory(companyId, { name: newName, parentId: toParentId(newParent) }),
+    onSuccess: (category) => {
+      toast({ title: "Sucesso", description: `Categoria "${category.name}" criada.` });
+      setNewName("");
+    },
+    onError: showError("Não foi possível criar a categoria")
+  });
+
+  const updateCategoryMutation = useMutation({
+    mutationFn: ({ id, name, parent }: { id: number; name: string; parent: string }) =>
+      API.updateServiceCategory(companyId, id, { name, parentId: toParentId(parent) }),
+    onSuccess: () => {
+      toast({ title: "Sucesso", description: "Categoria atualizada." });
+      setEditingCategory(null);
+    },
+    onError: showError("Não foi possível atualizar a categoria")
+  });
+
+  const renameTagMutation = useMutation({
+    mutationFn: ({ tag, name }: { tag: string; name: string }) => API.renameServiceTag(companyId, tag, name),
+    onSuccess: () => {
+      toast({ title: "Sucesso", description: "Etiqueta renomeada." });
+      setEditingTag(null);
+    },
+    onError: showError("Não foi possível renomear a etiqueta")
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (target: PendingDelete) => target.kind === "category"
+      ? API.deleteServiceCategory(companyId, target.category.id)
+      : API.deleteServiceTag(companyId, target.tag),
+    onSuccess: (_, target) => {
+      toast({
+        title: "Sucesso",
+        description: target.kind === "category" ? "Categoria excluída." : "Etiqueta removida dos serviços."
+      });
+    },
+    onError: showError("Não foi possível excluir"),
+    onSettled: () => setPendingDelete(null)
+  });
+
+  const options = getCategoryOptions(categories);
+  const newParentOptions = getParentOptions(categories);
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Categorias e etiquetas</DialogTitle>
+            <DialogDescription>
+              Organize os serviços em categorias de até {MAX_SERVICE_CATEGORY_DEPTH} níveis e reveja as etiquetas em uso.
+            </DialogDescription>
+          </DialogHeader>
+
+          <Tabs defaultValue="categories" className="space-y-4">
+            <TabsList>
+              <TabsTrigger value="categories">Categorias</TabsTrigger>
+              <TabsTrigger value="tags">Etiquetas</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="categories" className="space-y-4">
+              <form
+                className="flex flex-col gap-2 sm:flex-row"
+                onSubmit={event => {
+                  event.preventDefault();
+                  if (newName.trim()) createCategoryMutation.mutate();
+                }}
+              >
+                <Input
+                  value={newName}
+                  onChange={event => setNewName(event.target.value)}
+                  placeholder="Nome da nova categoria"
+                  maxLength={100}
+                />
+                <Select value={newParent} onValueChange={setNewParent}>
+                  <SelectTrigger className="sm:w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_CATEGORY}>Categoria principal</SelectItem>
+                    {newParentOptions.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button type="submit" disabled={!newName.trim() || createCategoryMutation.isPending}>
+                  {createCategoryMutation.isPending
+                    ? <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                    : <Plus className="mr-1 h-4 w-4" />}
+                  Adicionar
+                </Button>
+              </form>
+
+              {isLoadingCategories ? (
+                <div className="flex justify-center py-4">
+                  <Loader2 className="h-5 w-5 animate-spin text-gray-500" />
+                </div>
+              ) : options.length === 0 ? (
+                <p className="py-4 text-center text-sm text-gray-500">Ainda não há categorias.</p>
+              ) : (
+                <ul className="max-h-80 divide-y overflow-y-auto">
+                  {options.map(({ category }) => editingCategory?.id === category.id ? (
+                    <li key={category.id} className="flex flex-col gap-2 py-2 sm:flex-row">
+                      <Input
+                        value={editingCategory.name}
+                        onChange={event => setEditingCategory({ ...editingCategory, name: event.target.value })}
+                        maxLength={100}
+                        autoFocus
+                      />
+                      <Select
+                        value={editingCategory.parent}
+                        onValueChange={parent => setEditingCategory({ ...editingCategory, parent })}
+                      >
+                        <SelectTrigger className="sm:w-56">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NO_CATEGORY}>Categoria principal</SelectItem>
+                          {getParentOptions(categories, category).map(option => (
+                            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <div className="flex gap-1">
+                        <Button
+                          size="icon"
+                          aria-label="Salvar categoria"
+                          disabled={!editingCategory.name.trim() || updateCategoryMutation.isPending}
+                          onClick={() => updateCategoryMutation.mutate(editingCategory)}
+                        >
+                          <Check className="h-4 w-4" />
+                        </Button>
+                        <Button size="icon" variant="ghost" aria-label="Cancelar" onClick={() => setEditingCategory(null)}>
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </li>
+                  ) : (
+                    <li key={category.id} className="flex items-center gap-2 py-2" style={{ paddingLeft: `${category.depth * 1.5}rem` }}>
+                      <span className="flex-1 truncate">{category.name}</span>
+                      <Badge variant="outline">{category.serviceCount} serviço(s)</Badge>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        aria-label={`Editar ${category.name}`}
+                        onClick={() => setEditingCategory({
+                          id: category.id,
+                          name: category.name,
+                          parent: category.parentId !== null ? String(category.parentId) : NO_CATEGORY
+                        })}
+                      >
+                        <FileEdit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        aria-label={`Excluir ${category.name}`}
+                        onClick={() => setPendingDelete({ kind: "category", category })}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </TabsContent>
+
+            <TabsContent value="tags" className="space-y-4">
+              <p className="text-sm text-gray-500">
+                As etiquetas escrevem-se em cada serviço. Renomear para uma etiqueta que já existe junta as duas.
+              </p>
+
+              {isLoadingTags ? (
+                <div className="flex justify-center py-4">
+                  <Loader2 className="h-5 w-5 animate-spin text-gray-500" />
+                </div>
+              ) : tags.length === 0 ? (
+                <p className="py-4 text-center text-sm text-gray-500">Nenhum serviço tem etiquetas.</p>
+              ) : (
+                <ul className="max-h-80 divide-y overflow-y-auto">
+                  {tags.map(({ tag, serviceCount }) => editingTag?.tag === tag ? (
+                    <li key={tag} className="flex gap-2 py-2">
+                      <Input
+                        value={editingTag.name}
+                        onChange={event => setEditingTag({ ...editingTag, name: event.target.value })}
+                        maxLength={30}
+                        autoFocus
+                      />
+                      <Button
+                        size="icon"
+                        aria-label="Salvar etiqueta"
+                        disabled={!editingTag.name.trim() || renameTagMutation.isPending}
+                        onClick={() => renameTagMutation.mutate(editingTag)}
+                      >
+                        <Check className="h-4 w-4" />
+                      </Button>
+                      <Button size="icon" variant="ghost" aria-label="Cancelar" onClick={() => setEditingTag(null)}>
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </li>
+                  ) : (
+                    <li key={tag} className="flex items-center gap-2 py-2">
+                      <Badge variant="secondary">{tag}</Badge>
+                      <span className="flex-1 text-sm text-gray-500">{serviceCount} serviço(s)</span>
+                      <Button size="icon" variant="ghost" aria-label={`Renomear ${tag}`} onClick={() => setEditingTag({ tag, name: tag })}>
+                        <FileEdit className="h-4 w-4" />
+                      </Button>
+                      <Button size="icon" variant="ghost" aria-label={`Excluir ${tag}`} onClick={() => setPendingDelete({ kind: "tag", tag })}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </TabsContent>
+          </Tabs>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={pendingDelete !== null} onOpenChange={open => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingDelete?.kind === "category"
+                ? `Excluir a categoria "${pendingDelete.category.name}"?`
+                : `Remover a etiqueta "${pendingDelete?.kind === "tag" ? pendingDelete.tag : ""}"?`}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingDelete?.kind === "category"
+                ? "As subcategorias e os serviços desta categoria passam para a categoria superior."
+                : "A etiqueta é retirada de todos os serviços que a usam."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={deleteMutation.isPending}>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => pendingDelete && deleteMutation.mutate(pendingDelete)}
+              disabled={deleteMutation.isPending}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              {deleteMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -7,15 +7,18 @@ import {
   logoutUser, 
   resetPassword,
   updateUserProfile,
-  getUserData
+  reauthenticate as reauthenticateUser,
+  changePassword as changeUserPassword
 } from '@/lib/firebase';
+import { API } from '@/lib/api';
+import type { UserResponse } from '@shared/schema';
 import { onAuthStateChanged, User as FirebaseUser } from 'firebase/auth';
 import { User } from '@/types/user';
 import { useToast } from '@/hooks/use-toast';
 
 interface AuthContextType {
   user: User | null;
-  userData: Record<string, any> | null;
+  userData: UserResponse | null;
   loading: boolean;
   login: (email: string, password: string) => Promise<void>;
   register: (email: string, password: string, name: string) => Promise<void>;
@@ -23,13 +26,16 @@ interface AuthContextType {
   logout: () => Promise<void>;
   resetPassword: (email: string) => Promise<void>;
   updateProfile: (data: { displayName?: string, photoURL?: string }) => Promise<void>;
+  changePassword: (currentPassword: string, newPassword: string) => Promise<void>;
+  reauthenticate: (password?: string) => Promise<void>;
+  reloadUserData: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<FirebaseUser | null>(null);
-  const [userData, setUserData] = useState<Record<string, any> | null>(null);
+  const [userData, setUserData] = useState<UserResponse | null>(null);
   const [loading, setLoading] = useState(true);
   const { toast } = useToast();
 
@@ -39,7 +45,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       
       if (firebaseUser) {
         try {
-          const data = await getUserData(firebaseUser.uid);
+          const data = await API.getCurrentUser();
           setUserData(data);
         } catch (error) {
           console.error('Error fetching user data:', error);
@@ -80,6 +86,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const register = async (email: string, password: string, name: string) => {
     try {
       await registerWithEmail(email, password, name);
+      
+      // O perfil pode ter sido criado antes de o nome chegar ao Firebase Auth
+      await API.updateProfile({ displayName: name });
+      setUserData(await API.getCurrentUser());
     } catch (error: any) {
       console.error('Registration error:', error);
       
@@ -163,6 +173,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     
     try {
       await updateUserProfile(user, data);
+      await API.updateProfile(data);
       
       // Update local user data
       setUserData((prevData) => prevData ? { ...prevData, ...data } : null);
@@ -184,6 +195,23 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  // Os erros ficam com quem chama: a senha atual errada aparece no próprio formulário
+  const changePassword = async (currentPassword: string, newPassword: string) => {
+    if (!user) return;
+    
+    await changeUserPassword(user, currentPassword, newPassword);
+  };
+
+  const reauthenticate = async (password?: string) => {
+    if (!user) return;
+    
+    await reauthenticateUser(user, password);
+  };
+
+  const reloadUserData = async () => {
+    setUserData(await API.getCurrentUser());
+  };
+
   const authValue = {
     user,
     userData,
@@ -194,6 +222,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     logout,
     resetPassword: forgotPassword,
     updateProfile: updateUserProfileData,
+    changePassword,
+    reauthenticate,
+    reloadUserData,
   };
 
   return (
@@ -0,0 +1,62 @@
+import { createContext, useContext, useState, ReactNode } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import type { CompanyWithRoleResponse } from '@shared/schema';
+import { API } from '@/lib/api';
+import { useAuth } from '@/hooks/use-auth';
+
+// Empresa ativa guardada entre sessões no mesmo navegador
+const ACTIVE_COMPANY_KEY = 'activeCompanyId';
+
+interface CompanyContextType {
+  companies: CompanyWithRoleResponse[];
+  activeCompany: CompanyWithRoleResponse | null;
+  setActiveCompanyId: (companyId: number) => void;
+  isLoading: boolean;
+}
+
+const CompanyContext = createContext<CompanyContextType | undefined>(undefined);
+
+const readStoredCompanyId = (): number | null => {
+  const stored = localStorage.getItem(ACTIVE_COMPANY_KEY);
+  return stored ? Number(stored) : null;
+};
+
+export function CompanyProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const [activeCompanyId, setActiveId] = useState<number | null>(readStoredCompanyId);
+
+  const { data: companies = [], isLoading } = useQuery({
+    queryKey: ['/api/companies'],
+    queryFn: API.getCompanies,
+    enabled: !!user
+  });
+
+  // Se a empresa guardada deixou de estar acessível, usa a primeira da lista
+  const activeCompany = companies.find(company => company.id === activeCompanyId) ?? companies[0] ?? null;
+
+  const setActiveCompanyId = (companyId: number) => {
+    localStorage.setItem(ACTIVE_COMPANY_KEY, String(companyId));
+    setActiveId(companyId);
+  };
+
+  const companyValue = {
+    companies,
+    activeCompany,
+    setActiveCompanyId,
+    isLoading: !!user && isLoading,
+  };
+
+  return (
+    <CompanyContext.Provider value={companyValue}>
+      {children}
+    </CompanyContext.Provider>
+  );
+}
+
+export function useCompany() {
+  const context = useContext(CompanyContext);
+  if (context === undefined) {
+    throw new Error('useCompany must be used within a CompanyProvider');
+  }
+  return context;
+}
@@ -0,0 +1,36 @@
+import { useEffect, useState } from "react";
+
+/**
+ * Pilha de cursores das páginas já visitadas de uma lista paginada por cursor.
+ *
+ * O servidor só sabe ir para a frente, por isso o cursor de cada página aberta
+ * fica guardado para o botão "Anterior". Quando os filtros mudam (resetKey),
+ * a lista volta para a primeira página.
+ */
+export function useCursorPagination(resetKey: string) {
+  const [state, setState] = useState<{ key: string; cursors: (string | undefined)[] }>({
+    key: resetKey,
+    cursors: [undefined],
+  });
+
+  const cursors = state.key === resetKey ? state.cursors : [undefined];
+
+  return {
+    cursor: cursors[cursors.length - 1],
+    page: cursors.length,
+    goToNext: (nextCursor: string) => setState({ key: resetKey, cursors: [...cursors, nextCursor] }),
+    goToPrevious: () => setState({ key: resetKey, cursors: cursors.slice(0, -1) }),
+  };
+}
+
+// Valor que só acompanha o original depois de um intervalo sem mudanças (campos de busca)
+export function useDebouncedValue<T>(value: T, delayMs = 300): T {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebounced(value), delayMs);
+    return () => clearTimeout(timeout);
+  }, [value, delayMs]);
+
+  return debounced;
+}
@@ -1,228 +1,566 @@
-import { queryClient, getQueryFn, getQueryFnLegacy } from "./queryClient";
+import { queryClient } from "./queryClient";
+import { getAuth } from 'firebase/auth';
+import { z } from 'zod';
+import {
+  apiContracts,
+  buildPath,
+  type ApiContract,
+  type ContractBody,
+  type ContractQuery,
+  type ContractResponse,
+  type Jsonable,
+  type PathParams,
+} from '@shared/api-contracts';
+// Tipos de domínio compartilhados com o servidor
+import type {
+  CompanyInput,
+  CompanyRole,
+  ServiceInput,
+  ServiceCategoryInput,
+  UpdateServiceImageInput,
+  JobOfferInput,
+  JobOfferResponse,
+  AuditLogQuery,
+  ServiceListQuery,
+  JobOfferListQuery,
+  RevisionEntityType,
+  RevisionResponse,
+  SearchQuery,
+  ApplicationStage,
+  AppointmentListQuery,
+  AppointmentResponse,
+  UpdateProfileInput,
+} from '@shared/schema';
 
-// Helpers
-const jsonHeaders = {
-  "Content-Type": "application/json",
-};
-
-export async function apiGet<T>(url: string): Promise<T> {
-  const response = await fetch(url, {
-    method: "GET",
-    headers: {
-      ...jsonHeaders,
-    },
-  });
+// Parâmetros do caminho, corpo e query de um pedido, conforme o contrato da rota
+type RequestOptions<C extends ApiContract> =
+  (keyof PathParams<C["path"]> extends never ? { params?: undefined } : { params: PathParams<C["path"]> }) &
+  ([ContractBody<C>] extends [never] ? { body?: undefined } : { body: Jsonable<ContractBody<C>> }) &
+  ([ContractQuery<C>] extends [never] ? { query?: undefined } : { query?: Partial<Jsonable<ContractQuery<C>>> });
 
-  if (!response.ok) {
-    throw new Error(`API error: ${response.status}`);
+// Interceptador para incluir token em todas as requisições
+const fetchWithAuth = async (url: string, options: RequestInit = {}) => {
+  const auth = getAuth();
+  if (!auth.currentUser) {
+    throw new Error('No user is currently signed in');
   }
 
-  return response.json();
-}
+  const token = await auth.currentUser.getIdToken();
 
-export async function apiPost<T>(url: string, data: any): Promise<T> {
-  const response = await fetch(url, {
-    method: "POST",
-    headers: {
-      ...jsonHeaders,
-    },
-    body: JSON.stringify(data),
+  // Com FormData o navegador define o Content-Type com o boundary do multipart
+  const headers: HeadersInit = {
+    ...(options.body instanceof FormData ? {} : { 'Content-Type': 'application/json' }),
+    'Accept': 'application/json',
+    ...(options?.headers || {}),
+    'Authorization': `Bearer ${token}`
+  };
+
+  const fullUrl = url.startsWith('http') ? url : `${import.meta.env.VITE_API_BASE_URL || ''}${url}`;
+
+  const response = await fetch(fullUrl, {
+    ...options,
+    headers,
+    credentials: 'include', // Importante para cookies de sessão
   });
 
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}));
-    throw new Error(errorData.message || `API error: ${response.status}`);
+  // Se recebermos um 401, tente renovar o token e repita a requisição
+  if (response.status === 401) {
+    const newToken = await auth.currentUser?.getIdToken(true);
+    if (newToken && newToken !== token) {
+      return fetch(fullUrl, {
+        ...options,
+        headers: { ...headers, 'Authorization': `Bearer ${newToken}` },
+        credentials: 'include',
+      });
+    }
   }
 
-  return response.json();
+  return response;
+};
+
+// Corpo de erro das rotas (ver ApiErrorResponse); o que vier fora do formato, como
+// a página HTML de um proxy, é tratado como corpo vazio
+const apiErrorBodySchema = z.object({
+  message: z.string().optional(),
+  error: z.unknown().optional(),
+  errors: z.array(z.unknown()).optional(),
+});
+
+export type ApiErrorBody = z.infer<typeof apiErrorBodySchema>;
+
+// Erro de uma resposta da API, com o status HTTP e o corpo devolvido
+export class ApiError extends Error {
+  constructor(message: string, readonly status: number, readonly data: ApiErrorBody) {
+    super(message);
+    this.name = 'ApiError';
+  }
 }
 
-export async function apiPut<T>(url: string, data: any): Promise<T> {
-  const response = await fetch(url, {
-    method: "PUT",
-    headers: {
-      ...jsonHeaders,
-    },
-    body: JSON.stringify(data),
-  });
+// Função auxiliar para tratamento de erros da API
+async function handleApiError(response: Response): Promise<never> {
+  let errorMessage = `Erro na requisição: ${response.status} ${response.statusText}`;
+  const body: unknown = await response.json().catch(() => undefined);
+  const parsed = apiErrorBodySchema.safeParse(body);
+  const errorData: ApiErrorBody = parsed.success ? parsed.data : {};
 
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}));
-    throw new Error(errorData.message || `API error: ${response.status}`);
+  // Tenta extrair uma mensagem de erro útil
+  if (errorData.message) {
+    errorMessage = errorData.message;
+  } else if (errorData.error) {
+    errorMessage = typeof errorData.error === 'string'
+      ? errorData.error
+      : JSON.stringify(errorData.error);
   }
 
-  return response.json();
+  throw new ApiError(errorMessage, response.status, errorData);
 }
 
-export async function apiDelete<T>(url: string): Promise<T> {
-  const response = await fetch(url, {
-    method: "DELETE",
-    headers: {
-      ...jsonHeaders,
-    },
+// Query string com os filtros preenchidos; os vazios ficam de fora e as datas vão em ISO
+const toQueryString = (params: object) => {
+  const query = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value === undefined || value === '') return;
+    query.set(key, value instanceof Date ? value.toISOString() : String(value));
+  });
+  const text = query.toString();
+  return text ? `?${text}` : '';
+};
+
+// URL da rota do contrato, com os parâmetros e a query
+const toUrl = <C extends ApiContract>(contract: C, options: RequestOptions<C>) =>
+  buildPath(contract.path, (options.params ?? {}) as PathParams<C["path"]>) + toQueryString(options.query ?? {});
+
+// Pedido a uma rota da API; o corpo, a query e a resposta seguem o contrato partilhado com o servidor
+async function request<C extends ApiContract>(contract: C, options: RequestOptions<C>): Promise<ContractResponse<C>> {
+  const response = await fetchWithAuth(toUrl(contract, options), {
+    method: contract.method,
+    body: options.body === undefined ? undefined : JSON.stringify(options.body),
   });
 
   if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}));
-    throw new Error(errorData.message || `API error: ${response.status}`);
+    await handleApiError(response);
   }
 
   return response.json();
 }
 
+// Atualiza a lista da empresa e o detalhe depois de mudar o estado da vaga
+const invalidateJobOffer = (jobOffer: JobOfferResponse) => {
+  queryClient.invalidateQueries({ queryKey: ['/api/companies', jobOffer.companyId, 'job-offers'] });
+  queryClient.invalidateQueries({ queryKey: ['/api/job-offers', jobOffer.id] });
+};
+
+// Atualiza a agenda da empresa e o detalhe depois de mudar um agendamento
+const invalidateAppointment = (appointment: AppointmentResponse) => {
+  queryClient.invalidateQueries({ queryKey: ['/api/companies', appointment.companyId, 'appointments'] });
+  queryClient.invalidateQueries({ queryKey: ['/api/services', appointment.serviceId, 'slots'] });
+  queryClient.setQueryData(['/api/appointments', appointment.id], appointment);
+};
+
+// Categorias e etiquetas mostram quantos serviços têm; mudam quando um serviço é gravado
+const invalidateServiceTaxonomy = (companyId: number) => {
+  queryClient.invalidateQueries({ queryKey: ['/api/companies', companyId, 'service-categories'] });
+  queryClient.invalidateQueries({ queryKey: ['/api/companies', companyId, 'service-tags'] });
+};
+
+// Rota de cada tipo de registro com histórico de versões
+const revisionContracts = {
+  company: apiContracts.getCompanyRevisions,
+  service: apiContracts.getServiceRevisions,
+  job_offer: apiContracts.getJobOfferRevisions,
+} satisfies Record<RevisionEntityType, ApiContract>;
+
+// Prefixo das query keys do editor de cada tipo de registro
+const revisionQueryPaths: Record<RevisionEntityType, string> = {
+  company: '/api/companies',
+  service: '/api/services',
+  job_offer: '/api/job-offers',
+};
+
 // API endpoints
 export const API = {
+  // User
+  // Perfil guardado pelo servidor; criado no primeiro pedido depois do login
+  getCurrentUser: () => request(apiContracts.getCurrentUser, {}),
+
+  updateProfile: (data: UpdateProfileInput) => request(apiContracts.updateProfile, { body: data }),
+
+  // Sem immediate, a conta só é excluída depois do prazo de arrependimento
+  deleteAccount: (immediate: boolean) => request(apiContracts.deleteAccount, { body: { immediate } }),
+
+  cancelAccountDeletion: () => request(apiContracts.cancelAccountDeletion, {}),
+
+  // Exportação dos dados (RGPD): o pedido devolve a exportação em curso ou começa outra
+  requestDataExport: async () => {
+    const dataExport = await request(apiContracts.requestDataExport, {});
+    queryClient.setQueryData(['/api/user/export/latest'], dataExport);
+    return dataExport;
+  },
+
+  getLatestDataExport: () => request(apiContracts.getLatestDataExport, {}),
+
+  // Como o CV, o ZIP exige o token e é baixado como Blob
+  downloadDataExport: async (id: number): Promise<Blob> => {
+    const response = await fetchWithAuth(`/api/user/export/${id}/download`, { method: "GET" });
+
+    if (!response.ok) {
+      await handleApiError(response);
+    }
+
+    return response.blob();
+  },
+
   // Companies
-  getCompanies: () => {
-    const fetcher = getQueryFn({
-      path: '/api/companies',
-      on401: 'throw',
-    });
-    return fetcher();
-  },
-  
-  getCompany: (id: number) => {
-    const fetcher = getQueryFn({
-      path: `/api/companies/${id}`,
-      on401: 'throw',
-    });
-    return fetcher();
-  },
-  
-  createCompany: async (data: any) => {
-    const newCompany = await apiPost('/api/companies', data);
+  // O servidor devolve a lista diretamente, já com o papel do usuário em cada empresa
+  getCompanies: () => request(apiContracts.getCompanies, {}),
+
+  getCompany: (id: number) => request(apiContracts.getCompany, { params: { id } }),
+
+  createCompany: async (data: CompanyInput) => {
+    const company = await request(apiContracts.createCompany, { body: data });
     queryClient.invalidateQueries({ queryKey: ['/api/companies'] });
-    return newCompany;
+    return company;
   },
-  
-  updateCompany: async (id: number, data: any) => {
-    const updated = await apiPut(`/api/companies/${id}`, data);
+
+  updateCompany: async (id: number, data: Partial<CompanyInput>) => {
+    const updated = await request(apiContracts.updateCompany, { params: { id }, body: data });
     queryClient.invalidateQueries({ queryKey: ['/api/companies'] });
-    queryClient.invalidateQueries({ queryKey: ['/api/companies', id] });
+    // O horário padrão da empresa vale para os serviços sem horário próprio
+    if (data.openingHours !== undefined) {
+      queryClient.invalidateQueries({ queryKey: ['/api/services'] });
+    }
     return updated;
   },
-  
+
+  deleteCompany: async (id: number) => {
+    const result = await request(apiContracts.deleteCompany, { params: { id } });
+    queryClient.invalidateQueries({ queryKey: ['/api/companies'] });
+    return result;
+  },
+
   // Services
-  getCompanyServices: (companyId: number) => {
-    const fetcher = getQueryFn({
-      path: `/api/companies/${companyId}/services`,
-      on401: 'throw',
-    });
-    return fetcher();
-  },
-  
-  getService: (id: number) => {
-    const fetcher = getQueryFn({
-      path: `/api/services/${id}`,
-      on401: 'throw',
-    });
-    return fetcher();
-  },
-  
-  createService: async (companyId: number, data: any) => {
-    const newService = await apiPost(`/api/companies/${companyId}/services`, data);
-    queryClient.invalidateQueries({ queryKey: [`/api/companies/${companyId}/services`] });
+  // Uma página por vez; para a próxima, repasse o nextCursor da resposta
+  getCompanyServices: (companyId: number, params: Partial<ServiceListQuery> = {}) =>
+    request(apiContracts.getCompanyServices, { params: { companyId }, query: params }),
+
+  getService: (id: number) => request(apiContracts.getService, { params: { id } }),
+
+  // Horário que vale para o serviço, se está aberto agora e os feriados e exceções das próximas semanas
+  getServiceAvailability: (id: number) => request(apiContracts.getServiceAvailability, { params: { id } }),
+
+  createService: async (companyId: number, data: ServiceInput) => {
+    const newService = await request(apiContracts.createService, { params: { companyId }, body: data });
+    queryClient.invalidateQueries({ queryKey: ['/api/companies', companyId, 'services'] });
+    invalidateServiceTaxonomy(companyId);
     return newService;
   },
-  
-  updateService: async (id: number, data: any) => {
-    const updated = await apiPut(`/api/services/${id}`, data);
-    // Get the updated service
-    const fetcher = getQueryFn({
-      path: `/api/services/${id}`,
-      on401: 'throw',
-    });
-    const service = await fetcher();
-    
-    if (service && 'companyId' in service) {
-      queryClient.invalidateQueries({ queryKey: [`/api/companies/${service.companyId}/services`] });
-    }
+
+  updateService: async (id: number, data: Partial<ServiceInput>) => {
+    const updated = await request(apiContracts.updateService, { params: { id }, body: data });
+    queryClient.invalidateQueries({ queryKey: ['/api/companies', updated.companyId, 'services'] });
+    invalidateServiceTaxonomy(updated.companyId);
     queryClient.invalidateQueries({ queryKey: ['/api/services', id] });
     return updated;
   },
-  
+
   deleteService: async (id: number) => {
     // Get the service first to know which company it belongs to
-    const fetcher = getQueryFn({
-      path: `/api/services/${id}`,
-      on401: 'throw',
-    });
-    const service = await fetcher();
-    
-    const result = await apiDelete(`/api/services/${id}`);
-    
-    if (service && 'companyId' in service) {
-      queryClient.invalidateQueries({ queryKey: [`/api/companies/${service.companyId}/services`] });
-    }
+    const service = await request(apiContracts.getService, { params: { id } });
+
+    const result = await request(apiContracts.deleteService, { params: { id } });
+
+    queryClient.invalidateQueries({ queryKey: ['/api/companies', service.companyId, 'services'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/companies', service.companyId, 'trash'] });
+    return result;
+  },
+
+  // Service Categories
+  getServiceCategories: (companyId: number) => request(apiContracts.getServiceCategories, { params: { companyId } }),
+
+  createServiceCategory: async (companyId: number, data: ServiceCategoryInput) => {
+    const category = await request(apiContracts.createServiceCategory, { params: { companyId }, body: data });
+    queryClient.invalidateQueries({ queryKey: ['/api/companies', companyId, 'service-categories'] });
+    return category;
+  },
+
+  updateServiceCategory: async (companyId: number, id: number, data: Partial<ServiceCategoryInput>) => {
+    const category = await request(apiContracts.updateServiceCategory, { params: { id }, body: data });
+    queryClient.invalidateQueries({ queryKey: ['/api/companies', companyId, 'service-categories'] });
+    return category;
+  },
+
+  // Subcategorias e serviços passam para a categoria superior
+  deleteServiceCategory: async (companyId: number, id: number) => {
+    const result = await request(apiContracts.deleteServiceCategory, { params: { id } });
+    queryClient.invalidateQueries({ queryKey: ['/api/companies', companyId, 'service-categories'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/companies', companyId, 'services'] });
     return result;
   },
-  
+
+  // Service Tags
+  getServiceTags: (companyId: number) => request(apiContracts.getServiceTags, { params: { companyId } }),
+
+  // Renomear para uma etiqueta existente junta as duas
+  renameServiceTag: async (companyId: number, tag: string, name: string) => {
+    const tags = await request(apiContracts.renameServiceTag, { params: { companyId, tag }, body: { name } });
+    queryClient.setQueryData(['/api/companies', companyId, 'service-tags'], tags);
+    queryClient.invalidateQueries({ queryKey: ['/api/companies', companyId, 'services'] });
+    return tags;
+  },
+
+  deleteServiceTag: async (companyId: number, tag: string) => {
+    const result = await request(apiContracts.deleteServiceTag, { params: { companyId, tag } });
+    queryClient.invalidateQueries({ queryKey: ['/api/companies', companyId, 'service-tags'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/companies', companyId, 'services'] });
+    return result;
+  },
+
   // Service Images
   addServiceImage: async (serviceId: number, imageUrl: string) => {
-    const newImage = await apiPost(`/api/services/${serviceId}/images`, { url: imageUrl });
+    const newImage = await request(apiContracts.addServiceImage, { params: { serviceId }, body: { url: imageUrl } });
     queryClient.invalidateQueries({ queryKey: ['/api/services', serviceId] });
     return newImage;
   },
-  
-  deleteServiceImage: async (imageId: number) => {
-    const result = await apiDelete(`/api/service-images/${imageId}`);
-    // We don't know which service the image belongs to here, so we can't invalidate specifically
+
+  uploadServiceImage: async (serviceId: number, file: File): Promise<ContractResponse<typeof apiContracts.uploadServiceImage>> => {
+    const body = new FormData();
+    body.append("image", file);
+
+    const response = await fetchWithAuth(buildPath(apiContracts.uploadServiceImage.path, { serviceId }), { method: "POST", body });
+
+    if (!response.ok) {
+      await handleApiError(response);
+    }
+
+    queryClient.invalidateQueries({ queryKey: ['/api/services', serviceId] });
+    return response.json();
+  },
+
+  updateServiceImage: async (serviceId: number, imageId: number, data: UpdateServiceImageInput) => {
+    const updated = await request(apiContracts.updateServiceImage, { params: { id: imageId }, body: data });
+    queryClient.invalidateQueries({ queryKey: ['/api/services', serviceId] });
+    return updated;
+  },
+
+  reorderServiceImages: async (serviceId: number, imageIds: number[]) => {
+    const images = await request(apiContracts.reorderServiceImages, { params: { serviceId }, body: { imageIds } });
+    queryClient.invalidateQueries({ queryKey: ['/api/services', serviceId] });
+    return images;
+  },
+
+  deleteServiceImage: async (serviceId: number, imageId: number) => {
+    const result = await request(apiContracts.deleteServiceImage, { params: { id: imageId } });
+    queryClient.invalidateQueries({ queryKey: ['/api/services', serviceId] });
     return result;
   },
-  
+
   // Job Offers
-  getCompanyJobOffers: (companyId: number) => {
-    const fetcher = getQueryFn({
-      path: `/api/companies/${companyId}/job-offers`,
-      on401: 'throw',
-    });
-    return fetcher();
-  },
-  
-  getJobOffer: (id: number) => {
-    const fetcher = getQueryFn({
-      path: `/api/job-offers/${id}`,
-      on401: 'throw',
-    });
-    return fetcher();
-  },
-  
-  createJobOffer: async (companyId: number, data: any) => {
-    const newJobOffer = await apiPost(`/api/companies/${companyId}/job-offers`, data);
-    queryClient.invalidateQueries({ queryKey: [`/api/companies/${companyId}/job-offers`] });
+  getCompanyJobOffers: (companyId: number, params: Partial<JobOfferListQuery> = {}) =>
+    request(apiContracts.getCompanyJobOffers, { params: { companyId }, query: params }),
+
+  getJobOffer: (id: number) => request(apiContracts.getJobOffer, { params: { id } }),
+
+  createJobOffer: async (companyId: number, data: JobOfferInput) => {
+    const newJobOffer = await request(apiContracts.createJobOffer, { params: { companyId }, body: data });
+    queryClient.invalidateQueries({ queryKey: ['/api/companies', companyId, 'job-offers'] });
     return newJobOffer;
   },
-  
-  updateJobOffer: async (id: number, data: any) => {
-    const updated = await apiPut(`/api/job-offers/${id}`, data);
-    
-    // Get the updated job offer
-    const fetcher = getQueryFn({
-      path: `/api/job-offers/${id}`,
-      on401: 'throw',
-    });
-    const jobOffer = await fetcher();
-    
-    if (jobOffer && 'companyId' in jobOffer) {
-      queryClient.invalidateQueries({ queryKey: [`/api/companies/${jobOffer.companyId}/job-offers`] });
-    }
+
+  updateJobOffer: async (id: number, data: Partial<JobOfferInput>) => {
+    const updated = await request(apiContracts.updateJobOffer, { params: { id }, body: data });
+    queryClient.invalidateQueries({ queryKey: ['/api/companies', updated.companyId, 'job-offers'] });
     queryClient.invalidateQueries({ queryKey: ['/api/job-offers', id] });
     return updated;
   },
-  
+
+  publishJobOffer: async (id: number) => {
+    const jobOffer = await request(apiContracts.publishJobOffer, { params: { id } });
+    invalidateJobOffer(jobOffer);
+    return jobOffer;
+  },
+
+  unpublishJobOffer: async (id: number) => {
+    const jobOffer = await request(apiContracts.unpublishJobOffer, { params: { id } });
+    invalidateJobOffer(jobOffer);
+    return jobOffer;
+  },
+
+  closeJobOffer: async (id: number) => {
+    const jobOffer = await request(apiContracts.closeJobOffer, { params: { id } });
+    invalidateJobOffer(jobOffer);
+    return jobOffer;
+  },
+
   deleteJobOffer: async (id: number) => {
     // Get the job offer first to know which company it belongs to
-    const fetcher = getQueryFn({
-      path: `/api/job-offers/${id}`,
-      on401: 'throw',
-    });
-    const jobOffer = await fetcher();
-    
-    const result = await apiDelete(`/api/job-offers/${id}`);
-    
-    if (jobOffer && 'companyId' in jobOffer) {
-      queryClient.invalidateQueries({ queryKey: [`/api/companies/${jobOffer.companyId}/job-offers`] });
+    const jobOffer = await request(apiContracts.getJobOffer, { params: { id } });
+
+    const result = await request(apiContracts.deleteJobOffer, { params: { id } });
+
+    queryClient.invalidateQueries({ queryKey: ['/api/companies', jobOffer.companyId, 'job-offers'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/companies', jobOffer.companyId, 'trash'] });
+    return result;
+  },
+
+  // Trash
+  getCompanyTrash: (companyId: number) => request(apiContracts.getCompanyTrash, { params: { companyId } }),
+
+  restoreService: async (id: number) => {
+    const service = await request(apiContracts.restoreService, { params: { id } });
+    // Atualiza a lixeira e a lista de serviços da empresa
+    queryClient.invalidateQueries({ queryKey: ['/api/companies', service.companyId] });
+    return service;
+  },
+
+  purgeService: async (companyId: number, id: number) => {
+    const result = await request(apiContracts.purgeService, { params: { id } });
+    queryClient.invalidateQueries({ queryKey: ['/api/companies', companyId, 'trash'] });
+    return result;
+  },
+
+  restoreJobOffer: async (id: number) => {
+    const jobOffer = await request(apiContracts.restoreJobOffer, { params: { id } });
+    queryClient.invalidateQueries({ queryKey: ['/api/companies', jobOffer.companyId] });
+    return jobOffer;
+  },
+
+  purgeJobOffer: async (companyId: number, id: number) => {
+    const result = await request(apiContracts.purgeJobOffer, { params: { id } });
+    queryClient.invalidateQueries({ queryKey: ['/api/companies', companyId, 'trash'] });
+    return result;
+  },
+
+  // Audit Log
+  getCompanyAuditLogs: (companyId: number, filters: Partial<AuditLogQuery> = {}) =>
+    request(apiContracts.getCompanyAuditLogs, { params: { companyId }, query: filters }),
+
+  // Search
+  searchCompany: (companyId: number, params: Partial<SearchQuery>) =>
+    request(apiContracts.searchCompany, { params: { companyId }, query: params }),
+
+  // Revisions
+  getRevisions: (entityType: RevisionEntityType, entityId: number) =>
+    request(revisionContracts[entityType], { params: { id: entityId } }),
+
+  // Sem compareTo, compara com o estado atual do registro
+  getRevisionDiff: (revisionId: number, compareTo?: number) =>
+    request(apiContracts.getRevisionDiff, { params: { id: revisionId }, query: { compareTo } }),
+
+  restoreRevision: async (revision: RevisionResponse) => {
+    const restored = await request(apiContracts.restoreRevision, { params: { id: revision.id } });
+    // Atualiza o editor, as listas da empresa e o próprio histórico
+    queryClient.invalidateQueries({ queryKey: ['/api/companies'] });
+    queryClient.invalidateQueries({ queryKey: [revisionQueryPaths[revision.entityType], revision.entityId] });
+    queryClient.invalidateQueries({ queryKey: ['/api/revisions', revision.entityType, revision.entityId] });
+    return restored;
+  },
+
+  // Job Applications
+  getJobOfferApplications: (jobOfferId: number) =>
+    request(apiContracts.getJobOfferApplications, { params: { id: jobOfferId } }),
+
+  getApplication: (id: number) => request(apiContracts.getApplication, { params: { id } }),
+
+  updateApplicationStage: async (id: number, stage: ApplicationStage) => {
+    const updated = await request(apiContracts.updateApplicationStage, { params: { id }, body: { stage } });
+    queryClient.invalidateQueries({ queryKey: ['/api/job-offers', updated.jobOfferId, 'applications'] });
+    queryClient.setQueryData(['/api/applications', id], updated);
+    return updated;
+  },
+
+  addApplicationNote: async (id: number, body: string) => {
+    const updated = await request(apiContracts.addApplicationNote, { params: { id }, body: { body } });
+    queryClient.setQueryData(['/api/applications', id], updated);
+    return updated;
+  },
+
+  // O CV exige o token, por isso é baixado como Blob em vez de um link direto
+  downloadApplicationCv: async (id: number): Promise<Blob> => {
+    const response = await fetchWithAuth(`/api/applications/${id}/cv`, { method: "GET" });
+
+    if (!response.ok) {
+      await handleApiError(response);
     }
+
+    return response.blob();
+  },
+
+  // Appointments
+  getCompanyAppointments: (companyId: number, filters: AppointmentListQuery) =>
+    request(apiContracts.getCompanyAppointments, { params: { companyId }, query: filters }),
+
+  getAppointment: (id: number) => request(apiContracts.getAppointment, { params: { id } }),
+
+  // `from` é uma data AAAA-MM-DD no fuso do horário do serviço
+  getServiceSlots: (serviceId: number, params: { from?: string; days?: number } = {}) =>
+    request(apiContracts.getServiceSlots, { params: { id: serviceId }, query: params }),
+
+  confirmAppointment: async (id: number) => {
+    const appointment = await request(apiContracts.confirmAppointment, { params: { id } });
+    invalidateAppointment(appointment);
+    return appointment;
+  },
+
+  cancelAppointment: async (id: number) => {
+    const appointment = await request(apiContracts.cancelAppointment, { params: { id } });
+    invalidateAppointment(appointment);
+    return appointment;
+  },
+
+  completeAppointment: async (id: number) => {
+    const appointment = await request(apiContracts.completeAppointment, { params: { id } });
+    invalidateAppointment(appointment);
+    return appointment;
+  },
+
+  markAppointmentNoShow: async (id: number) => {
+    const appointment = await request(apiContracts.markAppointmentNoShow, { params: { id } });
+    invalidateAppointment(appointment);
+    return appointment;
+  },
+
+  rescheduleAppointment: async (id: number, startsAt: string) => {
+    const appointment = await request(apiContracts.rescheduleAppointment, { params: { id }, body: { startsAt } });
+    invalidateAppointment(appointment);
+    return appointment;
+  },
+
+  // Company Members
+  getCompanyMembers: (companyId: number) => request(apiContracts.getCompanyMembers, { params: { companyId } }),
+
+  updateCompanyMember: async (companyId: number, memberId: number, role: Exclude<CompanyRole, 'owner'>) => {
+    const updated = await request(apiContracts.updateCompanyMember, { params: { companyId, memberId }, body: { role } });
+    queryClient.invalidateQueries({ queryKey: ['/api/companies', companyId, 'members'] });
+    return updated;
+  },
+
+  removeCompanyMember: async (companyId: number, memberId: number) => {
+    const result = await request(apiContracts.removeCompanyMember, { params: { companyId, memberId } });
+    // Quem sai da equipe também perde a empresa da própria lista
+    queryClient.invalidateQueries({ queryKey: ['/api/companies'] });
     return result;
   },
-};
\ No newline at end of file
+
+  // Company Invitations
+  getCompanyInvitations: (companyId: number) => request(apiContracts.getCompanyInvitations, { params: { companyId } }),
+
+  createCompanyInvitation: async (companyId: number, data: { email: string; role: Exclude<CompanyRole, 'owner'> }) => {
+    const invitation = await request(apiContracts.createCompanyInvitation, { params: { companyId }, body: data });
+    queryClient.invalidateQueries({ queryKey: ['/api/companies', companyId, 'invitations'] });
+    return invitation;
+  },
+
+  revokeCompanyInvitation: async (invitationId: number) => {
+    const invitation = await request(apiContracts.revokeCompanyInvitation, { params: { id: invitationId } });
+    queryClient.invalidateQueries({ queryKey: ['/api/companies', invitation.companyId, 'invitations'] });
+    return invitation;
+  },
+
+  getInvitation: (token: string) => request(apiContracts.getInvitation, { params: { token } }),
+
+  acceptInvitation: async (token: string) => {
+    const member = await request(apiContracts.acceptInvitation, { params: { token } });
+    queryClient.invalidateQueries({ queryKey: ['/api/companies'] });
+    return member;
+  },
+};
@@ -0,0 +1,21 @@
+import type { ApplicationStage } from "@shared/schema";
+
+// Nomes exibidos para as etapas do processo seletivo
+export const applicationStageLabels: Record<ApplicationStage, string> = {
+  new: "Nova",
+  screening: "Triagem",
+  interview: "Entrevista",
+  offer: "Proposta",
+  hired: "Contratado",
+  rejected: "Rejeitado",
+};
+
+// Cores das etiquetas de etapa na lista de candidatos
+export const applicationStageBadgeClasses: Record<ApplicationStage, string> = {
+  new: "bg-blue-100 text-blue-800 hover:bg-blue-100",
+  screening: "bg-amber-100 text-amber-800 hover:bg-amber-100",
+  interview: "bg-purple-100 text-purple-800 hover:bg-purple-100",
+  offer: "bg-teal-100 text-teal-800 hover:bg-teal-100",
+  hired: "bg-green-100 text-green-800 hover:bg-green-100",
+  rejected: "bg-gray-200 text-gray-700 hover:bg-gray-200",
+};
@@ -0,0 +1,28 @@
+import type { AppointmentStatus } from "@shared/schema";
+
+// Nomes exibidos para os estados do agendamento
+export const appointmentStatusLabels: Record<AppointmentStatus, string> = {
+  requested: "Pedido",
+  confirmed: "Confirmado",
+  cancelled: "Cancelado",
+  completed: "Concluído",
+  no_show: "Não compareceu",
+};
+
+// Cores das etiquetas de estado na agenda
+export const appointmentStatusBadgeClasses: Record<AppointmentStatus, string> = {
+  requested: "bg-amber-100 text-amber-800 hover:bg-amber-100",
+  confirmed: "bg-green-100 text-green-800 hover:bg-green-100",
+  cancelled: "bg-gray-200 text-gray-700 hover:bg-gray-200",
+  completed: "bg-blue-100 text-blue-800 hover:bg-blue-100",
+  no_show: "bg-red-100 text-red-800 hover:bg-red-100",
+};
+
+// Durações oferecidas no formulário do serviço; o servidor aceita de 5 a 480 minutos
+export const serviceDurationOptions = [15, 30, 45, 60, 90, 120, 180, 240].map(minutes => ({
+  value: minutes,
+  label: minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)}h${minutes % 60 ? ` ${minutes % 60}min` : ""}`,
+}));
+
+// Opção do formulário para serviços sem agendamento; o Select não aceita valor vazio
+export const NO_BOOKING = "none";
@@ -0,0 +1,91 @@
+import type { AuditAction, AuditEntityType } from "@shared/schema";
+
+// Nomes exibidos para os tipos de registro na página de atividade
+export const auditEntityTypeLabels: Record<AuditEntityType, string> = {
+  company: "Empresa",
+  service: "Serviço",
+  service_image: "Imagem de serviço",
+  service_category: "Categoria de serviço",
+  job_offer: "Vaga",
+  job_application: "Candidatura",
+  application_note: "Nota de candidatura",
+  company_member: "Membro",
+  company_invitation: "Convite",
+  appointment: "Agendamento",
+  user: "Usuário",
+};
+
+export const auditActionLabels: Record<AuditAction, string> = {
+  create: "Criou",
+  update: "Alterou",
+  delete: "Excluiu",
+  restore: "Restaurou",
+  purge: "Excluiu definitivamente",
+};
+
+// Cores das etiquetas de ação
+export const auditActionBadgeClasses: Record<AuditAction, string> = {
+  create: "bg-green-100 text-green-800 hover:bg-green-100",
+  update: "bg-blue-100 text-blue-800 hover:bg-blue-100",
+  delete: "bg-amber-100 text-amber-800 hover:bg-amber-100",
+  restore: "bg-teal-100 text-teal-800 hover:bg-teal-100",
+  purge: "bg-red-100 text-red-800 hover:bg-red-100",
+};
+
+// Nomes dos campos mais comuns; os demais aparecem com o nome da API
+export const auditFieldLabels: Record<string, string> = {
+  name: "Nome",
+  title: "Título",
+  description: "Descrição",
+  price: "Preço",
+  legacyPrice: "Preço (texto antigo)",
+  pricingType: "Forma de cobrança",
+  priceCents: "Valor (cêntimos)",
+  currency: "Moeda",
+  vatRate: "Taxa de IVA",
+  priceVariants: "Variantes de preço",
+  openingHours: "Horário",
+  legacyWorkingHours: "Horário (texto antigo)",
+  durationMinutes: "Duração (minutos)",
+  categoryId: "Categoria",
+  parentId: "Categoria superior",
+  tags: "Etiquetas",
+  startsAt: "Início",
+  endsAt: "Fim",
+  customerName: "Cliente",
+  customerEmail: "Email do cliente",
+  customerPhone: "Telefone do cliente",
+  notes: "Observações",
+  status: "Estado",
+  stage: "Etapa",
+  role: "Papel",
+  email: "Email",
+  phone: "Telefone",
+  address: "Morada",
+  postalCode: "Código postal",
+  city: "Cidade",
+  country: "País",
+  nif: "NIF",
+  caeCode: "Código CAE",
+  constitutionDate: "Data de constituição",
+  shareCapital: "Capital social",
+  website: "Website",
+  slug: "Endereço público",
+  isPublic: "Página pública",
+  employmentType: "Tipo de contrato",
+  salaryRange: "Faixa salarial",
+  requirements: "Requisitos",
+  contactEmail: "Email de contato",
+  contactLink: "Link de contato",
+  expiresAt: "Expira em",
+  publishedAt: "Publicada em",
+  closedAt: "Encerrada em",
+  deletedAt: "Na lixeira desde",
+  altText: "Texto alternativo",
+  isCover: "Capa",
+  position: "Posição",
+  imageOrder: "Ordem das imagens",
+  body: "Nota",
+  displayName: "Nome de exibição",
+  photoURL: "Foto",
+};
@@ -0,0 +1,19 @@
+import type { CompanyRole } from "@shared/schema";
+
+// Nomes exibidos para os papéis da equipe da empresa
+export const companyRoleLabels: Record<CompanyRole, string> = {
+  owner: "Proprietário",
+  admin: "Administrador",
+  editor: "Editor",
+  viewer: "Visualizador",
+};
+
+export const companyRoleDescriptions: Record<CompanyRole, string> = {
+  owner: "Acesso total, incluindo a gestão de administradores",
+  admin: "Edita a empresa e gere a equipe",
+  editor: "Cria e edita serviços e vagas",
+  viewer: "Apenas visualiza os dados da empresa",
+};
+
+// Link que o convidado abre para aceitar o convite
+export const getInvitationLink = (token: string) => `${window.location.origin}/invite/${token}`;
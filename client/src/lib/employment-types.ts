@@ -0,0 +1,2 @@
+// Tipos de contratação oferecidos no formulário da vaga e no filtro da lista
+export const employmentTypes = ["CLT", "PJ", "Estágio", "Temporário", "Freelancer"] as const;
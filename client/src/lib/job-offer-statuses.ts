@@ -0,0 +1,17 @@
+import type { JobOfferStatus } from "@shared/schema";
+
+// Nomes exibidos para os estados da vaga
+export const jobOfferStatusLabels: Record<JobOfferStatus, string> = {
+  draft: "Rascunho",
+  published: "Publicada",
+  paused: "Pausada",
+  closed: "Encerrada",
+};
+
+// Cores das etiquetas de estado na lista de vagas
+export const jobOfferStatusBadgeClasses: Record<JobOfferStatus, string> = {
+  draft: "bg-gray-200 text-gray-700 hover:bg-gray-200",
+  published: "bg-green-100 text-green-800 hover:bg-green-100",
+  paused: "bg-amber-100 text-amber-800 hover:bg-amber-100",
+  closed: "bg-red-100 text-red-800 hover:bg-red-100",
+};
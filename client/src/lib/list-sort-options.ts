@@ -0,0 +1,36 @@
+import type { JobOfferSortKey, ServiceSortKey } from "@shared/schema";
+
+type SortOrder = "asc" | "desc";
+
+export interface SortOption<TSort extends string> {
+  value: string;
+  label: string;
+  sort: TSort;
+  order: SortOrder;
+}
+
+const option = <TSort extends string>(sort: TSort, order: SortOrder, label: string): SortOption<TSort> => ({
+  value: `${sort}:${order}`,
+  label,
+  sort,
+  order,
+});
+
+// Ordenações oferecidas nas listas; a primeira é a padrão do servidor
+export const serviceSortOptions: SortOption<ServiceSortKey>[] = [
+  option("createdAt", "desc", "Mais recentes"),
+  option("createdAt", "asc", "Mais antigos"),
+  option("updatedAt", "desc", "Atualizados recentemente"),
+  option("name", "asc", "Nome (A-Z)"),
+  option("name", "desc", "Nome (Z-A)"),
+  option("price", "asc", "Menor preço"),
+  option("price", "desc", "Maior preço"),
+];
+
+export const jobOfferSortOptions: SortOption<JobOfferSortKey>[] = [
+  option("createdAt", "desc", "Mais recentes"),
+  option("createdAt", "asc", "Mais antigas"),
+  option("updatedAt", "desc", "Atualizadas recentemente"),
+  option("title", "asc", "Título (A-Z)"),
+  option("title", "desc", "Título (Z-A)"),
+];
@@ -0,0 +1,19 @@
+import type { ServiceCategoryResponse } from "@shared/schema";
+import { flattenCategoryTree } from "@shared/service-categories";
+
+// Opção dos formulários e filtros para serviços sem categoria; o Select não aceita valor vazio
+export const NO_CATEGORY = "none";
+
+export interface CategoryOption {
+  value: string;
+  label: string;
+  category: ServiceCategoryResponse & { depth: number };
+}
+
+// Categorias em árvore para os selects, com o nível marcado por travessões
+export const getCategoryOptions = (categories: ServiceCategoryResponse[]): CategoryOption[] =>
+  flattenCategoryTree(categories).map(category => ({
+    value: String(category.id),
+    label: `${"— ".repeat(category.depth)}${category.name}`,
+    category,
+  }));
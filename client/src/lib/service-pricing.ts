@@ -0,0 +1,44 @@
+import type { ServicePricingType } from "@shared/schema";
+
+// Nomes exibidos para as formas de cobrança no formulário e no filtro da lista
+export const servicePricingTypeLabels: Record<ServicePricingType, string> = {
+  fixed: "Preço fixo",
+  hourly: "Por hora",
+  from: "A partir de",
+  quote: "Sob orçamento",
+};
+
+// Moedas oferecidas no formulário; o servidor aceita qualquer código ISO 4217
+export const serviceCurrencies = ["EUR", "USD", "GBP", "BRL"] as const;
+
+// Taxas de IVA de Portugal continental, Madeira e Açores
+export const vatRateOptions = [
+  { value: 23, label: "23% (normal)" },
+  { value: 22, label: "22% (normal, Madeira)" },
+  { value: 16, label: "16% (normal, Açores)" },
+  { value: 13, label: "13% (intermédia)" },
+  { value: 6, label: "6% (reduzida)" },
+  { value: 0, label: "Isento" },
+];
+
+// Valor digitado no formulário ("25", "25,5", "1250.00") para cêntimos; null se não for um valor
+export function parsePriceInput(value: string): number | null {
+  const match = value.trim().match(/^(\d+)(?:[.,](\d{1,2}))?$/);
+  if (!match) return null;
+
+  return Number(match[1]) * 100 + Number((match[2] ?? "").padEnd(2, "0"));
+}
+
+// Cêntimos para o texto do campo de valor, com vírgula decimal
+export function toPriceInput(priceCents: number | null): string {
+  return priceCents === null ? "" : (priceCents / 100).toFixed(2).replace(".", ",");
+}
+
+// Opção do formulário para serviços sem preço; o Select não aceita valor vazio
+export const NO_PRICING = "none";
+export type PricingTypeOption = ServicePricingType | typeof NO_PRICING;
+
+// Só preço fixo, por hora e "a partir de" têm valor e variantes
+export function hasPriceAmount(pricingType: PricingTypeOption): boolean {
+  return pricingType !== NO_PRICING && pricingType !== "quote";
+}
@@ -0,0 +1,132 @@
+import { useParams, useLocation } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Helmet } from 'react-helmet';
+import { Loader2, AlertCircle, Users } from "lucide-react";
+
+import { useAuth } from "@/hooks/use-auth";
+import { useCompany } from "@/hooks/use-company";
+import { useToast } from "@/hooks/use-toast";
+import { API } from "@/lib/api";
+import { companyRoleLabels, companyRoleDescriptions } from "@/lib/company-roles";
+import { DashboardLayout } from "@/components/layouts/dashboard-layout";
+import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+
+export default function AcceptInvitation() {
+  const params = useParams<{ token: string }>();
+  const token = params?.token || "";
+  const { user } = useAuth();
+  const { setActiveCompanyId } = useCompany();
+  const { toast } = useToast();
+  const [_, navigate] = useLocation();
+
+  const { data: invitation, isLoading, isError } = useQuery({
+    queryKey: ['/api/invitations', token],
+    queryFn: () => API.getInvitation(token),
+    enabled: !!user && !!token,
+    retry: false
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: () => API.acceptInvitation(token),
+    onSuccess: () => {
+      if (invitation) {
+        setActiveCompanyId(invitation.companyId);
+      }
+      toast({
+        title: "Bem-vindo à equipe!",
+        description: invitation ? `Agora você faz parte de ${invitation.company.name}.` : undefined,
+      });
+      navigate("/dashboard");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro",
+        description: error.message || "Não foi possível aceitar o convite",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const isExpired = invitation ? new Date(invitation.expiresAt).getTime() < Date.now() : false;
+  const isWrongAccount = invitation && user?.email
+    ? invitation.email !== user.email.toLowerCase()
+    : false;
+
+  // Motivo pelo qual o convite não pode ser aceite, se houver
+  const unavailableReason = !invitation
+    ? null
+    : invitation.status === "accepted"
+      ? "Este convite já foi aceite."
+      : invitation.status === "revoked"
+        ? "Este convite foi revogado."
+        : isExpired
+          ? "Este convite expirou. Peça um novo convite ao administrador da empresa."
+          : isWrongAccount
+            ? `Este convite foi enviado para ${invitation.email}. Entre com essa conta para aceitá-lo.`
+            : null;
+
+  return (
+    <>
+      <Helmet>
+        <title>Convite - Systems RBG</title>
+        <meta name="description" content="Aceite o convite para a equipe de uma empresa" />
+      </Helmet>
+      <DashboardLayout title="Convite" contentId="accept-invitation-content">
+        {isLoading ? (
+          <div className="flex items-center justify-center h-40">
+            <Loader2 className="mr-2 h-6 w-6 animate-spin" />
+            <span>Carregando convite...</span>
+          </div>
+        ) : isError || !invitation ? (
+          <Card>
+            <CardContent className="pt-6">
+              <div className="flex flex-col items-center justify-center text-center p-4">
+                <AlertCircle className="h-12 w-12 text-amber-500 mb-4" />
+                <h3 className="text-lg font-semibold mb-2">Convite não encontrado</h3>
+                <p className="text-gray-500 mb-4">
+                  Verifique se o link está completo ou peça um novo convite.
+                </p>
+                <Button onClick={() => navigate("/dashboard")}>
+                  Ir para o painel
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card className="max-w-xl">
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Users className="h-5 w-5 mr-2" />
+                Convite para {invitation.company.name}
+              </CardTitle>
+              <CardDescription>
+                Você foi convidado como {companyRoleLabels[invitation.role]}.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm text-gray-500">
+                {companyRoleDescriptions[invitation.role]}.
+              </p>
+              {unavailableReason && (
+                <p className="text-sm text-red-600 mt-4">{unavailableReason}</p>
+              )}
+            </CardContent>
+            <CardFooter className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => navigate("/dashboard")}>
+                Agora não
+              </Button>
+              <Button
+                onClick={() => acceptMutation.mutate()}
+                disabled={!!unavailableReason || acceptMutation.isPending}
+              >
+                {acceptMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Aceitar convite
+              </Button>
+            </CardFooter>
+          </Card>
+        )}
+      </DashboardLayout>
+    </>
+  );
+}
@@ -0,0 +1,113 @@
+import { useState } from "react";
+import { DashboardLayout } from "@/components/layouts/dashboard-layout";
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
+import { useCompany } from "@/hooks/use-company";
+import { Helmet } from 'react-helmet';
+import { AlertCircle, History } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useQuery } from "@tanstack/react-query";
+import { API } from "@/lib/api";
+import { AuditLogList } from "@/components/audit/audit-log-list";
+import { auditActionLabels, auditEntityTypeLabels } from "@/lib/audit-labels";
+import { auditActions, auditEntityTypes, type AuditAction, type AuditEntityType } from "@shared/schema";
+
+const ALL = "all";
+const PAGE_SIZE = 25;
+
+export default function Activity() {
+  const [entityType, setEntityType] = useState<AuditEntityType | typeof ALL>(ALL);
+  const [action, setAction] = useState<AuditAction | typeof ALL>(ALL);
+  const [page, setPage] = useState(1);
+
+  // Active company selected in the layout
+  const { activeCompany: company, isLoading: isLoadingCompanies } = useCompany();
+
+  const filters = {
+    entityType: entityType === ALL ? undefined : entityType,
+    action: action === ALL ? undefined : action,
+    page,
+    pageSize: PAGE_SIZE,
+  };
+
+  const { data, isLoading: isLoadingLogs } = useQuery({
+    queryKey: ['/api/companies', company?.id, 'audit-logs', filters],
+    queryFn: () => API.getCompanyAuditLogs(company!.id, filters),
+    enabled: !!company,
+    staleTime: 0
+  });
+
+  // Um filtro novo sempre começa da primeira página
+  const changeFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setPage(1);
+  };
+
+  return (
+    <>
+      <Helmet>
+        <title>Atividade - Systems RBG</title>
+        <meta name="description" content="Histórico de alterações feitas na sua empresa" />
+      </Helmet>
+      <DashboardLayout title="Atividade" contentId="activity-content">
+        {!company && !isLoadingCompanies ? (
+          <Card>
+            <CardContent className="pt-6">
+              <div className="flex flex-col items-center justify-center text-center p-4">
+                <AlertCircle className="h-12 w-12 text-amber-500 mb-4" />
+                <h3 className="text-lg font-semibold mb-2">Empresa não encontrada</h3>
+                <p className="text-gray-500">
+                  Selecione uma empresa para ver a sua atividade.
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <History className="h-5 w-5 mr-2" />
+                Registro de atividade
+              </CardTitle>
+              <CardDescription>
+                Todas as alterações feitas na empresa, com quem as fez e o que mudou.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-col gap-2 sm:flex-row">
+                <Select value={entityType} onValueChange={changeFilter(value => setEntityType(value as AuditEntityType | typeof ALL))}>
+                  <SelectTrigger className="sm:w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>Todos os registros</SelectItem>
+                    {/* Alterações de perfil não pertencem a nenhuma empresa */}
+                    {auditEntityTypes.filter(type => type !== "user").map(type => (
+                      <SelectItem key={type} value={type}>
+                        {auditEntityTypeLabels[type]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={action} onValueChange={changeFilter(value => setAction(value as AuditAction | typeof ALL))}>
+                  <SelectTrigger className="sm:w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>Todas as ações</SelectItem>
+                    {auditActions.map(auditAction => (
+                      <SelectItem key={auditAction} value={auditAction}>
+                        {auditActionLabels[auditAction]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <AuditLogList data={data} isLoading={isLoadingCompanies || isLoadingLogs} onPageChange={setPage} />
+            </CardContent>
+          </Card>
+        )}
+      </DashboardLayout>
+    </>
+  );
+}
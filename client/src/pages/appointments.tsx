@@ -0,0 +1,258 @@
+import { useState } from "react";
+import { DashboardLayout } from "@/components/layouts/dashboard-layout";
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
+import { Calendar } from "@/components/ui/calendar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useCompany } from "@/hooks/use-company";
+import { useToast } from "@/hooks/use-toast";
+import { Helmet } from 'react-helmet';
+import {
+  AlertCircle,
+  CalendarClock,
+  CalendarDays,
+  Check,
+  CheckCheck,
+  Loader2,
+  Mail,
+  Phone,
+  UserX,
+  XCircle,
+} from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useQuery, useMutation, keepPreviousData } from "@tanstack/react-query";
+import { addDays, endOfMonth, endOfWeek, format, isSameDay, startOfMonth, startOfWeek } from "date-fns";
+import { pt } from "date-fns/locale";
+import { API } from "@/lib/api";
+import { appointmentStatusLabels, appointmentStatusBadgeClasses } from "@/lib/appointment-statuses";
+import { RescheduleDialog } from "@/components/appointments/reschedule-dialog";
+import {
+  canTransitionAppointment,
+  hasCompanyRole,
+  isActiveAppointment,
+  type AppointmentResponse,
+  type AppointmentStatus,
+} from "@shared/schema";
+
+const ALL_SERVICES = "all";
+
+// Serviços do filtro: os 100 primeiros por nome, o máximo de uma página
+const SERVICE_PARAMS = { sort: "name", order: "asc", limit: 100 } as const;
+
+// Ações de estado oferecidas em cada agendamento, conforme as transições permitidas
+const statusActions = [
+  { status: "confirmed", label: "Confirmar", icon: Check, run: API.confirmAppointment },
+  { status: "completed", label: "Concluir", icon: CheckCheck, run: API.completeAppointment },
+  { status: "no_show", label: "Não compareceu", icon: UserX, run: API.markAppointmentNoShow },
+  { status: "cancelled", label: "Cancelar", icon: XCircle, run: API.cancelAppointment },
+] as const;
+
+type StatusAction = typeof statusActions[number];
+
+// Comparecimento só se marca depois do início
+const needsStart = (status: AppointmentStatus) => status === "completed" || status === "no_show";
+
+export default function Appointments() {
+  const { toast } = useToast();
+  const [month, setMonth] = useState(() => startOfMonth(new Date()));
+  const [selectedDay, setSelectedDay] = useState(() => new Date());
+  const [serviceFilter, setServiceFilter] = useState<string>(ALL_SERVICES);
+  const [appointmentToReschedule, setAppointmentToReschedule] = useState<AppointmentResponse | null>(null);
+
+  // Active company selected in the layout
+  const { activeCompany: company, isLoading: isLoadingCompanies } = useCompany();
+  const canEdit = hasCompanyRole(company?.role, "editor");
+
+  // O calendário mostra semanas inteiras, por isso o período vai além do mês
+  const filters = {
+    from: startOfWeek(startOfMonth(month), { weekStartsOn: 1 }),
+    to: addDays(endOfWeek(endOfMonth(month), { weekStartsOn: 1 }), 1),
+    serviceId: serviceFilter === ALL_SERVICES ? undefined : Number(serviceFilter),
+  };
+
+  const { data: appointments = [], isLoading: isLoadingAppointments } = useQuery({
+    queryKey: ['/api/companies', company?.id, 'appointments', filters],
+    queryFn: () => API.getCompanyAppointments(company!.id, filters),
+    enabled: !!company,
+    placeholderData: keepPreviousData
+  });
+
+  const { data: servicesPage } = useQuery({
+    queryKey: ['/api/companies', company?.id, 'services', SERVICE_PARAMS],
+    queryFn: () => API.getCompanyServices(company!.id, SERVICE_PARAMS),
+    enabled: !!company
+  });
+  const bookableServices = (servicesPage?.items ?? []).filter(service => service.durationMinutes);
+
+  const statusMutation = useMutation({
+    mutationFn: ({ id, action }: { id: number; action: StatusAction }) => action.run(id),
+    onSuccess: (appointment) => {
+      toast({
+        title: "Sucesso",
+        description: `Agendamento: ${appointmentStatusLabels[appointment.status].toLowerCase()}.`
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro",
+        description: error.message || "Não foi possível alterar o estado do agendamento",
+        variant: "destructive"
+      });
+    }
+  });
+
+  // Dias com pedidos à espera de confirmação ficam destacados à parte
+  const activeDays = appointments.filter(appointment => isActiveAppointment(appointment.status)).map(appointment => new Date(appointment.startsAt));
+  const requestedDays = appointments.filter(appointment => appointment.status === "requested").map(appointment => new Date(appointment.startsAt));
+  const dayAppointments = appointments.filter(appointment => isSameDay(new Date(appointment.startsAt), selectedDay));
+  const now = new Date();
+
+  return (
+    <>
+      <Helmet>
+        <title>Agenda - Systems RBG</title>
+        <meta name="description" content="Agendamentos dos serviços da sua empresa" />
+      </Helmet>
+      <DashboardLayout title="Agenda" contentId="appointments-content">
+        {!company && !isLoadingCompanies ? (
+          <Card>
+            <CardContent className="pt-6">
+              <div className="flex flex-col items-center justify-center text-center p-4">
+                <AlertCircle className="h-12 w-12 text-amber-500 mb-4" />
+                <h3 className="text-lg font-semibold mb-2">Empresa não encontrada</h3>
+                <p className="text-gray-500">
+                  Selecione uma empresa para ver a sua agenda.
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 gap-6 lg:grid-cols-[auto_1fr]">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <CalendarDays className="h-5 w-5 mr-2" />
+                  Calendário
+                </CardTitle>
+                <CardDescription>
+                  Dias em negrito têm agendamentos; em amarelo, pedidos por confirmar.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <Select value={serviceFilter} onValueChange={setServiceFilter}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_SERVICES}>Todos os serviços</SelectItem>
+                    {bookableServices.map(service => (
+                      <SelectItem key={service.id} value={String(service.id)}>{service.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Calendar
+                  mode="single"
+                  locale={pt}
+                  weekStartsOn={1}
+                  selected={selectedDay}
+                  onSelect={day => day && setSelectedDay(day)}
+                  month={month}
+                  onMonthChange={setMonth}
+                  modifiers={{ booked: activeDays, requested: requestedDays }}
+                  modifiersClassNames={{ booked: "font-bold", requested: "bg-amber-100 text-amber-900" }}
+                  className="rounded-md border"
+                />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <CalendarClock className="h-5 w-5 mr-2" />
+                  {format(selectedDay, "EEEE, d 'de' MMMM", { locale: pt })}
+                </CardTitle>
+                <CardDescription>
+                  Os pedidos chegam pela página pública e ficam à espera de confirmação.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {isLoadingCompanies || isLoadingAppointments ? (
+                  <div className="flex justify-center py-8">
+                    <Loader2 className="h-6 w-6 animate-spin text-gray-500" />
+                  </div>
+                ) : dayAppointments.length === 0 ? (
+                  <p className="py-8 text-center text-gray-500">Nenhum agendamento neste dia.</p>
+                ) : (
+                  <ul className="divide-y">
+                    {dayAppointments.map(appointment => {
+                      const hasStarted = new Date(appointment.startsAt) <= now;
+                      const actions = statusActions.filter(action =>
+                        canTransitionAppointment(appointment.status, action.status) &&
+                        (!needsStart(action.status) || hasStarted)
+                      );
+
+                      return (
+                        <li key={appointment.id} className="space-y-2 py-4 first:pt-0 last:pb-0">
+                          <div className="flex flex-wrap items-start justify-between gap-2">
+                            <div>
+                              <p className="font-medium">
+                                {format(new Date(appointment.startsAt), "HH:mm")}–{format(new Date(appointment.endsAt), "HH:mm")}
+                                {" · "}
+                                {appointment.service?.name ?? "Serviço excluído"}
+                              </p>
+                              <p className="text-sm">{appointment.customerName}</p>
+                              <p className="flex flex-wrap gap-x-4 text-sm text-gray-500">
+                                <span className="flex items-center"><Mail className="mr-1 h-3 w-3" />{appointment.customerEmail}</span>
+                                {appointment.customerPhone && (
+                                  <span className="flex items-center"><Phone className="mr-1 h-3 w-3" />{appointment.customerPhone}</span>
+                                )}
+                              </p>
+                            </div>
+                            <Badge className={appointmentStatusBadgeClasses[appointment.status]}>
+                              {appointmentStatusLabels[appointment.status]}
+                            </Badge>
+                          </div>
+
+                          {appointment.notes && (
+                            <p className="whitespace-pre-line rounded-md bg-gray-50 p-2 text-sm text-gray-600">{appointment.notes}</p>
+                          )}
+
+                          {canEdit && (actions.length > 0 || isActiveAppointment(appointment.status)) && (
+                            <div className="flex flex-wrap gap-2">
+                              {actions.map(action => (
+                                <Button
+                                  key={action.status}
+                                  size="sm"
+                                  variant={action.status === "cancelled" ? "outline" : "secondary"}
+                                  disabled={statusMutation.isPending}
+                                  onClick={() => statusMutation.mutate({ id: appointment.id, action })}
+                                >
+                                  <action.icon className="mr-1 h-4 w-4" /> {action.label}
+                                </Button>
+                              ))}
+                              {isActiveAppointment(appointment.status) && appointment.service && (
+                                <Button size="sm" variant="outline" onClick={() => setAppointmentToReschedule(appointment)}>
+                                  <CalendarClock className="mr-1 h-4 w-4" /> Remarcar
+                                </Button>
+                              )}
+                            </div>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </DashboardLayout>
+
+      <RescheduleDialog
+        key={appointmentToReschedule?.id ?? "none"}
+        appointment={appointmentToReschedule}
+        onOpenChange={open => !open && setAppointmentToReschedule(null)}
+      />
+    </>
+  );
+}
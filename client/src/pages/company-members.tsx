@@ -0,0 +1,467 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Helmet } from 'react-helmet';
+import {
+  Loader2,
+  ArrowLeft,
+  AlertCircle,
+  Users,
+  UserPlus,
+  Mail,
+  Copy,
+  Trash2,
+  LogOut
+} from "lucide-react";
+
+import { useAuth } from "@/hooks/use-auth";
+import { useCompany } from "@/hooks/use-company";
+import { useToast } from "@/hooks/use-toast";
+import { API } from "@/lib/api";
+import { companyRoleLabels, companyRoleDescriptions, getInvitationLink } from "@/lib/company-roles";
+import { createInvitationSchema, hasCompanyRole, type CompanyRole } from "@shared/schema";
+import { DashboardLayout } from "@/components/layouts/dashboard-layout";
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+type InviteFormValues = z.infer<typeof createInvitationSchema>;
+type AssignableRole = InviteFormValues["role"];
+
+const assignableRoles: AssignableRole[] = ["admin", "editor", "viewer"];
+
+const formatDate = (value: string | null) =>
+  value ? new Date(value).toLocaleDateString('pt-PT') : '';
+
+export default function CompanyMembers() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [_, navigate] = useLocation();
+  const [memberToRemove, setMemberToRemove] = useState<number | null>(null);
+
+  // Active company selected in the layout
+  const { activeCompany: company, isLoading: isLoadingCompanies } = useCompany();
+
+  const canManage = hasCompanyRole(company?.role, "admin");
+  const isOwner = company?.role === "owner";
+
+  // Fetch members and pending invitations
+  const { data: members = [], isLoading: isLoadingMembers } = useQuery({
+    queryKey: ['/api/companies', company?.id, 'members'],
+    queryFn: () => company ? API.getCompanyMembers(company.id) : Promise.resolve([]),
+    enabled: !!company
+  });
+
+  const { data: invitations = [] } = useQuery({
+    queryKey: ['/api/companies', company?.id, 'invitations'],
+    queryFn: () => company ? API.getCompanyInvitations(company.id) : Promise.resolve([]),
+    enabled: !!company && canManage
+  });
+
+  const isLoading = isLoadingCompanies || isLoadingMembers;
+
+  const form = useForm<InviteFormValues>({
+    resolver: zodResolver(createInvitationSchema),
+    defaultValues: {
+      email: "",
+      role: "editor",
+    },
+  });
+
+  const showError = (error: Error, fallback: string) => {
+    toast({
+      title: "Erro",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const copyInvitationLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(getInvitationLink(token));
+      toast({
+        title: "Link copiado",
+        description: "Envie o link à pessoa convidada para que ela aceite o convite.",
+      });
+    } catch {
+      toast({
+        title: "Erro",
+        description: "Não foi possível copiar o link",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const inviteMutation = useMutation({
+    mutationFn: (data: InviteFormValues) => {
+      if (!company) throw new Error("Empresa não encontrada");
+      return API.createCompanyInvitation(company.id, data);
+    },
+    onSuccess: (invitation) => {
+      form.reset({ email: "", role: invitation.role as AssignableRole });
+      toast({
+        title: "Convite criado",
+        description: `Convite enviado para ${invitation.email}.`,
+      });
+      copyInvitationLink(invitation.token);
+    },
+    onError: (error: Error) => showError(error, "Não foi possível criar o convite"),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (invitationId: number) => API.revokeCompanyInvitation(invitationId),
+    onSuccess: () => {
+      toast({
+        title: "Sucesso",
+        description: "Convite revogado.",
+      });
+    },
+    onError: (error: Error) => showError(error, "Não foi possível revogar o convite"),
+  });
+
+  const updateRoleMutation = useMutation({
+    mutationFn: ({ memberId, role }: { memberId: number; role: AssignableRole }) => {
+      if (!company) throw new Error("Empresa não encontrada");
+      return API.updateCompanyMember(company.id, memberId, role);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Sucesso",
+        description: "Papel do membro atualizado.",
+      });
+    },
+    onError: (error: Error) => showError(error, "Não foi possível alterar o papel"),
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (memberId: number) => {
+      if (!company) throw new Error("Empresa não encontrada");
+      return API.removeCompanyMember(company.id, memberId);
+    },
+    onSuccess: (_result, memberId) => {
+      const leftCompany = members.find(member => member.id === memberId)?.user.email === user?.email;
+      toast({
+        title: "Sucesso",
+        description: leftCompany ? "Você saiu da equipe." : "Membro removido da equipe.",
+      });
+      if (leftCompany) {
+        navigate("/dashboard");
+      }
+    },
+    onError: (error: Error) => showError(error, "Não foi possível remover o membro"),
+    onSettled: () => {
+      setMemberToRemove(null);
+    }
+  });
+
+  // Só o proprietário gere administradores
+  const canEditMember = (role: CompanyRole) =>
+    canManage && role !== "owner" && (isOwner || role !== "admin");
+
+  const memberBeingRemoved = members.find(member => member.id === memberToRemove);
+
+  return (
+    <>
+      <Helmet>
+        <title>Equipe - Systems RBG</title>
+        <meta name="description" content="Gerencie os membros da equipe da sua empresa" />
+      </Helmet>
+      <DashboardLayout title="Equipe" contentId="company-members-content">
+        <div className="flex justify-start mb-6">
+          <Button variant="outline" onClick={() => navigate("/company-profile")}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Voltar ao perfil da empresa
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-40">
+            <Loader2 className="mr-2 h-6 w-6 animate-spin" />
+            <span>Carregando equipe...</span>
+          </div>
+        ) : !company ? (
+          <Card>
+            <CardContent className="pt-6">
+              <div className="flex flex-col items-center justify-center text-center p-4">
+                <AlertCircle className="h-12 w-12 text-amber-500 mb-4" />
+                <h3 className="text-lg font-semibold mb-2">Empresa não encontrada</h3>
+                <p className="text-gray-500 mb-4">
+                  Você precisa cadastrar sua empresa antes de convidar membros.
+                </p>
+                <Button onClick={() => navigate("/company-profile")}>
+                  Cadastrar Empresa
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-6">
+            {canManage && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center">
+                    <UserPlus className="h-5 w-5 mr-2" />
+                    Convidar membro
+                  </CardTitle>
+                  <CardDescription>
+                    A pessoa convidada recebe um link e entra na equipe ao aceitar o convite com este email.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Form {...form}>
+                    <form
+                      onSubmit={form.handleSubmit(data => inviteMutation.mutate(data))}
+                      className="grid grid-cols-1 gap-4 sm:grid-cols-[1fr_200px_auto] sm:items-end"
+                    >
+                      <FormField
+                        control={form.control}
+                        name="email"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Email</FormLabel>
+                            <FormControl>
+                              <Input placeholder="nome@empresa.pt" disabled={inviteMutation.isPending} {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="role"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Papel</FormLabel>
+                            <Select onValueChange={field.onChange} value={field.value}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue placeholder="Selecione..." />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {assignableRoles
+                                  .filter(role => isOwner || role !== "admin")
+                                  .map(role => (
+                                    <SelectItem key={role} value={role}>
+                                      {companyRoleLabels[role]}
+                                    </SelectItem>
+                                  ))}
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <Button type="submit" disabled={inviteMutation.isPending}>
+                        {inviteMutation.isPending ? (
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        ) : (
+                          <Mail className="mr-2 h-4 w-4" />
+                        )}
+                        Convidar
+                      </Button>
+                    </form>
+                  </Form>
+                  <p className="text-sm text-gray-500 mt-4">
+                    {companyRoleLabels[form.watch("role")]}: {companyRoleDescriptions[form.watch("role")]}.
+                  </p>
+                </CardContent>
+              </Card>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <Users className="h-5 w-5 mr-2" />
+                  Membros de {company.name}
+                </CardTitle>
+                <CardDescription>
+                  {members.length} membro(s) com acesso a esta empresa
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  {members.map((member, index) => {
+                    const isSelf = member.user.email === user?.email;
+
+                    return (
+                      <div key={member.id}>
+                        {index > 0 && <Separator className="mb-4" />}
+                        <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+                          <div>
+                            <p className="font-medium">
+                              {member.user.displayName || member.user.email}
+                              {isSelf && <span className="text-gray-500 font-normal"> (você)</span>}
+                            </p>
+                            <p className="text-sm text-gray-500">{member.user.email}</p>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            {canEditMember(member.role) && !isSelf ? (
+                              <Select
+                                value={member.role}
+                                onValueChange={(role) => updateRoleMutation.mutate({
+                                  memberId: member.id,
+                                  role: role as AssignableRole
+                                })}
+                                disabled={updateRoleMutation.isPending}
+                              >
+                                <SelectTrigger className="w-[160px]">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {assignableRoles
+                                    .filter(role => isOwner || role !== "admin")
+                                    .map(role => (
+                                      <SelectItem key={role} value={role}>
+                                        {companyRoleLabels[role]}
+                                      </SelectItem>
+                                    ))}
+                                </SelectContent>
+                              </Select>
+                            ) : (
+                              <Badge variant={member.role === "owner" ? "default" : "outline"}>
+                                {companyRoleLabels[member.role]}
+                              </Badge>
+                            )}
+                            {member.role !== "owner" && (isSelf || canEditMember(member.role)) && (
+                              <Button
+                                variant={isSelf ? "outline" : "destructive"}
+                                size="sm"
+                                onClick={() => setMemberToRemove(member.id)}
+                              >
+                                {isSelf ? (
+                                  <>
+                                    <LogOut className="h-4 w-4 mr-1" />
+                                    Sair
+                                  </>
+                                ) : (
+                                  <>
+                                    <Trash2 className="h-4 w-4 mr-1" />
+                                    Remover
+                                  </>
+                                )}
+                              </Button>
+                            )}
+                          </div>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </CardContent>
+            </Card>
+
+            {canManage && invitations.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center">
+                    <Mail className="h-5 w-5 mr-2" />
+                    Convites pendentes
+                  </CardTitle>
+                  <CardDescription>
+                    Convites ainda não aceites. Cada convite expira após 7 dias.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-4">
+                    {invitations.map((invitation, index) => {
+                      const isExpired = new Date(invitation.expiresAt).getTime() < Date.now();
+
+                      return (
+                        <div key={invitation.id}>
+                          {index > 0 && <Separator className="mb-4" />}
+                          <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+                            <div>
+                              <p className="font-medium">{invitation.email}</p>
+                              <p className="text-sm text-gray-500">
+                                {companyRoleLabels[invitation.role]} · {isExpired
+                                  ? "Expirado"
+                                  : `Expira em ${formatDate(invitation.expiresAt)}`}
+                              </p>
+                            </div>
+                            <div className="flex items-center gap-2">
+                              {!isExpired && (
+                                <Button variant="outline" size="sm" onClick={() => copyInvitationLink(invitation.token)}>
+                                  <Copy className="h-4 w-4 mr-1" />
+                                  Copiar link
+                                </Button>
+                              )}
+                              <Button
+                                variant="destructive"
+                                size="sm"
+                                onClick={() => revokeMutation.mutate(invitation.id)}
+                                disabled={revokeMutation.isPending}
+                              >
+                                <Trash2 className="h-4 w-4 mr-1" />
+                                Revogar
+                              </Button>
+                            </div>
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        )}
+      </DashboardLayout>
+
+      <AlertDialog open={memberToRemove !== null} onOpenChange={() => setMemberToRemove(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {memberBeingRemoved?.user.email === user?.email ? "Sair da equipe?" : "Remover membro?"}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {memberBeingRemoved?.user.email === user?.email
+                ? "Você perderá o acesso a esta empresa até receber um novo convite."
+                : `${memberBeingRemoved?.user.email ?? "Este membro"} perderá o acesso a esta empresa.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={removeMutation.isPending}>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => memberToRemove !== null && removeMutation.mutate(memberToRemove)}
+              disabled={removeMutation.isPending}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              {removeMutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Removendo...
+                </>
+              ) : (
+                "Confirmar"
+              )}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
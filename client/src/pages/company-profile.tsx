@@ -3,24 +3,21 @@ import { useLocation, useRoute } from "wouter";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation } from "@tanstack/react-query";
 import { phoneSchema, formatPhone } from "@/lib/validation/phone";
 import { Helmet } from 'react-helmet';
-import { Loader2, Building2, Phone, Link as LinkIcon, MapPin, ArrowLeft } from "lucide-react";
+import { Loader2, Building2, Phone, Link as LinkIcon, MapPin, ArrowLeft, Users, Globe, ExternalLink, AlarmClock } from "lucide-react";
 
 import { useAuth } from "@/hooks/use-auth";
+import { useCompany } from "@/hooks/use-company";
 import { useToast } from "@/hooks/use-toast";
-import { API } from "@/lib/api-fixed";
-import { 
-  createCompany, 
-  updateCompany, 
-  getCompanyById, 
-  getUserCompanies,
-  type Company
-} from "@/lib/firebase";
+import { API, ApiError } from "@/lib/api";
+import { companySlugPattern, hasCompanyRole, openingHoursSchema, type CompanyInput, type OpeningHours } from "@shared/schema";
+import { createDefaultOpeningHours } from "@shared/opening-hours";
 import { 
   Form, 
   FormControl, 
+  FormDescription,
   FormField, 
   FormItem, 
   FormLabel, 
@@ -29,8 +26,12 @@ import {
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { DashboardLayout } from "@/components/layouts/dashboard-layout";
+import { DeleteCompanyCard } from "@/components/companies/delete-company-card";
+import { RevisionHistory } from "@/components/revisions/revision-history";
+import { OpeningHoursEditor } from "@/components/opening-hours/opening-hours-editor";
 
 // Esquema de validação do formulário
 type CompanyFormData = {
@@ -44,6 +45,10 @@ type CompanyFormData = {
   city?: string;
   country: string;
   website?: string;
+  slug?: string;
+  isPublic: boolean;
+  hasOpeningHours: boolean;
+  openingHours: OpeningHours;
 };
 
 const companyFormSchema = z.object({
@@ -106,6 +111,24 @@ const companyFormSchema = z.object({
     .optional()
     .or(z.literal(''))
     .transform(val => val === '' ? undefined : val),
+    
+  slug: z.string()
+    .regex(companySlugPattern, { message: "Use apenas letras minúsculas, números e hífens" })
+    .max(100, { message: "O endereço não pode ter mais de 100 caracteres" })
+    .optional()
+    .or(z.literal(''))
+    .transform(val => val === '' ? undefined : val),
+    
+  isPublic: z.boolean().default(false),
+  
+  hasOpeningHours: z.boolean().default(false),
+  
+  // Os erros de cada dia e exceção aparecem no próprio editor
+  openingHours: z.custom<OpeningHours>(),
+}).superRefine((values, ctx) => {
+  if (values.hasOpeningHours && !openingHoursSchema.safeParse(values.openingHours).success) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["openingHours"], message: "Corrija o horário antes de salvar" });
+  }
 });
 
 type CompanyFormValues = CompanyFormData;
@@ -115,9 +138,7 @@ export default function CompanyProfile() {
   const [isLoading, setIsLoading] = useState(false)
   const { toast } = useToast()
   const [location, setLocation] = useLocation();
-  const [match, params] = useRoute('/company-profile/:id');
-  const id = params?.id;
-  const queryClient = useQueryClient();
+  const [isNewCompany] = useRoute('/company-profile/new');
 
   const form = useForm<CompanyFormValues>({
     resolver: zodResolver(companyFormSchema),
@@ -132,37 +153,19 @@ export default function CompanyProfile() {
       city: "",
       country: "Portugal",
       website: "",
+      slug: "",
+      isPublic: false,
+      hasOpeningHours: false,
+      openingHours: createDefaultOpeningHours(),
     }
   });
 
   // Adicionando estado para controlar o carregamento
   const [isFetching, setIsFetching] = useState(false);
 
-  // Fetch companies
-  const { 
-    data: companies, 
-    isLoading: isLoadingCompanies, 
-    isError,
-    error: companiesError
-  } = useQuery<Company[]>({
-    queryKey: ['companies', user?.uid],
-    queryFn: async () => {
-      if (!user?.uid) return []
-      try {
-        const userCompanies = await getUserCompanies(user.uid)
-        return userCompanies
-      } catch (error) {
-        console.error("Error fetching companies:", error)
-        throw error
-      }
-    },
-    enabled: !!user?.uid,
-    staleTime: 5 * 60 * 1000, // 5 minutos
-    retryOnMount: false
-  })
-
-  // Pega a primeira empresa (ou null se não houver)
-  const company = companies?.[0] || null;
+  // Active company selected in the layout; /company-profile/new always starts a blank form
+  const { companies, setActiveCompanyId, activeCompany, isLoading: isLoadingCompanies } = useCompany();
+  const company = isNewCompany ? null : activeCompany;
   console.log('Current company:', company);
 
   // Função para formatar NIF (adiciona pontos)
@@ -190,15 +193,6 @@ export default function CompanyProfile() {
 
   // Função formatPhone agora está importada de @/lib/validation/phone
 
-  // Tipos para erros da API
-  interface ApiError extends Error {
-    status?: number;
-    data?: {
-      message?: string;
-      [key: string]: any;
-    };
-  }
-
   // Tipo para os dados de resposta da API
   interface ApiResponse<T> {
     data: T;
@@ -223,14 +217,13 @@ export default function CompanyProfile() {
     }
 
     // Se for um erro da API
-    if (error && typeof error === 'object' && 'status' in error) {
-      const apiError = error as ApiError;
-      const status = apiError.status || 500;
+    if (error instanceof ApiError) {
+      const status = error.status;
 
       switch(status) {
         case 400:
           title = 'Dados inválidos';
-          message = apiError.data?.message || 'Verifique os campos e tente novamente.';
+          message = error.data.message || 'Verifique os campos e tente novamente.';
           break;
         case 401:
         case 403:
@@ -243,14 +236,14 @@ export default function CompanyProfile() {
           break;
         case 409:
           title = 'Conflito';
-          message = 'Já existe uma empresa com estes dados.';
+          message = 'Este endereço público já está em uso por outra empresa.';
           break;
         case 500:
           title = 'Erro no servidor';
           message = 'Ocorreu um erro inesperado. Tente novamente mais tarde.';
           break;
         default:
-          message = apiError.data?.message || message;
+          message = error.data.message || message;
       }
     } 
     // Se for um erro genérico
@@ -263,23 +256,17 @@ export default function CompanyProfile() {
 
   // Create company mutation
   const createCompanyMutation = useMutation({
-    mutationFn: async (data: Omit<Company, 'id' | 'createdAt' | 'updatedAt'>) => {
+    mutationFn: async (data: CompanyInput) => {
       if (!user) {
         throw new Error('Usuário não autenticado');
       }
 
-      // O Firebase irá definir os timestamps server-side
-      const companyData = {
-        ...data,
-        country: data.country || 'Portugal',
-        ownerId: user.uid
-        // createdAt e updatedAt serão definidos pelo Firebase
-      };
-
-      console.log('Creating company with data:', companyData);
-      await createCompany(companyData);
+      console.log('Creating company with data:', data);
+      return API.createCompany(data);
     },
-    onSuccess: () => {
+    onSuccess: (createdCompany) => {
+      // A empresa recém-criada passa a ser a ativa
+      setActiveCompanyId(createdCompany.id);
       toast({
         title: "Sucesso!",
         description: "Empresa criada com sucesso!",
@@ -299,10 +286,9 @@ export default function CompanyProfile() {
 
   // Update company mutation
   const updateCompanyMutation = useMutation({
-    mutationFn: async ({ id, data }: { id: string; data: Partial<Omit<Company, 'id' | 'createdAt' | 'updatedAt' | 'ownerId'>> }) => {
+    mutationFn: async ({ id, data }: { id: number; data: Partial<CompanyInput> }) => {
       console.log('Updating company with data:', { id, data });
-      // O Firebase irá atualizar o campo updatedAt automaticamente
-      await updateCompany(id, data);
+      return API.updateCompany(id, data);
     },
     onSuccess: () => {
       toast({
@@ -310,8 +296,6 @@ export default function CompanyProfile() {
         description: "Empresa atualizada com sucesso!",
         variant: "default"
       });
-      // Recarregar os dados
-      queryClient.invalidateQueries({ queryKey: ['companies', user?.uid] });
     },
     onError: (error: Error) => {
       const { title, message } = getErrorMessage(error);
@@ -326,7 +310,7 @@ export default function CompanyProfile() {
   // Show welcome message for new users
   useEffect(() => {
     // Só mostra a mensagem se não estiver carregando, não houver erro e não houver empresas
-    if (!isLoadingCompanies && !isError && (!companies || companies.length === 0) && user) {
+    if (!isLoadingCompanies && companies.length === 0 && user) {
       const hasSeenWelcome = sessionStorage.getItem('hasSeenWelcome');
 
       if (!hasSeenWelcome) {
@@ -338,7 +322,7 @@ export default function CompanyProfile() {
         sessionStorage.setItem('hasSeenWelcome', 'true');
       }
     }
-  }, [isLoadingCompanies, isError, companies, toast, user]);
+  }, [isLoadingCompanies, companies, toast, user]);
 
   // Set form default values when company data is loaded
   useEffect(() => {
@@ -354,6 +338,10 @@ export default function CompanyProfile() {
         city: company.city || '',
         country: company.country || 'Portugal',
         website: company.website || '',
+        slug: company.slug || '',
+        isPublic: company.isPublic ?? false,
+        hasOpeningHours: !!company.openingHours,
+        openingHours: company.openingHours ?? createDefaultOpeningHours(),
       });
     } else {
       // Reset form to default values when no company exists
@@ -368,6 +356,10 @@ export default function CompanyProfile() {
         city: "",
         country: "Portugal",
         website: "",
+        slug: "",
+        isPublic: false,
+        hasOpeningHours: false,
+        openingHours: createDefaultOpeningHours(),
       });
     }
   }, [company, form]);
@@ -397,40 +389,35 @@ export default function CompanyProfile() {
     try {
       setIsLoading(true);
       
-      // Busca as empresas do usuário
-      const userCompanies = await getUserCompanies(user.uid);
-      
-      // Prepara os dados da empresa, convertendo strings vazias para null (Firebase não aceita undefined)
+      // Prepara os dados da empresa, convertendo strings vazias para null
       const prepareValue = (value: string | undefined | null): string | null => {
         if (value === null || value === undefined) return null;
         const trimmed = value.trim();
         return trimmed === '' ? null : trimmed;
       };
       
-      const companyData: Omit<Company, 'id' | 'createdAt' | 'updatedAt'> = {
+      const companyData: CompanyInput = {
         name: data.name,
         description: data.description,
         nif: prepareValue(data.nif?.replace(/\D/g, '')),
         email: prepareValue(data.email),
         phone: prepareValue(data.phone?.replace(/\D/g, '')),
         address: prepareValue(data.address),
-        postalCode: prepareValue(data.postalCode?.replace(/\D/g, '')),
+        postalCode: prepareValue(data.postalCode),
         city: prepareValue(data.city),
         country: data.country || 'Portugal',
         website: prepareValue(data.website),
-        // Campos removidos do front-end, mas mantidos na interface para compatibilidade
-        caeCode: null,
-        constitutionDate: null,
-        shareCapital: null,
-        // Campos obrigatórios
-        ownerId: user.uid
+        // Sem endereço o servidor gera um a partir do nome
+        slug: prepareValue(data.slug),
+        isPublic: data.isPublic,
+        // Horário padrão dos serviços que não têm horário próprio
+        openingHours: data.hasOpeningHours ? data.openingHours : null
       };
 
-      if (userCompanies && userCompanies.length > 0 && userCompanies[0].id) {
-        // Atualiza a empresa existente
-        // O Firebase irá atualizar o campo updatedAt automaticamente
+      if (company) {
+        // Atualiza a empresa ativa
         await updateCompanyMutation.mutateAsync({
-          id: userCompanies[0].id,
+          id: company.id,
           data: companyData
         });
       } else {
@@ -438,16 +425,8 @@ export default function CompanyProfile() {
         await createCompanyMutation.mutateAsync(companyData);
       }
     } catch (error) {
+      // As mutações já exibem a mensagem de erro ao usuário
       console.error("Erro ao processar o formulário:", error);
-      
-      // Se o erro não for tratado pelas mutações, exibe uma mensagem genérica
-      if (!(error instanceof Error && error.message.includes("já possui uma empresa cadastrada"))) {
-        toast({
-          title: "Erro",
-          description: "Ocorreu um erro ao processar sua solicitação. Tente novamente mais tarde.",
-          variant: "destructive"
-        });
-      }
     } finally {
       setIsLoading(false);
     }
@@ -466,94 +445,44 @@ export default function CompanyProfile() {
             <span>Carregando...</span>
           </div>
         ) : (
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center">
-                <Building2 className="h-5 w-5 mr-2" />
-                {company ? "Editar perfil da empresa" : "Cadastrar nova empresa"}
-              </CardTitle>
-              <CardDescription>
-                {company 
-                  ? "Atualize as informações da sua empresa" 
-                  : "Preencha os dados abaixo para cadastrar sua empresa"}
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              <Form {...form}>
-                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-                  {/* Nome da Empresa */}
-                  <FormField
-                    control={form.control}
-                    name="name"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Nome da empresa*</FormLabel>
-                        <FormControl>
-                          <Input 
-                            placeholder="Digite o nome da sua empresa" 
-                            disabled={isLoading}
-                            value={field.value || ''}
-                            onChange={(e) => {
-                              field.onChange(e.target.value || '');
-                            }}
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  
-                  {/* Descrição */}
-                  <FormField
-                    control={form.control}
-                    name="description"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Descrição*</FormLabel>
-                        <FormControl>
-                          <Textarea 
-                            placeholder="Forneça uma descrição sobre sua empresa" 
-                            className="min-h-[120px]"
-                            disabled={isLoading}
-                            value={field.value || ''}
-                            onChange={(e) => {
-                              field.onChange(e.target.value || '');
-                            }}
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  
-                  {/* Primeira linha de campos - NIF, Email, Telefone */}
-                  <div className="grid grid-cols-1 gap-6 sm:grid-cols-3">
-                    {/* NIF */}
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center justify-between">
+                  <span className="flex items-center">
+                    <Building2 className="h-5 w-5 mr-2" />
+                    {company ? "Editar perfil da empresa" : "Cadastrar nova empresa"}
+                  </span>
+                  {company && (
+                    <Button variant="outline" size="sm" type="button" onClick={() => setLocation('/company-profile/members')}>
+                      <Users className="h-4 w-4 mr-2" />
+                      Equipe
+                    </Button>
+                  )}
+                </CardTitle>
+                <CardDescription>
+                  {company 
+                    ? "Atualize as informações da sua empresa" 
+                    : "Preencha os dados abaixo para cadastrar sua empresa"}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Form {...form}>
+                  <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                    {/* Nome da Empresa */}
                     <FormField
                       control={form.control}
-                      name="nif"
+                      name="name"
                       render={({ field }) => (
                         <FormItem>
-                          <FormLabel>NIF*</FormLabel>
+                          <FormLabel>Nome da empresa*</FormLabel>
                           <FormControl>
                             <Input 
-                              placeholder="123.456.789" 
+                              placeholder="Digite o nome da sua empresa" 
                               disabled={isLoading}
-                              {...field}
                               value={field.value || ''}
                               onChange={(e) => {
-                                const value = e.target.value;
-                                // Remove formatação existente
-                                const numbers = value.replace(/\D/g, '');
-                                // Aplica a formatação apenas se houver valor
-                                const formatted = numbers ? formatNIF(numbers) : '';
-                                field.onChange(formatted || '');
-                              }}
-                              onBlur={() => {
-                                // Garante que o valor seja válido ao sair do campo
-                                if (field.value && !/^\d{9}$/.test(field.value.replace(/\D/g, ''))) {
-                                  field.onChange('');
-                                }
+                                field.onChange(e.target.value || '');
                               }}
                             />
                           </FormControl>
@@ -562,28 +491,22 @@ export default function CompanyProfile() {
                       )}
                     />
                     
-                    {/* Email */}
+                    {/* Descrição */}
                     <FormField
                       control={form.control}
-                      name="email"
+                      name="description"
                       render={({ field }) => (
                         <FormItem>
-                          <FormLabel>Email*</FormLabel>
+                          <FormLabel>Descrição*</FormLabel>
                           <FormControl>
-                            <Input 
-                              type="email" 
-                              placeholder="empresa@exemplo.pt" 
+                            <Textarea 
+                              placeholder="Forneça uma descrição sobre sua empresa" 
+                              className="min-h-[120px]"
                               disabled={isLoading}
                               value={field.value || ''}
                               onChange={(e) => {
                                 field.onChange(e.target.value || '');
                               }}
-                              onBlur={() => {
-                                // Valida o formato do e-mail ao sair do campo
-                                if (field.value && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(field.value)) {
-                                  field.onChange('');
-                                }
-                              }}
                             />
                           </FormControl>
                           <FormMessage />
@@ -591,211 +514,389 @@ export default function CompanyProfile() {
                       )}
                     />
                     
-                    {/* Telefone */}
-                    <FormField
-                      control={form.control}
-                      name="phone"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel className="flex items-center">
-                            <Phone className="mr-1 h-4 w-4" />
-                            <span>Telefone <span className="text-muted-foreground text-xs">(opcional)</span></span>
-                          </FormLabel>
-                          <FormControl>
-                            <Input 
-                              placeholder="912 345 678 ou +351 912 345 678" 
-                              disabled={isLoading}
-                              {...field}
-                              value={field.value || ''}
-                              onChange={(e) => {
-                                const value = e.target.value;
-                                // Remove formatação existente e limita o comprimento
-                                const numbers = value.replace(/\D/g, '').slice(0, 15);
-                                // Aplica a formatação apenas se houver valor
-                                const formatted = numbers ? formatPhone(numbers) : '';
-                                // Atualiza o valor do campo
-                                field.onChange(formatted || '');
-                              }}
-                              onBlur={() => {
-                                // Garante que o valor seja válido ao sair do campo
-                                if (field.value && !/^(\+\d{1,3} ?)?\d{9,15}$/.test(field.value.replace(/\s+/g, ''))) {
-                                  field.onChange('');
-                                }
-                              }}
-                            />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                  </div>
-                  
-                  {/* Segunda linha - Código Postal, Localidade, País */}
-                  <div className="grid grid-cols-1 gap-6 sm:grid-cols-3">
-                    {/* Código Postal */}
-                    <FormField
-                      control={form.control}
-                      name="postalCode"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Código Postal*</FormLabel>
-                          <FormControl>
-                            <Input 
-                              placeholder="1000-001" 
-                              disabled={isLoading}
-                              {...field}
-                              value={field.value || ''}
-                              onChange={(e) => {
-                                const value = e.target.value;
-                                // Remove formatação existente
-                                const numbers = value.replace(/\D/g, '');
-                                // Aplica a formatação apenas se houver valor
-                                const formatted = numbers ? formatPostalCode(numbers) : '';
-                                field.onChange(formatted || '');
-                              }}
-                              onBlur={() => {
-                                // Garante que o valor seja válido ao sair do campo
-                                if (field.value && !/^\d{4}-\d{3}$/.test(field.value)) {
-                                  field.onChange('');
-                                }
-                              }}
-                            />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
+                    {/* Primeira linha de campos - NIF, Email, Telefone */}
+                    <div className="grid grid-cols-1 gap-6 sm:grid-cols-3">
+                      {/* NIF */}
+                      <FormField
+                        control={form.control}
+                        name="nif"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>NIF*</FormLabel>
+                            <FormControl>
+                              <Input 
+                                placeholder="123.456.789" 
+                                disabled={isLoading}
+                                {...field}
+                                value={field.value || ''}
+                                onChange={(e) => {
+                                  const value = e.target.value;
+                                  // Remove formatação existente
+                                  const numbers = value.replace(/\D/g, '');
+                                  // Aplica a formatação apenas se houver valor
+                                  const formatted = numbers ? formatNIF(numbers) : '';
+                                  field.onChange(formatted || '');
+                                }}
+                                onBlur={() => {
+                                  // Garante que o valor seja válido ao sair do campo
+                                  if (field.value && !/^\d{9}$/.test(field.value.replace(/\D/g, ''))) {
+                                    field.onChange('');
+                                  }
+                                }}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      
+                      {/* Email */}
+                      <FormField
+                        control={form.control}
+                        name="email"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Email*</FormLabel>
+                            <FormControl>
+                              <Input 
+                                type="email" 
+                                placeholder="empresa@exemplo.pt" 
+                                disabled={isLoading}
+                                value={field.value || ''}
+                                onChange={(e) => {
+                                  field.onChange(e.target.value || '');
+                                }}
+                                onBlur={() => {
+                                  // Valida o formato do e-mail ao sair do campo
+                                  if (field.value && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(field.value)) {
+                                    field.onChange('');
+                                  }
+                                }}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      
+                      {/* Telefone */}
+                      <FormField
+                        control={form.control}
+                        name="phone"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel className="flex items-center">
+                              <Phone className="mr-1 h-4 w-4" />
+                              <span>Telefone <span className="text-muted-foreground text-xs">(opcional)</span></span>
+                            </FormLabel>
+                            <FormControl>
+                              <Input 
+                                placeholder="912 345 678 ou +351 912 345 678" 
+                                disabled={isLoading}
+                                {...field}
+                                value={field.value || ''}
+                                onChange={(e) => {
+                                  const value = e.target.value;
+                                  // Remove formatação existente e limita o comprimento
+                                  const numbers = value.replace(/\D/g, '').slice(0, 15);
+                                  // Aplica a formatação apenas se houver valor
+                                  const formatted = numbers ? formatPhone(numbers) : '';
+                                  // Atualiza o valor do campo
+                                  field.onChange(formatted || '');
+                                }}
+                                onBlur={() => {
+                                  // Garante que o valor seja válido ao sair do campo
+                                  if (field.value && !/^(\+\d{1,3} ?)?\d{9,15}$/.test(field.value.replace(/\s+/g, ''))) {
+                                    field.onChange('');
+                                  }
+                                }}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
                     
-                    {/* Localidade */}
-                    <FormField
-                      control={form.control}
-                      name="city"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Localidade*</FormLabel>
-                          <FormControl>
-                            <Input 
-                              placeholder="Lisboa" 
-                              disabled={isLoading}
-                              value={field.value || ''}
-                              onChange={(e) => {
-                                field.onChange(e.target.value || '');
-                              }}
-                            />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
+                    {/* Segunda linha - Código Postal, Localidade, País */}
+                    <div className="grid grid-cols-1 gap-6 sm:grid-cols-3">
+                      {/* Código Postal */}
+                      <FormField
+                        control={form.control}
+                        name="postalCode"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Código Postal*</FormLabel>
+                            <FormControl>
+                              <Input 
+                                placeholder="1000-001" 
+                                disabled={isLoading}
+                                {...field}
+                                value={field.value || ''}
+                                onChange={(e) => {
+                                  const value = e.target.value;
+                                  // Remove formatação existente
+                                  const numbers = value.replace(/\D/g, '');
+                                  // Aplica a formatação apenas se houver valor
+                                  const formatted = numbers ? formatPostalCode(numbers) : '';
+                                  field.onChange(formatted || '');
+                                }}
+                                onBlur={() => {
+                                  // Garante que o valor seja válido ao sair do campo
+                                  if (field.value && !/^\d{4}-\d{3}$/.test(field.value)) {
+                                    field.onChange('');
+                                  }
+                                }}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      
+                      {/* Localidade */}
+                      <FormField
+                        control={form.control}
+                        name="city"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Localidade*</FormLabel>
+                            <FormControl>
+                              <Input 
+                                placeholder="Lisboa" 
+                                disabled={isLoading}
+                                value={field.value || ''}
+                                onChange={(e) => {
+                                  field.onChange(e.target.value || '');
+                                }}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      
+                      {/* País */}
+                      <FormField
+                        control={form.control}
+                        name="country"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>País*</FormLabel>
+                            <FormControl>
+                              <Input 
+                                disabled
+                                value={field.value || 'Portugal'}
+                                onChange={(e) => {
+                                  field.onChange(e.target.value || 'Portugal');
+                                }}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
                     
-                    {/* País */}
-                    <FormField
-                      control={form.control}
-                      name="country"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>País*</FormLabel>
-                          <FormControl>
-                            <Input 
-                              disabled
-                              value={field.value || 'Portugal'}
-                              onChange={(e) => {
-                                field.onChange(e.target.value || 'Portugal');
-                              }}
-                            />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                  </div>
-                  
-                  {/* Endereço Completo */}
-                  <FormField
-                    control={form.control}
-                    name="address"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel className="flex items-center">
-                          <MapPin className="mr-1 h-4 w-4" /> Endereço Completo*
-                        </FormLabel>
-                        <FormControl>
-                          <Input 
-                            placeholder="Rua, número, andar, etc." 
-                            disabled={isLoading}
-                            value={field.value || ''}
-                            onChange={(e) => {
-                              field.onChange(e.target.value || '');
-                            }}
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  
-                  {/* Terceira linha - Website */}
-                  <div className="grid grid-cols-1 gap-6 sm:grid-cols-1">
-                    {/* Website */}
+                    {/* Endereço Completo */}
                     <FormField
                       control={form.control}
-                      name="website"
+                      name="address"
                       render={({ field }) => (
                         <FormItem>
                           <FormLabel className="flex items-center">
-                            <LinkIcon className="mr-1 h-4 w-4" /> Website
+                            <MapPin className="mr-1 h-4 w-4" /> Endereço Completo*
                           </FormLabel>
                           <FormControl>
                             <Input 
-                              placeholder="https://www.empresa.pt" 
+                              placeholder="Rua, número, andar, etc." 
                               disabled={isLoading}
                               value={field.value || ''}
                               onChange={(e) => {
                                 field.onChange(e.target.value || '');
                               }}
-                              onBlur={() => {
-                                // Valida o formato da URL ao sair do campo
-                                if (field.value && !/^https?:\/\/.+\..+/.test(field.value)) {
-                                  field.onChange('');
-                                }
-                              }}
                             />
                           </FormControl>
                           <FormMessage />
                         </FormItem>
                       )}
                     />
-                  </div>
-                  
-                  <CardFooter className="flex justify-between px-0 pt-6">
-                    <Button 
-                      type="button" 
-                      variant="outline" 
-                      onClick={() => window.history.back()}
-                      disabled={isLoading}
-                      className="flex items-center gap-2"
-                    >
-                      <ArrowLeft className="h-4 w-4" />
-                      Voltar
-                    </Button>
-                    <Button 
-                      type="submit" 
-                      disabled={isLoading}
-                    >
-                      {isLoading ? (
-                        <>
-                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                          {company ? "Atualizando..." : "Cadastrando..."}
-                        </>
-                      ) : (
-                        <>{company ? "Atualizar empresa" : "Cadastrar empresa"}</>
+                    
+                    {/* Terceira linha - Website */}
+                    <div className="grid grid-cols-1 gap-6 sm:grid-cols-1">
+                      {/* Website */}
+                      <FormField
+                        control={form.control}
+                        name="website"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel className="flex items-center">
+                              <LinkIcon className="mr-1 h-4 w-4" /> Website
+                            </FormLabel>
+                            <FormControl>
+                              <Input 
+                                placeholder="https://www.empresa.pt" 
+                                disabled={isLoading}
+                                value={field.value || ''}
+                                onChange={(e) => {
+                                  field.onChange(e.target.value || '');
+                                }}
+                                onBlur={() => {
+                                  // Valida o formato da URL ao sair do campo
+                                  if (field.value && !/^https?:\/\/.+\..+/.test(field.value)) {
+                                    field.onChange('');
+                                  }
+                                }}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+                    
+                    {/* Página pública */}
+                    <div className="space-y-4 rounded-lg border p-4">
+                      <FormField
+                        control={form.control}
+                        name="isPublic"
+                        render={({ field }) => (
+                          <FormItem className="flex items-center justify-between gap-4">
+                            <div className="space-y-1">
+                              <FormLabel className="flex items-center">
+                                <Globe className="mr-1 h-4 w-4" /> Página pública
+                              </FormLabel>
+                              <FormDescription>
+                                Mostra o perfil, os serviços e as vagas abertas a qualquer visitante
+                              </FormDescription>
+                            </div>
+                            <FormControl>
+                              <Switch
+                                checked={field.value}
+                                onCheckedChange={field.onChange}
+                                disabled={isLoading}
+                              />
+                            </FormControl>
+                          </FormItem>
+                        )}
+                      />
+                      
+                      <FormField
+                        control={form.control}
+                        name="slug"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Endereço da página</FormLabel>
+                            <FormControl>
+                              <div className="flex items-center">
+                                <span className="text-sm text-muted-foreground whitespace-nowrap mr-1">
+                                  {window.location.origin}/c/
+                                </span>
+                                <Input 
+                                  placeholder="minha-empresa" 
+                                  disabled={isLoading}
+                                  value={field.value || ''}
+                                  onChange={(e) => {
+                                    field.onChange(e.target.value.toLowerCase());
+                                  }}
+                                />
+                              </div>
+                            </FormControl>
+                            <FormDescription>
+                              Deixe em branco para gerar a partir do nome da empresa
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      
+                      {company?.isPublic && company.slug && (
+                        <a
+                          href={`/c/${company.slug}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="inline-flex items-center text-sm text-primary hover:underline"
+                        >
+                          <ExternalLink className="mr-1 h-4 w-4" />
+                          Ver página pública
+                        </a>
                       )}
-                    </Button>
-                  </CardFooter>
-                </form>
-              </Form>
-            </CardContent>
-          </Card>
+                    </div>
+                    
+                    {/* Horário padrão */}
+                    <div className="space-y-4 rounded-lg border p-4">
+                      <FormField
+                        control={form.control}
+                        name="hasOpeningHours"
+                        render={({ field }) => (
+                          <FormItem className="flex items-center justify-between gap-4">
+                            <div className="space-y-1">
+                              <FormLabel className="flex items-center">
+                                <AlarmClock className="mr-1 h-4 w-4" /> Horário padrão
+                              </FormLabel>
+                              <FormDescription>
+                                Vale para os serviços que não têm horário próprio
+                              </FormDescription>
+                            </div>
+                            <FormControl>
+                              <Switch
+                                checked={field.value}
+                                onCheckedChange={field.onChange}
+                                disabled={isLoading}
+                              />
+                            </FormControl>
+                          </FormItem>
+                        )}
+                      />
+                      
+                      {form.watch("hasOpeningHours") && (
+                        <FormField
+                          control={form.control}
+                          name="openingHours"
+                          render={({ field }) => (
+                            <FormItem>
+                              <OpeningHoursEditor value={field.value} onChange={field.onChange} disabled={isLoading} />
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      )}
+                    </div>
+                    
+                    <CardFooter className="flex justify-between px-0 pt-6">
+                      <Button 
+                        type="button" 
+                        variant="outline" 
+                        onClick={() => window.history.back()}
+                        disabled={isLoading}
+                        className="flex items-center gap-2"
+                      >
+                        <ArrowLeft className="h-4 w-4" />
+                        Voltar
+                      </Button>
+                      <Button 
+                        type="submit" 
+                        disabled={isLoading}
+                      >
+                        {isLoading ? (
+                          <>
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                            {company ? "Atualizando..." : "Cadastrando..."}
+                          </>
+                        ) : (
+                          <>{company ? "Atualizar empresa" : "Cadastrar empresa"}</>
+                        )}
+                      </Button>
+                    </CardFooter>
+                  </form>
+                </Form>
+              </CardContent>
+            </Card>
+            {company && (
+              <RevisionHistory entityType="company" entityId={company.id} canRestore={hasCompanyRole(company.role, "admin")} />
+            )}
+            {company?.role === "owner" && <DeleteCompanyCard company={company} />}
+          </div>
         )}
       </DashboardLayout>
     </>
@@ -1,7 +1,7 @@
-import { useState, useEffect } from "react";
 import { DashboardLayout } from "@/components/layouts/dashboard-layout";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from "@/components/ui/card";
 import { useAuth } from "@/hooks/use-auth";
+import { useCompany } from "@/hooks/use-company";
 import { Helmet } from "react-helmet";
 import { Button } from "@/components/ui/button";
 import { 
@@ -14,54 +14,36 @@ import {
   Calendar,
   Loader2
 } from "lucide-react";
-import { 
-  getUserCompanies, 
-  getCompanyServices, 
-  getCompanyJobOffers,
-  Company,
-  Service,
-  JobOffer
-} from "@/lib/firebase";
+import { useQuery } from "@tanstack/react-query";
+import { API } from "@/lib/api";
 import { useLocation } from "wouter";
 import { format } from "date-fns";
 
+// Os cards mostram o total e a atividade recente lista os dois últimos registros
+const RECENT_PARAMS = { sort: "createdAt", order: "desc", limit: 2 } as const;
+
 export default function Dashboard() {
   const { user } = useAuth();
-  const [company, setCompany] = useState<Company | null>(null);
-  const [services, setServices] = useState<Service[]>([]);
-  const [jobOffers, setJobOffers] = useState<JobOffer[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
+  // Active company selected in the layout
+  const { companies, activeCompany: company, isLoading: isLoadingCompanies } = useCompany();
   const [_, navigate] = useLocation();
   
-  useEffect(() => {
-    const fetchData = async () => {
-      if (user) {
-        try {
-          // Fetch company data
-          const companies = await getUserCompanies(user.uid);
-          
-          if (companies.length > 0) {
-            const companyData = companies[0];
-            setCompany(companyData);
-            
-            // Fetch services
-            const servicesData = await getCompanyServices(companyData.id!);
-            setServices(servicesData);
-            
-            // Fetch job offers
-            const jobOffersData = await getCompanyJobOffers(companyData.id!);
-            setJobOffers(jobOffersData);
-          }
-        } catch (error) {
-          console.error("Error fetching dashboard data:", error);
-        } finally {
-          setIsLoading(false);
-        }
-      }
-    };
-    
-    fetchData();
-  }, [user]);
+  const { data: servicesPage, isLoading: isLoadingServices } = useQuery({
+    queryKey: ['/api/companies', company?.id, 'services', RECENT_PARAMS],
+    queryFn: () => API.getCompanyServices(company!.id, RECENT_PARAMS),
+    enabled: !!company
+  });
+  
+  const { data: jobOffersPage, isLoading: isLoadingJobOffers } = useQuery({
+    queryKey: ['/api/companies', company?.id, 'job-offers', RECENT_PARAMS],
+    queryFn: () => API.getCompanyJobOffers(company!.id, RECENT_PARAMS),
+    enabled: !!company
+  });
+  
+  const services = servicesPage?.items ?? [];
+  const jobOffers = jobOffersPage?.items ?? [];
+  
+  const isLoading = isLoadingCompanies || (!!company && (isLoadingServices || isLoadingJobOffers));
   
   // Format creation date to display
   const formatDate = (timestamp: any) => {
@@ -93,14 +75,14 @@ export default function Dashboard() {
               <Card className="bg-gradient-to-br from-blue-50 to-blue-100 border-blue-200">
                 <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
                   <CardTitle className="text-sm font-medium">
-                    Minha Empresa
+                    Minhas Empresas
                   </CardTitle>
                   <Building2 className="h-4 w-4 text-blue-500" />
                 </CardHeader>
                 <CardContent>
-                  <div className="text-2xl font-bold">{company ? 1 : 0}</div>
+                  <div className="text-2xl font-bold">{companies.length}</div>
                   <p className="text-xs text-muted-foreground">
-                    {company ? company.name : "Nenhuma empresa cadastrada"}
+                    {company ? `Ativa: ${company.name}` : "Nenhuma empresa cadastrada"}
                   </p>
                 </CardContent>
               </Card>
@@ -113,10 +95,10 @@ export default function Dashboard() {
                   <ShoppingBag className="h-4 w-4 text-green-500" />
                 </CardHeader>
                 <CardContent>
-                  <div className="text-2xl font-bold">{services.length}</div>
+                  <div className="text-2xl font-bold">{servicesPage?.total ?? 0}</div>
                   <p className="text-xs text-muted-foreground">
                     {services.length > 0 
-                      ? `Último adicionado em ${formatDate(services[services.length - 1].createdAt)}`
+                      ? `Último adicionado em ${formatDate(services[0].createdAt)}`
                       : "Nenhum serviço cadastrado"}
                   </p>
                 </CardContent>
@@ -130,10 +112,10 @@ export default function Dashboard() {
                   <Briefcase className="h-4 w-4 text-purple-500" />
                 </CardHeader>
                 <CardContent>
-                  <div className="text-2xl font-bold">{jobOffers.length}</div>
+                  <div className="text-2xl font-bold">{jobOffersPage?.total ?? 0}</div>
                   <p className="text-xs text-muted-foreground">
                     {jobOffers.length > 0 
-                      ? `Última adicionada em ${formatDate(jobOffers[jobOffers.length - 1].createdAt)}`
+                      ? `Última adicionada em ${formatDate(jobOffers[0].createdAt)}`
                       : "Nenhuma vaga cadastrada"}
                   </p>
                 </CardContent>
@@ -294,7 +276,7 @@ export default function Dashboard() {
                           </div>
                         </div>
                         
-                        {services.slice(-2).map((service) => (
+                        {services.map((service) => (
                           <div key={service.id} className="flex items-center">
                             <div className="space-y-1">
                               <p className="text-sm font-medium leading-none">
@@ -310,7 +292,7 @@ export default function Dashboard() {
                           </div>
                         ))}
                         
-                        {jobOffers.slice(-2).map((job) => (
+                        {jobOffers.map((job) => (
                           <div key={job.id} className="flex items-center">
                             <div className="space-y-1">
                               <p className="text-sm font-medium leading-none">
@@ -1,9 +1,13 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { DashboardLayout } from "@/components/layouts/dashboard-layout";
+import { ApplicantPipeline } from "@/components/job-offers/applicant-pipeline";
+import { EntityHistory } from "@/components/audit/entity-history";
+import { RevisionHistory } from "@/components/revisions/revision-history";
 import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
 import {
   Select,
   SelectContent,
@@ -11,17 +15,21 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { useAuth } from "@/hooks/use-auth";
+import { useCompany } from "@/hooks/use-company";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Helmet } from 'react-helmet';
-import { Loader2, Mail, Link as LinkIcon, DollarSign, FileText, Briefcase, UserCheck } from "lucide-react";
-import { API } from "@/lib/api-fixed";
+import { Loader2, Mail, Link as LinkIcon, DollarSign, FileText, Briefcase, UserCheck, CalendarClock } from "lucide-react";
+import { API } from "@/lib/api";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { useParams, useLocation } from "wouter";
+import { Badge } from "@/components/ui/badge";
+import { jobOfferStatusLabels, jobOfferStatusBadgeClasses } from "@/lib/job-offer-statuses";
+import { hasCompanyRole, type JobOfferInput } from "@shared/schema";
+import { employmentTypes } from "@/lib/employment-types";
 
 const jobOfferFormSchema = z.object({
   title: z.string().min(5, { message: "Título da vaga deve ter pelo menos 5 caracteres" }),
@@ -31,16 +39,22 @@ const jobOfferFormSchema = z.object({
   requirements: z.string().optional(),
   contactEmail: z.string().email({ message: "Digite um email válido" }).optional().or(z.literal('')),
   contactLink: z.string().url({ message: "Digite uma URL válida" }).optional().or(z.literal('')),
+  expiresAt: z.string().optional(),
 });
 
 type JobOfferFormValues = z.infer<typeof jobOfferFormSchema>;
 
+// A vaga fica aberta até o fim do dia escolhido no campo de data
+const toJobOfferInput = ({ expiresAt, ...values }: JobOfferFormValues): JobOfferInput => ({
+  ...values,
+  expiresAt: expiresAt ? new Date(`${expiresAt}T23:59:59`) : null,
+});
+
 export default function JobOfferPage() {
   const params = useParams<{ id: string }>();
   const id = params?.id || "new";
   const isNewJobOffer = id === "new";
   const jobOfferId = isNewJobOffer ? null : Number(id);
-  const { user } = useAuth();
   const { toast } = useToast();
   const [_, navigate] = useLocation();
   
@@ -55,51 +69,43 @@ export default function JobOfferPage() {
       requirements: "",
       contactEmail: "",
       contactLink: "",
+      expiresAt: "",
     },
   });
   
-  // Fetch companies
-  const { 
-    data: companies = [], 
-    isLoading: isLoadingCompanies 
-  } = useQuery({
-    queryKey: ['/api/companies'],
-    queryFn: API.getCompanies,
-    enabled: !!user,
-    onError: (error: Error) => {
-      toast({
-        title: "Erro",
-        description: "Não foi possível carregar os dados da empresa",
-        variant: "destructive"
-      });
-    }
-  });
-  
-  const company = companies.length > 0 ? companies[0] : null;
+  // Active company selected in the layout
+  const { activeCompany: company, isLoading: isLoadingCompanies } = useCompany();
   const companyId = company?.id || null;
   
   // Fetch job offer if editing
   const { 
     data: jobOffer, 
-    isLoading: isLoadingJobOffer 
+    isLoading: isLoadingJobOffer,
+    error: jobOfferError
   } = useQuery({
     queryKey: ['/api/job-offers', jobOfferId],
     queryFn: () => jobOfferId ? API.getJobOffer(jobOfferId) : Promise.resolve(null),
-    enabled: !isNewJobOffer && jobOfferId !== null,
-    onSuccess: (data) => {
-      if (data) {
-        form.reset({
-          title: data.title,
-          description: data.description,
-          employmentType: data.employmentType,
-          salaryRange: data.salaryRange || "",
-          requirements: data.requirements || "",
-          contactEmail: data.contactEmail || "",
-          contactLink: data.contactLink || "",
-        });
-      }
-    },
-    onError: (error: Error) => {
+    enabled: !isNewJobOffer && jobOfferId !== null
+  });
+  
+  // Fill the form whenever the job offer is (re)loaded, e.g. after restoring a revision
+  useEffect(() => {
+    if (jobOffer) {
+      form.reset({
+        title: jobOffer.title,
+        description: jobOffer.description,
+        employmentType: jobOffer.employmentType,
+        salaryRange: jobOffer.salaryRange || "",
+        requirements: jobOffer.requirements || "",
+        contactEmail: jobOffer.contactEmail || "",
+        contactLink: jobOffer.contactLink || "",
+        expiresAt: jobOffer.expiresAt ? jobOffer.expiresAt.slice(0, 10) : "",
+      });
+    }
+  }, [jobOffer, form]);
+  
+  useEffect(() => {
+    if (jobOfferError) {
       toast({
         title: "Erro",
         description: "Não foi possível carregar os dados da vaga",
@@ -107,13 +113,13 @@ export default function JobOfferPage() {
       });
       navigate("/job-offers");
     }
-  });
+  }, [jobOfferError, toast, navigate]);
   
   // Create job offer mutation
   const createJobOfferMutation = useMutation({
     mutationFn: (data: JobOfferFormValues) => {
       if (!companyId) throw new Error("Empresa não encontrada");
-      return API.createJobOffer(companyId, data);
+      return API.createJobOffer(companyId, toJobOfferInput(data));
     },
     onSuccess: () => {
       toast({
@@ -135,7 +141,7 @@ export default function JobOfferPage() {
   const updateJobOfferMutation = useMutation({
     mutationFn: (data: JobOfferFormValues) => {
       if (!jobOfferId) throw new Error("ID da vaga inválido");
-      return API.updateJobOffer(jobOfferId, data);
+      return API.updateJobOffer(jobOfferId, toJobOfferInput(data));
     },
     onSuccess: () => {
       toast({
@@ -178,178 +184,228 @@ export default function JobOfferPage() {
             <span>Carregando...</span>
           </div>
         ) : (
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center">
-                <Briefcase className="h-5 w-5 mr-2" />
-                {isNewJobOffer ? "Cadastrar nova vaga" : "Editar vaga"}
-              </CardTitle>
-              <CardDescription>
-                {isNewJobOffer 
-                  ? "Preencha os dados abaixo para cadastrar uma nova vaga" 
-                  : "Atualize as informações da vaga"}
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              <Form {...form}>
-                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-                  <FormField
-                    control={form.control}
-                    name="title"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Título da vaga*</FormLabel>
-                        <FormControl>
-                          <Input placeholder="Ex: Desenvolvedor Full Stack" {...field} />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  
-                  <FormField
-                    control={form.control}
-                    name="description"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Descrição*</FormLabel>
-                        <FormControl>
-                          <Textarea 
-                            placeholder="Forneça uma descrição detalhada da vaga e das responsabilidades" 
-                            className="min-h-[120px]"
-                            {...field} 
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
+          <Tabs defaultValue="details" className="space-y-6">
+            {!isNewJobOffer && jobOffer && (
+              <TabsList>
+                <TabsTrigger value="details">Vaga</TabsTrigger>
+                <TabsTrigger value="revisions">Versões</TabsTrigger>
+                <TabsTrigger value="history">Histórico</TabsTrigger>
+              </TabsList>
+            )}
+            
+            <TabsContent value="details" className="space-y-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center">
+                    <Briefcase className="h-5 w-5 mr-2" />
+                    {isNewJobOffer ? "Cadastrar nova vaga" : "Editar vaga"}
+                    {jobOffer && (
+                      <Badge className={`ml-2 ${jobOfferStatusBadgeClasses[jobOffer.status]}`}>
+                        {jobOfferStatusLabels[jobOffer.status]}
+                      </Badge>
                     )}
-                  />
-                  
-                  <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
-                    <FormField
-                      control={form.control}
-                      name="employmentType"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Tipo de contratação*</FormLabel>
-                          <Select 
-                            onValueChange={field.onChange} 
-                            defaultValue={field.value}
-                          >
+                  </CardTitle>
+                  <CardDescription>
+                    {isNewJobOffer 
+                      ? "Preencha os dados abaixo para cadastrar uma nova vaga. Ela fica como rascunho até ser publicada" 
+                      : "Atualize as informações da vaga"}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Form {...form}>
+                    <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                      <FormField
+                        control={form.control}
+                        name="title"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Título da vaga*</FormLabel>
                             <FormControl>
-                              <SelectTrigger>
-                                <SelectValue placeholder="Selecione..." />
-                              </SelectTrigger>
+                              <Input placeholder="Ex: Desenvolvedor Full Stack" {...field} />
                             </FormControl>
-                            <SelectContent>
-                              <SelectItem value="CLT">CLT</SelectItem>
-                              <SelectItem value="PJ">PJ</SelectItem>
-                              <SelectItem value="Estágio">Estágio</SelectItem>
-                              <SelectItem value="Temporário">Temporário</SelectItem>
-                              <SelectItem value="Freelancer">Freelancer</SelectItem>
-                            </SelectContent>
-                          </Select>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
                     
-                    <FormField
-                      control={form.control}
-                      name="salaryRange"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel className="flex items-center">
-                            <DollarSign className="mr-1 h-4 w-4" /> Faixa salarial
-                          </FormLabel>
-                          <FormControl>
-                            <Input placeholder="Ex: R$ 3.000 - R$ 4.500" {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                  </div>
-                  
-                  <FormField
-                    control={form.control}
-                    name="requirements"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel className="flex items-center">
-                          <UserCheck className="mr-1 h-4 w-4" /> Requisitos
-                        </FormLabel>
-                        <FormControl>
-                          <Textarea 
-                            placeholder="Liste os requisitos e habilidades necessárias" 
-                            className="min-h-[100px]"
-                            {...field} 
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  
-                  <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
-                    <FormField
-                      control={form.control}
-                      name="contactEmail"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel className="flex items-center">
-                            <Mail className="mr-1 h-4 w-4" /> Email para contato
-                          </FormLabel>
-                          <FormControl>
-                            <Input placeholder="contato@empresa.com" {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
+                      <FormField
+                        control={form.control}
+                        name="description"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Descrição*</FormLabel>
+                            <FormControl>
+                              <Textarea 
+                                placeholder="Forneça uma descrição detalhada da vaga e das responsabilidades" 
+                                className="min-h-[120px]"
+                                {...field} 
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    
+                      <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
+                        <FormField
+                          control={form.control}
+                          name="employmentType"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Tipo de contratação*</FormLabel>
+                              <Select 
+                                onValueChange={field.onChange} 
+                                defaultValue={field.value}
+                              >
+                                <FormControl>
+                                  <SelectTrigger>
+                                    <SelectValue placeholder="Selecione..." />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  {employmentTypes.map(type => (
+                                    <SelectItem key={type} value={type}>{type}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      
+                        <FormField
+                          control={form.control}
+                          name="salaryRange"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel className="flex items-center">
+                                <DollarSign className="mr-1 h-4 w-4" /> Faixa salarial
+                              </FormLabel>
+                              <FormControl>
+                                <Input placeholder="Ex: R$ 3.000 - R$ 4.500" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </div>
                     
-                    <FormField
-                      control={form.control}
-                      name="contactLink"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel className="flex items-center">
-                            <LinkIcon className="mr-1 h-4 w-4" /> Link de inscrição
-                          </FormLabel>
-                          <FormControl>
-                            <Input placeholder="https://..." {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                  </div>
-                  
-                  <CardFooter className="flex justify-end px-0">
-                    <div className="flex space-x-2">
-                      <Button 
-                        type="button" 
-                        variant="outline" 
-                        onClick={() => navigate("/job-offers")}
-                      >
-                        Cancelar
-                      </Button>
-                      <Button type="submit" disabled={isLoading}>
-                        {isLoading ? (
-                          <>
-                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                            {isNewJobOffer ? "Cadastrando..." : "Atualizando..."}
-                          </>
-                        ) : (
-                          <>{isNewJobOffer ? "Cadastrar vaga" : "Atualizar vaga"}</>
+                      <FormField
+                        control={form.control}
+                        name="requirements"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel className="flex items-center">
+                              <UserCheck className="mr-1 h-4 w-4" /> Requisitos
+                            </FormLabel>
+                            <FormControl>
+                              <Textarea 
+                                placeholder="Liste os requisitos e habilidades necessárias" 
+                                className="min-h-[100px]"
+                                {...field} 
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
                         )}
-                      </Button>
-                    </div>
-                  </CardFooter>
-                </form>
-              </Form>
-            </CardContent>
-          </Card>
+                      />
+                    
+                      <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
+                        <FormField
+                          control={form.control}
+                          name="contactEmail"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel className="flex items-center">
+                                <Mail className="mr-1 h-4 w-4" /> Email para contato
+                              </FormLabel>
+                              <FormControl>
+                                <Input placeholder="contato@empresa.com" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      
+                        <FormField
+                          control={form.control}
+                          name="contactLink"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel className="flex items-center">
+                                <LinkIcon className="mr-1 h-4 w-4" /> Link de inscrição
+                              </FormLabel>
+                              <FormControl>
+                                <Input placeholder="https://..." {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </div>
+                    
+                      <FormField
+                        control={form.control}
+                        name="expiresAt"
+                        render={({ field }) => (
+                          <FormItem className="sm:max-w-xs">
+                            <FormLabel className="flex items-center">
+                              <CalendarClock className="mr-1 h-4 w-4" /> Data de expiração
+                            </FormLabel>
+                            <FormControl>
+                              <Input type="date" {...field} />
+                            </FormControl>
+                            <FormDescription>
+                              A vaga é encerrada automaticamente depois desta data
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    
+                      <CardFooter className="flex justify-end px-0">
+                        <div className="flex space-x-2">
+                          <Button 
+                            type="button" 
+                            variant="outline" 
+                            onClick={() => navigate("/job-offers")}
+                          >
+                            Cancelar
+                          </Button>
+                          <Button type="submit" disabled={isLoading}>
+                            {isLoading ? (
+                              <>
+                                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                {isNewJobOffer ? "Cadastrando..." : "Atualizando..."}
+                              </>
+                            ) : (
+                              <>{isNewJobOffer ? "Cadastrar vaga" : "Atualizar vaga"}</>
+                            )}
+                          </Button>
+                        </div>
+                      </CardFooter>
+                    </form>
+                  </Form>
+                </CardContent>
+              </Card>
+            
+              {jobOfferId !== null && (
+                <ApplicantPipeline jobOfferId={jobOfferId} canEdit={hasCompanyRole(company?.role, "editor")} />
+              )}
+            </TabsContent>
+            
+            {!isNewJobOffer && jobOffer && (
+              <TabsContent value="revisions">
+                <RevisionHistory entityType="job_offer" entityId={jobOffer.id} canRestore={hasCompanyRole(company?.role, "editor")} />
+              </TabsContent>
+            )}
+            
+            {!isNewJobOffer && jobOffer && (
+              <TabsContent value="history">
+                <EntityHistory companyId={jobOffer.companyId} entityType="job_offer" entityId={jobOffer.id} />
+              </TabsContent>
+            )}
+          </Tabs>
         )}
       </DashboardLayout>
     </>
@@ -1,8 +1,14 @@
 import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CursorPagination } from "@/components/lists/cursor-pagination";
+import { useCursorPagination, useDebouncedValue } from "@/hooks/use-cursor-pagination";
+import { jobOfferSortOptions } from "@/lib/list-sort-options";
+import { employmentTypes } from "@/lib/employment-types";
 import { DashboardLayout } from "@/components/layouts/dashboard-layout";
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { useAuth } from "@/hooks/use-auth";
+import { useCompany } from "@/hooks/use-company";
 import { Helmet } from 'react-helmet';
 import { 
   Loader2, 
@@ -13,7 +19,12 @@ import {
   Link as LinkIcon,
   AlertCircle,
   Briefcase,
-  Building2
+  Building2,
+  Send,
+  Pause,
+  XCircle,
+  CalendarClock,
+  Search
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useLocation } from "wouter";
@@ -29,36 +40,85 @@ import {
 } from "@/components/ui/alert-dialog";
 import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
-import { useQuery, useMutation } from "@tanstack/react-query";
-import { API } from "@/lib/api-fixed";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useQuery, useMutation, keepPreviousData } from "@tanstack/react-query";
+import { API } from "@/lib/api";
+import { jobOfferStatusLabels, jobOfferStatusBadgeClasses } from "@/lib/job-offer-statuses";
+import { jobOfferStatuses, canTransitionJobOffer, hasCompanyRole, type JobOfferStatus } from "@shared/schema";
+
+const ALL_STATUSES = "all";
+const ALL_EMPLOYMENT_TYPES = "all";
+const PAGE_SIZE = 12;
+
+// Ações de estado oferecidas em cada cartão, conforme as transições permitidas
+const statusActions = [
+  { status: "published", label: "Publicar", icon: Send, run: API.publishJobOffer },
+  { status: "paused", label: "Pausar", icon: Pause, run: API.unpublishJobOffer },
+  { status: "closed", label: "Encerrar", icon: XCircle, run: API.closeJobOffer },
+] as const;
+
+type StatusAction = typeof statusActions[number];
 
 export default function JobOffers() {
-  const { user } = useAuth();
   const [jobOfferToDelete, setJobOfferToDelete] = useState<number | null>(null);
+  const [statusFilter, setStatusFilter] = useState<JobOfferStatus | typeof ALL_STATUSES>(ALL_STATUSES);
+  const [employmentTypeFilter, setEmploymentTypeFilter] = useState<string>(ALL_EMPLOYMENT_TYPES);
+  const [search, setSearch] = useState("");
+  const [sortValue, setSortValue] = useState(jobOfferSortOptions[0].value);
   const { toast } = useToast();
   const [_, navigate] = useLocation();
 
-  // Fetch companies
-  const { data: companies = [], isLoading: isLoadingCompanies } = useQuery({
-    queryKey: ['/api/companies'],
-    queryFn: API.getCompanies,
-    enabled: !!user
-  });
+  // Active company selected in the layout
+  const { activeCompany: company, isLoading: isLoadingCompanies } = useCompany();
   
-  const company = companies.length > 0 ? companies[0] : null;
+  // Filters and sorting are applied on the server; changing them goes back to the first page
+  const q = useDebouncedValue(search.trim());
+  const { sort, order } = jobOfferSortOptions.find(option => option.value === sortValue) ?? jobOfferSortOptions[0];
+  const filters = {
+    q,
+    sort,
+    order,
+    status: statusFilter === ALL_STATUSES ? undefined : statusFilter,
+    employmentType: employmentTypeFilter === ALL_EMPLOYMENT_TYPES ? undefined : employmentTypeFilter,
+  };
+  const pagination = useCursorPagination(JSON.stringify(filters));
+  const params = { ...filters, cursor: pagination.cursor, limit: PAGE_SIZE };
+  const hasFilters = !!(q || filters.status || filters.employmentType);
   
-  // Fetch job offers for this company
+  // Fetch the current page of job offers for this company
   const { 
-    data: jobOffers = [] as any[], 
+    data: jobOffersPage, 
     isLoading: isLoadingJobOffers,
     refetch: refetchJobOffers
   } = useQuery({
-    queryKey: ['/api/companies', company?.id, 'job-offers'],
-    queryFn: () => company ? API.getCompanyJobOffers(company.id) : Promise.resolve([]),
-    enabled: !!company
+    queryKey: ['/api/companies', company?.id, 'job-offers', params],
+    queryFn: () => API.getCompanyJobOffers(company!.id, params),
+    enabled: !!company,
+    // Mantém a página anterior na tela enquanto a próxima carrega
+    placeholderData: keepPreviousData
   });
+  const jobOffers = jobOffersPage?.items ?? [];
   
   const isLoading = isLoadingCompanies || isLoadingJobOffers;
+  const canEdit = hasCompanyRole(company?.role, "editor");
+
+  // Publish, pause or close a job offer
+  const statusMutation = useMutation({
+    mutationFn: ({ id, action }: { id: number; action: StatusAction }) => action.run(id),
+    onSuccess: (jobOffer) => {
+      toast({
+        title: "Sucesso",
+        description: `Vaga ${jobOfferStatusLabels[jobOffer.status].toLowerCase()}.`
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro",
+        description: error.message || "Não foi possível alterar o estado da vaga",
+        variant: "destructive"
+      });
+    }
+  });
 
   // Delete job offer mutation
   const deleteMutation = useMutation({
@@ -66,7 +126,7 @@ export default function JobOffers() {
     onSuccess: () => {
       toast({
         title: "Sucesso",
-        description: "Vaga excluída com sucesso!"
+        description: "Vaga movida para a lixeira"
       });
       refetchJobOffers();
     },
@@ -148,7 +208,7 @@ export default function JobOffers() {
               </div>
             </CardContent>
           </Card>
-        ) : (Array.isArray(jobOffers) && jobOffers.length === 0) ? (
+        ) : (!hasFilters && jobOffers.length === 0) ? (
           <Card>
             <CardContent className="pt-6">
               <div className="flex flex-col items-center justify-center text-center p-4">
@@ -165,84 +225,173 @@ export default function JobOffers() {
             </CardContent>
           </Card>
         ) : (
-          <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
-            {Array.isArray(jobOffers) && jobOffers.map((jobOffer: any) => (
-              <Card key={jobOffer.id} className="overflow-hidden">
-                <CardHeader>
-                  <CardTitle className="flex items-start">
-                    <Briefcase className="h-5 w-5 mr-2 mt-1 flex-shrink-0" />
-                    <div>
-                      {jobOffer.title}
-                      <Badge variant="outline" className="ml-2">
-                        {jobOffer.employmentType}
-                      </Badge>
-                    </div>
-                  </CardTitle>
-                  <CardDescription className="line-clamp-3 mt-2">
-                    {jobOffer.description}
-                  </CardDescription>
-                </CardHeader>
-                <CardContent>
-                  <div className="space-y-4">
-                    {jobOffer.salaryRange && (
-                      <div className="flex items-start">
-                        <span className="text-sm font-medium mr-1 whitespace-nowrap">Faixa salarial:</span>
-                        <span className="text-sm text-gray-500">{jobOffer.salaryRange}</span>
-                      </div>
-                    )}
-                    
-                    {jobOffer.requirements && (
-                      <div className="flex items-start">
-                        <span className="text-sm font-medium mr-1 whitespace-nowrap">Requisitos:</span>
-                        <span className="text-sm text-gray-500 line-clamp-2">{jobOffer.requirements}</span>
+          <div className="space-y-6">
+            <div className="flex flex-col gap-2 sm:flex-row">
+              <div className="relative sm:w-72">
+                <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+                <Input
+                  value={search}
+                  onChange={(event) => setSearch(event.target.value)}
+                  placeholder="Buscar vagas..."
+                  className="pl-9"
+                />
+              </div>
+              <Select value={employmentTypeFilter} onValueChange={setEmploymentTypeFilter}>
+                <SelectTrigger className="sm:w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_EMPLOYMENT_TYPES}>Todos os contratos</SelectItem>
+                  {employmentTypes.map(type => (
+                    <SelectItem key={type} value={type}>{type}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={sortValue} onValueChange={setSortValue}>
+                <SelectTrigger className="sm:w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {jobOfferSortOptions.map(option => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            
+            <Tabs value={statusFilter} onValueChange={value => setStatusFilter(value as JobOfferStatus | typeof ALL_STATUSES)}>
+              <TabsList className="flex h-auto flex-wrap justify-start">
+                <TabsTrigger value={ALL_STATUSES}>Todas</TabsTrigger>
+                {jobOfferStatuses.map(status => (
+                  <TabsTrigger key={status} value={status}>
+                    {jobOfferStatusLabels[status]}
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+            </Tabs>
+            
+            {jobOffers.length === 0 ? (
+              <p className="text-sm text-gray-500 py-6 text-center">Nenhuma vaga corresponde aos filtros.</p>
+            ) : (
+              <p className="text-sm text-gray-500">{jobOffersPage?.total} vaga(s) encontrada(s)</p>
+            )}
+            
+            <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
+              {jobOffers.map((jobOffer) => (
+                <Card key={jobOffer.id} className="overflow-hidden">
+                  <CardHeader>
+                    <CardTitle className="flex items-start">
+                      <Briefcase className="h-5 w-5 mr-2 mt-1 flex-shrink-0" />
+                      <div>
+                        {jobOffer.title}
+                        <Badge variant="outline" className="ml-2">
+                          {jobOffer.employmentType}
+                        </Badge>
+                        <Badge className={`ml-2 ${jobOfferStatusBadgeClasses[jobOffer.status as JobOfferStatus]}`}>
+                          {jobOfferStatusLabels[jobOffer.status as JobOfferStatus]}
+                        </Badge>
                       </div>
-                    )}
+                    </CardTitle>
+                    <CardDescription className="line-clamp-3 mt-2">
+                      {jobOffer.description}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-4">
+                      {jobOffer.salaryRange && (
+                        <div className="flex items-start">
+                          <span className="text-sm font-medium mr-1 whitespace-nowrap">Faixa salarial:</span>
+                          <span className="text-sm text-gray-500">{jobOffer.salaryRange}</span>
+                        </div>
+                      )}
+                      
+                      {jobOffer.requirements && (
+                        <div className="flex items-start">
+                          <span className="text-sm font-medium mr-1 whitespace-nowrap">Requisitos:</span>
+                          <span className="text-sm text-gray-500 line-clamp-2">{jobOffer.requirements}</span>
+                        </div>
+                      )}
+                      
+                      {jobOffer.contactEmail && (
+                        <div className="flex items-center">
+                          <Mail className="h-4 w-4 mr-2 text-gray-500" />
+                          <span className="text-sm">{jobOffer.contactEmail}</span>
+                        </div>
+                      )}
+                      
+                      {jobOffer.expiresAt && (
+                        <div className="flex items-center">
+                          <CalendarClock className="h-4 w-4 mr-2 text-gray-500" />
+                          <span className="text-sm">
+                            {jobOffer.status === "closed" ? "Expirou em" : "Expira em"} {new Date(jobOffer.expiresAt).toLocaleDateString('pt-PT')}
+                          </span>
+                        </div>
+                      )}
+                      
+                      {jobOffer.contactLink && (
+                        <div className="flex items-center">
+                          <LinkIcon className="h-4 w-4 mr-2 text-gray-500" />
+                          <a 
+                            href={jobOffer.contactLink} 
+                            target="_blank" 
+                            rel="noopener noreferrer"
+                            className="text-sm text-blue-600 hover:underline truncate"
+                          >
+                            {jobOffer.contactLink}
+                          </a>
+                        </div>
+                      )}
+                    </div>
                     
-                    {jobOffer.contactEmail && (
-                      <div className="flex items-center">
-                        <Mail className="h-4 w-4 mr-2 text-gray-500" />
-                        <span className="text-sm">{jobOffer.contactEmail}</span>
-                      </div>
-                    )}
+                    <Separator className="my-4" />
                     
-                    {jobOffer.contactLink && (
-                      <div className="flex items-center">
-                        <LinkIcon className="h-4 w-4 mr-2 text-gray-500" />
-                        <a 
-                          href={jobOffer.contactLink} 
-                          target="_blank" 
-                          rel="noopener noreferrer"
-                          className="text-sm text-blue-600 hover:underline truncate"
-                        >
-                          {jobOffer.contactLink}
-                        </a>
-                      </div>
-                    )}
-                  </div>
-                  
-                  <Separator className="my-4" />
-                  
-                  <div className="flex justify-end space-x-2">
-                    <Button 
-                      variant="outline" 
-                      size="sm" 
-                      onClick={() => handleEditJobOffer(jobOffer.id)}
-                    >
-                      <FileEdit className="h-4 w-4 mr-1" />
-                      Editar
-                    </Button>
-                    <Button 
-                      variant="destructive" 
-                      size="sm"
-                      onClick={() => handleDeleteClick(jobOffer.id)}
-                    >
-                      <Trash2 className="h-4 w-4 mr-1" />
-                      Excluir
-                    </Button>
-                  </div>
-                </CardContent>
-              </Card>
-            ))}
+                    <div className="flex flex-wrap justify-end gap-2">
+                      {canEdit && statusActions
+                        .filter(action => canTransitionJobOffer(jobOffer.status, action.status))
+                        .map(action => (
+                          <Button
+                            key={action.status}
+                            variant="outline"
+                            size="sm"
+                            onClick={() => statusMutation.mutate({ id: jobOffer.id, action })}
+                            disabled={statusMutation.isPending}
+                          >
+                            <action.icon className="h-4 w-4 mr-1" />
+                            {action.label}
+                          </Button>
+                        ))}
+                      <Button 
+                        variant="outline" 
+                        size="sm" 
+                        onClick={() => handleEditJobOffer(jobOffer.id)}
+                      >
+                        <FileEdit className="h-4 w-4 mr-1" />
+                        Editar
+                      </Button>
+                      <Button 
+                        variant="destructive" 
+                        size="sm"
+                        onClick={() => handleDeleteClick(jobOffer.id)}
+                      >
+                        <Trash2 className="h-4 w-4 mr-1" />
+                        Excluir
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+            
+            <CursorPagination
+              page={pagination.page}
+              pageSize={PAGE_SIZE}
+              total={jobOffersPage?.total ?? 0}
+              hasNext={!!jobOffersPage?.nextCursor}
+              onPrevious={pagination.goToPrevious}
+              onNext={() => jobOffersPage?.nextCursor && pagination.goToNext(jobOffersPage.nextCursor)}
+            />
           </div>
         )}
       </DashboardLayout>
@@ -252,7 +401,8 @@ export default function JobOffers() {
           <AlertDialogHeader>
             <AlertDialogTitle>Você tem certeza?</AlertDialogTitle>
             <AlertDialogDescription>
-              Esta ação não pode ser desfeita. Isso excluirá permanentemente esta vaga.
+              A vaga e as suas candidaturas serão movidas para a lixeira, de onde
+              podem ser restauradas até serem excluídas definitivamente.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
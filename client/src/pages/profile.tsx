@@ -39,7 +39,7 @@ export default function Profile() {
   
   // Format the createdAt timestamp or use fallback
   const formattedCreatedAt = userData?.createdAt 
-    ? format(new Date(userData.createdAt.toDate()), 'MMMM yyyy')
+    ? format(new Date(userData.createdAt), 'MMMM yyyy')
     : 'Recent';
   
   const form = useForm<ProfileFormValues>({
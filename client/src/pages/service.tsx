@@ -1,93 +1,173 @@
-import { useState, useRef } from "react";
+import { useEffect } from "react";
 import { DashboardLayout } from "@/components/layouts/dashboard-layout";
+import { ServiceImageManager } from "@/components/services/service-image-manager";
+import { EntityHistory } from "@/components/audit/entity-history";
+import { RevisionHistory } from "@/components/revisions/revision-history";
+import { OpeningHoursEditor } from "@/components/opening-hours/opening-hours-editor";
+import { OpenNowBadge } from "@/components/opening-hours/open-now-badge";
+import { ServiceTagsInput } from "@/components/services/service-tags-input";
 import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
-import { useAuth } from "@/hooks/use-auth";
-import { useForm } from "react-hook-form";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
+import { useCompany } from "@/hooks/use-company";
+import { useForm, useFieldArray } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Helmet } from 'react-helmet';
-import { Loader2, Trash2, ImagePlus, AlarmClock, DollarSign, Store } from "lucide-react";
-import { API } from "@/lib/api-fixed";
+import { Loader2, AlarmClock, CalendarClock, DollarSign, FolderTree, Store, Plus, Trash2 } from "lucide-react";
+import { API } from "@/lib/api";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { useParams, useLocation } from "wouter";
+import {
+  hasCompanyRole,
+  formatServicePrice,
+  formatVatRate,
+  servicePricingTypes,
+  openingHoursSchema,
+  type OpeningHours,
+  type ServiceInput,
+  type ServiceResponse,
+} from "@shared/schema";
+import { createDefaultOpeningHours, formatIntervals, formatWeeklySummary } from "@shared/opening-hours";
+import {
+  servicePricingTypeLabels,
+  serviceCurrencies,
+  vatRateOptions,
+  parsePriceInput,
+  toPriceInput,
+  hasPriceAmount,
+  NO_PRICING,
+} from "@/lib/service-pricing";
+import { serviceDurationOptions, NO_BOOKING } from "@/lib/appointment-statuses";
+import { getCategoryOptions, NO_CATEGORY } from "@/lib/service-categories";
+
+const INVALID_PRICE_MESSAGE = "Informe um valor válido, como 25,50";
 
 const serviceFormSchema = z.object({
   name: z.string().min(2, { message: "Nome do serviço deve ter pelo menos 2 caracteres" }),
   description: z.string().min(10, { message: "Descrição deve ter pelo menos 10 caracteres" }),
-  price: z.string().optional(),
-  workingHours: z.string().optional(),
+  pricingType: z.enum([NO_PRICING, ...servicePricingTypes]),
+  price: z.string(),
+  currency: z.string(),
+  vatRate: z.string(),
+  priceVariants: z.array(z.object({
+    name: z.string().trim().min(1, { message: "Dê um nome à variante" }).max(100, { message: "Máximo de 100 caracteres" }),
+    description: z.string().max(300, { message: "Máximo de 300 caracteres" }),
+    price: z.string().refine(value => parsePriceInput(value) !== null, { message: INVALID_PRICE_MESSAGE }),
+  })).max(20, { message: "O serviço pode ter no máximo 20 variantes" }),
+  useCompanyHours: z.boolean(),
+  // Os erros de cada dia e exceção aparecem no próprio editor
+  openingHours: z.custom<OpeningHours>(),
+  durationMinutes: z.string(),
+  categoryId: z.string(),
+  tags: z.array(z.string()),
+}).superRefine((values, ctx) => {
+  if (hasPriceAmount(values.pricingType) && parsePriceInput(values.price) === null) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["price"], message: INVALID_PRICE_MESSAGE });
+  }
+  if (!values.useCompanyHours && !openingHoursSchema.safeParse(values.openingHours).success) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["openingHours"], message: "Corrija o horário antes de salvar" });
+  }
 });
 
 type ServiceFormValues = z.infer<typeof serviceFormSchema>;
 
+// Campos do formulário a partir do serviço salvo (ou vazios, num serviço novo)
+const toFormValues = (service?: ServiceResponse | null): ServiceFormValues => ({
+  name: service?.name ?? "",
+  description: service?.description ?? "",
+  pricingType: service?.pricingType ?? NO_PRICING,
+  price: toPriceInput(service?.priceCents ?? null),
+  currency: service?.currency ?? "EUR",
+  vatRate: String(service?.vatRate ?? 23),
+  priceVariants: (service?.priceVariants ?? []).map(variant => ({
+    name: variant.name,
+    description: variant.description ?? "",
+    price: toPriceInput(variant.priceCents),
+  })),
+  useCompanyHours: !service?.openingHours,
+  openingHours: service?.openingHours ?? createDefaultOpeningHours(),
+  durationMinutes: service?.durationMinutes ? String(service.durationMinutes) : NO_BOOKING,
+  categoryId: service?.categoryId ? String(service.categoryId) : NO_CATEGORY,
+  tags: service?.tags ?? [],
+});
+
+// Valores em cêntimos para a API; sem valor, o preço e as variantes são descartados
+const toServiceInput = (values: ServiceFormValues): ServiceInput => {
+  const hasAmount = hasPriceAmount(values.pricingType);
+
+  return {
+    name: values.name,
+    description: values.description,
+    pricingType: values.pricingType === NO_PRICING ? null : values.pricingType,
+    priceCents: hasAmount ? parsePriceInput(values.price) : null,
+    currency: values.currency,
+    vatRate: Number(values.vatRate),
+    priceVariants: hasAmount
+      ? values.priceVariants.map(variant => ({
+          name: variant.name.trim(),
+          description: variant.description.trim() || null,
+          priceCents: parsePriceInput(variant.price) ?? 0,
+        }))
+      : [],
+    openingHours: values.useCompanyHours ? null : values.openingHours,
+    durationMinutes: values.durationMinutes === NO_BOOKING ? null : Number(values.durationMinutes),
+    categoryId: values.categoryId === NO_CATEGORY ? null : Number(values.categoryId),
+    tags: values.tags,
+  };
+};
+
 export default function ServicePage() {
   const params = useParams<{ id: string }>();
   const id = params?.id || "new";
   const isNewService = id === "new";
   const serviceId = isNewService ? null : Number(id);
-  const { user } = useAuth();
-  const [images, setImages] = useState<string[]>([]);
-  const [uploading, setUploading] = useState(false);
   const { toast } = useToast();
   const [_, navigate] = useLocation();
-  const fileInputRef = useRef<HTMLInputElement>(null);
   
   // Form setup
   const form = useForm<ServiceFormValues>({
     resolver: zodResolver(serviceFormSchema),
-    defaultValues: {
-      name: "",
-      description: "",
-      price: "",
-      workingHours: "",
-    },
-  });
-  
-  // Fetch companies
-  const { 
-    data: companies = [], 
-    isLoading: isLoadingCompanies 
-  } = useQuery({
-    queryKey: ['/api/companies'],
-    queryFn: API.getCompanies,
-    enabled: !!user,
-    onError: (error: Error) => {
-      toast({
-        title: "Erro",
-        description: "Não foi possível carregar os dados da empresa",
-        variant: "destructive"
-      });
-    }
+    defaultValues: toFormValues(),
   });
+  const priceVariants = useFieldArray({ control: form.control, name: "priceVariants" });
+  const pricingType = form.watch("pricingType");
+  const currency = form.watch("currency");
+  const vatRate = form.watch("vatRate");
+  const price = form.watch("price");
+  const useCompanyHours = form.watch("useCompanyHours");
+  const durationMinutes = form.watch("durationMinutes");
   
-  const company = companies.length > 0 ? companies[0] : null;
+  // Active company selected in the layout
+  const { activeCompany: company, isLoading: isLoadingCompanies } = useCompany();
   const companyId = company?.id || null;
   
   // Fetch service if editing
   const { 
     data: service, 
-    isLoading: isLoadingService 
+    isLoading: isLoadingService,
+    error: serviceError
   } = useQuery({
     queryKey: ['/api/services', serviceId],
     queryFn: () => serviceId ? API.getService(serviceId) : Promise.resolve(null),
-    enabled: !isNewService && serviceId !== null,
-    onSuccess: (data) => {
-      if (data) {
-        setImages(Array.isArray(data.images) ? data.images : []);
-        form.reset({
-          name: data.name,
-          description: data.description,
-          price: data.price || "",
-          workingHours: data.workingHours || "",
-        });
-      }
-    },
-    onError: (error: Error) => {
+    enabled: !isNewService && serviceId !== null
+  });
+  
+  // Fill the form whenever the service is (re)loaded, e.g. after restoring a revision
+  useEffect(() => {
+    if (service) {
+      form.reset(toFormValues(service));
+    }
+  }, [service, form]);
+  
+  useEffect(() => {
+    if (serviceError) {
       toast({
         title: "Erro",
         description: "Não foi possível carregar os dados do serviço",
@@ -95,16 +175,33 @@ export default function ServicePage() {
       });
       navigate("/services");
     }
+  }, [serviceError, toast, navigate]);
+  
+  // Horário em vigor e próximos feriados e exceções, conforme o que está salvo
+  const { data: availability } = useQuery({
+    queryKey: ['/api/services', serviceId, 'availability'],
+    queryFn: () => API.getServiceAvailability(serviceId!),
+    enabled: !isNewService && serviceId !== null
+  });
+  
+  // Categorias e etiquetas da empresa para o formulário
+  const { data: categories = [] } = useQuery({
+    queryKey: ['/api/companies', companyId, 'service-categories'],
+    queryFn: () => API.getServiceCategories(companyId!),
+    enabled: companyId !== null
+  });
+  
+  const { data: tags = [] } = useQuery({
+    queryKey: ['/api/companies', companyId, 'service-tags'],
+    queryFn: () => API.getServiceTags(companyId!),
+    enabled: companyId !== null
   });
   
   // Create service mutation
   const createServiceMutation = useMutation({
     mutationFn: (data: ServiceFormValues) => {
       if (!companyId) throw new Error("Empresa não encontrada");
-      return API.createService(companyId, {
-        ...data,
-        images: []
-      });
+      return API.createService(companyId, toServiceInput(data));
     },
     onSuccess: (data) => {
       toast({
@@ -126,10 +223,7 @@ export default function ServicePage() {
   const updateServiceMutation = useMutation({
     mutationFn: (data: ServiceFormValues) => {
       if (!serviceId) throw new Error("ID do serviço inválido");
-      return API.updateService(serviceId, {
-        ...data,
-        images
-      });
+      return API.updateService(serviceId, toServiceInput(data));
     },
     onSuccess: () => {
       toast({
@@ -146,43 +240,6 @@ export default function ServicePage() {
     }
   });
   
-  // Upload image mutation
-  const uploadImageMutation = useMutation({
-    mutationFn: async (file: File) => {
-      if (!serviceId || !companyId) throw new Error("Dados inválidos");
-      
-      // TODO: Implement actual file upload with API.addServiceImage
-      // For now, we'll create a fake URL
-      return `https://picsum.photos/id/${Math.floor(Math.random() * 1000)}/800/600`;
-    },
-    onSuccess: (imageUrl) => {
-      const newImages = [...images, imageUrl];
-      setImages(newImages);
-      
-      // Update service with new image list
-      if (serviceId) {
-        API.updateService(serviceId, { images: newImages });
-      }
-      
-      toast({
-        title: "Sucesso",
-        description: "Imagem enviada com sucesso!",
-      });
-      
-      // Reset file input
-      if (fileInputRef.current) {
-        fileInputRef.current.value = "";
-      }
-    },
-    onError: (error: Error) => {
-      toast({
-        title: "Erro",
-        description: "Não foi possível enviar a imagem",
-        variant: "destructive",
-      });
-    }
-  });
-  
   // Loading state
   const isFetching = isLoadingCompanies || (isLoadingService && !isNewService);
   const isLoading = createServiceMutation.isPending || updateServiceMutation.isPending;
@@ -195,66 +252,6 @@ export default function ServicePage() {
     }
   };
   
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (!e.target.files) return;
-    
-    const file = e.target.files[0];
-    if (!file) return;
-    
-    // Check file type
-    if (!file.type.startsWith('image/')) {
-      toast({
-        title: "Erro",
-        description: "Por favor, selecione apenas arquivos de imagem",
-        variant: "destructive",
-      });
-      return;
-    }
-    
-    // Check file size (max 5MB)
-    const maxSize = 5 * 1024 * 1024; // 5MB
-    if (file.size > maxSize) {
-      toast({
-        title: "Erro",
-        description: "O tamanho máximo da imagem é 5MB",
-        variant: "destructive",
-      });
-      return;
-    }
-    
-    setUploading(true);
-    uploadImageMutation.mutate(file);
-  };
-  
-  const handleRemoveImage = (indexToRemove: number) => {
-    if (!serviceId) return;
-    
-    const newImages = images.filter((_, index) => index !== indexToRemove);
-    setImages(newImages);
-    
-    // Update service with new image list
-    API.updateService(serviceId, { images: newImages })
-      .then(() => {
-        toast({
-          title: "Sucesso",
-          description: "Imagem removida com sucesso!",
-        });
-      })
-      .catch((error) => {
-        toast({
-          title: "Erro",
-          description: "Não foi possível remover a imagem",
-          variant: "destructive",
-        });
-      });
-  };
-  
-  const triggerFileInput = () => {
-    if (fileInputRef.current) {
-      fileInputRef.current.click();
-    }
-  };
-
   return (
     <>
       <Helmet>
@@ -268,192 +265,472 @@ export default function ServicePage() {
             <span>Carregando...</span>
           </div>
         ) : (
-          <div className="space-y-6">
-            {/* Service Form */}
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center">
-                  <Store className="h-5 w-5 mr-2" />
-                  {isNewService ? "Cadastrar novo serviço" : "Editar serviço"}
-                </CardTitle>
-                <CardDescription>
-                  {isNewService 
-                    ? "Preencha os dados abaixo para cadastrar um novo serviço" 
-                    : "Atualize as informações do serviço"}
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <Form {...form}>
-                  <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-                    <FormField
-                      control={form.control}
-                      name="name"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Nome do serviço*</FormLabel>
-                          <FormControl>
-                            <Input placeholder="Digite o nome do serviço" {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    
-                    <FormField
-                      control={form.control}
-                      name="description"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Descrição*</FormLabel>
-                          <FormControl>
-                            <Textarea 
-                              placeholder="Forneça uma descrição detalhada do serviço" 
-                              className="min-h-[120px]"
-                              {...field} 
-                            />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    
-                    <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
+          <Tabs defaultValue="details" className="space-y-6">
+            {!isNewService && service && (
+              <TabsList>
+                <TabsTrigger value="details">Serviço</TabsTrigger>
+                <TabsTrigger value="revisions">Versões</TabsTrigger>
+                <TabsTrigger value="history">Histórico</TabsTrigger>
+              </TabsList>
+            )}
+            
+            <TabsContent value="details" className="space-y-6">
+              {/* Service Form */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center">
+                    <Store className="h-5 w-5 mr-2" />
+                    {isNewService ? "Cadastrar novo serviço" : "Editar serviço"}
+                  </CardTitle>
+                  <CardDescription>
+                    {isNewService 
+                      ? "Preencha os dados abaixo para cadastrar um novo serviço" 
+                      : "Atualize as informações do serviço"}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Form {...form}>
+                    <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
                       <FormField
                         control={form.control}
-                        name="price"
+                        name="name"
                         render={({ field }) => (
                           <FormItem>
-                            <FormLabel className="flex items-center">
-                              <DollarSign className="mr-1 h-4 w-4" /> Valor
-                            </FormLabel>
+                            <FormLabel>Nome do serviço*</FormLabel>
                             <FormControl>
-                              <Input placeholder="R$ 0,00" {...field} />
+                              <Input placeholder="Digite o nome do serviço" {...field} />
                             </FormControl>
                             <FormMessage />
                           </FormItem>
                         )}
                       />
-                      
+                    
                       <FormField
                         control={form.control}
-                        name="workingHours"
+                        name="description"
                         render={({ field }) => (
                           <FormItem>
-                            <FormLabel className="flex items-center">
-                              <AlarmClock className="mr-1 h-4 w-4" /> Horário de funcionamento
-                            </FormLabel>
+                            <FormLabel>Descrição*</FormLabel>
                             <FormControl>
-                              <Input placeholder="Seg-Sex: 9h às 18h" {...field} />
+                              <Textarea 
+                                placeholder="Forneça uma descrição detalhada do serviço" 
+                                className="min-h-[120px]"
+                                {...field} 
+                              />
                             </FormControl>
                             <FormMessage />
                           </FormItem>
                         )}
                       />
-                    </div>
                     
-                    <CardFooter className="flex justify-end px-0">
-                      <div className="flex space-x-2">
-                        <Button 
-                          type="button" 
-                          variant="outline" 
-                          onClick={() => navigate("/services")}
-                        >
-                          Cancelar
-                        </Button>
-                        <Button type="submit" disabled={isLoading}>
-                          {isLoading ? (
-                            <>
-                              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                              {isNewService ? "Cadastrando..." : "Atualizando..."}
-                            </>
-                          ) : (
-                            <>{isNewService ? "Cadastrar serviço" : "Atualizar serviço"}</>
+                      <div className="space-y-4 rounded-md border p-4">
+                        <div>
+                          <h3 className="flex items-center font-medium">
+                            <FolderTree className="mr-1 h-4 w-4" /> Categoria e etiquetas
+                          </h3>
+                          <p className="text-sm text-gray-500">
+                            Organizam a lista de serviços e a página pública. As categorias gerem-se na lista de serviços.
+                          </p>
+                        </div>
+                        
+                        <FormField
+                          control={form.control}
+                          name="categoryId"
+                          render={({ field }) => (
+                            <FormItem className="sm:max-w-sm">
+                              <FormLabel>Categoria</FormLabel>
+                              <Select onValueChange={field.onChange} value={field.value}>
+                                <FormControl>
+                                  <SelectTrigger>
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  <SelectItem value={NO_CATEGORY}>Sem categoria</SelectItem>
+                                  {getCategoryOptions(categories).map(option => (
+                                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <FormMessage />
+                            </FormItem>
                           )}
-                        </Button>
+                        />
+                        
+                        <FormField
+                          control={form.control}
+                          name="tags"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Etiquetas</FormLabel>
+                              <ServiceTagsInput
+                                value={field.value}
+                                onChange={field.onChange}
+                                suggestions={tags.map(summary => summary.tag)}
+                              />
+                              <FormDescription>Palavras livres, como "domicílio" ou "urgente".</FormDescription>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
                       </div>
-                    </CardFooter>
-                  </form>
-                </Form>
-              </CardContent>
-            </Card>
-            
-            {/* Images Section - Only show for existing services */}
-            {!isNewService && service && (
-              <Card>
-                <CardHeader>
-                  <CardTitle className="flex items-center">
-                    <ImagePlus className="h-5 w-5 mr-2" />
-                    Imagens do serviço
-                  </CardTitle>
-                  <CardDescription>
-                    Adicione imagens para ilustrar o seu serviço
-                  </CardDescription>
-                </CardHeader>
-                <CardContent>
-                  {/* Hidden file input */}
-                  <input
-                    type="file"
-                    ref={fileInputRef}
-                    onChange={handleFileChange}
-                    accept="image/*"
-                    className="hidden"
-                  />
-                  
-                  {/* Current images */}
-                  {images.length > 0 ? (
-                    <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-4 mb-6">
-                      {images.map((image, index) => (
-                        <div key={index} className="relative group">
-                          <img 
-                            src={image} 
-                            alt={`Imagem ${index + 1}`} 
-                            className="aspect-video object-cover w-full h-full rounded-md"
+                      
+                      <div className="space-y-4 rounded-md border p-4">
+                        <div>
+                          <h3 className="flex items-center font-medium">
+                            <DollarSign className="mr-1 h-4 w-4" /> Preço
+                          </h3>
+                          <p className="text-sm text-gray-500">Valores com IVA incluído.</p>
+                        </div>
+                        
+                        {service?.legacyPrice && !service.pricingType && (
+                          <p className="rounded-md bg-amber-50 p-3 text-sm text-amber-800">
+                            Preço anterior, em texto livre: "{service.legacyPrice}". Escolha uma forma de cobrança
+                            abaixo para substituí-lo.
+                          </p>
+                        )}
+                        
+                        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                          <FormField
+                            control={form.control}
+                            name="pricingType"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Forma de cobrança</FormLabel>
+                                <Select onValueChange={field.onChange} value={field.value}>
+                                  <FormControl>
+                                    <SelectTrigger>
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                  </FormControl>
+                                  <SelectContent>
+                                    <SelectItem value={NO_PRICING}>Sem preço indicado</SelectItem>
+                                    {servicePricingTypes.map(type => (
+                                      <SelectItem key={type} value={type}>{servicePricingTypeLabels[type]}</SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                                <FormMessage />
+                              </FormItem>
+                            )}
                           />
-                          <div className="absolute inset-0 bg-black bg-opacity-40 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
-                            <Button 
-                              variant="destructive"
-                              size="sm"
-                              onClick={() => handleRemoveImage(index)}
-                            >
-                              <Trash2 className="h-4 w-4 mr-1" />
-                              Remover
-                            </Button>
+                          
+                          {hasPriceAmount(pricingType) && (
+                            <FormField
+                              control={form.control}
+                              name="price"
+                              render={({ field }) => (
+                                <FormItem>
+                                  <FormLabel>{pricingType === "hourly" ? "Valor por hora*" : "Valor*"}</FormLabel>
+                                  <FormControl>
+                                    <Input inputMode="decimal" placeholder="0,00" {...field} />
+                                  </FormControl>
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
+                          )}
+                          
+                          {hasPriceAmount(pricingType) && (
+                            <FormField
+                              control={form.control}
+                              name="currency"
+                              render={({ field }) => (
+                                <FormItem>
+                                  <FormLabel>Moeda</FormLabel>
+                                  <Select onValueChange={field.onChange} value={field.value}>
+                                    <FormControl>
+                                      <SelectTrigger>
+                                        <SelectValue />
+                                      </SelectTrigger>
+                                    </FormControl>
+                                    <SelectContent>
+                                      {serviceCurrencies.map(code => (
+                                        <SelectItem key={code} value={code}>{code}</SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
+                          )}
+                          
+                          {hasPriceAmount(pricingType) && (
+                            <FormField
+                              control={form.control}
+                              name="vatRate"
+                              render={({ field }) => (
+                                <FormItem>
+                                  <FormLabel>Taxa de IVA</FormLabel>
+                                  <Select onValueChange={field.onChange} value={field.value}>
+                                    <FormControl>
+                                      <SelectTrigger>
+                                        <SelectValue />
+                                      </SelectTrigger>
+                                    </FormControl>
+                                    <SelectContent>
+                                      {vatRateOptions.map(option => (
+                                        <SelectItem key={option.value} value={String(option.value)}>{option.label}</SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
+                          )}
+                        </div>
+                        
+                        {hasPriceAmount(pricingType) && (
+                          <div className="space-y-3">
+                            <div className="flex items-center justify-between">
+                              <div>
+                                <h4 className="text-sm font-medium">Variantes e pacotes</h4>
+                                <p className="text-sm text-gray-500">
+                                  Opções do serviço com valor próprio, cobradas da mesma forma.
+                                </p>
+                              </div>
+                              <Button
+                                type="button"
+                                variant="outline"
+                                size="sm"
+                                onClick={() => priceVariants.append({ name: "", description: "", price: "" })}
+                                disabled={priceVariants.fields.length >= 20}
+                              >
+                                <Plus className="mr-1 h-4 w-4" /> Adicionar
+                              </Button>
+                            </div>
+                            
+                            {priceVariants.fields.map((variant, index) => (
+                              <div key={variant.id} className="grid grid-cols-1 gap-3 rounded-md bg-gray-50 p-3 sm:grid-cols-[1fr_1fr_8rem_auto]">
+                                <FormField
+                                  control={form.control}
+                                  name={`priceVariants.${index}.name`}
+                                  render={({ field }) => (
+                                    <FormItem>
+                                      <FormLabel className="sr-only">Nome da variante</FormLabel>
+                                      <FormControl>
+                                        <Input placeholder="Nome (ex.: Pacote 5 sessões)" {...field} />
+                                      </FormControl>
+                                      <FormMessage />
+                                    </FormItem>
+                                  )}
+                                />
+                                <FormField
+                                  control={form.control}
+                                  name={`priceVariants.${index}.description`}
+                                  render={({ field }) => (
+                                    <FormItem>
+                                      <FormLabel className="sr-only">Descrição da variante</FormLabel>
+                                      <FormControl>
+                                        <Input placeholder="Descrição (opcional)" {...field} />
+                                      </FormControl>
+                                      <FormMessage />
+                                    </FormItem>
+                                  )}
+                                />
+                                <FormField
+                                  control={form.control}
+                                  name={`priceVariants.${index}.price`}
+                                  render={({ field }) => (
+                                    <FormItem>
+                                      <FormLabel className="sr-only">Valor da variante</FormLabel>
+                                      <FormControl>
+                                        <Input inputMode="decimal" placeholder="0,00" {...field} />
+                                      </FormControl>
+                                      <FormMessage />
+                                    </FormItem>
+                                  )}
+                                />
+                                <Button
+                                  type="button"
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => priceVariants.remove(index)}
+                                  aria-label="Remover variante"
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                        
+                        {pricingType !== NO_PRICING && (
+                          <p className="text-sm text-gray-500">
+                            Como aparece:{" "}
+                            <span className="font-medium text-gray-900">
+                              {formatServicePrice({
+                                pricingType,
+                                priceCents: parsePriceInput(price),
+                                currency,
+                                legacyPrice: null
+                              }) ?? "—"}
+                            </span>
+                            {hasPriceAmount(pricingType) && ` · ${formatVatRate(Number(vatRate))}`}
+                          </p>
+                        )}
+                      </div>
+                      
+                      <div className="space-y-4 rounded-md border p-4">
+                        <div className="flex items-start justify-between gap-4">
+                          <div>
+                            <h3 className="flex items-center font-medium">
+                              <AlarmClock className="mr-1 h-4 w-4" /> Horário de funcionamento
+                            </h3>
+                            {availability?.openingHours && (
+                              <p className="text-sm text-gray-500">
+                                Em vigor{availability.source === "company" && " (horário da empresa)"}:{" "}
+                                {formatWeeklySummary(availability.openingHours)}
+                              </p>
+                            )}
                           </div>
+                          {availability && <OpenNowBadge openNow={availability.openNow} />}
                         </div>
-                      ))}
-                    </div>
-                  ) : (
-                    <div className="flex flex-col items-center justify-center text-center p-6 border-2 border-dashed border-gray-300 rounded-md mb-6">
-                      <ImagePlus className="h-10 w-10 text-gray-400 mb-2" />
-                      <p className="text-sm text-gray-500">
-                        Nenhuma imagem adicionada ainda
-                      </p>
-                    </div>
-                  )}
-                  
-                  {/* Upload button */}
-                  <Button 
-                    type="button" 
-                    onClick={triggerFileInput}
-                    disabled={uploadImageMutation.isPending}
-                    className="w-full"
-                  >
-                    {uploadImageMutation.isPending ? (
-                      <>
-                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                        Enviando imagem...
-                      </>
-                    ) : (
-                      <>
-                        <ImagePlus className="mr-2 h-4 w-4" />
-                        Adicionar imagem
-                      </>
-                    )}
-                  </Button>
+                        
+                        {service?.legacyWorkingHours && (
+                          <p className="rounded-md bg-amber-50 p-3 text-sm text-amber-800">
+                            Horário anterior, em texto livre: "{service.legacyWorkingHours}". Defina um horário próprio
+                            abaixo para substituí-lo.
+                          </p>
+                        )}
+                        
+                        <FormField
+                          control={form.control}
+                          name="useCompanyHours"
+                          render={({ field }) => (
+                            <FormItem className="flex items-center justify-between gap-4 space-y-0">
+                              <div>
+                                <FormLabel>Usar o horário da empresa</FormLabel>
+                                <FormDescription>
+                                  {company?.openingHours
+                                    ? formatWeeklySummary(company.openingHours)
+                                    : "A empresa ainda não tem horário padrão; o serviço fica sem horário."}
+                                </FormDescription>
+                              </div>
+                              <FormControl>
+                                <Switch checked={field.value} onCheckedChange={field.onChange} />
+                              </FormControl>
+                            </FormItem>
+                          )}
+                        />
+                        
+                        {!useCompanyHours && (
+                          <FormField
+                            control={form.control}
+                            name="openingHours"
+                            render={({ field }) => (
+                              <FormItem>
+                                <OpeningHoursEditor value={field.value} onChange={field.onChange} />
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        )}
+                        
+                        {availability && availability.specialDays.length > 0 && (
+                          <div className="space-y-1">
+                            <h4 className="text-sm font-medium">Próximas datas especiais</h4>
+                            <ul className="space-y-1 text-sm text-gray-600">
+                              {availability.specialDays.slice(0, 5).map(day => (
+                                <li key={day.date}>
+                                  {new Date(`${day.date}T12:00:00`).toLocaleDateString("pt-PT")}
+                                  {day.label && ` · ${day.label}`}: {formatIntervals(day.intervals)}
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        )}
+                      </div>
+                      
+                      <div className="space-y-4 rounded-md border p-4">
+                        <div>
+                          <h3 className="flex items-center font-medium">
+                            <CalendarClock className="mr-1 h-4 w-4" /> Agendamento
+                          </h3>
+                          <p className="text-sm text-gray-500">
+                            Com uma duração definida, os clientes pedem horários na página pública, dentro do horário de
+                            funcionamento.
+                          </p>
+                        </div>
+                        
+                        <FormField
+                          control={form.control}
+                          name="durationMinutes"
+                          render={({ field }) => (
+                            <FormItem className="sm:max-w-xs">
+                              <FormLabel>Duração de cada atendimento</FormLabel>
+                              <Select onValueChange={field.onChange} value={field.value}>
+                                <FormControl>
+                                  <SelectTrigger>
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  <SelectItem value={NO_BOOKING}>Sem agendamento</SelectItem>
+                                  {serviceDurationOptions.map(option => (
+                                    <SelectItem key={option.value} value={String(option.value)}>{option.label}</SelectItem>
+                                  ))}
+                                  {/* Duração gravada fora das opções do formulário */}
+                                  {field.value !== NO_BOOKING && !serviceDurationOptions.some(option => String(option.value) === field.value) && (
+                                    <SelectItem value={field.value}>{field.value} min</SelectItem>
+                                  )}
+                                </SelectContent>
+                              </Select>
+                              {durationMinutes !== NO_BOOKING && useCompanyHours && !company?.openingHours && (
+                                <FormDescription>Defina um horário de funcionamento para abrir a agenda.</FormDescription>
+                              )}
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </div>
+                    
+                      <CardFooter className="flex justify-end px-0">
+                        <div className="flex space-x-2">
+                          <Button 
+                            type="button" 
+                            variant="outline" 
+                            onClick={() => navigate("/services")}
+                          >
+                            Cancelar
+                          </Button>
+                          <Button type="submit" disabled={isLoading}>
+                            {isLoading ? (
+                              <>
+                                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                {isNewService ? "Cadastrando..." : "Atualizando..."}
+                              </>
+                            ) : (
+                              <>{isNewService ? "Cadastrar serviço" : "Atualizar serviço"}</>
+                            )}
+                          </Button>
+                        </div>
+                      </CardFooter>
+                    </form>
+                  </Form>
                 </CardContent>
               </Card>
+            
+              {/* Images Section - Only show for existing services */}
+              {!isNewService && service && (
+                <ServiceImageManager serviceId={service.id} images={service.images} />
+              )}
+            </TabsContent>
+            
+            {!isNewService && service && (
+              <TabsContent value="revisions">
+                <RevisionHistory entityType="service" entityId={service.id} canRestore={hasCompanyRole(company?.role, "editor")} />
+              </TabsContent>
             )}
-          </div>
+            
+            {!isNewService && service && (
+              <TabsContent value="history">
+                <EntityHistory companyId={service.companyId} entityType="service" entityId={service.id} />
+              </TabsContent>
+            )}
+          </Tabs>
         )}
       </DashboardLayout>
     </>
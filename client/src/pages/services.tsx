@@ -1,8 +1,13 @@
 import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CursorPagination } from "@/components/lists/cursor-pagination";
+import { useCursorPagination, useDebouncedValue } from "@/hooks/use-cursor-pagination";
+import { serviceSortOptions } from "@/lib/list-sort-options";
 import { DashboardLayout } from "@/components/layouts/dashboard-layout";
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { useAuth } from "@/hooks/use-auth";
+import { useCompany } from "@/hooks/use-company";
 import { Helmet } from 'react-helmet';
 import { 
   Loader2, 
@@ -13,7 +18,9 @@ import {
   DollarSign,
   Image as ImageIcon,
   AlertCircle,
-  ShoppingBag
+  ShoppingBag,
+  Search,
+  FolderTree
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useLocation } from "wouter";
@@ -29,34 +36,115 @@ import {
 } from "@/components/ui/alert-dialog";
 import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
-import { useQuery, useMutation } from "@tanstack/react-query";
-import { API } from "@/lib/api-fixed";
+import { useQuery, useMutation, keepPreviousData } from "@tanstack/react-query";
+import { API } from "@/lib/api";
+import {
+  getServiceCoverImage,
+  formatServicePrice,
+  servicePricingTypes,
+  hasCompanyRole,
+  type ServiceCategoryResponse,
+  type ServiceImageResponse,
+  type ServiceListItemResponse,
+  type ServicePricingType,
+} from "@shared/schema";
+import { servicePricingTypeLabels } from "@/lib/service-pricing";
+import { OpenNowBadge } from "@/components/opening-hours/open-now-badge";
+import { formatWeeklySummary, resolveOpeningHours } from "@shared/opening-hours";
+import { formatCategoryPath, getCategoryPath } from "@shared/service-categories";
+import { getCategoryOptions } from "@/lib/service-categories";
+import { ServiceTaxonomyDialog } from "@/components/services/service-taxonomy-dialog";
+
+const PAGE_SIZE = 12;
+
+const ALL = "all";
+
+interface ServiceGroup {
+  key: string;
+  title: string;
+  services: ServiceListItemResponse[];
+}
+
+// Serviços da página agrupados pela categoria, na ordem da árvore; os sem categoria ficam no fim
+function groupByCategory(services: ServiceListItemResponse[], categories: ServiceCategoryResponse[]): ServiceGroup[] {
+  const order = getCategoryOptions(categories).map(option => option.category.id);
+  const position = (categoryId: number | null) => {
+    const index = categoryId !== null ? order.indexOf(categoryId) : -1;
+    return index === -1 ? order.length : index;
+  };
+  const groups = new Map<number, ServiceGroup>();
+
+  for (const service of services) {
+    const index = position(service.categoryId);
+    const group = groups.get(index) ?? {
+      key: String(index),
+      title: index < order.length ? formatCategoryPath(getCategoryPath(categories, service.categoryId)) : "Sem categoria",
+      services: []
+    };
+    group.services.push(service);
+    groups.set(index, group);
+  }
+
+  return Array.from(groups.entries()).sort(([a], [b]) => a - b).map(([, group]) => group);
+}
 
 export default function Services() {
-  const { user } = useAuth();
   const [serviceToDelete, setServiceToDelete] = useState<number | null>(null);
+  const [search, setSearch] = useState("");
+  const [sortValue, setSortValue] = useState(serviceSortOptions[0].value);
+  const [pricingFilter, setPricingFilter] = useState<ServicePricingType | "all">("all");
+  const [categoryFilter, setCategoryFilter] = useState(ALL);
+  const [tagFilter, setTagFilter] = useState(ALL);
+  const [isTaxonomyOpen, setIsTaxonomyOpen] = useState(false);
   const { toast } = useToast();
   const [_, navigate] = useLocation();
 
-  // Fetch companies
-  const { data: companies = [], isLoading: isLoadingCompanies } = useQuery({
-    queryKey: ['/api/companies'],
-    queryFn: API.getCompanies,
-    enabled: !!user
+  // Active company selected in the layout
+  const { activeCompany: company, isLoading: isLoadingCompanies } = useCompany();
+  const canEdit = hasCompanyRole(company?.role, "editor");
+  
+  const { data: categories = [] } = useQuery({
+    queryKey: ['/api/companies', company?.id, 'service-categories'],
+    queryFn: () => API.getServiceCategories(company!.id),
+    enabled: !!company
   });
   
-  const company = companies.length > 0 ? companies[0] : null;
+  const { data: tags = [] } = useQuery({
+    queryKey: ['/api/companies', company?.id, 'service-tags'],
+    queryFn: () => API.getServiceTags(company!.id),
+    enabled: !!company
+  });
+  
+  // Resumo do horário em vigor (o do serviço ou o da empresa); sem ele, o texto antigo
+  const hoursSummary = (service: ServiceListItemResponse) => {
+    const { openingHours } = resolveOpeningHours(service, company);
+    return openingHours ? formatWeeklySummary(openingHours) : service.legacyWorkingHours;
+  };
   
-  // Fetch services for this company
+  // Filters and sorting are applied on the server; changing them goes back to the first page
+  const q = useDebouncedValue(search.trim());
+  const { sort, order } = serviceSortOptions.find(option => option.value === sortValue) ?? serviceSortOptions[0];
+  const pricingType = pricingFilter === "all" ? undefined : pricingFilter;
+  // A categoria inclui as subcategorias
+  const categoryId = categoryFilter === ALL ? undefined : Number(categoryFilter);
+  const tag = tagFilter === ALL ? undefined : tagFilter;
+  const pagination = useCursorPagination(JSON.stringify({ q, sort, order, pricingType, categoryId, tag }));
+  const params = { q, sort, order, pricingType, categoryId, tag, cursor: pagination.cursor, limit: PAGE_SIZE };
+  
+  // Fetch the current page of services for this company
   const { 
-    data: services = [] as any[], 
+    data: servicesPage, 
     isLoading: isLoadingServices,
     refetch: refetchServices
   } = useQuery({
-    queryKey: ['/api/companies', company?.id, 'services'],
-    queryFn: () => company ? API.getCompanyServices(company.id) : Promise.resolve([]),
-    enabled: !!company
+    queryKey: ['/api/companies', company?.id, 'services', params],
+    queryFn: () => API.getCompanyServices(company!.id, params),
+    enabled: !!company,
+    // Mantém a página anterior na tela enquanto a próxima carrega
+    placeholderData: keepPreviousData
   });
+  const services = servicesPage?.items ?? [];
+  const groups = groupByCategory(services, categories);
   
   const isLoading = isLoadingCompanies || isLoadingServices;
 
@@ -66,7 +154,7 @@ export default function Services() {
     onSuccess: () => {
       toast({
         title: "Sucesso",
-        description: "Serviço excluído com sucesso!"
+        description: "Serviço movido para a lixeira"
       });
       refetchServices();
     },
@@ -121,11 +209,87 @@ export default function Services() {
         <meta name="description" content="Gerencie os serviços da sua empresa" />
       </Helmet>
       <DashboardLayout title="Serviços" contentId="services-content">
-        <div className="flex justify-end mb-6">
-          <Button onClick={handleCreateService}>
-            <Plus className="mr-2 h-4 w-4" />
-            Novo Serviço
-          </Button>
+        <div className="flex flex-col gap-2 mb-6 sm:flex-row sm:items-center">
+          {company && (
+            <>
+              <div className="relative sm:w-72">
+                <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+                <Input
+                  value={search}
+                  onChange={(event) => setSearch(event.target.value)}
+                  placeholder="Buscar serviços..."
+                  className="pl-9"
+                />
+              </div>
+              <Select value={sortValue} onValueChange={setSortValue}>
+                <SelectTrigger className="sm:w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {serviceSortOptions.map(option => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={pricingFilter} onValueChange={value => setPricingFilter(value as ServicePricingType | "all")}>
+                <SelectTrigger className="sm:w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Todos os preços</SelectItem>
+                  {servicePricingTypes.map(type => (
+                    <SelectItem key={type} value={type}>
+                      {servicePricingTypeLabels[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {categories.length > 0 && (
+                <Select value={categoryFilter} onValueChange={setCategoryFilter}>
+                  <SelectTrigger className="sm:w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>Todas as categorias</SelectItem>
+                    {getCategoryOptions(categories).map(option => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              {(tags.length > 0 || tag) && (
+                <Select value={tagFilter} onValueChange={setTagFilter}>
+                  <SelectTrigger className="sm:w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>Todas as etiquetas</SelectItem>
+                    {tags.map(summary => (
+                      <SelectItem key={summary.tag} value={summary.tag}>
+                        {summary.tag}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </>
+          )}
+          <div className="flex gap-2 sm:ml-auto">
+            {company && canEdit && (
+              <Button variant="outline" onClick={() => setIsTaxonomyOpen(true)}>
+                <FolderTree className="mr-2 h-4 w-4" />
+                Categorias
+              </Button>
+            )}
+            <Button onClick={handleCreateService}>
+              <Plus className="mr-2 h-4 w-4" />
+              Novo Serviço
+            </Button>
+          </div>
         </div>
         
         {isLoading ? (
@@ -148,100 +312,141 @@ export default function Services() {
               </div>
             </CardContent>
           </Card>
-        ) : (Array.isArray(services) && services.length === 0) ? (
+        ) : services.length === 0 ? (
           <Card>
             <CardContent className="pt-6">
               <div className="flex flex-col items-center justify-center text-center p-4">
                 <ShoppingBag className="h-12 w-12 text-gray-400 mb-4" />
                 <h3 className="text-lg font-semibold mb-2">Nenhum serviço encontrado</h3>
-                <p className="text-gray-500 mb-4">
-                  Você ainda não cadastrou nenhum serviço para sua empresa.
-                </p>
-                <Button onClick={handleCreateService}>
-                  <Plus className="mr-2 h-4 w-4" />
-                  Adicionar Serviço
-                </Button>
+                {q || pricingType || categoryId || tag ? (
+                  <p className="text-gray-500">
+                    Nenhum serviço corresponde aos filtros.
+                  </p>
+                ) : (
+                  <>
+                    <p className="text-gray-500 mb-4">
+                      Você ainda não cadastrou nenhum serviço para sua empresa.
+                    </p>
+                    <Button onClick={handleCreateService}>
+                      <Plus className="mr-2 h-4 w-4" />
+                      Adicionar Serviço
+                    </Button>
+                  </>
+                )}
               </div>
             </CardContent>
           </Card>
         ) : (
-          <div className="grid grid-cols-1 gap-6 md:grid-cols-2 lg:grid-cols-3">
-            {Array.isArray(services) && services.map((service: any) => (
-              <Card key={service.id} className="overflow-hidden">
-                {service.images && service.images.length > 0 ? (
-                  <div className="aspect-video relative overflow-hidden">
-                    <img 
-                      src={service.images[0]} 
-                      alt={service.name} 
-                      className="w-full h-full object-cover"
-                    />
-                  </div>
-                ) : (
-                  <div className="aspect-video bg-gray-100 flex items-center justify-center">
-                    <ImageIcon className="h-12 w-12 text-gray-300" />
-                  </div>
+          <div className="space-y-8">
+            {groups.map(group => (
+              <section key={group.key} className="space-y-4">
+                {categories.length > 0 && (
+                  <h2 className="text-lg font-semibold text-gray-700">{group.title}</h2>
                 )}
-                <CardHeader>
-                  <CardTitle className="flex justify-between items-start">
-                    <span>{service.name}</span>
-                    <Badge variant="outline" className="ml-2">
-                      {Array.isArray(service.images) ? service.images.length : 0} foto(s)
-                    </Badge>
-                  </CardTitle>
-                  <CardDescription className="line-clamp-2">
-                    {service.description}
-                  </CardDescription>
-                </CardHeader>
-                <CardContent>
-                  <div className="space-y-2">
-                    {service.price && (
-                      <div className="flex items-center text-sm">
-                        <DollarSign className="h-4 w-4 mr-2 text-gray-500" />
-                        <span>Valor: {service.price}</span>
-                      </div>
-                    )}
-                    {service.workingHours && (
-                      <div className="flex items-center text-sm">
-                        <Clock className="h-4 w-4 mr-2 text-gray-500" />
-                        <span>Horário: {service.workingHours}</span>
-                      </div>
-                    )}
-                  </div>
+                <div className="grid grid-cols-1 gap-6 md:grid-cols-2 lg:grid-cols-3">
+                  {group.services.map((service) => (
+                    <Card key={service.id} className="overflow-hidden">
+                      {service.images && service.images.length > 0 ? (
+                        <div className="aspect-video relative overflow-hidden">
+                          <ServiceCover images={service.images} fallbackAlt={service.name} />
+                        </div>
+                      ) : (
+                        <div className="aspect-video bg-gray-100 flex items-center justify-center">
+                          <ImageIcon className="h-12 w-12 text-gray-300" />
+                        </div>
+                      )}
+                      <CardHeader>
+                        <CardTitle className="flex justify-between items-start">
+                          <span>{service.name}</span>
+                          <Badge variant="outline" className="ml-2">
+                            {Array.isArray(service.images) ? service.images.length : 0} foto(s)
+                          </Badge>
+                        </CardTitle>
+                        <CardDescription className="line-clamp-2">
+                          {service.description}
+                        </CardDescription>
+                      </CardHeader>
+                      <CardContent>
+                        <div className="space-y-2">
+                          {formatServicePrice(service) && (
+                            <div className="flex items-center text-sm">
+                              <DollarSign className="h-4 w-4 mr-2 text-gray-500" />
+                              <span>Valor: {formatServicePrice(service)}</span>
+                              {service.priceVariants.length > 0 && (
+                                <Badge variant="secondary" className="ml-2">
+                                  {service.priceVariants.length} variante(s)
+                                </Badge>
+                              )}
+                            </div>
+                          )}
+                          {hoursSummary(service) && (
+                            <div className="flex items-center text-sm">
+                              <Clock className="h-4 w-4 mr-2 shrink-0 text-gray-500" />
+                              <span className="line-clamp-2">Horário: {hoursSummary(service)}</span>
+                              <span className="ml-2 shrink-0">
+                                <OpenNowBadge openNow={service.openNow} />
+                              </span>
+                            </div>
+                          )}
+                          {service.tags.length > 0 && (
+                            <div className="flex flex-wrap gap-1">
+                              {service.tags.map(serviceTag => (
+                                <Badge key={serviceTag} variant="secondary">{serviceTag}</Badge>
+                              ))}
+                            </div>
+                          )}
+                        </div>
                   
-                  <Separator className="my-4" />
+                        <Separator className="my-4" />
                   
-                  <div className="flex justify-end space-x-2">
-                    <Button 
-                      variant="outline" 
-                      size="sm" 
-                      onClick={() => handleEditService(service.id)}
-                    >
-                      <FileEdit className="h-4 w-4 mr-1" />
-                      Editar
-                    </Button>
-                    <Button 
-                      variant="destructive" 
-                      size="sm"
-                      onClick={() => handleDeleteClick(service.id)}
-                    >
-                      <Trash2 className="h-4 w-4 mr-1" />
-                      Excluir
-                    </Button>
-                  </div>
-                </CardContent>
-              </Card>
+                        <div className="flex justify-end space-x-2">
+                          <Button 
+                            variant="outline" 
+                            size="sm" 
+                            onClick={() => handleEditService(service.id)}
+                          >
+                            <FileEdit className="h-4 w-4 mr-1" />
+                            Editar
+                          </Button>
+                          <Button 
+                            variant="destructive" 
+                            size="sm"
+                            onClick={() => handleDeleteClick(service.id)}
+                          >
+                            <Trash2 className="h-4 w-4 mr-1" />
+                            Excluir
+                          </Button>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              </section>
             ))}
+            
+            <CursorPagination
+              page={pagination.page}
+              pageSize={PAGE_SIZE}
+              total={servicesPage?.total ?? 0}
+              hasNext={!!servicesPage?.nextCursor}
+              onPrevious={pagination.goToPrevious}
+              onNext={() => servicesPage?.nextCursor && pagination.goToNext(servicesPage.nextCursor)}
+            />
           </div>
         )}
       </DashboardLayout>
       
+      {company && (
+        <ServiceTaxonomyDialog companyId={company.id} open={isTaxonomyOpen} onOpenChange={setIsTaxonomyOpen} />
+      )}
+      
       <AlertDialog open={serviceToDelete !== null} onOpenChange={cancelDelete}>
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>Você tem certeza?</AlertDialogTitle>
             <AlertDialogDescription>
-              Esta ação não pode ser desfeita. Isso excluirá permanentemente o serviço
-              e todas as suas imagens.
+              O serviço e as suas imagens serão movidos para a lixeira, de onde
+              podem ser restaurados até serem excluídos definitivamente.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -265,4 +470,18 @@ export default function Services() {
       </AlertDialog>
     </>
   );
+}
+
+// Mostra a imagem de capa na variante média quando ela existe
+function ServiceCover({ images, fallbackAlt }: { images: ServiceImageResponse[]; fallbackAlt: string }) {
+  const cover = getServiceCoverImage(images);
+  if (!cover) return null;
+
+  return (
+    <img 
+      src={cover.variants?.medium.url ?? cover.url} 
+      alt={cover.altText || fallbackAlt} 
+      className="w-full h-full object-cover"
+    />
+  );
 }
\ No newline at end of file
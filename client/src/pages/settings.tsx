@@ -1,42 +1,108 @@
 import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { DashboardLayout } from "@/components/layouts/dashboard-layout";
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { z } from "zod";
 import { useAuth } from "@/hooks/use-auth";
-import { Loader2, ShieldAlert, Shield } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { API } from "@/lib/api";
+import { FirebaseError } from "firebase/app";
+import { hasPasswordProvider } from "@/lib/firebase";
+import { changePasswordSchema, type ChangePasswordInput } from "@shared/schema";
+import { Loader2, ShieldAlert, Shield, Download } from "lucide-react";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { FaGoogle, FaGithub, FaTwitter } from "react-icons/fa";
 import { Badge } from "@/components/ui/badge";
 import { Helmet } from 'react-helmet';
 
-const changePasswordSchema = z
-  .object({
-    currentPassword: z.string().min(6, {
-      message: "Current password is required",
-    }),
-    newPassword: z
-      .string()
-      .min(8, { message: "Password must be at least 8 characters" })
-      .regex(/[0-9]/, { message: "Password must contain at least one number" })
-      .regex(/[^a-zA-Z0-9]/, { message: "Password must contain at least one special character" }),
-    confirmPassword: z.string(),
-  })
-  .refine((data) => data.newPassword === data.confirmPassword, {
-    message: "Passwords don't match",
-    path: ["confirmPassword"],
-  });
+type ChangePasswordFormValues = ChangePasswordInput;
+
+// Erros do Firebase Auth que significam senha atual errada
+const WRONG_PASSWORD_CODES = ["auth/wrong-password", "auth/invalid-credential", "auth/invalid-login-credentials"];
+
+function getAuthErrorMessage(error: unknown): string {
+  const code = error instanceof FirebaseError ? error.code : undefined;
 
-type ChangePasswordFormValues = z.infer<typeof changePasswordSchema>;
+  if (code && WRONG_PASSWORD_CODES.includes(code)) return "The current password is incorrect.";
+  if (code === "auth/too-many-requests") return "Too many attempts. Please try again later.";
+  if (code === "auth/popup-closed-by-user") return "The sign-in window was closed before confirming.";
+  if (code === "auth/requires-recent-login") return "Please sign in again and retry.";
+  return error instanceof Error ? error.message : "Something went wrong. Please try again.";
+}
+
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
 
 export default function Settings() {
-  const { user, logout } = useAuth();
+  const { user, userData, logout, changePassword, reauthenticate, reloadUserData } = useAuth();
+  const { toast } = useToast();
   const [isPasswordChanging, setIsPasswordChanging] = useState(false);
   const [isAccountDeleting, setIsAccountDeleting] = useState(false);
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [deletePassword, setDeletePassword] = useState("");
+  const [deleteImmediately, setDeleteImmediately] = useState(false);
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+  const [isDeletionCancelling, setIsDeletionCancelling] = useState(false);
+  
+  // Contas só do Google não têm senha para trocar
+  const usesPassword = user ? hasPasswordProvider(user) : false;
+  const deletionScheduledAt = userData?.deletionScheduledAt ? new Date(userData.deletionScheduledAt) : null;
+  
+  // Enquanto o ZIP é gerado no servidor, o estado é consultado a cada poucos segundos
+  const { data: latestExport } = useQuery({
+    queryKey: ['/api/user/export/latest'],
+    queryFn: () => API.getLatestDataExport(),
+    enabled: !!user,
+    refetchInterval: (query) => query.state.data?.status === "pending" ? 3000 : false,
+  });
+  const currentExport = latestExport && new Date(latestExport.expiresAt) > new Date() ? latestExport : null;
+  
+  const requestExportMutation = useMutation({
+    mutationFn: () => API.requestDataExport(),
+    onError: (error: Error) => {
+      toast({
+        title: "Export failed",
+        description: error.message || "Could not start the data export.",
+        variant: "destructive",
+      });
+    },
+  });
+  
+  const downloadExportMutation = useMutation({
+    mutationFn: (id: number) => API.downloadDataExport(id),
+    onSuccess: (blob, id) => {
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `data-export-${id}.zip`;
+      link.click();
+      URL.revokeObjectURL(url);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Download failed",
+        description: error.message || "Could not download the data export.",
+        variant: "destructive",
+      });
+    },
+  });
   
   const form = useForm<ChangePasswordFormValues>({
     resolver: zodResolver(changePasswordSchema),
@@ -50,8 +116,7 @@ export default function Settings() {
   const onSubmit = async (data: ChangePasswordFormValues) => {
     setIsPasswordChanging(true);
     try {
-      // This would be implemented with Firebase Auth
-      console.log("Changing password:", data);
+      await changePassword(data.currentPassword, data.newPassword);
       
       // Reset form
       form.reset({
@@ -59,26 +124,83 @@ export default function Settings() {
         newPassword: "",
         confirmPassword: "",
       });
-    } catch (error) {
+      
+      toast({
+        title: "Password changed",
+        description: "Your password has been updated successfully.",
+      });
+    } catch (error: any) {
       console.error("Password change error:", error);
+      
+      if (WRONG_PASSWORD_CODES.includes(error?.code)) {
+        form.setError("currentPassword", { message: getAuthErrorMessage(error) });
+      } else {
+        toast({
+          title: "Password change failed",
+          description: getAuthErrorMessage(error),
+          variant: "destructive",
+        });
+      }
     } finally {
       setIsPasswordChanging(false);
     }
   };
 
+  const openDeleteDialog = () => {
+    setDeletePassword("");
+    setDeleteImmediately(false);
+    setDeleteError(null);
+    setIsDeleteDialogOpen(true);
+  };
+
   const handleDeleteAccount = async () => {
-    if (window.confirm("Are you sure you want to delete your account? This action cannot be undone.")) {
-      setIsAccountDeleting(true);
-      try {
-        // This would be implemented with Firebase Auth
-        console.log("Deleting account");
-        
-        // Logout after account deletion
+    setIsAccountDeleting(true);
+    setDeleteError(null);
+    try {
+      // O servidor só aceita o pedido com um login recente
+      await reauthenticate(usesPassword ? deletePassword : undefined);
+      const result = await API.deleteAccount(deleteImmediately);
+      
+      if (result.deleted) {
+        // A conta já não existe no Firebase Auth; só resta limpar a sessão local
         await logout();
-      } catch (error) {
-        console.error("Account deletion error:", error);
-        setIsAccountDeleting(false);
+        return;
       }
+      
+      await reloadUserData();
+      setIsDeleteDialogOpen(false);
+      toast({
+        title: "Account deletion scheduled",
+        description: `Your account will be deleted on ${new Date(result.deletionScheduledAt!).toLocaleDateString()}.`,
+      });
+    } catch (error: any) {
+      console.error("Account deletion error:", error);
+      setDeleteError(getAuthErrorMessage(error));
+    } finally {
+      setIsAccountDeleting(false);
+    }
+  };
+
+  const handleCancelDeletion = async () => {
+    setIsDeletionCancelling(true);
+    try {
+      await API.cancelAccountDeletion();
+      await reloadUserData();
+      
+      toast({
+        title: "Account deletion cancelled",
+        description: "Your account will be kept.",
+      });
+    } catch (error) {
+      console.error("Cancel account deletion error:", error);
+      
+      toast({
+        title: "Error",
+        description: getAuthErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsDeletionCancelling(false);
     }
   };
 
@@ -98,77 +220,83 @@ export default function Settings() {
             </CardDescription>
           </CardHeader>
           <CardContent>
-            <Form {...form}>
-              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6 max-w-md">
-                <FormField
-                  control={form.control}
-                  name="currentPassword"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Current password</FormLabel>
-                      <FormControl>
-                        <Input
-                          type="password"
-                          placeholder="••••••••"
-                          {...field}
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
+            {!usesPassword ? (
+              <p className="text-sm text-gray-500">
+                You sign in with Google, so there is no password to change here.
+              </p>
+            ) : (
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6 max-w-md">
+                  <FormField
+                    control={form.control}
+                    name="currentPassword"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Current password</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="password"
+                            placeholder="••••••••"
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
                 
-                <FormField
-                  control={form.control}
-                  name="newPassword"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>New password</FormLabel>
-                      <FormControl>
-                        <Input
-                          type="password"
-                          placeholder="••••••••"
-                          {...field}
-                        />
-                      </FormControl>
-                      <FormDescription>
-                        Must be at least 8 characters with a number and special character
-                      </FormDescription>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
+                  <FormField
+                    control={form.control}
+                    name="newPassword"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>New password</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="password"
+                            placeholder="••••••••"
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormDescription>
+                          Must be at least 8 characters with a number and special character
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
                 
-                <FormField
-                  control={form.control}
-                  name="confirmPassword"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Confirm password</FormLabel>
-                      <FormControl>
-                        <Input
-                          type="password"
-                          placeholder="••••••••"
-                          {...field}
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
+                  <FormField
+                    control={form.control}
+                    name="confirmPassword"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Confirm password</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="password"
+                            placeholder="••••••••"
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
                 
-                <Button type="submit" disabled={isPasswordChanging}>
-                  {isPasswordChanging ? (
-                    <>
-                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                      Changing...
-                    </>
-                  ) : (
-                    "Change"
-                  )}
-                </Button>
-              </form>
-            </Form>
+                  <Button type="submit" disabled={isPasswordChanging}>
+                    {isPasswordChanging ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        Changing...
+                      </>
+                    ) : (
+                      "Change"
+                    )}
+                  </Button>
+                </form>
+              </Form>
+            )}
           </CardContent>
         </Card>
         
@@ -243,6 +371,62 @@ export default function Settings() {
           </CardContent>
         </Card>
         
+        {/* Data Export */}
+        <Card className="mt-8">
+          <CardHeader>
+            <CardTitle>Download your data</CardTitle>
+            <CardDescription>
+              Get a ZIP file with your profile and the companies you own, including their services, images, job offers and applications, in JSON and CSV.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {currentExport?.status === "pending" ? (
+              <div className="flex items-center text-sm text-gray-600">
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Preparing your export. You can leave this page; the link will be here when it is ready.
+              </div>
+            ) : currentExport?.status === "ready" ? (
+              <div className="space-y-3">
+                <p className="text-sm text-gray-600">
+                  Your export is ready{currentExport.fileSize ? ` (${formatFileSize(currentExport.fileSize)})` : ""}. 
+                  The link is available until {new Date(currentExport.expiresAt).toLocaleDateString()}.
+                </p>
+                <Button
+                  onClick={() => downloadExportMutation.mutate(currentExport.id)}
+                  disabled={downloadExportMutation.isPending}
+                >
+                  {downloadExportMutation.isPending ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Download className="mr-2 h-4 w-4" />
+                  )}
+                  Download export
+                </Button>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {currentExport?.status === "failed" && (
+                  <Alert variant="destructive">
+                    <ShieldAlert className="h-4 w-4" />
+                    <AlertTitle>Export failed</AlertTitle>
+                    <AlertDescription>
+                      We could not prepare your last export. Please request it again.
+                    </AlertDescription>
+                  </Alert>
+                )}
+                <Button
+                  variant="outline"
+                  onClick={() => requestExportMutation.mutate()}
+                  disabled={requestExportMutation.isPending}
+                >
+                  {requestExportMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Request export
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+        
         {/* Delete Account Section */}
         <Card className="mt-8">
           <CardHeader>
@@ -252,29 +436,112 @@ export default function Settings() {
             </CardDescription>
           </CardHeader>
           <CardContent>
-            <Alert variant="destructive" className="mb-4">
-              <ShieldAlert className="h-4 w-4" />
-              <AlertTitle>Warning</AlertTitle>
-              <AlertDescription>
-                This action is irreversible and will permanently delete all your data.
-              </AlertDescription>
-            </Alert>
-            <Button 
-              variant="destructive" 
-              onClick={handleDeleteAccount}
-              disabled={isAccountDeleting}
-            >
-              {isAccountDeleting ? (
-                <>
-                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  Deleting...
-                </>
-              ) : (
-                <>Delete account</>
-              )}
-            </Button>
+            {deletionScheduledAt ? (
+              <>
+                <Alert variant="destructive" className="mb-4">
+                  <ShieldAlert className="h-4 w-4" />
+                  <AlertTitle>Deletion scheduled</AlertTitle>
+                  <AlertDescription>
+                    Your account and the companies you own will be deleted on {deletionScheduledAt.toLocaleDateString()}. 
+                    Cancel before then to keep them.
+                  </AlertDescription>
+                </Alert>
+                <Button 
+                  variant="outline" 
+                  onClick={handleCancelDeletion}
+                  disabled={isDeletionCancelling}
+                >
+                  {isDeletionCancelling ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Cancelling...
+                    </>
+                  ) : (
+                    <>Cancel deletion</>
+                  )}
+                </Button>
+              </>
+            ) : (
+              <>
+                <Alert variant="destructive" className="mb-4">
+                  <ShieldAlert className="h-4 w-4" />
+                  <AlertTitle>Warning</AlertTitle>
+                  <AlertDescription>
+                    This will delete your account and the companies you own, with their services, images and job offers.
+                  </AlertDescription>
+                </Alert>
+                <Button 
+                  variant="destructive" 
+                  onClick={openDeleteDialog}
+                >
+                  Delete account
+                </Button>
+              </>
+            )}
           </CardContent>
         </Card>
+
+        <AlertDialog open={isDeleteDialogOpen} onOpenChange={(open) => !isAccountDeleting && setIsDeleteDialogOpen(open)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete your account?</AlertDialogTitle>
+              <AlertDialogDescription>
+                {usesPassword
+                  ? "Confirm your password to continue."
+                  : "You will be asked to sign in with Google again to continue."}
+                {" "}Unless you delete it immediately, you have 14 days to change your mind.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            
+            <div className="space-y-4">
+              {usesPassword && (
+                <div className="space-y-2">
+                  <Label htmlFor="delete-password">Password</Label>
+                  <Input
+                    id="delete-password"
+                    type="password"
+                    placeholder="••••••••"
+                    value={deletePassword}
+                    onChange={(event) => setDeletePassword(event.target.value)}
+                  />
+                </div>
+              )}
+              
+              <div className="flex items-center">
+                <Checkbox
+                  id="delete-immediately"
+                  checked={deleteImmediately}
+                  onCheckedChange={(checked) => setDeleteImmediately(checked === true)}
+                />
+                <Label htmlFor="delete-immediately" className="ml-2 text-sm">
+                  Delete immediately, without the 14-day grace period
+                </Label>
+              </div>
+              
+              {deleteError && <p className="text-sm font-medium text-red-600">{deleteError}</p>}
+            </div>
+            
+            <AlertDialogFooter>
+              <AlertDialogCancel disabled={isAccountDeleting}>Cancel</AlertDialogCancel>
+              <Button
+                variant="destructive"
+                onClick={handleDeleteAccount}
+                disabled={isAccountDeleting || (usesPassword && !deletePassword)}
+              >
+                {isAccountDeleting ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Deleting...
+                  </>
+                ) : deleteImmediately ? (
+                  <>Delete now</>
+                ) : (
+                  <>Schedule deletion</>
+                )}
+              </Button>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
       </DashboardLayout>
     </>
   );
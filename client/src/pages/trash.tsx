@@ -0,0 +1,250 @@
+import { useState } from "react";
+import { DashboardLayout } from "@/components/layouts/dashboard-layout";
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useCompany } from "@/hooks/use-company";
+import { Helmet } from 'react-helmet';
+import { Loader2, Trash2, RotateCcw, AlertCircle, ShoppingBag, Briefcase } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { API } from "@/lib/api";
+import { hasCompanyRole } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type TrashKind = "service" | "jobOffer";
+
+interface TrashItem {
+  kind: TrashKind;
+  id: number;
+  name: string;
+  deletedAt: string | null;
+}
+
+const kindLabels: Record<TrashKind, string> = {
+  service: "Serviço",
+  jobOffer: "Vaga",
+};
+
+export default function Trash() {
+  const { toast } = useToast();
+  const [itemToPurge, setItemToPurge] = useState<TrashItem | null>(null);
+
+  // Active company selected in the layout
+  const { activeCompany: company, isLoading: isLoadingCompanies } = useCompany();
+
+  const { data: trash, isLoading: isLoadingTrash } = useQuery({
+    queryKey: ['/api/companies', company?.id, 'trash'],
+    queryFn: () => API.getCompanyTrash(company!.id),
+    enabled: !!company
+  });
+
+  const isLoading = isLoadingCompanies || isLoadingTrash;
+  const canRestore = hasCompanyRole(company?.role, "editor");
+  const canPurge = hasCompanyRole(company?.role, "admin");
+
+  const services: TrashItem[] = (trash?.services ?? []).map(service => ({
+    kind: "service", id: service.id, name: service.name, deletedAt: service.deletedAt
+  }));
+  const jobOffers: TrashItem[] = (trash?.jobOffers ?? []).map(jobOffer => ({
+    kind: "jobOffer", id: jobOffer.id, name: jobOffer.title, deletedAt: jobOffer.deletedAt
+  }));
+
+  // Data em que o item sai da lixeira sozinho
+  const purgeDate = (deletedAt: string | null) => {
+    if (!deletedAt || !trash) return null;
+    return new Date(new Date(deletedAt).getTime() + trash.retentionDays * DAY_MS);
+  };
+
+  const showError = (description: string) => (error: Error) => {
+    toast({
+      title: "Erro",
+      description: error.message || description,
+      variant: "destructive"
+    });
+  };
+
+  const restoreMutation = useMutation({
+    mutationFn: async (item: TrashItem) => {
+      await (item.kind === "service" ? API.restoreService(item.id) : API.restoreJobOffer(item.id));
+    },
+    onSuccess: (_, item) => {
+      toast({
+        title: "Sucesso",
+        description: `${kindLabels[item.kind]} "${item.name}" restaurado(a).`
+      });
+    },
+    onError: showError("Não foi possível restaurar o item")
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: (item: TrashItem) =>
+      item.kind === "service" ? API.purgeService(company!.id, item.id) : API.purgeJobOffer(company!.id, item.id),
+    onSuccess: (_, item) => {
+      toast({
+        title: "Sucesso",
+        description: `${kindLabels[item.kind]} "${item.name}" excluído(a) definitivamente.`
+      });
+    },
+    onError: showError("Não foi possível excluir o item"),
+    onSettled: () => {
+      setItemToPurge(null);
+    }
+  });
+
+  const renderItems = (items: TrashItem[], emptyMessage: string) => {
+    if (items.length === 0) {
+      return <p className="text-sm text-gray-500 py-6 text-center">{emptyMessage}</p>;
+    }
+
+    return (
+      <ul className="divide-y rounded-md border bg-white">
+        {items.map(item => {
+          const purgeAt = purgeDate(item.deletedAt);
+
+          return (
+            <li key={`${item.kind}-${item.id}`} className="flex flex-col gap-3 p-4 sm:flex-row sm:items-center sm:justify-between">
+              <div>
+                <p className="font-medium">{item.name}</p>
+                <p className="text-sm text-gray-500">
+                  {item.deletedAt && <>Excluído em {new Date(item.deletedAt).toLocaleDateString('pt-PT')}</>}
+                  {purgeAt && <> · será excluído definitivamente em {purgeAt.toLocaleDateString('pt-PT')}</>}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                {canRestore && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => restoreMutation.mutate(item)}
+                    disabled={restoreMutation.isPending}
+                  >
+                    <RotateCcw className="h-4 w-4 mr-1" />
+                    Restaurar
+                  </Button>
+                )}
+                {canPurge && (
+                  <Button
+                    variant="destructive"
+                    size="sm"
+                    onClick={() => setItemToPurge(item)}
+                  >
+                    <Trash2 className="h-4 w-4 mr-1" />
+                    Excluir definitivamente
+                  </Button>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    );
+  };
+
+  return (
+    <>
+      <Helmet>
+        <title>Lixeira - Systems RBG</title>
+        <meta name="description" content="Restaure ou exclua definitivamente serviços e vagas" />
+      </Helmet>
+      <DashboardLayout title="Lixeira" contentId="trash-content">
+        {isLoading ? (
+          <div className="flex items-center justify-center h-40">
+            <Loader2 className="mr-2 h-6 w-6 animate-spin" />
+            <span>Carregando lixeira...</span>
+          </div>
+        ) : !company || !trash ? (
+          <Card>
+            <CardContent className="pt-6">
+              <div className="flex flex-col items-center justify-center text-center p-4">
+                <AlertCircle className="h-12 w-12 text-amber-500 mb-4" />
+                <h3 className="text-lg font-semibold mb-2">Empresa não encontrada</h3>
+                <p className="text-gray-500">
+                  Selecione uma empresa para ver a sua lixeira.
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Trash2 className="h-5 w-5 mr-2" />
+                Itens excluídos
+              </CardTitle>
+              <CardDescription>
+                Serviços e vagas excluídos ficam aqui durante {trash.retentionDays} dias
+                e depois são excluídos definitivamente.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Tabs defaultValue="services">
+                <TabsList>
+                  <TabsTrigger value="services">
+                    <ShoppingBag className="h-4 w-4 mr-1" />
+                    Serviços ({services.length})
+                  </TabsTrigger>
+                  <TabsTrigger value="job-offers">
+                    <Briefcase className="h-4 w-4 mr-1" />
+                    Vagas ({jobOffers.length})
+                  </TabsTrigger>
+                </TabsList>
+                <TabsContent value="services">
+                  {renderItems(services, "Nenhum serviço na lixeira.")}
+                </TabsContent>
+                <TabsContent value="job-offers">
+                  {renderItems(jobOffers, "Nenhuma vaga na lixeira.")}
+                </TabsContent>
+              </Tabs>
+            </CardContent>
+          </Card>
+        )}
+      </DashboardLayout>
+
+      <AlertDialog open={itemToPurge !== null} onOpenChange={open => !open && !purgeMutation.isPending && setItemToPurge(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Você tem certeza?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Esta ação não pode ser desfeita. {itemToPurge?.kind === "service"
+                ? "O serviço e todas as suas imagens serão excluídos permanentemente."
+                : "A vaga e todas as suas candidaturas serão excluídas permanentemente."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={purgeMutation.isPending}>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(event) => {
+                // Mantém o diálogo aberto até a exclusão terminar
+                event.preventDefault();
+                if (itemToPurge) purgeMutation.mutate(itemToPurge);
+              }}
+              disabled={purgeMutation.isPending}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              {purgeMutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Excluindo...
+                </>
+              ) : (
+                "Excluir definitivamente"
+              )}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
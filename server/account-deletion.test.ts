@@ -0,0 +1,61 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { startTestServer, type TestServer } from "./test-server";
+
+let server: TestServer;
+
+before(async () => {
+  server = await startTestServer();
+});
+
+after(async () => {
+  await server.close();
+});
+
+async function createCompany(uid: string, slug: string) {
+  const { status, body } = await server.request("POST", "/api/companies", {
+    uid,
+    body: { name: slug, slug, description: "Empresa de teste", isPublic: true },
+  });
+  assert.equal(status, 201);
+  return body;
+}
+
+test("DELETE /api/user leaves no personal data in the audit log", async () => {
+  const { storage } = await import("./storage");
+  const own = await createCompany("ana", "empresa-ana");
+  const other = await createCompany("bruno", "empresa-bruno");
+
+  // Ana edita o perfil, a própria empresa e, como editora, a empresa do Bruno
+  await server.request("PUT", "/api/user/profile", { uid: "ana", body: { displayName: "Ana Silva" } });
+  await server.request("POST", `/api/companies/${own.id}/services`, {
+    uid: "ana",
+    body: { name: "Corte", description: "Corte de cabelo" },
+  });
+  const invitation = await server.request("POST", `/api/companies/${other.id}/invitations`, {
+    uid: "bruno",
+    body: { email: "ana@example.pt", role: "editor" },
+  });
+  assert.equal((await server.request("POST", `/api/invitations/${invitation.body.token}/accept`, { uid: "ana" })).status, 201);
+  const service = await server.request("POST", `/api/companies/${other.id}/services`, {
+    uid: "ana",
+    body: { name: "Barba", description: "Barba completa" },
+  });
+  assert.equal(service.status, 201);
+
+  const deleted = await server.request("DELETE", "/api/user", { uid: "ana", body: { immediate: true } });
+  assert.equal(deleted.status, 200);
+  assert.equal(deleted.body.deleted, true);
+  assert.equal(await storage.getUserByUid("ana"), undefined);
+
+  const filter = { offset: 0, limit: 100 };
+  assert.equal((await storage.getAuditLogs(own.id, filter)).total, 0);
+
+  const { entries } = await storage.getAuditLogs(other.id, filter);
+  const serviceEntry = entries.find(entry => entry.entityType === "service" && entry.entityId === service.body.id);
+  assert.ok(serviceEntry);
+  assert.equal(serviceEntry.actorUid, null);
+  assert.equal(serviceEntry.actorEmail, null);
+  assert.equal(serviceEntry.ipAddress, null);
+  assert.ok(entries.every(entry => entry.actorUid !== "ana" && entry.actorEmail !== "ana@example.pt"));
+});
@@ -0,0 +1,64 @@
+import type { Company, User } from "@shared/schema";
+import { storage } from "./storage";
+import { purgeCompany } from "./trash";
+import { invalidateSearchIndex } from "./search-index";
+import { getIdentityProvider } from "./middleware/auth";
+import { deleteDataExports } from "./data-export";
+
+// Dias entre o pedido de exclusão e a exclusão definitiva da conta
+export const ACCOUNT_DELETION_GRACE_DAYS = 14;
+
+// Intervalo entre varreduras das contas agendadas (padrão: 1 hora)
+const DEFAULT_INTERVAL_MS = 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function accountDeletionDate(now = new Date()): Date {
+  return new Date(now.getTime() + ACCOUNT_DELETION_GRACE_DAYS * DAY_MS);
+}
+
+// Apaga as empresas do usuário (com serviços, vagas e arquivos), o próprio usuário
+// e por último a conta no provedor de identidade; devolve as empresas apagadas
+export async function deleteAccount(user: User): Promise<Company[]> {
+  // Das empresas em que é só membro, sai apenas a participação (ver storage.deleteUser)
+  const ownedCompanies = (await storage.getUserCompanies(user.id)).filter(company => company.ownerId === user.id);
+
+  for (const company of ownedCompanies) {
+    await purgeCompany(company.id);
+    invalidateSearchIndex(company.id);
+  }
+  await deleteDataExports(await storage.getUserDataExports(user.id));
+  await storage.deleteUser(user.id);
+  await getIdentityProvider().deleteUser(user.uid);
+
+  return ownedCompanies;
+}
+
+// Exclui as contas cujo prazo de arrependimento já terminou
+export async function deleteScheduledAccounts(now = new Date()): Promise<number> {
+  const users = await storage.getUsersScheduledForDeletion(now);
+
+  for (const user of users) {
+    await deleteAccount(user);
+  }
+
+  return users.length;
+}
+
+export function startAccountDeletionSweeper(intervalMs = Number(process.env.ACCOUNT_DELETION_SWEEP_INTERVAL_MS) || DEFAULT_INTERVAL_MS) {
+  const sweep = async () => {
+    try {
+      const deleted = await deleteScheduledAccounts();
+      if (deleted > 0) {
+        console.log(`Contas excluídas após o prazo: ${deleted}`);
+      }
+    } catch (error) {
+      console.error('Erro ao excluir contas agendadas:', error);
+    }
+  };
+
+  sweep();
+  const timer = setInterval(sweep, intervalMs);
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,84 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import type { Appointment } from "@shared/schema";
+import { startTestServer, type TestServer } from "./test-server";
+
+let server: TestServer;
+// Importado depois que o servidor de testes escolhe o driver de storage
+let hasAppointmentConflict: typeof import("./storage").hasAppointmentConflict;
+
+before(async () => {
+  server = await startTestServer();
+  ({ hasAppointmentConflict } = await import("./storage"));
+});
+
+after(async () => {
+  await server.close();
+});
+
+const at = (time: string) => new Date(`2025-06-02T${time}:00Z`);
+
+function appointment(id: number, start: string, end: string, fields: Partial<Appointment> = {}): Appointment {
+  return { id, serviceId: 1, startsAt: at(start), endsAt: at(end), status: "confirmed", ...fields } as Appointment;
+}
+
+test("overlapping active appointments of the same service conflict", () => {
+  const booked = [appointment(1, "10:00", "11:00")];
+
+  assert.equal(hasAppointmentConflict(appointment(2, "10:30", "11:30"), booked), true);
+  assert.equal(hasAppointmentConflict(appointment(2, "09:00", "12:00"), booked), true);
+  // Um começa quando o outro acaba
+  assert.equal(hasAppointmentConflict(appointment(2, "11:00", "12:00"), booked), false);
+  assert.equal(hasAppointmentConflict(appointment(2, "09:00", "10:00"), booked), false);
+});
+
+test("cancelled appointments, other services and the record itself don't conflict", () => {
+  assert.equal(hasAppointmentConflict(appointment(2, "10:00", "11:00"), [appointment(1, "10:00", "11:00", { status: "cancelled" })]), false);
+  assert.equal(hasAppointmentConflict(appointment(2, "10:00", "11:00"), [appointment(1, "10:00", "11:00", { serviceId: 2 })]), false);
+  assert.equal(hasAppointmentConflict(appointment(1, "10:30", "11:30"), [appointment(1, "10:00", "11:00")]), false);
+  // Um agendamento cancelado não ocupa o horário, qualquer que seja o dos outros
+  assert.equal(hasAppointmentConflict(appointment(2, "10:00", "11:00", { status: "cancelled" }), [appointment(1, "10:00", "11:00")]), false);
+});
+
+test("a slot can be booked once until that appointment is cancelled", async () => {
+  const company = await server.request("POST", "/api/companies", {
+    uid: "owner",
+    body: { name: "Empresa", slug: "empresa", description: "Empresa de teste", isPublic: true },
+  });
+  const day = [{ start: "09:00", end: "18:00" }];
+  const service = await server.request("POST", `/api/companies/${company.body.id}/services`, {
+    uid: "owner",
+    body: {
+      name: "Corte",
+      description: "Corte de cabelo",
+      durationMinutes: 60,
+      openingHours: {
+        timezone: "Europe/Lisbon",
+        weekly: { mon: day, tue: day, wed: day, thu: day, fri: day, sat: day, sun: day },
+        exceptions: [],
+        closedOnPublicHolidays: false,
+      },
+    },
+  });
+  assert.equal(service.status, 201);
+
+  const slots = await server.request("GET", `/api/public/services/${service.body.id}/slots?days=3`);
+  assert.equal(slots.status, 200);
+  const [slot] = slots.body.slots;
+  const booking = { startsAt: slot.startsAt, name: "Ana Silva", email: "ana@example.pt" };
+
+  const first = await server.request("POST", `/api/public/services/${service.body.id}/appointments`, { body: booking });
+  assert.equal(first.status, 201);
+
+  const second = await server.request("POST", `/api/public/services/${service.body.id}/appointments`, { body: booking });
+  assert.equal(second.status, 409);
+
+  const freeSlots = await server.request("GET", `/api/public/services/${service.body.id}/slots?days=3`);
+  assert.ok(!freeSlots.body.slots.some((free: { startsAt: string }) => free.startsAt === slot.startsAt));
+
+  const cancelled = await server.request("POST", `/api/appointments/${first.body.id}/cancel`, { uid: "owner" });
+  assert.equal(cancelled.status, 200);
+
+  const again = await server.request("POST", `/api/public/services/${service.body.id}/appointments`, { body: booking });
+  assert.equal(again.status, 201);
+});
@@ -0,0 +1,92 @@
+import type { AppointmentSlot, Company, OpeningHours, Service } from "@shared/schema";
+import { addDays, getIntervalsOn, getLocalDate, localTimeToDate, resolveOpeningHours } from "@shared/opening-hours";
+import { storage } from "./storage";
+
+const MINUTE_MS = 60 * 1000;
+
+// Duração e horário que definem os horários marcáveis de um serviço
+export interface BookingSchedule {
+  durationMinutes: number;
+  openingHours: OpeningHours;
+}
+
+interface Slot {
+  startsAt: Date;
+  endsAt: Date;
+}
+
+// Nulo quando o serviço não aceita agendamentos: sem duração ou sem horário (próprio ou da empresa)
+export function getBookingSchedule(
+  service: Pick<Service, "durationMinutes" | "openingHours">,
+  company: Pick<Company, "openingHours"> | null | undefined
+): BookingSchedule | null {
+  const { openingHours } = resolveOpeningHours(service, company);
+  if (!service.durationMinutes || !openingHours) return null;
+
+  return { durationMinutes: service.durationMinutes, openingHours };
+}
+
+// Horários de uma data, seguidos e com a duração do serviço; o que não cabe no fim de um intervalo fica de fora
+function slotsOn(schedule: BookingSchedule, date: string): Slot[] {
+  const { timezone } = schedule.openingHours;
+  const duration = schedule.durationMinutes * MINUTE_MS;
+  const slots: Slot[] = [];
+
+  for (const interval of getIntervalsOn(schedule.openingHours, date)) {
+    const end = localTimeToDate(date, interval.end, timezone).getTime();
+
+    for (
+      let start = localTimeToDate(date, interval.start, timezone).getTime();
+      start + duration <= end;
+      start += duration
+    ) {
+      slots.push({ startsAt: new Date(start), endsAt: new Date(start + duration) });
+    }
+  }
+
+  return slots;
+}
+
+/**
+ * Horários livres de `days` dias a partir de `from` (data no fuso do horário).
+ *
+ * Ficam de fora os que já começaram e os que se sobrepõem a um pedido ou
+ * agendamento confirmado do serviço.
+ */
+export async function getFreeSlots(
+  serviceId: number,
+  schedule: BookingSchedule,
+  from: string,
+  days: number,
+  now = new Date()
+): Promise<AppointmentSlot[]> {
+  const slots = Array.from({ length: days }, (_, index) => slotsOn(schedule, addDays(from, index)))
+    .flat()
+    .filter(slot => slot.startsAt > now);
+  if (slots.length === 0) return [];
+
+  const taken = await storage.getActiveServiceAppointments(
+    serviceId,
+    slots[0].startsAt,
+    slots[slots.length - 1].endsAt
+  );
+
+  return slots
+    .filter(slot => !taken.some(appointment => appointment.startsAt < slot.endsAt && slot.startsAt < appointment.endsAt))
+    .map(slot => ({ startsAt: slot.startsAt.toISOString(), endsAt: slot.endsAt.toISOString() }));
+}
+
+// Se `startsAt` é o início de um dos horários do serviço; o fim do agendamento vem da duração
+export function isScheduledSlot(schedule: BookingSchedule, startsAt: Date): boolean {
+  const date = getLocalDate(startsAt, schedule.openingHours.timezone);
+  return slotsOn(schedule, date).some(slot => slot.startsAt.getTime() === startsAt.getTime());
+}
+
+export function getAppointmentEnd(schedule: BookingSchedule, startsAt: Date): Date {
+  return new Date(startsAt.getTime() + schedule.durationMinutes * MINUTE_MS);
+}
+
+// Data de hoje no fuso do horário, ponto de partida padrão da lista de horários
+export function getScheduleToday(schedule: BookingSchedule, now = new Date()): string {
+  return getLocalDate(now, schedule.openingHours.timezone);
+}
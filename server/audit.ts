@@ -0,0 +1,74 @@
+import type { Request } from "express";
+import type { AuditAction, AuditChanges, AuditEntityType } from "@shared/schema";
+import { storage } from "./storage";
+
+// Campos que não entram no registro: os automáticos e os que não podem vazar
+// (senha, token do convite, que dá acesso à empresa, e a chave do CV, que aponta para o arquivo)
+const IGNORED_FIELDS = new Set(['id', 'createdAt', 'updatedAt', 'token', 'cvKey', 'password']);
+
+export interface AuditEntry {
+  companyId: number | null;
+  entityType: AuditEntityType;
+  entityId: number;
+  action: AuditAction;
+  // Estado antes e depois da escrita; sem `before` na criação e sem `after` na exclusão
+  before?: object | null;
+  after?: object | null;
+  // Sem o autor, o IP e o navegador: quem pediu acabou de apagar a própria conta
+  anonymous?: boolean;
+}
+
+// Valor como ele sai no JSON da API; undefined vira null porque o Firestore não aceita undefined
+function toAuditValue(value: unknown): unknown {
+  return value === undefined ? null : JSON.parse(JSON.stringify(value));
+}
+
+// Campos cujo valor mudou entre os dois estados
+export function diffRecords(before?: object | null, after?: object | null): AuditChanges {
+  const previous: Record<string, unknown> = { ...before };
+  const next: Record<string, unknown> = { ...after };
+  const changes: AuditChanges = {};
+
+  for (const field of Array.from(new Set([...Object.keys(previous), ...Object.keys(next)]))) {
+    if (IGNORED_FIELDS.has(field)) continue;
+
+    const beforeValue = toAuditValue(previous[field]);
+    const afterValue = toAuditValue(next[field]);
+
+    if (JSON.stringify(beforeValue) !== JSON.stringify(afterValue)) {
+      changes[field] = { before: beforeValue, after: afterValue };
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Grava quem fez a alteração, o que mudou e de onde veio a requisição.
+ *
+ * Chamado depois que a escrita deu certo; uma falha aqui só é registrada no
+ * log, para não devolver erro de uma alteração que já foi feita. Atualizações
+ * que não mudaram nenhum campo não geram registro.
+ */
+export async function recordAudit(req: Request, entry: AuditEntry): Promise<void> {
+  const { before, after, anonymous, ...target } = entry;
+  const changes = diffRecords(before, after);
+
+  if (entry.action === 'update' && Object.keys(changes).length === 0) return;
+
+  try {
+    await storage.createAuditLog({
+      ...target,
+      changes,
+      actorUid: anonymous ? null : req.user?.uid ?? null,
+      actorEmail: anonymous ? null : req.user?.email ?? null,
+      requestMethod: req.method,
+      // O padrão da rota, e não a URL, para que tokens de convite não fiquem gravados
+      requestPath: `${req.baseUrl}${req.route?.path ?? req.path}`,
+      ipAddress: anonymous ? null : req.ip ?? null,
+      userAgent: anonymous ? null : req.get('user-agent') ?? null,
+    });
+  } catch (error) {
+    console.error('Erro ao gravar o registro de auditoria:', error);
+  }
+}
@@ -0,0 +1,13 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+
+test("initIdentityProvider refuses the dev provider in production", async () => {
+  process.env.AUTH_PROVIDER = "dev";
+  process.env.NODE_ENV = "production";
+  const { initIdentityProvider } = await import("./middleware/auth");
+
+  await assert.rejects(initIdentityProvider(), /NODE_ENV=production/);
+
+  process.env.NODE_ENV = "test";
+  await assert.doesNotReject(initIdentityProvider());
+});
@@ -0,0 +1,98 @@
+import fs from "fs/promises";
+import path from "path";
+
+/**
+ * Armazenamento de arquivos enviados (CVs de candidaturas, imagens de serviços).
+ *
+ * As chaves são geradas pelo servidor, no formato `companies/{id}/...` (ou
+ * `users/{id}/...`, nas exportações de dados), e os arquivos só saem por rotas
+ * autenticadas. A exceção são as chaves abaixo de `public/`, gravadas com
+ * putPublic(), que ficam acessíveis por URL.
+ */
+export interface BlobStore {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  // Grava um arquivo público e devolve a URL pela qual ele pode ser lido
+  putPublic(key: string, data: Buffer, contentType: string): Promise<string>;
+  get(key: string): Promise<Buffer | undefined>;
+  delete(key: string): Promise<void>;
+}
+
+export type BlobStoreDriver = 'local' | 'firebase';
+
+export const PUBLIC_BLOB_PREFIX = 'public/';
+
+// Driver escolhido pela variável BLOB_STORE_DRIVER (padrão: local)
+export const blobStoreDriver = (process.env.BLOB_STORE_DRIVER || 'local') as BlobStoreDriver;
+
+// Pasta do driver local; os arquivos públicos são servidos em /media
+export const localBlobRoot = path.resolve(process.env.BLOB_STORAGE_DIR || 'data/blobs');
+export const LOCAL_PUBLIC_BLOB_PATH = '/media';
+
+export function assertPublicKey(key: string) {
+  if (!key.startsWith(PUBLIC_BLOB_PREFIX)) {
+    throw new Error(`Arquivos públicos devem ficar abaixo de ${PUBLIC_BLOB_PREFIX}: ${key}`);
+  }
+}
+
+// Guarda os arquivos no disco, abaixo de BLOB_STORAGE_DIR
+class LocalBlobStore implements BlobStore {
+  constructor(private readonly root: string) {}
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key);
+
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Chave de arquivo inválida: ${key}`);
+    }
+
+    return filePath;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+  }
+
+  async putPublic(key: string, data: Buffer, contentType: string): Promise<string> {
+    assertPublicKey(key);
+    await this.put(key, data);
+    return `${LOCAL_PUBLIC_BLOB_PATH}/${key.slice(PUBLIC_BLOB_PREFIX.length)}`;
+  }
+
+  async get(key: string): Promise<Buffer | undefined> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+}
+
+// Instância usada pelas rotas; definida por initBlobStore() antes de registrar as rotas
+export let blobStore: BlobStore;
+
+// O driver do Firebase é importado dinamicamente para que o disco local não
+// exija FIREBASE_SERVICE_ACCOUNT
+export async function initBlobStore(): Promise<BlobStore> {
+  switch (blobStoreDriver) {
+    case 'local':
+      blobStore = new LocalBlobStore(localBlobRoot);
+      break;
+    case 'firebase': {
+      const { FirebaseBlobStore } = await import('./firebase-blob-store');
+      blobStore = new FirebaseBlobStore(process.env.FIREBASE_STORAGE_BUCKET);
+      break;
+    }
+    default:
+      throw new Error(`BLOB_STORE_DRIVER inválido: ${blobStoreDriver}`);
+  }
+
+  console.log(`Armazenamento de arquivos inicializado com o driver: ${blobStoreDriver}`);
+  return blobStore;
+}
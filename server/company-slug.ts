@@ -0,0 +1,25 @@
+import { storage } from "./storage";
+
+// Nome da empresa em endereço da página pública: "Café Lusitânia, Lda." -> "cafe-lusitania-lda"
+export function slugify(value: string): string {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 90)
+    .replace(/-+$/g, "");
+}
+
+// Primeiro endereço livre a partir do nome da empresa, com -2, -3... quando já existe
+export async function generateCompanySlug(name: string): Promise<string> {
+  const base = slugify(name) || "empresa";
+  let slug = base;
+
+  for (let suffix = 2; await storage.getCompanyBySlug(slug); suffix++) {
+    slug = `${base}-${suffix}`;
+  }
+
+  return slug;
+}
@@ -0,0 +1,97 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { inflateRawSync } from "zlib";
+import { randomBytes } from "crypto";
+import { createZip } from "./zip";
+import { startTestServer, type TestServer } from "./test-server";
+
+let server: TestServer;
+// Importado depois que o servidor de testes escolhe o driver de storage
+let toCsv: typeof import("./data-export").toCsv;
+
+before(async () => {
+  server = await startTestServer();
+  ({ toCsv } = await import("./data-export"));
+});
+
+after(async () => {
+  await server.close();
+});
+
+interface ReadEntry {
+  name: string;
+  method: number;
+  crc: number;
+  data: Buffer;
+}
+
+// Leitura pelo diretório central, como fazem os descompactadores
+function readZip(zip: Buffer): ReadEntry[] {
+  const end = zip.length - 22;
+  assert.equal(zip.readUInt32LE(end), 0x06054b50);
+  const count = zip.readUInt16LE(end + 10);
+  let offset = zip.readUInt32LE(end + 16);
+  const entries: ReadEntry[] = [];
+
+  for (let index = 0; index < count; index++) {
+    assert.equal(zip.readUInt32LE(offset), 0x02014b50);
+    const method = zip.readUInt16LE(offset + 10);
+    const crc = zip.readUInt32LE(offset + 16);
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const localOffset = zip.readUInt32LE(offset + 42);
+    const name = zip.subarray(offset + 46, offset + 46 + nameLength).toString("utf-8");
+
+    assert.equal(zip.readUInt32LE(localOffset), 0x04034b50);
+    assert.equal(zip.readUInt32LE(localOffset + 14), crc);
+    const start = localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28);
+    const content = zip.subarray(start, start + compressedSize);
+
+    entries.push({ name, method, crc, data: method === 8 ? inflateRawSync(content) : content });
+    offset += 46 + nameLength + zip.readUInt16LE(offset + 30) + zip.readUInt16LE(offset + 32);
+  }
+
+  return entries;
+}
+
+test("zip entries come back with their names and contents", () => {
+  const image = randomBytes(2048);
+  const entries = readZip(createZip([
+    { name: "profile.json", data: JSON.stringify({ name: "Ana" }) },
+    { name: "files/ação.csv", data: "a,b\r\n".repeat(100) },
+    { name: "files/image.webp", data: image },
+  ]));
+
+  assert.deepEqual(entries.map(entry => entry.name), ["profile.json", "files/ação.csv", "files/image.webp"]);
+  assert.equal(entries[0].data.toString(), '{"name":"Ana"}');
+  assert.equal(entries[1].method, 8);
+  assert.equal(entries[1].data.toString(), "a,b\r\n".repeat(100));
+  // Dados aleatórios crescem com o deflate e vão sem compressão
+  assert.equal(entries[2].method, 0);
+  assert.deepEqual(entries[2].data, image);
+});
+
+test("zip checksums are standard CRC-32 values", () => {
+  const [check, empty] = readZip(createZip([
+    { name: "check.txt", data: "123456789" },
+    { name: "empty.txt", data: "" },
+  ]));
+
+  // Valor de verificação do CRC-32 (ISO-HDLC)
+  assert.equal(check.crc, 0xcbf43926);
+  assert.equal(empty.crc, 0);
+});
+
+test("CSV quotes commas, quotes and line breaks and starts with a BOM", () => {
+  const csv = toCsv([
+    { name: 'Corte "clássico", curto', notes: "linha 1\nlinha 2" },
+    { name: "Barba", tags: ["a", "b"], createdAt: new Date("2025-01-02T03:04:05Z") },
+  ]);
+
+  assert.equal(csv, [
+    "\uFEFFname,notes,tags,createdAt",
+    '"Corte ""clássico"", curto","linha 1\nlinha 2",,',
+    'Barba,,"[""a"",""b""]",2025-01-02T03:04:05.000Z',
+    "",
+  ].join("\r\n"));
+});
@@ -0,0 +1,172 @@
+import type { DataExport, User } from "@shared/schema";
+import { storage } from "./storage";
+import { blobStore } from "./blob-store";
+import { createZip, type ZipEntry } from "./zip";
+import { PROCESSED_IMAGE_EXTENSION } from "./image-processing";
+
+// Dias que o ZIP fica disponível para download depois de pedido
+export const DATA_EXPORT_TTL_DAYS = 7;
+
+// Uma exportação pendente há mais tempo que isto foi interrompida (por exemplo, num reinício)
+const STALE_EXPORT_MS = 60 * 60 * 1000;
+
+// Intervalo entre limpezas das exportações expiradas (padrão: 1 hora)
+const DEFAULT_INTERVAL_MS = 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type ExportRow = Record<string, unknown>;
+
+function toCsvValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+
+  const text = value instanceof Date
+    ? value.toISOString()
+    : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Uma coluna por campo que aparece em qualquer linha; listas e objetos vão como JSON
+export function toCsv(rows: ExportRow[]): string {
+  const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+  const lines = [columns, ...rows.map(row => columns.map(column => row[column]))]
+    .map(values => values.map(toCsvValue).join(','));
+
+  // O BOM faz o Excel abrir o arquivo em UTF-8
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+}
+
+// Nome de arquivo sem separadores de caminho nem caracteres de controle
+function safeFileName(name: string): string {
+  return name.replace(/[\\/\x00-\x1f]/g, '_');
+}
+
+// Dados do usuário e das empresas de que é dono, em JSON e CSV, com os arquivos enviados
+export async function buildUserDataExport(user: User): Promise<Buffer> {
+  const companies = (await storage.getUserCompanies(user.id)).filter(company => company.ownerId === user.id);
+
+  const perCompany = await Promise.all(companies.map(async company => {
+    const [services, jobOffers, trash] = await Promise.all([
+      storage.getCompanyServices(company.id),
+      storage.getCompanyJobOffers(company.id),
+      storage.getCompanyTrash(company.id),
+    ]);
+    return { services: [...services, ...trash.services], jobOffers: [...jobOffers, ...trash.jobOffers] };
+  }));
+  const services = perCompany.flatMap(records => records.services);
+  const jobOffers = perCompany.flatMap(records => records.jobOffers);
+
+  const [images, applications] = await Promise.all([
+    storage.getServiceImagesForServices(services.map(service => service.id)),
+    Promise.all(jobOffers.map(jobOffer => storage.getJobOfferApplications(jobOffer.id))).then(lists => lists.flat()),
+  ]);
+
+  const files: ZipEntry[] = [];
+
+  // Imagens antigas só têm a URL, que fica no JSON; das enviadas vai a maior variante
+  const imageRows = await Promise.all(images.map(async image => {
+    const file = image.variants ? await blobStore.get(image.variants.large.key) : undefined;
+    const path = file ? `files/services/${image.serviceId}/${image.id}.${PROCESSED_IMAGE_EXTENSION}` : null;
+    if (file && path) files.push({ name: path, data: file, modifiedAt: image.createdAt ?? undefined });
+    return { ...image, file: path };
+  }));
+
+  // A chave interna do CV não sai do servidor; o arquivo vai junto no ZIP
+  const applicationRows = await Promise.all(applications.map(async ({ cvKey, ...application }) => {
+    const file = await blobStore.get(cvKey);
+    const path = file ? `files/applications/${application.id}/${safeFileName(application.cvFileName)}` : null;
+    if (file && path) files.push({ name: path, data: file, modifiedAt: application.createdAt ?? undefined });
+    return { ...application, cvFile: path };
+  }));
+
+  const datasets: Record<string, ExportRow[]> = {
+    profile: [{ ...user }],
+    companies,
+    services,
+    'service-images': imageRows,
+    'job-offers': jobOffers,
+    applications: applicationRows,
+  };
+
+  return createZip([
+    ...Object.entries(datasets).flatMap(([name, rows]) => [
+      { name: `${name}.json`, data: JSON.stringify(rows, null, 2) },
+      { name: `${name}.csv`, data: toCsv(rows) },
+    ]),
+    ...files,
+  ]);
+}
+
+async function runDataExport(dataExport: DataExport, user: User) {
+  try {
+    const zip = await buildUserDataExport(user);
+    const fileKey = `users/${user.id}/exports/${dataExport.id}.zip`;
+
+    await blobStore.put(fileKey, zip, 'application/zip');
+    await storage.updateDataExport(dataExport.id, {
+      status: 'ready',
+      fileKey,
+      fileSize: zip.length,
+      completedAt: new Date(),
+    });
+  } catch (error) {
+    console.error(`Erro ao gerar a exportação ${dataExport.id}:`, error);
+    await storage.updateDataExport(dataExport.id, {
+      status: 'failed',
+      error: error instanceof Error ? error.message : String(error),
+      completedAt: new Date(),
+    }).catch(updateError => console.error('Erro ao gravar a falha da exportação:', updateError));
+  }
+}
+
+// A exportação que ainda serve: pronta e dentro do prazo, ou pendente e recente
+export function isCurrentDataExport(dataExport: DataExport, now = new Date()): boolean {
+  if (dataExport.expiresAt <= now) return false;
+  if (dataExport.status === 'ready') return true;
+  return dataExport.status === 'pending' && now.getTime() - (dataExport.createdAt ?? now).getTime() < STALE_EXPORT_MS;
+}
+
+// Grava o pedido e gera o ZIP em segundo plano; quem chama recebe o pedido ainda pendente
+export async function startDataExport(user: User): Promise<DataExport> {
+  const dataExport = await storage.createDataExport({
+    userId: user.id,
+    status: 'pending',
+    expiresAt: new Date(Date.now() + DATA_EXPORT_TTL_DAYS * DAY_MS),
+  });
+
+  runDataExport(dataExport, user);
+  return dataExport;
+}
+
+// Apaga os registros e os arquivos das exportações (todas as de um usuário, ou as expiradas)
+export async function deleteDataExports(dataExports: DataExport[]) {
+  for (const dataExport of dataExports) {
+    await storage.deleteDataExport(dataExport.id);
+    if (dataExport.fileKey) await blobStore.delete(dataExport.fileKey);
+  }
+}
+
+export async function purgeExpiredDataExports(now = new Date()): Promise<number> {
+  const expired = await storage.getExpiredDataExports(now);
+  await deleteDataExports(expired);
+  return expired.length;
+}
+
+export function startDataExportPurger(intervalMs = Number(process.env.DATA_EXPORT_PURGE_INTERVAL_MS) || DEFAULT_INTERVAL_MS) {
+  const purge = async () => {
+    try {
+      const purged = await purgeExpiredDataExports();
+      if (purged > 0) {
+        console.log(`Exportações expiradas excluídas: ${purged}`);
+      }
+    } catch (error) {
+      console.error('Erro ao excluir exportações expiradas:', error);
+    }
+  };
+
+  purge();
+  const timer = setInterval(purge, intervalMs);
+  timer.unref();
+  return timer;
+}
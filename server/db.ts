@@ -1,5 +1,8 @@
-import { Pool, neonConfig } from '@neondatabase/serverless';
-import { drizzle } from 'drizzle-orm/neon-serverless';
+import { Pool as NeonPool, neonConfig } from '@neondatabase/serverless';
+import { drizzle as drizzleNeon } from 'drizzle-orm/neon-serverless';
+import { drizzle as drizzlePg } from 'drizzle-orm/node-postgres';
+import type { PgDatabase, PgQueryResultHKT } from 'drizzle-orm/pg-core';
+import pg from 'pg';
 import ws from "ws";
 import * as schema from "@shared/schema";
 
@@ -11,5 +14,14 @@ if (!process.env.DATABASE_URL) {
   );
 }
 
-export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
-export const db = drizzle(pool, { schema });
\ No newline at end of file
+// DATABASE_DRIVER=pg usa o driver TCP padrão (Postgres local, Docker, etc.);
+// o padrão continua sendo o driver serverless da Neon.
+const usePgDriver = process.env.DATABASE_DRIVER === 'pg';
+
+export const pool = usePgDriver
+  ? new pg.Pool({ connectionString: process.env.DATABASE_URL })
+  : new NeonPool({ connectionString: process.env.DATABASE_URL });
+
+export const db: PgDatabase<PgQueryResultHKT, typeof schema> = usePgDriver
+  ? drizzlePg(pool as pg.Pool, { schema })
+  : drizzleNeon(pool as NeonPool, { schema });
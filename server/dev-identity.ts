@@ -0,0 +1,37 @@
+import type { DecodedUserToken, IdentityProvider } from './middleware/auth';
+
+/**
+ * Provedor de identidade para desenvolvimento local (AUTH_PROVIDER=dev).
+ *
+ * Aceita tokens no formato `dev:<uid>` ou `dev:<uid>:<email>`, com o email dado
+ * como verificado, ou `dev:<uid>:<email>:unverified`, por exemplo:
+ *
+ *   curl -H "Authorization: Bearer dev:alice:alice@example.pt" http://localhost:3000/api/companies
+ *
+ * O nome é o próprio uid; o usuário é criado no storage no primeiro pedido.
+ * Nunca use este provedor em produção: qualquer pessoa pode se passar por qualquer uid.
+ * Por isso initIdentityProvider() falha na inicialização com NODE_ENV=production.
+ */
+export class DevIdentityProvider implements IdentityProvider {
+  async verifyToken(token: string): Promise<DecodedUserToken> {
+    const [prefix, uid, email, verification] = token.split(':');
+
+    if (prefix !== 'dev' || !uid) {
+      throw new Error('Invalid token');
+    }
+
+    const decodedToken: DecodedUserToken = {
+      uid,
+      email: email || `${uid}@dev.local`,
+      email_verified: verification !== 'unverified',
+      name: uid,
+      // Cada token conta como um login acabado de fazer (ver a exclusão de conta)
+      auth_time: Math.floor(Date.now() / 1000),
+    };
+
+    return decodedToken;
+  }
+
+  // Os tokens de desenvolvimento não têm conta no provedor para apagar
+  async deleteUser(): Promise<void> {}
+}
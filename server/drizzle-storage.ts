@@ -0,0 +1,778 @@
+import { and, asc, desc, eq, gt, gte, ilike, inArray, isNotNull, isNull, lt, lte, ne, or, sql, type AnyColumn, type SQL } from "drizzle-orm";
+import { db } from "./db";
+import {
+  IStorage,
+  AuditLogFilter,
+  AuditLogPage,
+  JobOfferListFilter,
+  OrphanedRecords,
+  ServiceListFilter,
+  TrashedRecords,
+  AppointmentConflictError,
+} from "./storage";
+import { encodeCursor, type ListFilter, type SortValue } from "./pagination";
+import {
+  users,
+  companies,
+  services,
+  serviceCategories,
+  serviceImages,
+  jobOffers,
+  companyMembers,
+  companyInvitations,
+  jobApplications,
+  jobApplicationNotes,
+  jobApplicationStageChanges,
+  appointments,
+  activeAppointmentStatuses,
+  isActiveAppointment,
+  revisions,
+  auditLogs,
+  dataExports,
+  type User,
+  type InsertUser,
+  type Company,
+  type InsertCompany,
+  type Service,
+  type InsertService,
+  type ServiceCategory,
+  type InsertServiceCategory,
+  type ServiceImage,
+  type InsertServiceImage,
+  type JobOffer,
+  type InsertJobOffer,
+  type CompanyMember,
+  type InsertCompanyMember,
+  type CompanyInvitation,
+  type InsertCompanyInvitation,
+  type JobApplication,
+  type InsertJobApplication,
+  type JobApplicationNote,
+  type InsertJobApplicationNote,
+  type JobApplicationStageChange,
+  type InsertJobApplicationStageChange,
+  type Appointment,
+  type InsertAppointment,
+  type AppointmentListQuery,
+  type Revision,
+  type InsertRevision,
+  type RevisionEntityType,
+  type AuditLog,
+  type InsertAuditLog,
+  type DataExport,
+  type InsertDataExport,
+  type CursorPage,
+  type ServiceSortKey,
+  type JobOfferSortKey,
+} from "@shared/schema";
+
+// Expressões de ordenação com as mesmas regras de serviceSortValue e jobOfferSortValue
+// (./pagination): datas em milissegundos e serviços sem valor com preço -1
+const epochMs = (column: AnyColumn) =>
+  sql<number>`coalesce(floor(extract(epoch from ${column}) * 1000), 0)::float8`;
+
+function serviceSortExpression(sort: ServiceSortKey): SQL<SortValue> {
+  switch (sort) {
+    case 'name': return sql<string>`lower(${services.name})`;
+    case 'createdAt': return epochMs(services.createdAt);
+    case 'updatedAt': return epochMs(services.updatedAt);
+    case 'price': return sql<number>`coalesce(${services.priceCents}, -1)::float8`;
+  }
+}
+
+function jobOfferSortExpression(sort: JobOfferSortKey): SQL<SortValue> {
+  switch (sort) {
+    case 'title': return sql<string>`lower(${jobOffers.title})`;
+    case 'createdAt': return epochMs(jobOffers.createdAt);
+    case 'updatedAt': return epochMs(jobOffers.updatedAt);
+  }
+}
+
+// Padrão do ILIKE para busca por trecho, com os curingas do texto escapados
+const containsPattern = (q: string) => `%${q.replace(/[\\%_]/g, '\\$&')}%`;
+
+// Ordem (valor, id) da página e a condição de vir depois do cursor
+function keysetClauses(sortValue: SQL<SortValue>, id: AnyColumn, filter: ListFilter<string>) {
+  const direction = filter.order === 'asc' ? asc : desc;
+  const after = filter.after && (filter.order === 'asc'
+    ? sql`(${sortValue}, ${id}) > (${filter.after.value}, ${filter.after.id})`
+    : sql`(${sortValue}, ${id}) < (${filter.after.value}, ${filter.after.id})`);
+
+  return { after, orderBy: [direction(sortValue), direction(id)] };
+}
+
+// As consultas buscam limit + 1 linhas; a linha extra só indica que há próxima página
+function toCursorPage<T extends { id: number }>(
+  rows: { record: T; sortValue: SortValue }[],
+  filter: ListFilter<string>,
+  total: number
+): CursorPage<T> {
+  const page = rows.slice(0, filter.limit);
+  const last = page[page.length - 1];
+
+  return {
+    items: page.map(row => row.record),
+    nextCursor: rows.length > filter.limit && last
+      ? encodeCursor(filter.sort, { value: last.sortValue, id: last.record.id })
+      : null,
+    total,
+  };
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Primeira chave dos advisory locks dos agendamentos; a segunda é o id do serviço
+const APPOINTMENT_LOCK_NAMESPACE = 1;
+
+/**
+ * Confere, dentro da transação, que o agendamento ativo não se sobrepõe a outro
+ * ativo do mesmo serviço. O advisory lock do serviço fica preso até o fim da
+ * transação, então duas marcações simultâneas do mesmo serviço se enfileiram.
+ */
+async function assertAppointmentSlotFree(
+  tx: Transaction,
+  appointment: Pick<Appointment, 'serviceId' | 'startsAt' | 'endsAt' | 'status'>,
+  ignoreId?: number
+): Promise<void> {
+  if (!isActiveAppointment(appointment.status)) return;
+
+  await tx.execute(sql`select pg_advisory_xact_lock(${APPOINTMENT_LOCK_NAMESPACE}, ${appointment.serviceId})`);
+
+  const [conflict] = await tx.select({ id: appointments.id })
+    .from(appointments)
+    .where(and(
+      eq(appointments.serviceId, appointment.serviceId),
+      inArray(appointments.status, activeAppointmentStatuses),
+      lt(appointments.startsAt, appointment.endsAt),
+      gt(appointments.endsAt, appointment.startsAt),
+      ignoreId ? ne(appointments.id, ignoreId) : undefined
+    ))
+    .limit(1);
+
+  if (conflict) throw new AppointmentConflictError();
+}
+
+export class DrizzleStorage implements IStorage {
+  // Users
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUid(uid: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.uid, uid)).limit(1);
+    return user;
+  }
+
+  async createUser(userData: InsertUser): Promise<User> {
+    const [user] = await db.insert(users).values(userData).returning();
+    return user;
+  }
+
+  // O índice único de uid decide entre pedidos simultâneos; quem perde lê o registro criado
+  async provisionUser(userData: InsertUser): Promise<User> {
+    const [created] = await db.insert(users)
+      .values(userData)
+      .onConflictDoNothing({ target: users.uid })
+      .returning();
+    
+    if (created) return created;
+    
+    const [user] = await db.select().from(users).where(eq(users.uid, userData.uid));
+    return user;
+  }
+
+  async updateUser(id: number, userData: Partial<InsertUser>): Promise<User | undefined> {
+    const [user] = await db.update(users)
+      .set({ ...userData, updatedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  async getUsersScheduledForDeletion(before: Date): Promise<User[]> {
+    return db.select().from(users).where(lte(users.deletionScheduledAt, before));
+  }
+
+  async deleteUser(id: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [user] = await tx.select({ uid: users.uid }).from(users).where(eq(users.id, id));
+
+      if (user) {
+        await tx.update(auditLogs)
+          .set({ actorUid: null, actorEmail: null, ipAddress: null, userAgent: null })
+          .where(eq(auditLogs.actorUid, user.uid));
+      }
+      await tx.delete(auditLogs).where(and(eq(auditLogs.entityType, 'user'), eq(auditLogs.entityId, id)));
+      await tx.update(jobApplicationStageChanges).set({ changedBy: null }).where(eq(jobApplicationStageChanges.changedBy, id));
+      await tx.update(revisions).set({ createdBy: null }).where(eq(revisions.createdBy, id));
+      await tx.delete(jobApplicationNotes).where(eq(jobApplicationNotes.authorId, id));
+      await tx.delete(companyInvitations).where(eq(companyInvitations.invitedBy, id));
+      await tx.delete(companyMembers).where(eq(companyMembers.userId, id));
+      await tx.delete(dataExports).where(eq(dataExports.userId, id));
+      await tx.delete(users).where(eq(users.id, id));
+    });
+  }
+
+  // Companies
+  async getCompany(id: number): Promise<Company | undefined> {
+    const [company] = await db.select().from(companies).where(eq(companies.id, id));
+    return company;
+  }
+
+  async getUserCompanies(userId: number): Promise<Company[]> {
+    const memberOf = db.select({ companyId: companyMembers.companyId })
+      .from(companyMembers)
+      .where(eq(companyMembers.userId, userId));
+
+    return db.select().from(companies).where(
+      or(eq(companies.ownerId, userId), inArray(companies.id, memberOf))
+    );
+  }
+
+  async getCompanyBySlug(slug: string): Promise<Company | undefined> {
+    const [company] = await db.select().from(companies).where(eq(companies.slug, slug));
+    return company;
+  }
+
+  async createCompany(companyData: InsertCompany): Promise<Company> {
+    const [company] = await db.insert(companies).values(companyData).returning();
+    return company;
+  }
+
+  async updateCompany(id: number, companyData: Partial<InsertCompany>): Promise<Company | undefined> {
+    const [company] = await db.update(companies)
+      .set({ ...companyData, updatedAt: new Date() })
+      .where(eq(companies.id, id))
+      .returning();
+    return company;
+  }
+  async deleteCompany(id: number): Promise<void> {
+    // Apaga dos filhos para a empresa, respeitando as FKs, numa única transação
+    await db.transaction(async (tx) => {
+      const applicationIds = tx.select({ id: jobApplications.id })
+        .from(jobApplications)
+        .where(eq(jobApplications.companyId, id));
+      const serviceIds = tx.select({ id: services.id })
+        .from(services)
+        .where(eq(services.companyId, id));
+
+      await tx.delete(jobApplicationNotes).where(inArray(jobApplicationNotes.applicationId, applicationIds));
+      await tx.delete(jobApplicationStageChanges).where(inArray(jobApplicationStageChanges.applicationId, applicationIds));
+      await tx.delete(jobApplications).where(eq(jobApplications.companyId, id));
+      await tx.delete(jobOffers).where(eq(jobOffers.companyId, id));
+      await tx.delete(appointments).where(eq(appointments.companyId, id));
+      await tx.delete(serviceImages).where(inArray(serviceImages.serviceId, serviceIds));
+      await tx.delete(services).where(eq(services.companyId, id));
+      await tx.delete(serviceCategories).where(eq(serviceCategories.companyId, id));
+      await tx.delete(companyInvitations).where(eq(companyInvitations.companyId, id));
+      await tx.delete(companyMembers).where(eq(companyMembers.companyId, id));
+      await tx.delete(revisions).where(eq(revisions.companyId, id));
+      await tx.delete(auditLogs).where(eq(auditLogs.companyId, id));
+      await tx.delete(companies).where(eq(companies.id, id));
+    });
+  }
+
+
+  // Services
+  async getService(id: number): Promise<Service | undefined> {
+    const [service] = await db.select().from(services).where(eq(services.id, id));
+    return service;
+  }
+
+  async getCompanyServices(companyId: number): Promise<Service[]> {
+    return db.select().from(services).where(and(eq(services.companyId, companyId), isNull(services.deletedAt)));
+  }
+
+  async listCompanyServices(companyId: number, filter: ServiceListFilter): Promise<CursorPage<Service>> {
+    const where = and(
+      eq(services.companyId, companyId),
+      isNull(services.deletedAt),
+      filter.q ? or(ilike(services.name, containsPattern(filter.q)), ilike(services.description, containsPattern(filter.q))) : undefined,
+      filter.pricingType ? eq(services.pricingType, filter.pricingType) : undefined,
+      filter.categoryIds ? inArray(services.categoryId, filter.categoryIds) : undefined,
+      filter.tag ? sql`${services.tags} @> ${JSON.stringify([filter.tag])}::jsonb` : undefined
+    );
+    const sortValue = serviceSortExpression(filter.sort);
+    const { after, orderBy } = keysetClauses(sortValue, services.id, filter);
+
+    const [rows, [{ total }]] = await Promise.all([
+      db.select({ record: services, sortValue })
+        .from(services)
+        .where(and(where, after))
+        .orderBy(...orderBy)
+        .limit(filter.limit + 1),
+      db.select({ total: sql<number>`count(*)::int` }).from(services).where(where),
+    ]);
+
+    return toCursorPage(rows, filter, total);
+  }
+
+  async createService(serviceData: InsertService): Promise<Service> {
+    const [service] = await db.insert(services).values(serviceData).returning();
+    return service;
+  }
+
+  async updateService(id: number, serviceData: Partial<InsertService>): Promise<Service | undefined> {
+    const [service] = await db.update(services)
+      .set({ ...serviceData, updatedAt: new Date() })
+      .where(eq(services.id, id))
+      .returning();
+    return service;
+  }
+
+  async deleteService(id: number): Promise<void> {
+    // service_images e appointments têm FK para services, então saem primeiro
+    await db.transaction(async (tx) => {
+      await tx.delete(serviceImages).where(eq(serviceImages.serviceId, id));
+      await tx.delete(appointments).where(eq(appointments.serviceId, id));
+      await tx.delete(revisions).where(and(eq(revisions.entityType, 'service'), eq(revisions.entityId, id)));
+      await tx.delete(services).where(eq(services.id, id));
+    });
+  }
+
+  // Service Categories
+  async getServiceCategory(id: number): Promise<ServiceCategory | undefined> {
+    const [category] = await db.select().from(serviceCategories).where(eq(serviceCategories.id, id));
+    return category;
+  }
+
+  async getCompanyServiceCategories(companyId: number): Promise<ServiceCategory[]> {
+    return db.select().from(serviceCategories).where(eq(serviceCategories.companyId, companyId));
+  }
+
+  async createServiceCategory(categoryData: InsertServiceCategory): Promise<ServiceCategory> {
+    const [category] = await db.insert(serviceCategories).values(categoryData).returning();
+    return category;
+  }
+
+  async updateServiceCategory(id: number, categoryData: Partial<InsertServiceCategory>): Promise<ServiceCategory | undefined> {
+    const [category] = await db.update(serviceCategories)
+      .set({ ...categoryData, updatedAt: new Date() })
+      .where(eq(serviceCategories.id, id))
+      .returning();
+    return category;
+  }
+
+  async deleteServiceCategory(id: number): Promise<void> {
+    // Subcategorias e serviços sobem um nível antes de a categoria sair, por causa das FKs
+    await db.transaction(async (tx) => {
+      const [category] = await tx.select().from(serviceCategories).where(eq(serviceCategories.id, id));
+      if (!category) return;
+
+      const now = new Date();
+      await tx.update(serviceCategories)
+        .set({ parentId: category.parentId, updatedAt: now })
+        .where(eq(serviceCategories.parentId, id));
+      await tx.update(services)
+        .set({ categoryId: category.parentId, updatedAt: now })
+        .where(eq(services.categoryId, id));
+      await tx.delete(serviceCategories).where(eq(serviceCategories.id, id));
+    });
+  }
+
+  // Service Images
+  async getServiceImage(id: number): Promise<ServiceImage | undefined> {
+    const [image] = await db.select().from(serviceImages).where(eq(serviceImages.id, id));
+    return image;
+  }
+
+  async getServiceImages(serviceId: number): Promise<ServiceImage[]> {
+    return db.select()
+      .from(serviceImages)
+      .where(eq(serviceImages.serviceId, serviceId))
+      .orderBy(asc(serviceImages.position), asc(serviceImages.id));
+  }
+
+  async getServiceImagesForServices(serviceIds: number[]): Promise<ServiceImage[]> {
+    if (serviceIds.length === 0) return [];
+
+    return db.select()
+      .from(serviceImages)
+      .where(inArray(serviceImages.serviceId, serviceIds))
+      .orderBy(asc(serviceImages.serviceId), asc(serviceImages.position), asc(serviceImages.id));
+  }
+
+  async createServiceImage(imageData: InsertServiceImage): Promise<ServiceImage> {
+    const [image] = await db.insert(serviceImages).values(imageData).returning();
+    return image;
+  }
+
+  async updateServiceImage(id: number, imageData: Partial<InsertServiceImage>): Promise<ServiceImage | undefined> {
+    const [image] = await db.update(serviceImages)
+      .set(imageData)
+      .where(eq(serviceImages.id, id))
+      .returning();
+    return image;
+  }
+
+  async reorderServiceImages(serviceId: number, imageIds: number[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await Promise.all(imageIds.map((imageId, position) =>
+        tx.update(serviceImages)
+          .set({ position })
+          .where(and(eq(serviceImages.id, imageId), eq(serviceImages.serviceId, serviceId)))
+      ));
+    });
+  }
+
+  async setServiceCoverImage(serviceId: number, imageId: number): Promise<void> {
+    await db.update(serviceImages)
+      .set({ isCover: sql`${serviceImages.id} = ${imageId}` })
+      .where(eq(serviceImages.serviceId, serviceId));
+  }
+
+  async deleteServiceImage(id: number): Promise<void> {
+    await db.delete(serviceImages).where(eq(serviceImages.id, id));
+  }
+
+  // Job Offers
+  async getJobOffer(id: number): Promise<JobOffer | undefined> {
+    const [jobOffer] = await db.select().from(jobOffers).where(eq(jobOffers.id, id));
+    return jobOffer;
+  }
+
+  async getCompanyJobOffers(companyId: number): Promise<JobOffer[]> {
+    return db.select().from(jobOffers).where(and(eq(jobOffers.companyId, companyId), isNull(jobOffers.deletedAt)));
+  }
+
+  async listCompanyJobOffers(companyId: number, filter: JobOfferListFilter): Promise<CursorPage<JobOffer>> {
+    const pattern = filter.q && containsPattern(filter.q);
+    const where = and(
+      eq(jobOffers.companyId, companyId),
+      isNull(jobOffers.deletedAt),
+      filter.status ? eq(jobOffers.status, filter.status) : undefined,
+      filter.employmentType ? eq(jobOffers.employmentType, filter.employmentType) : undefined,
+      pattern
+        ? or(ilike(jobOffers.title, pattern), ilike(jobOffers.description, pattern), ilike(jobOffers.requirements, pattern))
+        : undefined
+    );
+    const sortValue = jobOfferSortExpression(filter.sort);
+    const { after, orderBy } = keysetClauses(sortValue, jobOffers.id, filter);
+
+    const [rows, [{ total }]] = await Promise.all([
+      db.select({ record: jobOffers, sortValue })
+        .from(jobOffers)
+        .where(and(where, after))
+        .orderBy(...orderBy)
+        .limit(filter.limit + 1),
+      db.select({ total: sql<number>`count(*)::int` }).from(jobOffers).where(where),
+    ]);
+
+    return toCursorPage(rows, filter, total);
+  }
+
+  async getExpiredJobOffers(now: Date): Promise<JobOffer[]> {
+    return db.select().from(jobOffers).where(and(
+      inArray(jobOffers.status, ['published', 'paused']),
+      isNull(jobOffers.deletedAt),
+      isNotNull(jobOffers.expiresAt),
+      lte(jobOffers.expiresAt, now)
+    ));
+  }
+
+  async createJobOffer(jobOfferData: InsertJobOffer): Promise<JobOffer> {
+    const [jobOffer] = await db.insert(jobOffers).values(jobOfferData).returning();
+    return jobOffer;
+  }
+
+  async updateJobOffer(id: number, jobOfferData: Partial<InsertJobOffer>): Promise<JobOffer | undefined> {
+    const [jobOffer] = await db.update(jobOffers)
+      .set({ ...jobOfferData, updatedAt: new Date() })
+      .where(eq(jobOffers.id, id))
+      .returning();
+    return jobOffer;
+  }
+
+  async deleteJobOffer(id: number): Promise<void> {
+    // Notas e histórico referenciam a candidatura, que referencia a vaga
+    await db.transaction(async (tx) => {
+      const applicationIds = tx.select({ id: jobApplications.id })
+        .from(jobApplications)
+        .where(eq(jobApplications.jobOfferId, id));
+
+      await tx.delete(jobApplicationNotes).where(inArray(jobApplicationNotes.applicationId, applicationIds));
+      await tx.delete(jobApplicationStageChanges).where(inArray(jobApplicationStageChanges.applicationId, applicationIds));
+      await tx.delete(jobApplications).where(eq(jobApplications.jobOfferId, id));
+      await tx.delete(revisions).where(and(eq(revisions.entityType, 'job_offer'), eq(revisions.entityId, id)));
+      await tx.delete(jobOffers).where(eq(jobOffers.id, id));
+    });
+  }
+
+  // Company Members
+  async getCompanyMember(companyId: number, userId: number): Promise<CompanyMember | undefined> {
+    const [member] = await db.select().from(companyMembers).where(
+      and(eq(companyMembers.companyId, companyId), eq(companyMembers.userId, userId))
+    );
+    return member;
+  }
+
+  async getCompanyMemberById(id: number): Promise<CompanyMember | undefined> {
+    const [member] = await db.select().from(companyMembers).where(eq(companyMembers.id, id));
+    return member;
+  }
+
+  async getCompanyMembers(companyId: number): Promise<CompanyMember[]> {
+    return db.select().from(companyMembers).where(eq(companyMembers.companyId, companyId));
+  }
+
+  async createCompanyMember(memberData: InsertCompanyMember): Promise<CompanyMember> {
+    const [member] = await db.insert(companyMembers).values(memberData).returning();
+    return member;
+  }
+
+  async updateCompanyMember(id: number, memberData: Partial<InsertCompanyMember>): Promise<CompanyMember | undefined> {
+    const [member] = await db.update(companyMembers)
+      .set({ ...memberData, updatedAt: new Date() })
+      .where(eq(companyMembers.id, id))
+      .returning();
+    return member;
+  }
+
+  async deleteCompanyMember(id: number): Promise<void> {
+    await db.delete(companyMembers).where(eq(companyMembers.id, id));
+  }
+
+  // Company Invitations
+  async getCompanyInvitation(id: number): Promise<CompanyInvitation | undefined> {
+    const [invitation] = await db.select().from(companyInvitations).where(eq(companyInvitations.id, id));
+    return invitation;
+  }
+
+  async getCompanyInvitationByToken(token: string): Promise<CompanyInvitation | undefined> {
+    const [invitation] = await db.select().from(companyInvitations).where(eq(companyInvitations.token, token));
+    return invitation;
+  }
+
+  async getCompanyInvitations(companyId: number): Promise<CompanyInvitation[]> {
+    return db.select().from(companyInvitations).where(eq(companyInvitations.companyId, companyId));
+  }
+
+  async createCompanyInvitation(invitationData: InsertCompanyInvitation): Promise<CompanyInvitation> {
+    const [invitation] = await db.insert(companyInvitations).values(invitationData).returning();
+    return invitation;
+  }
+
+  async updateCompanyInvitation(id: number, invitationData: Partial<InsertCompanyInvitation>): Promise<CompanyInvitation | undefined> {
+    const [invitation] = await db.update(companyInvitations)
+      .set({ ...invitationData, updatedAt: new Date() })
+      .where(eq(companyInvitations.id, id))
+      .returning();
+    return invitation;
+  }
+
+  // Job Applications
+  async getJobApplication(id: number): Promise<JobApplication | undefined> {
+    const [application] = await db.select().from(jobApplications).where(eq(jobApplications.id, id));
+    return application;
+  }
+
+  async getJobOfferApplications(jobOfferId: number): Promise<JobApplication[]> {
+    return db.select().from(jobApplications).where(eq(jobApplications.jobOfferId, jobOfferId));
+  }
+
+  async createJobApplication(applicationData: InsertJobApplication): Promise<JobApplication> {
+    const [application] = await db.insert(jobApplications).values(applicationData).returning();
+    return application;
+  }
+
+  async updateJobApplication(id: number, applicationData: Partial<InsertJobApplication>): Promise<JobApplication | undefined> {
+    const [application] = await db.update(jobApplications)
+      .set({ ...applicationData, updatedAt: new Date() })
+      .where(eq(jobApplications.id, id))
+      .returning();
+    return application;
+  }
+
+  async getJobApplicationNotes(applicationId: number): Promise<JobApplicationNote[]> {
+    return db.select().from(jobApplicationNotes).where(eq(jobApplicationNotes.applicationId, applicationId));
+  }
+
+  async createJobApplicationNote(noteData: InsertJobApplicationNote): Promise<JobApplicationNote> {
+    const [note] = await db.insert(jobApplicationNotes).values(noteData).returning();
+    return note;
+  }
+
+  async getJobApplicationStageChanges(applicationId: number): Promise<JobApplicationStageChange[]> {
+    return db.select().from(jobApplicationStageChanges).where(eq(jobApplicationStageChanges.applicationId, applicationId));
+  }
+
+  async createJobApplicationStageChange(changeData: InsertJobApplicationStageChange): Promise<JobApplicationStageChange> {
+    const [change] = await db.insert(jobApplicationStageChanges).values(changeData).returning();
+    return change;
+  }
+
+  // Appointments
+  async getAppointment(id: number): Promise<Appointment | undefined> {
+    const [appointment] = await db.select().from(appointments).where(eq(appointments.id, id));
+    return appointment;
+  }
+
+  async getCompanyAppointments(companyId: number, filter: AppointmentListQuery): Promise<Appointment[]> {
+    return db.select()
+      .from(appointments)
+      .where(and(
+        eq(appointments.companyId, companyId),
+        gte(appointments.startsAt, filter.from),
+        lt(appointments.startsAt, filter.to),
+        filter.serviceId ? eq(appointments.serviceId, filter.serviceId) : undefined,
+        filter.status ? eq(appointments.status, filter.status) : undefined
+      ))
+      .orderBy(asc(appointments.startsAt), asc(appointments.id));
+  }
+
+  async getActiveServiceAppointments(serviceId: number, from: Date, to: Date): Promise<Appointment[]> {
+    return db.select()
+      .from(appointments)
+      .where(and(
+        eq(appointments.serviceId, serviceId),
+        inArray(appointments.status, activeAppointmentStatuses),
+        lt(appointments.startsAt, to),
+        gt(appointments.endsAt, from)
+      ))
+      .orderBy(asc(appointments.startsAt));
+  }
+
+  async createAppointment(appointmentData: InsertAppointment): Promise<Appointment> {
+    return db.transaction(async (tx) => {
+      await assertAppointmentSlotFree(tx, { status: 'requested', ...appointmentData });
+      const [appointment] = await tx.insert(appointments).values(appointmentData).returning();
+      return appointment;
+    });
+  }
+
+  async updateAppointment(id: number, appointmentData: Partial<InsertAppointment>): Promise<Appointment | undefined> {
+    return db.transaction(async (tx) => {
+      const [current] = await tx.select().from(appointments).where(eq(appointments.id, id));
+      if (!current) return undefined;
+
+      await assertAppointmentSlotFree(tx, { ...current, ...appointmentData }, id);
+      const [appointment] = await tx.update(appointments)
+        .set({ ...appointmentData, updatedAt: new Date() })
+        .where(eq(appointments.id, id))
+        .returning();
+      return appointment;
+    });
+  }
+
+  // Revisions
+  async getRevision(id: number): Promise<Revision | undefined> {
+    const [revision] = await db.select().from(revisions).where(eq(revisions.id, id));
+    return revision;
+  }
+
+  async getRevisions(entityType: RevisionEntityType, entityId: number): Promise<Revision[]> {
+    return db.select()
+      .from(revisions)
+      .where(and(eq(revisions.entityType, entityType), eq(revisions.entityId, entityId)))
+      .orderBy(desc(revisions.version));
+  }
+
+  // A restrição única em (entityType, entityId, version) barra duas gravações
+  // simultâneas com o mesmo número de versão
+  async createRevision(revisionData: InsertRevision): Promise<Revision> {
+    const [revision] = await db.insert(revisions)
+      .values({
+        ...revisionData,
+        version: sql`(select coalesce(max(${revisions.version}), 0) + 1 from ${revisions} where ${revisions.entityType} = ${revisionData.entityType} and ${revisions.entityId} = ${revisionData.entityId})`,
+      })
+      .returning();
+    return revision;
+  }
+
+  // Audit Log
+  async createAuditLog(entry: InsertAuditLog): Promise<AuditLog> {
+    const [auditLog] = await db.insert(auditLogs).values(entry).returning();
+    return auditLog;
+  }
+
+  async getAuditLogs(companyId: number, filter: AuditLogFilter): Promise<AuditLogPage> {
+    const conditions = and(
+      eq(auditLogs.companyId, companyId),
+      filter.entityType ? eq(auditLogs.entityType, filter.entityType) : undefined,
+      filter.entityId ? eq(auditLogs.entityId, filter.entityId) : undefined,
+      filter.action ? eq(auditLogs.action, filter.action) : undefined,
+      filter.actorUid ? eq(auditLogs.actorUid, filter.actorUid) : undefined,
+    );
+
+    const [entries, [{ total }]] = await Promise.all([
+      db.select().from(auditLogs)
+        .where(conditions)
+        .orderBy(desc(auditLogs.id))
+        .limit(filter.limit)
+        .offset(filter.offset),
+      db.select({ total: sql<number>`count(*)::int` }).from(auditLogs).where(conditions),
+    ]);
+
+    return { entries, total };
+  }
+
+  // Trash
+  async getCompanyTrash(companyId: number): Promise<TrashedRecords> {
+    const [trashedServices, trashedJobOffers] = await Promise.all([
+      db.select().from(services).where(and(eq(services.companyId, companyId), isNotNull(services.deletedAt))),
+      db.select().from(jobOffers).where(and(eq(jobOffers.companyId, companyId), isNotNull(jobOffers.deletedAt))),
+    ]);
+    return { services: trashedServices, jobOffers: trashedJobOffers };
+  }
+
+  async getTrashedBefore(cutoff: Date): Promise<TrashedRecords> {
+    const [trashedServices, trashedJobOffers] = await Promise.all([
+      db.select().from(services).where(lte(services.deletedAt, cutoff)),
+      db.select().from(jobOffers).where(lte(jobOffers.deletedAt, cutoff)),
+    ]);
+    return { services: trashedServices, jobOffers: trashedJobOffers };
+  }
+
+  // Data Exports
+  async getDataExport(id: number): Promise<DataExport | undefined> {
+    const [dataExport] = await db.select().from(dataExports).where(eq(dataExports.id, id));
+    return dataExport;
+  }
+
+  async getUserDataExports(userId: number): Promise<DataExport[]> {
+    return db.select().from(dataExports).where(eq(dataExports.userId, userId)).orderBy(desc(dataExports.id));
+  }
+
+  async createDataExport(dataExportData: InsertDataExport): Promise<DataExport> {
+    const [dataExport] = await db.insert(dataExports).values(dataExportData).returning();
+    return dataExport;
+  }
+
+  async updateDataExport(id: number, dataExportData: Partial<InsertDataExport>): Promise<DataExport | undefined> {
+    const [dataExport] = await db.update(dataExports)
+      .set({ ...dataExportData, updatedAt: new Date() })
+      .where(eq(dataExports.id, id))
+      .returning();
+    return dataExport;
+  }
+
+  async getExpiredDataExports(before: Date): Promise<DataExport[]> {
+    return db.select().from(dataExports).where(lte(dataExports.expiresAt, before));
+  }
+
+  async deleteDataExport(id: number): Promise<void> {
+    await db.delete(dataExports).where(eq(dataExports.id, id));
+  }
+
+  // Maintenance
+  // Com as FKs do Postgres não deveria haver órfãos, mas bancos migrados do Firestore podem ter
+  async getOrphanedRecords(): Promise<OrphanedRecords> {
+    const [orphanedImages, orphanedJobOffers] = await Promise.all([
+      db.select({ image: serviceImages })
+        .from(serviceImages)
+        .leftJoin(services, eq(serviceImages.serviceId, services.id))
+        .where(isNull(services.id)),
+      db.select({ jobOffer: jobOffers })
+        .from(jobOffers)
+        .leftJoin(companies, eq(jobOffers.companyId, companies.id))
+        .where(isNull(companies.id)),
+    ]);
+
+    return {
+      serviceImages: orphanedImages.map(row => row.image),
+      jobOffers: orphanedJobOffers.map(row => row.jobOffer),
+    };
+  }
+
+}
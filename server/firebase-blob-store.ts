@@ -0,0 +1,47 @@
+import { randomUUID } from "crypto";
+import { storage } from "./firebase";
+import { assertPublicKey, type BlobStore } from "./blob-store";
+
+// Guarda os arquivos no Firebase Storage (bucket padrão do projeto ou FIREBASE_STORAGE_BUCKET)
+export class FirebaseBlobStore implements BlobStore {
+  private readonly bucket;
+
+  constructor(bucketName?: string) {
+    this.bucket = storage.bucket(bucketName);
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    await this.bucket.file(key).save(data, { contentType, resumable: false });
+  }
+
+  // O token de download dá acesso ao arquivo pela URL, como faz o SDK web do Firebase
+  async putPublic(key: string, data: Buffer, contentType: string): Promise<string> {
+    assertPublicKey(key);
+    const token = randomUUID();
+
+    await this.bucket.file(key).save(data, {
+      contentType,
+      resumable: false,
+      metadata: {
+        cacheControl: 'public, max-age=31536000, immutable',
+        metadata: { firebaseStorageDownloadTokens: token }
+      }
+    });
+
+    return `https://firebasestorage.googleapis.com/v0/b/${this.bucket.name}/o/${encodeURIComponent(key)}?alt=media&token=${token}`;
+  }
+
+  async get(key: string): Promise<Buffer | undefined> {
+    try {
+      const [data] = await this.bucket.file(key).download();
+      return data;
+    } catch (error: any) {
+      if (error.code === 404) return undefined;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.bucket.file(key).delete({ ignoreNotFound: true });
+  }
+}
@@ -2,6 +2,7 @@ import { initializeApp, cert, getApps } from 'firebase-admin/app';
 import { getAuth } from 'firebase-admin/auth';
 import { getFirestore } from 'firebase-admin/firestore';
 import { getStorage } from 'firebase-admin/storage';
+import type { IdentityProvider } from './middleware/auth';
 
 // Initialize Firebase Admin
 const initializeFirebaseAdmin = () => {
@@ -74,25 +75,14 @@ export const getUserByUid = async (uid: string) => {
   }
 };
 
-export const getUserData = async (uid: string) => {
-  try {
-    const userDoc = await firestore.collection('users').doc(uid).get();
-    if (userDoc.exists) {
-      return userDoc.data();
+export const firebaseIdentityProvider: IdentityProvider = {
+  verifyToken,
+  deleteUser: async (uid: string) => {
+    try {
+      await auth.deleteUser(uid);
+    } catch (error: any) {
+      // A conta pode já ter sido apagada pelo Firebase Console
+      if (error?.code !== 'auth/user-not-found') throw error;
     }
-    return null;
-  } catch (error) {
-    console.error('Error fetching user data:', error);
-    throw error;
-  }
-};
-
-export const updateUserData = async (uid: string, data: any) => {
-  try {
-    await firestore.collection('users').doc(uid).update(data);
-    return true;
-  } catch (error) {
-    console.error('Error updating user data:', error);
-    throw error;
-  }
+  },
 };
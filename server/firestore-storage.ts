@@ -1,200 +1,883 @@
+import { Timestamp, type DocumentReference, type DocumentSnapshot, type Transaction } from "firebase-admin/firestore";
 import { firestore } from "./firebase";
-import { IStorage } from "./storage";
-import { v4 as uuidv4 } from 'uuid';
+import {
+  IStorage,
+  AuditLogFilter,
+  AuditLogPage,
+  JobOfferListFilter,
+  OrphanedRecords,
+  ServiceListFilter,
+  TrashedRecords,
+  AppointmentConflictError,
+  hasAppointmentConflict,
+} from "./storage";
+import { jobOfferSortValue, matchesText, paginateRecords, serviceSortValue } from "./pagination";
+import { isNumericId } from "./legacy-firestore";
+import type {
+  User,
+  InsertUser,
+  Company,
+  InsertCompany,
+  Service,
+  InsertService,
+  ServiceCategory,
+  InsertServiceCategory,
+  ServiceImage,
+  InsertServiceImage,
+  JobOffer,
+  InsertJobOffer,
+  CompanyMember,
+  InsertCompanyMember,
+  CompanyInvitation,
+  InsertCompanyInvitation,
+  JobApplication,
+  InsertJobApplication,
+  JobApplicationNote,
+  InsertJobApplicationNote,
+  JobApplicationStageChange,
+  InsertJobApplicationStageChange,
+  Appointment,
+  InsertAppointment,
+  AppointmentListQuery,
+  Revision,
+  InsertRevision,
+  RevisionEntityType,
+  AuditLog,
+  InsertAuditLog,
+  DataExport,
+  InsertDataExport,
+  CursorPage,
+} from "@shared/schema";
+import { isActiveAppointment } from "@shared/schema";
+
+// Limite de escritas por batch do Firestore
+const MAX_BATCH_WRITES = 500;
+
+// Limite de valores de um filtro 'in' do Firestore
+const MAX_IN_VALUES = 30;
+
+function docFields(doc: DocumentSnapshot): Record<string, unknown> {
+  const data = doc.data() || {};
+  return Object.fromEntries(
+    Object.entries(data).map(([key, value]) => [key, value instanceof Timestamp ? value.toDate() : value])
+  );
+}
+
+// Converte um documento do Firestore para a entidade do schema compartilhado
+function fromDoc<T>(doc: DocumentSnapshot): T {
+  if (!isNumericId(doc.id)) {
+    throw new Error(`Documento sem id numérico: ${doc.ref.path}. Rode npm run maintenance:migrate-firestore`);
+  }
+  return { ...docFields(doc), id: Number(doc.id) } as T;
+}
+
+// Documentos com uuid ou id do Firestore são de antes da migração e ficam de fora das
+// consultas até serem migrados, em vez de aparecerem com id NaN
+function apiDocs<T extends DocumentSnapshot>(docs: T[]): T[] {
+  const legacy = docs.filter(doc => !isNumericId(doc.id));
+  if (legacy.length > 0) {
+    console.warn(`Documentos sem id numérico ignorados (falta a migração): ${legacy.map(doc => doc.ref.path).join(', ')}`);
+  }
+  return docs.filter(doc => isNumericId(doc.id));
+}
+
+// Em users a chave do documento é o uid, e o id numérico vem do próprio documento
+function userFromDoc(doc: DocumentSnapshot): User {
+  const user = docFields(doc) as unknown as User;
+  return { ...user, id: doc.get('id'), deletionScheduledAt: user.deletionScheduledAt ?? null };
+}
+
+// Serviços gravados antes da tabela de preços e do horário estruturado guardam o preço e o
+// horário em texto livre nos campos `price` e `workingHours`
+function withServiceDefaults(service: Service & { price?: string | null; workingHours?: string | null }): Service {
+  const { price, workingHours, ...fields } = service;
+
+  return {
+    ...fields,
+    pricingType: service.pricingType ?? null,
+    priceCents: service.priceCents ?? null,
+    currency: service.currency || 'EUR',
+    vatRate: service.vatRate ?? 23,
+    priceVariants: service.priceVariants ?? [],
+    // Depois que o preço antigo é apagado, legacyPrice fica null e o campo `price` deixa de valer
+    legacyPrice: 'legacyPrice' in service ? service.legacyPrice : price ?? null,
+    openingHours: service.openingHours ?? null,
+    legacyWorkingHours: 'legacyWorkingHours' in service ? service.legacyWorkingHours : workingHours ?? null,
+    durationMinutes: service.durationMinutes ?? null,
+    categoryId: service.categoryId ?? null,
+    tags: service.tags ?? [],
+  };
+}
+
+// Vagas gravadas antes do ciclo de vida não têm estado e já estavam no ar
+function withJobOfferDefaults(jobOffer: JobOffer): JobOffer {
+  return {
+    ...jobOffer,
+    status: jobOffer.status || 'published',
+    expiresAt: jobOffer.expiresAt ?? null,
+    publishedAt: jobOffer.publishedAt ?? null,
+    closedAt: jobOffer.closedAt ?? null,
+    deletedAt: jobOffer.deletedAt ?? null,
+  };
+}
+
+// Imagens gravadas antes da ordenação não têm posição, capa nem texto alternativo
+function withServiceImageDefaults(image: ServiceImage): ServiceImage {
+  return {
+    ...image,
+    variants: image.variants ?? null,
+    altText: image.altText ?? null,
+    position: image.position ?? 0,
+    isCover: image.isCover ?? false,
+  };
+}
 
 export class FirestoreStorage implements IStorage {
-  // Users
-  async getUser(id: string): Promise<any> {
-    const userDoc = await firestore.collection('users').doc(id).get();
-    if (!userDoc.exists) return undefined;
-    return { id: userDoc.id, ...userDoc.data() };
-  }
-  
-  async getUserByUid(uid: string): Promise<any> {
-    const snapshot = await firestore.collection('users')
-      .where('uid', '==', uid)
-      .limit(1)
-      .get();
-    
-    if (snapshot.empty) return undefined;
-    const doc = snapshot.docs[0];
-    return { id: doc.id, ...doc.data() };
-  }
-
-  async createUser(userData: any): Promise<any> {
-    const id = uuidv4();
-    const user = {
-      ...userData,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    };
-    
-    await firestore.collection('users').doc(id).set(user);
-    return { id, ...user };
-  }
-  
-  async updateUser(id: string, userData: any): Promise<any> {
-    const updateData = {
-      ...userData,
-      updatedAt: new Date().toISOString()
-    };
-    
-    await firestore.collection('users').doc(id).update(updateData);
-    return { id, ...updateData };
+  // O Firestore não tem autoincremento: os ids numéricos vêm de counters/{coleção}
+  private async nextId(collection: string): Promise<number> {
+    const counterRef = firestore.collection('counters').doc(collection);
+
+    return firestore.runTransaction(async (transaction) => {
+      const counter = await transaction.get(counterRef);
+      const value = (counter.exists ? counter.data()?.value || 0 : 0) + 1;
+      transaction.set(counterRef, { value });
+      return value;
+    });
   }
 
-  // Companies
-  async getCompany(id: string): Promise<any> {
-    const doc = await firestore.collection('companies').doc(id).get();
+  private async getById<T>(collection: string, id: number): Promise<T | undefined> {
+    const doc = await firestore.collection(collection).doc(String(id)).get();
     if (!doc.exists) return undefined;
-    return { id: doc.id, ...doc.data() };
+    return fromDoc<T>(doc);
   }
-  
-  async getUserCompanies(userId: string): Promise<any[]> {
-    const snapshot = await firestore.collection('companies')
-      .where('ownerId', '==', userId)
+
+  private async getWhere<T>(collection: string, field: string, value: string | number): Promise<T[]> {
+    const snapshot = await firestore.collection(collection)
+      .where(field, '==', value)
       .get();
-    
-    return snapshot.docs.map(doc => ({
-      id: doc.id,
-      ...doc.data()
-    }));
-  }
-  
-  async createCompany(companyData: any): Promise<any> {
-    const id = uuidv4();
-    const company = {
-      ...companyData,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    };
-    
-    await firestore.collection('companies').doc(id).set(company);
-    return { id, ...company };
-  }
-  
-  async updateCompany(id: string, companyData: any): Promise<any> {
-    const updateData = {
-      ...companyData,
-      updatedAt: new Date().toISOString()
-    };
-    
-    await firestore.collection('companies').doc(id).update(updateData);
-    return { id, ...updateData };
+
+    return apiDocs(snapshot.docs).map(doc => fromDoc<T>(doc));
+  }
+
+  private async create<T>(collection: string, data: object, timestamps = ['createdAt', 'updatedAt']): Promise<T> {
+    const id = await this.nextId(collection);
+    const now = new Date();
+    const record: Record<string, unknown> = { ...data, id };
+    timestamps.forEach(field => { record[field] = now; });
+
+    await firestore.collection(collection).doc(String(id)).set(record);
+    return record as T;
+  }
+
+  private async update<T>(collection: string, id: number, data: object): Promise<T | undefined> {
+    const docRef = firestore.collection(collection).doc(String(id));
+
+    await docRef.update({
+      ...data,
+      updatedAt: new Date()
+    });
+
+    return fromDoc<T>(await docRef.get());
+  }
+
+  // Um batch do Firestore aceita no máximo 500 escritas; acima disso a exclusão
+  // é feita em vários batches, um depois do outro, na ordem recebida
+  private async deleteRefs(refs: DocumentReference[]): Promise<void> {
+    for (let start = 0; start < refs.length; start += MAX_BATCH_WRITES) {
+      const batch = firestore.batch();
+      refs.slice(start, start + MAX_BATCH_WRITES).forEach(ref => batch.delete(ref));
+      await batch.commit();
+    }
+  }
+
+  /**
+   * Exclusão em cascata sem a transação que o Postgres tem: no Firestore um batch
+   * ou uma transação aceitam no máximo 500 escritas, e uma empresa passa disso com
+   * facilidade, por isso a cascata não é atômica.
+   *
+   * Os filhos vão primeiro (os netos antes deles, na ordem recebida) e o registro
+   * pai só depois de todos, sozinho. Se algo falhar no meio, o pai continua lá com
+   * o que sobrou, e chamar a exclusão de novo busca os filhos restantes e termina o
+   * trabalho; nunca ficam filhos de um pai que já não existe.
+   */
+  private async deleteCascade(children: DocumentReference[], parent: DocumentReference): Promise<void> {
+    await this.deleteRefs(children);
+    await parent.delete();
+  }
+
+  private async getRefsWhere(collection: string, field: string, values: number[]): Promise<DocumentReference[]> {
+    const snapshots = await Promise.all(
+      values.map(value => firestore.collection(collection).where(field, '==', value).get())
+    );
+    return snapshots.flatMap(snapshot => snapshot.docs.map(doc => doc.ref));
+  }
+
+  // Versões de um registro; o tipo é filtrado em memória para não exigir índice composto
+  private async getRevisionRefs(entityType: RevisionEntityType, entityId: number): Promise<DocumentReference[]> {
+    const snapshot = await firestore.collection('revisions').where('entityId', '==', entityId).get();
+    return snapshot.docs
+      .filter(doc => doc.get('entityType') === entityType)
+      .map(doc => doc.ref);
+  }
+
+  private async getIds(collection: string): Promise<Set<number>> {
+    const snapshot = await firestore.collection(collection).select().get();
+    return new Set(snapshot.docs.filter(doc => isNumericId(doc.id)).map(doc => Number(doc.id)));
+  }
+
+  // Users
+  // Usuários ficam em users/{uid}; o id numérico, usado nas referências das outras
+  // coleções, é um campo do documento
+  private async getUserDoc(id: number): Promise<DocumentSnapshot | undefined> {
+    const snapshot = await firestore.collection('users').where('id', '==', id).limit(1).get();
+    return snapshot.docs[0];
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    const doc = await this.getUserDoc(id);
+    return doc && userFromDoc(doc);
+  }
+
+  async getUserByUid(uid: string): Promise<User | undefined> {
+    const doc = await firestore.collection('users').doc(uid).get();
+    return doc.exists ? userFromDoc(doc) : undefined;
+  }
+
+  async createUser(userData: InsertUser): Promise<User> {
+    const id = await this.nextId('users');
+    const now = new Date();
+    const record = { deletionScheduledAt: null, ...userData, id, createdAt: now, updatedAt: now };
+
+    // create() falha se o uid já tem usuário, em vez de sobrescrevê-lo
+    await firestore.collection('users').doc(userData.uid).create(record);
+    return record as User;
+  }
+
+  async provisionUser(userData: InsertUser): Promise<User> {
+    const existing = await this.getUserByUid(userData.uid);
+    if (existing) return existing;
+
+    try {
+      return await this.createUser(userData);
+    } catch (error) {
+      // Outro pedido do mesmo usuário chegou primeiro; o id reservado fica sem uso
+      const created = await this.getUserByUid(userData.uid);
+      if (created) return created;
+      throw error;
+    }
   }
 
+  async updateUser(id: number, userData: Partial<InsertUser>): Promise<User | undefined> {
+    const doc = await this.getUserDoc(id);
+    if (!doc) return undefined;
+
+    // O uid é a chave do documento e não muda
+    const { uid, ...fields } = userData;
+    await doc.ref.update({ ...fields, updatedAt: new Date() });
+    return userFromDoc(await doc.ref.get());
+  }
+
+  async getUsersScheduledForDeletion(before: Date): Promise<User[]> {
+    const snapshot = await firestore.collection('users').where('deletionScheduledAt', '<=', before).get();
+    return snapshot.docs.map(userFromDoc);
+  }
+
+  async deleteUser(id: number): Promise<void> {
+    const [userDoc, noteRefs, invitationRefs, memberRefs, exportRefs, stageChangeRefs, revisionRefs] = await Promise.all([
+      this.getUserDoc(id),
+      this.getRefsWhere('jobApplicationNotes', 'authorId', [id]),
+      this.getRefsWhere('companyInvitations', 'invitedBy', [id]),
+      this.getRefsWhere('companyMembers', 'userId', [id]),
+      this.getRefsWhere('dataExports', 'userId', [id]),
+      this.getRefsWhere('jobApplicationStageChanges', 'changedBy', [id]),
+      this.getRefsWhere('revisions', 'createdBy', [id]),
+    ]);
+
+    // O histórico do perfil é apagado; o que o usuário fez fica, sem os dados dele
+    const [profileAuditDocs, actorAuditDocs] = await Promise.all([
+      firestore.collection('auditLogs').where('entityId', '==', id).get(),
+      userDoc ? firestore.collection('auditLogs').where('actorUid', '==', userDoc.id).get() : undefined,
+    ]);
+    const profileAuditRefs = profileAuditDocs.docs.filter(doc => doc.get('entityType') === 'user').map(doc => doc.ref);
+
+    await Promise.all([
+      ...stageChangeRefs.map(ref => ref.update({ changedBy: null })),
+      ...revisionRefs.map(ref => ref.update({ createdBy: null })),
+      ...(actorAuditDocs?.docs ?? []).map(doc => doc.ref.update({ actorUid: null, actorEmail: null, ipAddress: null, userAgent: null })),
+    ]);
+    const children = [...noteRefs, ...invitationRefs, ...memberRefs, ...exportRefs, ...profileAuditRefs];
+    await (userDoc ? this.deleteCascade(children, userDoc.ref) : this.deleteRefs(children));
+  }
+
+  // Companies
+  async getCompany(id: number): Promise<Company | undefined> {
+    return this.getById<Company>('companies', id);
+  }
+
+  async getUserCompanies(userId: number): Promise<Company[]> {
+    const [owned, memberships] = await Promise.all([
+      this.getWhere<Company>('companies', 'ownerId', userId),
+      this.getWhere<CompanyMember>('companyMembers', 'userId', userId),
+    ]);
+
+    const ownedIds = new Set(owned.map(company => company.id));
+    const memberOf = await Promise.all(
+      memberships
+        .filter(member => !ownedIds.has(member.companyId))
+        .map(member => this.getById<Company>('companies', member.companyId))
+    );
+
+    return [...owned, ...memberOf.filter((company): company is Company => !!company)];
+  }
+
+  async getCompanyBySlug(slug: string): Promise<Company | undefined> {
+    const [company] = await this.getWhere<Company>('companies', 'slug', slug);
+    return company;
+  }
+
+  async createCompany(companyData: InsertCompany): Promise<Company> {
+    return this.create<Company>('companies', { country: 'Portugal', slug: null, isPublic: false, openingHours: null, ...companyData });
+  }
+
+  async updateCompany(id: number, companyData: Partial<InsertCompany>): Promise<Company | undefined> {
+    return this.update<Company>('companies', id, companyData);
+  }
+  async deleteCompany(id: number): Promise<void> {
+    const [serviceRefs, categoryRefs, jobOfferRefs, applicationRefs, appointmentRefs, memberRefs, invitationRefs, revisionRefs, auditRefs] = await Promise.all([
+      this.getRefsWhere('services', 'companyId', [id]),
+      this.getRefsWhere('serviceCategories', 'companyId', [id]),
+      this.getRefsWhere('jobOffers', 'companyId', [id]),
+      this.getRefsWhere('jobApplications', 'companyId', [id]),
+      this.getRefsWhere('appointments', 'companyId', [id]),
+      this.getRefsWhere('companyMembers', 'companyId', [id]),
+      this.getRefsWhere('companyInvitations', 'companyId', [id]),
+      this.getRefsWhere('revisions', 'companyId', [id]),
+      this.getRefsWhere('auditLogs', 'companyId', [id]),
+    ]);
+    const applicationIds = applicationRefs.map(ref => Number(ref.id));
+    const [imageRefs, noteRefs, stageChangeRefs] = await Promise.all([
+      this.getRefsWhere('serviceImages', 'serviceId', serviceRefs.map(ref => Number(ref.id))),
+      this.getRefsWhere('jobApplicationNotes', 'applicationId', applicationIds),
+      this.getRefsWhere('jobApplicationStageChanges', 'applicationId', applicationIds),
+    ]);
+
+    await this.deleteCascade([
+      ...noteRefs,
+      ...stageChangeRefs,
+      ...applicationRefs,
+      ...jobOfferRefs,
+      ...appointmentRefs,
+      ...imageRefs,
+      ...serviceRefs,
+      ...categoryRefs,
+      ...invitationRefs,
+      ...memberRefs,
+      ...revisionRefs,
+      ...auditRefs,
+    ], firestore.collection('companies').doc(String(id)));
+  }
+
+
   // Services
-  async getService(id: string): Promise<any> {
-    const doc = await firestore.collection('services').doc(id).get();
-    if (!doc.exists) return undefined;
-    return { id: doc.id, ...doc.data() };
+  async getService(id: number): Promise<Service | undefined> {
+    const service = await this.getById<Service>('services', id);
+    return service && withServiceDefaults(service);
   }
-  
-  async getCompanyServices(companyId: string): Promise<any[]> {
-    const snapshot = await firestore.collection('services')
-      .where('companyId', '==', companyId)
-      .get();
-    
-    return snapshot.docs.map(doc => ({
-      id: doc.id,
-      ...doc.data()
-    }));
-  }
-  
-  async createService(serviceData: any): Promise<any> {
-    const id = uuidv4();
-    const service = {
-      ...serviceData,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    };
-    
-    await firestore.collection('services').doc(id).set(service);
-    return { id, ...service };
-  }
-  
-  async updateService(id: string, serviceData: any): Promise<any> {
-    const updateData = {
-      ...serviceData,
-      updatedAt: new Date().toISOString()
-    };
-    
-    await firestore.collection('services').doc(id).update(updateData);
-    return { id, ...updateData };
+
+  // Documentos antigos não têm deletedAt, por isso o filtro da lixeira é feito em memória
+  async getCompanyServices(companyId: number): Promise<Service[]> {
+    const services = await this.getWhere<Service>('services', 'companyId', companyId);
+    return services.map(withServiceDefaults).filter(service => !service.deletedAt);
+  }
+
+  // Ordenar e paginar no Firestore exigiria um índice composto por campo de ordenação
+  // e um campo extra em minúsculas para o nome, e a busca por trecho não existe nele;
+  // a página é montada em memória a partir dos serviços da empresa
+  async listCompanyServices(companyId: number, filter: ServiceListFilter): Promise<CursorPage<Service>> {
+    const services = (await this.getCompanyServices(companyId))
+      .filter(service => matchesText(filter.q, [service.name, service.description]))
+      .filter(service => !filter.pricingType || service.pricingType === filter.pricingType)
+      .filter(service => !filter.categoryIds || (service.categoryId !== null && filter.categoryIds.includes(service.categoryId)))
+      .filter(service => !filter.tag || service.tags.includes(filter.tag));
+    return paginateRecords(services, filter, serviceSortValue);
+  }
+
+  async createService(serviceData: InsertService): Promise<Service> {
+    const defaults = { pricingType: null, priceCents: null, currency: 'EUR', vatRate: 23, priceVariants: [], legacyPrice: null, openingHours: null, legacyWorkingHours: null, durationMinutes: null, categoryId: null, tags: [], deletedAt: null };
+    return this.create<Service>('services', { ...defaults, ...serviceData });
+  }
+
+  async updateService(id: number, serviceData: Partial<InsertService>): Promise<Service | undefined> {
+    const service = await this.update<Service>('services', id, serviceData);
+    return service && withServiceDefaults(service);
+  }
+
+  async deleteService(id: number): Promise<void> {
+    const [imageRefs, appointmentRefs, revisionRefs] = await Promise.all([
+      this.getRefsWhere('serviceImages', 'serviceId', [id]),
+      this.getRefsWhere('appointments', 'serviceId', [id]),
+      this.getRevisionRefs('service', id),
+    ]);
+    await this.deleteCascade([...imageRefs, ...appointmentRefs, ...revisionRefs], firestore.collection('services').doc(String(id)));
+  }
+
+  // Service Categories
+  async getServiceCategory(id: number): Promise<ServiceCategory | undefined> {
+    return this.getById<ServiceCategory>('serviceCategories', id);
+  }
+
+  async getCompanyServiceCategories(companyId: number): Promise<ServiceCategory[]> {
+    return this.getWhere<ServiceCategory>('serviceCategories', 'companyId', companyId);
+  }
+
+  async createServiceCategory(categoryData: InsertServiceCategory): Promise<ServiceCategory> {
+    return this.create<ServiceCategory>('serviceCategories', { parentId: null, ...categoryData });
   }
-  
-  async deleteService(id: string): Promise<void> {
-    await firestore.collection('services').doc(id).delete();
+
+  async updateServiceCategory(id: number, categoryData: Partial<InsertServiceCategory>): Promise<ServiceCategory | undefined> {
+    return this.update<ServiceCategory>('serviceCategories', id, categoryData);
+  }
+
+  async deleteServiceCategory(id: number): Promise<void> {
+    const category = await this.getServiceCategory(id);
+    if (!category) return;
+
+    const [childRefs, serviceRefs] = await Promise.all([
+      this.getRefsWhere('serviceCategories', 'parentId', [id]),
+      this.getRefsWhere('services', 'categoryId', [id]),
+    ]);
+    const now = new Date();
+    const updates: [DocumentReference, object][] = [
+      ...childRefs.map((ref): [DocumentReference, object] => [ref, { parentId: category.parentId, updatedAt: now }]),
+      ...serviceRefs.map((ref): [DocumentReference, object] => [ref, { categoryId: category.parentId, updatedAt: now }]),
+    ];
+
+    // A categoria só sai depois que nada mais aponta para ela
+    for (let start = 0; start < updates.length; start += MAX_BATCH_WRITES) {
+      const batch = firestore.batch();
+      updates.slice(start, start + MAX_BATCH_WRITES).forEach(([ref, data]) => batch.update(ref, data));
+      await batch.commit();
+    }
+    await firestore.collection('serviceCategories').doc(String(id)).delete();
   }
 
   // Service Images
-  async getServiceImages(serviceId: string): Promise<any[]> {
-    const snapshot = await firestore.collection('serviceImages')
-      .where('serviceId', '==', serviceId)
-      .get();
-    
-    return snapshot.docs.map(doc => ({
-      id: doc.id,
-      ...doc.data()
-    }));
-  }
-  
-  async createServiceImage(imageData: any): Promise<any> {
-    const id = uuidv4();
-    const image = {
-      ...imageData,
-      createdAt: new Date().toISOString(),
-    };
-    
-    await firestore.collection('serviceImages').doc(id).set(image);
-    return { id, ...image };
+  async getServiceImage(id: number): Promise<ServiceImage | undefined> {
+    const image = await this.getById<ServiceImage>('serviceImages', id);
+    return image && withServiceImageDefaults(image);
   }
-  
-  async deleteServiceImage(id: string): Promise<void> {
-    await firestore.collection('serviceImages').doc(id).delete();
+
+  async getServiceImages(serviceId: number): Promise<ServiceImage[]> {
+    const images = await this.getWhere<ServiceImage>('serviceImages', 'serviceId', serviceId);
+    return images
+      .map(withServiceImageDefaults)
+      .sort((a, b) => a.position - b.position || a.id - b.id);
+  }
+
+  async getServiceImagesForServices(serviceIds: number[]): Promise<ServiceImage[]> {
+    const chunks: number[][] = [];
+    for (let start = 0; start < serviceIds.length; start += MAX_IN_VALUES) {
+      chunks.push(serviceIds.slice(start, start + MAX_IN_VALUES));
+    }
+
+    const snapshots = await Promise.all(
+      chunks.map(chunk => firestore.collection('serviceImages').where('serviceId', 'in', chunk).get())
+    );
+
+    return snapshots
+      .flatMap(snapshot => apiDocs(snapshot.docs).map(doc => withServiceImageDefaults(fromDoc<ServiceImage>(doc))))
+      .sort((a, b) => a.serviceId - b.serviceId || a.position - b.position || a.id - b.id);
+  }
+
+  async createServiceImage(imageData: InsertServiceImage): Promise<ServiceImage> {
+    const defaults = { variants: null, altText: null, position: 0, isCover: false };
+    return this.create<ServiceImage>('serviceImages', { ...defaults, ...imageData }, ['createdAt']);
+  }
+
+  // Imagens não têm updatedAt, por isso não passam pelo update() genérico
+  async updateServiceImage(id: number, imageData: Partial<InsertServiceImage>): Promise<ServiceImage | undefined> {
+    const docRef = firestore.collection('serviceImages').doc(String(id));
+    await docRef.update(imageData);
+    return withServiceImageDefaults(fromDoc<ServiceImage>(await docRef.get()));
+  }
+
+  async reorderServiceImages(serviceId: number, imageIds: number[]): Promise<void> {
+    const images = await this.getWhere<ServiceImage>('serviceImages', 'serviceId', serviceId);
+    const batch = firestore.batch();
+
+    images
+      .filter(image => imageIds.includes(image.id))
+      .forEach(image => batch.update(
+        firestore.collection('serviceImages').doc(String(image.id)),
+        { position: imageIds.indexOf(image.id) }
+      ));
+
+    await batch.commit();
+  }
+
+  async setServiceCoverImage(serviceId: number, imageId: number): Promise<void> {
+    const images = await this.getWhere<ServiceImage>('serviceImages', 'serviceId', serviceId);
+    const batch = firestore.batch();
+
+    images.forEach(image => batch.update(
+      firestore.collection('serviceImages').doc(String(image.id)),
+      { isCover: image.id === imageId }
+    ));
+
+    await batch.commit();
+  }
+
+  async deleteServiceImage(id: number): Promise<void> {
+    await firestore.collection('serviceImages').doc(String(id)).delete();
   }
 
   // Job Offers
-  async getJobOffer(id: string): Promise<any> {
-    const doc = await firestore.collection('jobOffers').doc(id).get();
-    if (!doc.exists) return undefined;
-    return { id: doc.id, ...doc.data() };
+  async getJobOffer(id: number): Promise<JobOffer | undefined> {
+    const jobOffer = await this.getById<JobOffer>('jobOffers', id);
+    return jobOffer && withJobOfferDefaults(jobOffer);
+  }
+
+  async getCompanyJobOffers(companyId: number): Promise<JobOffer[]> {
+    const jobOffers = await this.getWhere<JobOffer>('jobOffers', 'companyId', companyId);
+    return jobOffers.map(withJobOfferDefaults).filter(jobOffer => !jobOffer.deletedAt);
+  }
+
+  // Montada em memória pelos mesmos motivos da lista de serviços
+  async listCompanyJobOffers(companyId: number, filter: JobOfferListFilter): Promise<CursorPage<JobOffer>> {
+    const jobOffers = (await this.getCompanyJobOffers(companyId))
+      .filter(jobOffer => !filter.status || jobOffer.status === filter.status)
+      .filter(jobOffer => !filter.employmentType || jobOffer.employmentType === filter.employmentType)
+      .filter(jobOffer => matchesText(filter.q, [jobOffer.title, jobOffer.description, jobOffer.requirements]));
+    return paginateRecords(jobOffers, filter, jobOfferSortValue);
   }
-  
-  async getCompanyJobOffers(companyId: string): Promise<any[]> {
+
+  async getExpiredJobOffers(now: Date): Promise<JobOffer[]> {
+    // Filtra o estado em memória para não exigir um índice composto
     const snapshot = await firestore.collection('jobOffers')
+      .where('expiresAt', '<=', now)
+      .get();
+
+    return apiDocs(snapshot.docs)
+      .map(doc => withJobOfferDefaults(fromDoc<JobOffer>(doc)))
+      .filter(jobOffer => jobOffer.status === 'published' || jobOffer.status === 'paused')
+      .filter(jobOffer => !jobOffer.deletedAt);
+  }
+
+  async createJobOffer(jobOfferData: InsertJobOffer): Promise<JobOffer> {
+    const defaults = { status: 'draft', expiresAt: null, publishedAt: null, closedAt: null, deletedAt: null };
+    return this.create<JobOffer>('jobOffers', { ...defaults, ...jobOfferData });
+  }
+
+  async updateJobOffer(id: number, jobOfferData: Partial<InsertJobOffer>): Promise<JobOffer | undefined> {
+    const jobOffer = await this.update<JobOffer>('jobOffers', id, jobOfferData);
+    return jobOffer && withJobOfferDefaults(jobOffer);
+  }
+
+  async deleteJobOffer(id: number): Promise<void> {
+    const applicationRefs = await this.getRefsWhere('jobApplications', 'jobOfferId', [id]);
+    const applicationIds = applicationRefs.map(ref => Number(ref.id));
+    const [noteRefs, stageChangeRefs, revisionRefs] = await Promise.all([
+      this.getRefsWhere('jobApplicationNotes', 'applicationId', applicationIds),
+      this.getRefsWhere('jobApplicationStageChanges', 'applicationId', applicationIds),
+      this.getRevisionRefs('job_offer', id),
+    ]);
+
+    await this.deleteCascade([
+      ...noteRefs,
+      ...stageChangeRefs,
+      ...applicationRefs,
+      ...revisionRefs,
+    ], firestore.collection('jobOffers').doc(String(id)));
+  }
+
+  // Company Members
+  async getCompanyMember(companyId: number, userId: number): Promise<CompanyMember | undefined> {
+    const snapshot = await firestore.collection('companyMembers')
       .where('companyId', '==', companyId)
+      .where('userId', '==', userId)
+      .limit(1)
       .get();
-    
-    return snapshot.docs.map(doc => ({
-      id: doc.id,
-      ...doc.data()
-    }));
-  }
-  
-  async createJobOffer(jobOfferData: any): Promise<any> {
-    const id = uuidv4();
-    const jobOffer = {
-      ...jobOfferData,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
+
+    const [member] = apiDocs(snapshot.docs);
+    return member && fromDoc<CompanyMember>(member);
+  }
+
+  async getCompanyMemberById(id: number): Promise<CompanyMember | undefined> {
+    return this.getById<CompanyMember>('companyMembers', id);
+  }
+
+  async getCompanyMembers(companyId: number): Promise<CompanyMember[]> {
+    return this.getWhere<CompanyMember>('companyMembers', 'companyId', companyId);
+  }
+
+  async createCompanyMember(memberData: InsertCompanyMember): Promise<CompanyMember> {
+    return this.create<CompanyMember>('companyMembers', memberData);
+  }
+
+  async updateCompanyMember(id: number, memberData: Partial<InsertCompanyMember>): Promise<CompanyMember | undefined> {
+    return this.update<CompanyMember>('companyMembers', id, memberData);
+  }
+
+  async deleteCompanyMember(id: number): Promise<void> {
+    await firestore.collection('companyMembers').doc(String(id)).delete();
+  }
+
+  // Company Invitations
+  async getCompanyInvitation(id: number): Promise<CompanyInvitation | undefined> {
+    return this.getById<CompanyInvitation>('companyInvitations', id);
+  }
+
+  async getCompanyInvitationByToken(token: string): Promise<CompanyInvitation | undefined> {
+    const [invitation] = await this.getWhere<CompanyInvitation>('companyInvitations', 'token', token);
+    return invitation;
+  }
+
+  async getCompanyInvitations(companyId: number): Promise<CompanyInvitation[]> {
+    return this.getWhere<CompanyInvitation>('companyInvitations', 'companyId', companyId);
+  }
+
+  async createCompanyInvitation(invitationData: InsertCompanyInvitation): Promise<CompanyInvitation> {
+    return this.create<CompanyInvitation>('companyInvitations', { acceptedAt: null, ...invitationData });
+  }
+
+  async updateCompanyInvitation(id: number, invitationData: Partial<InsertCompanyInvitation>): Promise<CompanyInvitation | undefined> {
+    return this.update<CompanyInvitation>('companyInvitations', id, invitationData);
+  }
+
+  // Job Applications
+  async getJobApplication(id: number): Promise<JobApplication | undefined> {
+    return this.getById<JobApplication>('jobApplications', id);
+  }
+
+  async getJobOfferApplications(jobOfferId: number): Promise<JobApplication[]> {
+    return this.getWhere<JobApplication>('jobApplications', 'jobOfferId', jobOfferId);
+  }
+
+  async createJobApplication(applicationData: InsertJobApplication): Promise<JobApplication> {
+    return this.create<JobApplication>('jobApplications', { stage: 'new', ...applicationData });
+  }
+
+  async updateJobApplication(id: number, applicationData: Partial<InsertJobApplication>): Promise<JobApplication | undefined> {
+    return this.update<JobApplication>('jobApplications', id, applicationData);
+  }
+
+  async getJobApplicationNotes(applicationId: number): Promise<JobApplicationNote[]> {
+    return this.getWhere<JobApplicationNote>('jobApplicationNotes', 'applicationId', applicationId);
+  }
+
+  async createJobApplicationNote(noteData: InsertJobApplicationNote): Promise<JobApplicationNote> {
+    return this.create<JobApplicationNote>('jobApplicationNotes', noteData, ['createdAt']);
+  }
+
+  async getJobApplicationStageChanges(applicationId: number): Promise<JobApplicationStageChange[]> {
+    return this.getWhere<JobApplicationStageChange>('jobApplicationStageChanges', 'applicationId', applicationId);
+  }
+
+  async createJobApplicationStageChange(changeData: InsertJobApplicationStageChange): Promise<JobApplicationStageChange> {
+    return this.create<JobApplicationStageChange>('jobApplicationStageChanges', { fromStage: null, changedBy: null, ...changeData }, ['createdAt']);
+  }
+
+  // Appointments
+  async getAppointment(id: number): Promise<Appointment | undefined> {
+    return this.getById<Appointment>('appointments', id);
+  }
+
+  // Período, serviço e estado filtrados em memória para não exigir índices compostos
+  async getCompanyAppointments(companyId: number, filter: AppointmentListQuery): Promise<Appointment[]> {
+    const appointments = await this.getWhere<Appointment>('appointments', 'companyId', companyId);
+    return appointments
+      .filter(appointment => appointment.startsAt >= filter.from && appointment.startsAt < filter.to)
+      .filter(appointment => !filter.serviceId || appointment.serviceId === filter.serviceId)
+      .filter(appointment => !filter.status || appointment.status === filter.status)
+      .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime() || a.id - b.id);
+  }
+
+  async getActiveServiceAppointments(serviceId: number, from: Date, to: Date): Promise<Appointment[]> {
+    const appointments = await this.getWhere<Appointment>('appointments', 'serviceId', serviceId);
+    return appointments
+      .filter(appointment => isActiveAppointment(appointment.status) && appointment.startsAt < to && appointment.endsAt > from)
+      .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+  }
+
+  // Lê os agendamentos do serviço dentro da transação: se outro for gravado antes do
+  // commit, o Firestore repete a transação e a verificação vê o novo registro
+  private async assertAppointmentSlotFree(transaction: Transaction, appointment: Appointment): Promise<void> {
+    if (!isActiveAppointment(appointment.status)) return;
+
+    const snapshot = await transaction.get(
+      firestore.collection('appointments').where('serviceId', '==', appointment.serviceId)
+    );
+
+    if (hasAppointmentConflict(appointment, apiDocs(snapshot.docs).map(doc => fromDoc<Appointment>(doc)))) {
+      throw new AppointmentConflictError();
+    }
+  }
+
+  // O id é reservado antes da transação; num conflito ele fica sem uso
+  async createAppointment(appointmentData: InsertAppointment): Promise<Appointment> {
+    const id = await this.nextId('appointments');
+    const now = new Date();
+    const appointment = {
+      customerPhone: null,
+      notes: null,
+      status: 'requested' as const,
+      ...appointmentData,
+      id,
+      createdAt: now,
+      updatedAt: now,
     };
-    
-    await firestore.collection('jobOffers').doc(id).set(jobOffer);
-    return { id, ...jobOffer };
-  }
-  
-  async updateJobOffer(id: string, jobOfferData: any): Promise<any> {
-    const updateData = {
-      ...jobOfferData,
-      updatedAt: new Date().toISOString()
+    const docRef = firestore.collection('appointments').doc(String(id));
+
+    await firestore.runTransaction(async (transaction) => {
+      await this.assertAppointmentSlotFree(transaction, appointment);
+      transaction.set(docRef, appointment);
+    });
+
+    return appointment;
+  }
+
+  async updateAppointment(id: number, appointmentData: Partial<InsertAppointment>): Promise<Appointment | undefined> {
+    const docRef = firestore.collection('appointments').doc(String(id));
+
+    return firestore.runTransaction(async (transaction) => {
+      const doc = await transaction.get(docRef);
+      if (!doc.exists) return undefined;
+
+      const appointment = { ...fromDoc<Appointment>(doc), ...appointmentData, updatedAt: new Date() };
+      await this.assertAppointmentSlotFree(transaction, appointment);
+      transaction.update(docRef, { ...appointmentData, updatedAt: appointment.updatedAt });
+      return appointment;
+    });
+  }
+
+  // Revisions
+  async getRevision(id: number): Promise<Revision | undefined> {
+    return this.getById<Revision>('revisions', id);
+  }
+
+  async getRevisions(entityType: RevisionEntityType, entityId: number): Promise<Revision[]> {
+    const revisions = await this.getWhere<Revision>('revisions', 'entityId', entityId);
+    return revisions
+      .filter(revision => revision.entityType === entityType)
+      .sort((a, b) => b.version - a.version);
+  }
+
+  async createRevision(revisionData: InsertRevision): Promise<Revision> {
+    const [latest] = await this.getRevisions(revisionData.entityType, revisionData.entityId);
+    return this.create<Revision>('revisions', {
+      createdBy: null,
+      ...revisionData,
+      version: (latest?.version ?? 0) + 1,
+    }, ['createdAt']);
+  }
+
+  // Audit Log
+  async createAuditLog(entry: InsertAuditLog): Promise<AuditLog> {
+    return this.create<AuditLog>('auditLogs', {
+      companyId: null,
+      actorUid: null,
+      actorEmail: null,
+      requestMethod: null,
+      requestPath: null,
+      ipAddress: null,
+      userAgent: null,
+      ...entry,
+    }, ['createdAt']);
+  }
+
+  // Os filtros e a paginação são aplicados em memória para não exigir índices
+  // compostos para cada combinação de filtros
+  async getAuditLogs(companyId: number, filter: AuditLogFilter): Promise<AuditLogPage> {
+    const entries = (await this.getWhere<AuditLog>('auditLogs', 'companyId', companyId))
+      .filter(entry =>
+        (!filter.entityType || entry.entityType === filter.entityType) &&
+        (!filter.entityId || entry.entityId === filter.entityId) &&
+        (!filter.action || entry.action === filter.action) &&
+        (!filter.actorUid || entry.actorUid === filter.actorUid)
+      )
+      .sort((a, b) => b.id - a.id);
+
+    return {
+      entries: entries.slice(filter.offset, filter.offset + filter.limit),
+      total: entries.length,
     };
-    
-    await firestore.collection('jobOffers').doc(id).update(updateData);
-    return { id, ...updateData };
   }
-  
-  async deleteJobOffer(id: string): Promise<void> {
-    await firestore.collection('jobOffers').doc(id).delete();
+
+  // Trash
+  async getCompanyTrash(companyId: number): Promise<TrashedRecords> {
+    const [services, jobOffers] = await Promise.all([
+      this.getWhere<Service>('services', 'companyId', companyId),
+      this.getWhere<JobOffer>('jobOffers', 'companyId', companyId),
+    ]);
+
+    return {
+      services: services.map(withServiceDefaults).filter(service => !!service.deletedAt),
+      jobOffers: jobOffers.map(withJobOfferDefaults).filter(jobOffer => !!jobOffer.deletedAt),
+    };
   }
+
+  async getTrashedBefore(cutoff: Date): Promise<TrashedRecords> {
+    const [services, jobOffers] = await Promise.all([
+      firestore.collection('services').where('deletedAt', '<=', cutoff).get(),
+      firestore.collection('jobOffers').where('deletedAt', '<=', cutoff).get(),
+    ]);
+
+    return {
+      services: apiDocs(services.docs).map(doc => withServiceDefaults(fromDoc<Service>(doc))),
+      jobOffers: apiDocs(jobOffers.docs).map(doc => withJobOfferDefaults(fromDoc<JobOffer>(doc))),
+    };
+  }
+
+  // Data Exports
+  async getDataExport(id: number): Promise<DataExport | undefined> {
+    return this.getById<DataExport>('dataExports', id);
+  }
+
+  async getUserDataExports(userId: number): Promise<DataExport[]> {
+    const dataExports = await this.getWhere<DataExport>('dataExports', 'userId', userId);
+    return dataExports.sort((a, b) => b.id - a.id);
+  }
+
+  async createDataExport(dataExportData: InsertDataExport): Promise<DataExport> {
+    return this.create<DataExport>('dataExports', {
+      fileKey: null,
+      fileSize: null,
+      error: null,
+      completedAt: null,
+      ...dataExportData,
+    });
+  }
+
+  async updateDataExport(id: number, dataExportData: Partial<InsertDataExport>): Promise<DataExport | undefined> {
+    return this.update<DataExport>('dataExports', id, dataExportData);
+  }
+
+  async getExpiredDataExports(before: Date): Promise<DataExport[]> {
+    const snapshot = await firestore.collection('dataExports').where('expiresAt', '<=', before).get();
+    return apiDocs(snapshot.docs).map(doc => fromDoc<DataExport>(doc));
+  }
+
+  async deleteDataExport(id: number): Promise<void> {
+    await firestore.collection('dataExports').doc(String(id)).delete();
+  }
+
+  // Maintenance
+  async getOrphanedRecords(): Promise<OrphanedRecords> {
+    const [images, jobOffers, serviceIds, companyIds] = await Promise.all([
+      firestore.collection('serviceImages').get(),
+      firestore.collection('jobOffers').get(),
+      this.getIds('services'),
+      this.getIds('companies'),
+    ]);
+
+    return {
+      serviceImages: apiDocs(images.docs)
+        .map(doc => withServiceImageDefaults(fromDoc<ServiceImage>(doc)))
+        .filter(image => !serviceIds.has(image.serviceId)),
+      jobOffers: apiDocs(jobOffers.docs)
+        .map(doc => withJobOfferDefaults(fromDoc<JobOffer>(doc)))
+        .filter(jobOffer => !companyIds.has(jobOffer.companyId)),
+    };
+  }
+
 }
@@ -0,0 +1,56 @@
+import sharp from "sharp";
+import type { ServiceImageVariantName } from "@shared/schema";
+
+// Largura máxima de cada variante; imagens menores não são ampliadas
+const VARIANT_WIDTHS: Record<ServiceImageVariantName, number> = {
+  thumbnail: 200,
+  medium: 800,
+  large: 1600,
+};
+
+// Formatos aceitos, conferidos pelo conteúdo do arquivo e não pelo tipo informado
+const ACCEPTED_FORMATS = new Set(['jpeg', 'png', 'webp']);
+
+export const PROCESSED_IMAGE_CONTENT_TYPE = 'image/webp';
+export const PROCESSED_IMAGE_EXTENSION = 'webp';
+
+export interface ProcessedImage {
+  variant: ServiceImageVariantName;
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+export class InvalidImageError extends Error {}
+
+/**
+ * Gera as variantes de uma imagem enviada.
+ *
+ * A orientação do EXIF é aplicada antes do redimensionamento e os metadados
+ * (EXIF, GPS, perfil de cor) não são copiados para as variantes.
+ */
+export async function processImage(input: Buffer): Promise<ProcessedImage[]> {
+  let format: string | undefined;
+
+  try {
+    ({ format } = await sharp(input).metadata());
+  } catch {
+    throw new InvalidImageError('Arquivo de imagem inválido');
+  }
+
+  if (!format || !ACCEPTED_FORMATS.has(format)) {
+    throw new InvalidImageError(`Formato de imagem não suportado: ${format ?? 'desconhecido'}`);
+  }
+
+  return Promise.all(
+    (Object.entries(VARIANT_WIDTHS) as [ServiceImageVariantName, number][]).map(async ([variant, width]) => {
+      const { data, info } = await sharp(input)
+        .rotate()
+        .resize({ width, height: width, fit: 'inside', withoutEnlargement: true })
+        .webp({ quality: 82 })
+        .toBuffer({ resolveWithObject: true });
+
+      return { variant, data, width: info.width, height: info.height };
+    })
+  );
+}
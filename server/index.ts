@@ -1,8 +1,16 @@
 // Carrega as variáveis de ambiente primeiro
 import './load-env';
 
+import path from "path";
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { initStorage } from "./storage";
+import { initBlobStore, blobStoreDriver, localBlobRoot, LOCAL_PUBLIC_BLOB_PATH, PUBLIC_BLOB_PREFIX } from "./blob-store";
+import { initIdentityProvider } from "./middleware/auth";
+import { startJobOfferSweeper } from "./job-offer-sweeper";
+import { startTrashPurger } from "./trash";
+import { startAccountDeletionSweeper } from "./account-deletion";
+import { startDataExportPurger } from "./data-export";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
@@ -45,6 +53,24 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // Inicializa a autenticação e o driver de persistência antes de registrar as rotas
+  await initIdentityProvider();
+  await initStorage();
+  await initBlobStore();
+  startJobOfferSweeper();
+  startTrashPurger();
+  startAccountDeletionSweeper();
+  startDataExportPurger();
+
+  // No driver local, os arquivos públicos (imagens de serviços) são servidos pelo próprio Express
+  if (blobStoreDriver === 'local') {
+    app.use(LOCAL_PUBLIC_BLOB_PATH, express.static(path.join(localBlobRoot, PUBLIC_BLOB_PREFIX), {
+      immutable: true,
+      maxAge: '365d',
+      index: false
+    }));
+  }
+
   // Registra as rotas API antes do middleware Vite
   const server = await registerRoutes(app);
 
@@ -0,0 +1,44 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { startTestServer, type TestServer } from "./test-server";
+
+let server: TestServer;
+
+before(async () => {
+  server = await startTestServer();
+});
+
+after(async () => {
+  await server.close();
+});
+
+test("POST /api/invitations/:token/accept requires a verified email", async () => {
+  const company = await server.request("POST", "/api/companies", {
+    uid: "owner",
+    body: { name: "Empresa", slug: "empresa", description: "Empresa de teste", isPublic: true },
+  });
+  assert.equal(company.status, 201);
+
+  const invitation = await server.request("POST", `/api/companies/${company.body.id}/invitations`, {
+    uid: "owner",
+    body: { email: "ana@example.pt", role: "editor" },
+  });
+  assert.equal(invitation.status, 201);
+
+  const unverified = await server.request("POST", `/api/invitations/${invitation.body.token}/accept`, {
+    uid: "ana",
+    email: "ana@example.pt",
+    unverified: true,
+  });
+  assert.equal(unverified.status, 403);
+
+  const members = await server.request("GET", `/api/companies/${company.body.id}/members`, { uid: "owner" });
+  assert.equal(members.status, 200);
+  assert.ok(!JSON.stringify(members.body).includes("ana@example.pt"));
+
+  const verified = await server.request("POST", `/api/invitations/${invitation.body.token}/accept`, {
+    uid: "ana",
+    email: "ana@example.pt",
+  });
+  assert.equal(verified.status, 201);
+});
@@ -0,0 +1,37 @@
+import { storage } from "./storage";
+import { invalidateSearchIndex } from "./search-index";
+
+// Intervalo entre varreduras (padrão: 5 minutos)
+const DEFAULT_INTERVAL_MS = 5 * 60 * 1000;
+
+// Encerra as vagas publicadas ou pausadas cuja data de expiração já passou
+export async function closeExpiredJobOffers(now = new Date()): Promise<number> {
+  const expired = await storage.getExpiredJobOffers(now);
+
+  await Promise.all(
+    expired.map(jobOffer => storage.updateJobOffer(jobOffer.id, { status: 'closed', closedAt: now }))
+  );
+  // O estado das vagas aparece nos resultados da busca
+  new Set(expired.map(jobOffer => jobOffer.companyId)).forEach(invalidateSearchIndex);
+
+  return expired.length;
+}
+
+export function startJobOfferSweeper(intervalMs = Number(process.env.JOB_OFFER_SWEEP_INTERVAL_MS) || DEFAULT_INTERVAL_MS) {
+  const sweep = async () => {
+    try {
+      const closed = await closeExpiredJobOffers();
+      if (closed > 0) {
+        console.log(`Vagas expiradas encerradas: ${closed}`);
+      }
+    } catch (error) {
+      console.error('Erro ao encerrar vagas expiradas:', error);
+    }
+  };
+
+  // A primeira varredura fecha o que expirou enquanto o servidor estava parado
+  sweep();
+  const timer = setInterval(sweep, intervalMs);
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,49 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { normalizeLegacyFields, planUserMerge } from "./legacy-firestore";
+
+const UUID = "3f0c2b9e-6a1d-4c55-9f0e-8d2a7b1c4e61";
+
+test("planUserMerge groups a uuid-keyed API user with the profile of the same uid", () => {
+  const { plans, orphans } = planUserMerge([
+    { id: "firebase-uid", data: normalizeLegacyFields({ uid: "firebase-uid", email: "ana@example.pt", displayName: "Ana" }) },
+    { id: UUID, data: normalizeLegacyFields({ uid: "firebase-uid", email: "old@example.pt", createdAt: "2024-01-10T09:00:00.000Z" }) },
+  ]);
+
+  assert.equal(orphans.length, 0);
+  assert.equal(plans.length, 1);
+
+  const [plan] = plans;
+  assert.equal(plan.uid, "firebase-uid");
+  assert.equal(plan.keepId, undefined);
+  assert.deepEqual(plan.mergedDocs.map(doc => doc.id), [UUID]);
+  // O perfil é o mais recente; a data de criação vem do usuário antigo
+  assert.equal(plan.fields.email, "ana@example.pt");
+  assert.deepEqual(plan.fields.createdAt, new Date("2024-01-10T09:00:00.000Z"));
+  // As empresas com ownerId no uuid ou no uid apontam para o mesmo usuário
+  assert.deepEqual([...plan.aliases].sort(), [UUID, "firebase-uid"].sort());
+});
+
+test("planUserMerge never turns a uuid-keyed user into a user of its own", () => {
+  const { plans } = planUserMerge([
+    { id: UUID, data: { uid: "only-api-uid", email: "bia@example.pt" } },
+  ]);
+
+  assert.equal(plans.length, 1);
+  assert.equal(plans[0].uid, "only-api-uid");
+  assert.equal(plans[0].profileDoc, undefined);
+  assert.deepEqual(plans[0].aliases.sort(), [UUID, "only-api-uid"].sort());
+});
+
+test("planUserMerge keeps the oldest numeric id and repoints the duplicates", () => {
+  const { plans, orphans } = planUserMerge([
+    { id: "uid-c", data: { uid: "uid-c", id: 7 } },
+    { id: "9", data: { uid: "uid-c" } },
+    { id: "12", data: {} },
+  ]);
+
+  assert.deepEqual(orphans.map(doc => doc.id), ["12"]);
+  assert.equal(plans[0].keepId, 7);
+  assert.deepEqual(plans[0].duplicateIds, [9]);
+  assert.deepEqual(plans[0].aliases.sort(), ["9", "uid-c"]);
+});
@@ -0,0 +1,94 @@
+/**
+ * Regras puras da migração do Firestore (ver server/migrate-firestore.ts), sem
+ * acesso ao banco, para poderem ser testadas isoladamente.
+ *
+ * Os documentos vêm de três épocas: os que o cliente gravava direto (perfis em
+ * users/{uid}, empresas com o dono em uid), os da primeira versão da API, com
+ * chaves uuid e referências em uuid, e os atuais, com ids numéricos.
+ */
+
+export interface LegacyDoc {
+  id: string;
+  data: Record<string, any>;
+}
+
+// Ids gerados pela API atual são números; os demais são uuids, ids do Firestore ou o uid
+export const isNumericId = (id: string) => /^\d+$/.test(id);
+
+// Datas gravadas em texto ISO pela primeira versão da API
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:\d{2})$/;
+
+// Campos sem os vazios, que os formulários antigos gravavam como "" ou null, e com as
+// datas (Timestamp do Firestore ou texto ISO nos campos *At) como Date
+export function normalizeLegacyFields(data: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(
+    Object.entries(data)
+      .filter(([, value]) => value !== null && value !== '')
+      .map(([key, value]) => {
+        if (value && typeof value.toDate === 'function') return [key, value.toDate()];
+        if (key.endsWith('At') && typeof value === 'string' && ISO_DATE.test(value)) return [key, new Date(value)];
+        return [key, value];
+      })
+  );
+}
+
+export interface UserMergePlan {
+  uid: string;
+  // Id numérico que fica: o do documento users/{uid} já migrado ou o menor entre os
+  // usuários users/{id}; sem nenhum, o usuário ganha um id novo
+  keepId: number | undefined;
+  // Campos juntados do mais antigo para o mais recente; o perfil users/{uid} prevalece
+  fields: Record<string, any>;
+  profileDoc: LegacyDoc | undefined;
+  // Os outros documentos do mesmo uid (uuid ou numéricos), apagados depois de juntar
+  mergedDocs: LegacyDoc[];
+  // Ids numéricos duplicados, cujas referências passam para keepId
+  duplicateIds: number[];
+  // Todas as chaves pelas quais o usuário era referenciado: uid, uuids e ids numéricos
+  aliases: string[];
+}
+
+const createdAtMs = (doc: LegacyDoc) => doc.data.createdAt instanceof Date ? doc.data.createdAt.getTime() : 0;
+
+/**
+ * Agrupa os documentos de users pelo campo uid, qualquer que seja o formato da
+ * chave. Documentos numéricos sem uid não têm a quem pertencer e ficam de fora,
+ * em `orphans`.
+ */
+export function planUserMerge(docs: LegacyDoc[]): { plans: UserMergePlan[]; orphans: LegacyDoc[] } {
+  const docsByUid = new Map<string, LegacyDoc[]>();
+  const orphans: LegacyDoc[] = [];
+
+  for (const doc of docs) {
+    // Perfis antigos do cliente podem não ter o campo; neles a chave é o uid
+    const uid = typeof doc.data.uid === 'string' && doc.data.uid ? doc.data.uid : isNumericId(doc.id) ? undefined : doc.id;
+
+    if (!uid) {
+      orphans.push(doc);
+      continue;
+    }
+
+    docsByUid.set(uid, [...(docsByUid.get(uid) ?? []), doc]);
+  }
+
+  const plans = Array.from(docsByUid.entries()).map(([uid, uidDocs]): UserMergePlan => {
+    const profileDoc = uidDocs.find(doc => doc.id === uid);
+    const mergedDocs = uidDocs
+      .filter(doc => doc !== profileDoc)
+      .sort((a, b) => createdAtMs(a) - createdAtMs(b) || a.id.localeCompare(b.id));
+    const numericIds = mergedDocs.filter(doc => isNumericId(doc.id)).map(doc => Number(doc.id)).sort((a, b) => a - b);
+    const keepId = typeof profileDoc?.data.id === 'number' ? profileDoc.data.id : numericIds[0];
+
+    return {
+      uid,
+      keepId,
+      fields: [...mergedDocs, ...(profileDoc ? [profileDoc] : [])].reduce((merged, doc) => ({ ...merged, ...doc.data }), {}),
+      profileDoc,
+      mergedDocs,
+      duplicateIds: numericIds.filter(id => id !== keepId),
+      aliases: Array.from(new Set([uid, ...uidDocs.map(doc => doc.id)])),
+    };
+  });
+
+  return { plans, orphans };
+}
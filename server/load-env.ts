@@ -21,10 +21,19 @@ if (fs.existsSync(envPath)) {
 }
 
 // Verifica se as variáveis de ambiente necessárias estão definidas
-const requiredEnvVars = [
-  'FIREBASE_SERVICE_ACCOUNT',
-  'DATABASE_URL'
-];
+// O Firebase só é exigido quando usado para autenticação, persistência ou arquivos;
+// DATABASE_URL só é exigida pelo driver postgres
+const requiredEnvVars: string[] = [];
+const storageDriver = process.env.STORAGE_DRIVER || 'firestore';
+const blobStoreDriver = process.env.BLOB_STORE_DRIVER || 'local';
+
+if (process.env.AUTH_PROVIDER !== 'dev' || storageDriver === 'firestore' || blobStoreDriver === 'firebase') {
+  requiredEnvVars.push('FIREBASE_SERVICE_ACCOUNT');
+}
+
+if (storageDriver === 'postgres') {
+  requiredEnvVars.push('DATABASE_URL');
+}
 
 const missingVars = requiredEnvVars.filter(varName => !process.env[varName]);
 
@@ -0,0 +1,671 @@
+import fs from "fs";
+import path from "path";
+import {
+  IStorage,
+  AuditLogFilter,
+  AuditLogPage,
+  JobOfferListFilter,
+  OrphanedRecords,
+  ServiceListFilter,
+  TrashedRecords,
+  AppointmentConflictError,
+  hasAppointmentConflict,
+} from "./storage";
+import { jobOfferSortValue, matchesText, paginateRecords, serviceSortValue } from "./pagination";
+import type {
+  User,
+  InsertUser,
+  Company,
+  InsertCompany,
+  Service,
+  InsertService,
+  ServiceCategory,
+  InsertServiceCategory,
+  ServiceImage,
+  InsertServiceImage,
+  JobOffer,
+  InsertJobOffer,
+  CompanyMember,
+  InsertCompanyMember,
+  CompanyInvitation,
+  InsertCompanyInvitation,
+  JobApplication,
+  InsertJobApplication,
+  JobApplicationNote,
+  InsertJobApplicationNote,
+  JobApplicationStageChange,
+  InsertJobApplicationStageChange,
+  Appointment,
+  InsertAppointment,
+  AppointmentListQuery,
+  Revision,
+  InsertRevision,
+  RevisionEntityType,
+  AuditLog,
+  InsertAuditLog,
+  DataExport,
+  InsertDataExport,
+  CursorPage,
+} from "@shared/schema";
+import { isActiveAppointment } from "@shared/schema";
+
+interface Tables {
+  users: User[];
+  companies: Company[];
+  services: Service[];
+  serviceCategories: ServiceCategory[];
+  serviceImages: ServiceImage[];
+  jobOffers: JobOffer[];
+  companyMembers: CompanyMember[];
+  companyInvitations: CompanyInvitation[];
+  jobApplications: JobApplication[];
+  jobApplicationNotes: JobApplicationNote[];
+  jobApplicationStageChanges: JobApplicationStageChange[];
+  appointments: Appointment[];
+  revisions: Revision[];
+  auditLogs: AuditLog[];
+  dataExports: DataExport[];
+}
+
+type TableName = keyof Tables;
+type RowOf<T extends TableName> = Tables[T][number];
+
+interface MemoryData {
+  counters: Record<TableName, number>;
+  tables: Tables;
+}
+
+const emptyData = (): MemoryData => ({
+  counters: {
+    users: 0,
+    companies: 0,
+    services: 0,
+    serviceCategories: 0,
+    serviceImages: 0,
+    jobOffers: 0,
+    companyMembers: 0,
+    companyInvitations: 0,
+    jobApplications: 0,
+    jobApplicationNotes: 0,
+    jobApplicationStageChanges: 0,
+    appointments: 0,
+    revisions: 0,
+    auditLogs: 0,
+    dataExports: 0,
+  },
+  tables: {
+    users: [],
+    companies: [],
+    services: [],
+    serviceCategories: [],
+    serviceImages: [],
+    jobOffers: [],
+    companyMembers: [],
+    companyInvitations: [],
+    jobApplications: [],
+    jobApplicationNotes: [],
+    jobApplicationStageChanges: [],
+    appointments: [],
+    revisions: [],
+    auditLogs: [],
+    dataExports: [],
+  },
+});
+
+// Converte de volta para Date os campos de timestamp gravados em JSON
+const reviveDates = (key: string, value: any) =>
+  typeof value === 'string' && key.endsWith('At') ? new Date(value) : value;
+
+// Imagens na ordem de exibição; o id desempata as que têm a mesma posição
+const byPosition = (a: ServiceImage, b: ServiceImage) => a.position - b.position || a.id - b.id;
+
+/**
+ * Storage em memória para desenvolvimento local e testes (STORAGE_DRIVER=memory).
+ *
+ * Se um caminho de arquivo for informado (MEMORY_STORAGE_FILE), os dados são
+ * carregados na inicialização e regravados após cada escrita.
+ */
+export class MemoryStorage implements IStorage {
+  private data: MemoryData;
+
+  constructor(private readonly filePath?: string) {
+    this.data = this.load();
+  }
+
+  private load(): MemoryData {
+    if (!this.filePath || !fs.existsSync(this.filePath)) {
+      return emptyData();
+    }
+
+    const raw = fs.readFileSync(this.filePath, 'utf-8');
+    const parsed = JSON.parse(raw, reviveDates) as Partial<MemoryData>;
+    const data = emptyData();
+
+    return {
+      counters: { ...data.counters, ...parsed.counters },
+      tables: { ...data.tables, ...parsed.tables },
+    };
+  }
+
+  private persist() {
+    if (!this.filePath) return;
+
+    // Grava num arquivo temporário e renomeia para não deixar JSON pela metade
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(this.data, null, 2));
+    fs.renameSync(tmpPath, this.filePath);
+  }
+
+  private rows<T extends TableName>(table: T): RowOf<T>[] {
+    return this.data.tables[table] as RowOf<T>[];
+  }
+
+  private find<T extends TableName>(table: T, id: number): RowOf<T> | undefined {
+    const row = this.rows(table).find(row => row.id === id);
+    return row && { ...row };
+  }
+
+  private where<T extends TableName, K extends keyof RowOf<T>>(table: T, field: K, value: RowOf<T>[K]): RowOf<T>[] {
+    return this.rows(table)
+      .filter(row => row[field] === value)
+      .map(row => ({ ...row }));
+  }
+
+  private insert<T extends TableName>(table: T, values: object, timestamps: string[]): RowOf<T> {
+    const now = new Date();
+    const row = { ...values, id: ++this.data.counters[table] } as RowOf<T> & Record<string, unknown>;
+    timestamps.forEach(field => { row[field] = now; });
+
+    this.rows(table).push(row);
+    this.persist();
+    return { ...row };
+  }
+
+  private update<T extends TableName>(table: T, id: number, values: object): RowOf<T> | undefined {
+    const row = this.rows(table).find(row => row.id === id);
+    if (!row) return undefined;
+
+    Object.assign(row, values, { id: row.id, updatedAt: new Date() });
+    this.persist();
+    return { ...row };
+  }
+
+  private remove<T extends TableName>(table: T, predicate: (row: RowOf<T>) => boolean) {
+    const remaining = this.rows(table).filter(row => !predicate(row));
+    (this.data.tables[table] as RowOf<T>[]) = remaining;
+    this.persist();
+  }
+
+  // Users
+  async getUser(id: number): Promise<User | undefined> {
+    return this.find('users', id);
+  }
+
+  async getUserByUid(uid: string): Promise<User | undefined> {
+    const [user] = this.where('users', 'uid', uid);
+    return user;
+  }
+
+  async createUser(userData: InsertUser): Promise<User> {
+    return this.insert('users', { deletionScheduledAt: null, ...userData }, ['createdAt', 'updatedAt']);
+  }
+
+  // Sem await entre a busca e a inserção, dois pedidos simultâneos não duplicam o uid
+  async provisionUser(userData: InsertUser): Promise<User> {
+    const [user] = this.where('users', 'uid', userData.uid);
+    return user ?? this.insert('users', { deletionScheduledAt: null, ...userData }, ['createdAt', 'updatedAt']);
+  }
+
+  async updateUser(id: number, userData: Partial<InsertUser>): Promise<User | undefined> {
+    return this.update('users', id, userData);
+  }
+
+  async getUsersScheduledForDeletion(before: Date): Promise<User[]> {
+    return this.rows('users')
+      .filter(user => user.deletionScheduledAt && user.deletionScheduledAt <= before)
+      .map(user => ({ ...user }));
+  }
+
+  async deleteUser(id: number): Promise<void> {
+    const user = this.find('users', id);
+
+    this.rows('auditLogs').filter(row => user && row.actorUid === user.uid).forEach(row => {
+      Object.assign(row, { actorUid: null, actorEmail: null, ipAddress: null, userAgent: null });
+    });
+    this.remove('auditLogs', row => row.entityType === 'user' && row.entityId === id);
+    this.rows('jobApplicationStageChanges').filter(row => row.changedBy === id).forEach(row => { row.changedBy = null; });
+    this.rows('revisions').filter(row => row.createdBy === id).forEach(row => { row.createdBy = null; });
+    this.remove('jobApplicationNotes', row => row.authorId === id);
+    this.remove('companyInvitations', row => row.invitedBy === id);
+    this.remove('companyMembers', row => row.userId === id);
+    this.remove('dataExports', row => row.userId === id);
+    this.remove('users', row => row.id === id);
+  }
+
+  // Companies
+  async getCompany(id: number): Promise<Company | undefined> {
+    return this.find('companies', id);
+  }
+
+  async getUserCompanies(userId: number): Promise<Company[]> {
+    const memberOf = new Set(this.where('companyMembers', 'userId', userId).map(member => member.companyId));
+    return this.rows('companies')
+      .filter(company => company.ownerId === userId || memberOf.has(company.id))
+      .map(company => ({ ...company }));
+  }
+
+  async getCompanyBySlug(slug: string): Promise<Company | undefined> {
+    const [company] = this.where('companies', 'slug', slug);
+    return company;
+  }
+
+  async createCompany(companyData: InsertCompany): Promise<Company> {
+    return this.insert('companies', { country: 'Portugal', slug: null, isPublic: false, openingHours: null, ...companyData }, ['createdAt', 'updatedAt']);
+  }
+
+  async updateCompany(id: number, companyData: Partial<InsertCompany>): Promise<Company | undefined> {
+    return this.update('companies', id, companyData);
+  }
+
+  async deleteCompany(id: number): Promise<void> {
+    const serviceIds = new Set(this.where('services', 'companyId', id).map(service => service.id));
+    const applicationIds = new Set(this.where('jobApplications', 'companyId', id).map(application => application.id));
+
+    this.remove('jobApplicationNotes', row => applicationIds.has(row.applicationId));
+    this.remove('jobApplicationStageChanges', row => applicationIds.has(row.applicationId));
+    this.remove('jobApplications', row => row.companyId === id);
+    this.remove('jobOffers', row => row.companyId === id);
+    this.remove('appointments', row => row.companyId === id);
+    this.remove('serviceImages', row => serviceIds.has(row.serviceId));
+    this.remove('services', row => row.companyId === id);
+    this.remove('serviceCategories', row => row.companyId === id);
+    this.remove('companyInvitations', row => row.companyId === id);
+    this.remove('companyMembers', row => row.companyId === id);
+    this.remove('revisions', row => row.companyId === id);
+    this.remove('auditLogs', row => row.companyId === id);
+    this.remove('companies', row => row.id === id);
+  }
+
+  // Services
+  async getService(id: number): Promise<Service | undefined> {
+    return this.find('services', id);
+  }
+
+  async getCompanyServices(companyId: number): Promise<Service[]> {
+    return this.where('services', 'companyId', companyId).filter(service => !service.deletedAt);
+  }
+
+  async listCompanyServices(companyId: number, filter: ServiceListFilter): Promise<CursorPage<Service>> {
+    const services = (await this.getCompanyServices(companyId))
+      .filter(service => matchesText(filter.q, [service.name, service.description]))
+      .filter(service => !filter.pricingType || service.pricingType === filter.pricingType)
+      .filter(service => !filter.categoryIds || (service.categoryId !== null && filter.categoryIds.includes(service.categoryId)))
+      .filter(service => !filter.tag || service.tags.includes(filter.tag));
+    return paginateRecords(services, filter, serviceSortValue);
+  }
+
+  async createService(serviceData: InsertService): Promise<Service> {
+    const defaults = { pricingType: null, priceCents: null, currency: 'EUR', vatRate: 23, priceVariants: [], legacyPrice: null, openingHours: null, legacyWorkingHours: null, durationMinutes: null, categoryId: null, tags: [], deletedAt: null };
+    return this.insert('services', { ...defaults, ...serviceData }, ['createdAt', 'updatedAt']);
+  }
+
+  async updateService(id: number, serviceData: Partial<InsertService>): Promise<Service | undefined> {
+    return this.update('services', id, serviceData);
+  }
+
+  async deleteService(id: number): Promise<void> {
+    this.remove('serviceImages', row => row.serviceId === id);
+    this.remove('appointments', row => row.serviceId === id);
+    this.remove('revisions', row => row.entityType === 'service' && row.entityId === id);
+    this.remove('services', row => row.id === id);
+  }
+
+  // Service Categories
+  async getServiceCategory(id: number): Promise<ServiceCategory | undefined> {
+    return this.find('serviceCategories', id);
+  }
+
+  async getCompanyServiceCategories(companyId: number): Promise<ServiceCategory[]> {
+    return this.where('serviceCategories', 'companyId', companyId);
+  }
+
+  async createServiceCategory(categoryData: InsertServiceCategory): Promise<ServiceCategory> {
+    return this.insert('serviceCategories', { parentId: null, ...categoryData }, ['createdAt', 'updatedAt']);
+  }
+
+  async updateServiceCategory(id: number, categoryData: Partial<InsertServiceCategory>): Promise<ServiceCategory | undefined> {
+    return this.update('serviceCategories', id, categoryData);
+  }
+
+  async deleteServiceCategory(id: number): Promise<void> {
+    const category = this.find('serviceCategories', id);
+    if (!category) return;
+
+    this.where('serviceCategories', 'parentId', id).forEach(child => this.update('serviceCategories', child.id, { parentId: category.parentId }));
+    this.where('services', 'categoryId', id).forEach(service => this.update('services', service.id, { categoryId: category.parentId }));
+    this.remove('serviceCategories', row => row.id === id);
+  }
+
+  // Service Images
+  async getServiceImage(id: number): Promise<ServiceImage | undefined> {
+    return this.find('serviceImages', id);
+  }
+
+  async getServiceImages(serviceId: number): Promise<ServiceImage[]> {
+    return this.where('serviceImages', 'serviceId', serviceId).sort(byPosition);
+  }
+
+  async getServiceImagesForServices(serviceIds: number[]): Promise<ServiceImage[]> {
+    return this.rows('serviceImages')
+      .filter(image => serviceIds.includes(image.serviceId))
+      .sort((a, b) => a.serviceId - b.serviceId || byPosition(a, b))
+      .map(image => ({ ...image }));
+  }
+
+  async createServiceImage(imageData: InsertServiceImage): Promise<ServiceImage> {
+    const defaults = { variants: null, altText: null, position: 0, isCover: false };
+    return this.insert('serviceImages', { ...defaults, ...imageData }, ['createdAt']);
+  }
+
+  // Imagens não têm updatedAt, por isso não passam pelo update() genérico
+  async updateServiceImage(id: number, imageData: Partial<InsertServiceImage>): Promise<ServiceImage | undefined> {
+    const row = this.rows('serviceImages').find(row => row.id === id);
+    if (!row) return undefined;
+
+    Object.assign(row, imageData, { id: row.id });
+    this.persist();
+    return { ...row };
+  }
+
+  async reorderServiceImages(serviceId: number, imageIds: number[]): Promise<void> {
+    this.rows('serviceImages')
+      .filter(row => row.serviceId === serviceId && imageIds.includes(row.id))
+      .forEach(row => { row.position = imageIds.indexOf(row.id); });
+    this.persist();
+  }
+
+  async setServiceCoverImage(serviceId: number, imageId: number): Promise<void> {
+    this.rows('serviceImages')
+      .filter(row => row.serviceId === serviceId)
+      .forEach(row => { row.isCover = row.id === imageId; });
+    this.persist();
+  }
+
+  async deleteServiceImage(id: number): Promise<void> {
+    this.remove('serviceImages', row => row.id === id);
+  }
+
+  // Job Offers
+  async getJobOffer(id: number): Promise<JobOffer | undefined> {
+    return this.find('jobOffers', id);
+  }
+
+  async getCompanyJobOffers(companyId: number): Promise<JobOffer[]> {
+    return this.where('jobOffers', 'companyId', companyId).filter(jobOffer => !jobOffer.deletedAt);
+  }
+
+  async listCompanyJobOffers(companyId: number, filter: JobOfferListFilter): Promise<CursorPage<JobOffer>> {
+    const jobOffers = (await this.getCompanyJobOffers(companyId))
+      .filter(jobOffer => !filter.status || jobOffer.status === filter.status)
+      .filter(jobOffer => !filter.employmentType || jobOffer.employmentType === filter.employmentType)
+      .filter(jobOffer => matchesText(filter.q, [jobOffer.title, jobOffer.description, jobOffer.requirements]));
+    return paginateRecords(jobOffers, filter, jobOfferSortValue);
+  }
+
+  async getExpiredJobOffers(now: Date): Promise<JobOffer[]> {
+    return this.rows('jobOffers')
+      .filter(jobOffer => jobOffer.status !== 'draft' && jobOffer.status !== 'closed' && !jobOffer.deletedAt)
+      .filter(jobOffer => !!jobOffer.expiresAt && jobOffer.expiresAt <= now)
+      .map(jobOffer => ({ ...jobOffer }));
+  }
+
+  async createJobOffer(jobOfferData: InsertJobOffer): Promise<JobOffer> {
+    const defaults = { status: 'draft', expiresAt: null, publishedAt: null, closedAt: null, deletedAt: null };
+    return this.insert('jobOffers', { ...defaults, ...jobOfferData }, ['createdAt', 'updatedAt']);
+  }
+
+  async updateJobOffer(id: number, jobOfferData: Partial<InsertJobOffer>): Promise<JobOffer | undefined> {
+    return this.update('jobOffers', id, jobOfferData);
+  }
+
+  async deleteJobOffer(id: number): Promise<void> {
+    const applicationIds = new Set(this.where('jobApplications', 'jobOfferId', id).map(application => application.id));
+    this.remove('jobApplicationNotes', row => applicationIds.has(row.applicationId));
+    this.remove('jobApplicationStageChanges', row => applicationIds.has(row.applicationId));
+    this.remove('jobApplications', row => row.jobOfferId === id);
+    this.remove('revisions', row => row.entityType === 'job_offer' && row.entityId === id);
+    this.remove('jobOffers', row => row.id === id);
+  }
+
+  // Company Members
+  async getCompanyMember(companyId: number, userId: number): Promise<CompanyMember | undefined> {
+    return this.where('companyMembers', 'companyId', companyId).find(member => member.userId === userId);
+  }
+
+  async getCompanyMemberById(id: number): Promise<CompanyMember | undefined> {
+    return this.find('companyMembers', id);
+  }
+
+  async getCompanyMembers(companyId: number): Promise<CompanyMember[]> {
+    return this.where('companyMembers', 'companyId', companyId);
+  }
+
+  async createCompanyMember(memberData: InsertCompanyMember): Promise<CompanyMember> {
+    return this.insert('companyMembers', memberData, ['createdAt', 'updatedAt']);
+  }
+
+  async updateCompanyMember(id: number, memberData: Partial<InsertCompanyMember>): Promise<CompanyMember | undefined> {
+    return this.update('companyMembers', id, memberData);
+  }
+
+  async deleteCompanyMember(id: number): Promise<void> {
+    this.remove('companyMembers', row => row.id === id);
+  }
+
+  // Company Invitations
+  async getCompanyInvitation(id: number): Promise<CompanyInvitation | undefined> {
+    return this.find('companyInvitations', id);
+  }
+
+  async getCompanyInvitationByToken(token: string): Promise<CompanyInvitation | undefined> {
+    const [invitation] = this.where('companyInvitations', 'token', token);
+    return invitation;
+  }
+
+  async getCompanyInvitations(companyId: number): Promise<CompanyInvitation[]> {
+    return this.where('companyInvitations', 'companyId', companyId);
+  }
+
+  async createCompanyInvitation(invitationData: InsertCompanyInvitation): Promise<CompanyInvitation> {
+    return this.insert('companyInvitations', { acceptedAt: null, ...invitationData }, ['createdAt', 'updatedAt']);
+  }
+
+  async updateCompanyInvitation(id: number, invitationData: Partial<InsertCompanyInvitation>): Promise<CompanyInvitation | undefined> {
+    return this.update('companyInvitations', id, invitationData);
+  }
+
+  // Job Applications
+  async getJobApplication(id: number): Promise<JobApplication | undefined> {
+    return this.find('jobApplications', id);
+  }
+
+  async getJobOfferApplications(jobOfferId: number): Promise<JobApplication[]> {
+    return this.where('jobApplications', 'jobOfferId', jobOfferId);
+  }
+
+  async createJobApplication(applicationData: InsertJobApplication): Promise<JobApplication> {
+    return this.insert('jobApplications', { stage: 'new', ...applicationData }, ['createdAt', 'updatedAt']);
+  }
+
+  async updateJobApplication(id: number, applicationData: Partial<InsertJobApplication>): Promise<JobApplication | undefined> {
+    return this.update('jobApplications', id, applicationData);
+  }
+
+  async getJobApplicationNotes(applicationId: number): Promise<JobApplicationNote[]> {
+    return this.where('jobApplicationNotes', 'applicationId', applicationId);
+  }
+
+  async createJobApplicationNote(noteData: InsertJobApplicationNote): Promise<JobApplicationNote> {
+    return this.insert('jobApplicationNotes', noteData, ['createdAt']);
+  }
+
+  async getJobApplicationStageChanges(applicationId: number): Promise<JobApplicationStageChange[]> {
+    return this.where('jobApplicationStageChanges', 'applicationId', applicationId);
+  }
+
+  async createJobApplicationStageChange(changeData: InsertJobApplicationStageChange): Promise<JobApplicationStageChange> {
+    return this.insert('jobApplicationStageChanges', { fromStage: null, changedBy: null, ...changeData }, ['createdAt']);
+  }
+
+  // Appointments
+  async getAppointment(id: number): Promise<Appointment | undefined> {
+    return this.find('appointments', id);
+  }
+
+  async getCompanyAppointments(companyId: number, filter: AppointmentListQuery): Promise<Appointment[]> {
+    return this.where('appointments', 'companyId', companyId)
+      .filter(appointment => appointment.startsAt >= filter.from && appointment.startsAt < filter.to)
+      .filter(appointment => !filter.serviceId || appointment.serviceId === filter.serviceId)
+      .filter(appointment => !filter.status || appointment.status === filter.status)
+      .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime() || a.id - b.id);
+  }
+
+  async getActiveServiceAppointments(serviceId: number, from: Date, to: Date): Promise<Appointment[]> {
+    return this.where('appointments', 'serviceId', serviceId)
+      .filter(appointment => isActiveAppointment(appointment.status) && appointment.startsAt < to && appointment.endsAt > from)
+      .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+  }
+
+  // Sem await entre a verificação e a gravação, nenhuma outra requisição passa no meio
+  async createAppointment(appointmentData: InsertAppointment): Promise<Appointment> {
+    const appointment = { customerPhone: null, notes: null, status: 'requested' as const, ...appointmentData };
+
+    if (hasAppointmentConflict(appointment, this.rows('appointments'))) {
+      throw new AppointmentConflictError();
+    }
+
+    return this.insert('appointments', appointment, ['createdAt', 'updatedAt']);
+  }
+
+  async updateAppointment(id: number, appointmentData: Partial<InsertAppointment>): Promise<Appointment | undefined> {
+    const current = this.find('appointments', id);
+    if (!current) return undefined;
+
+    if (hasAppointmentConflict({ ...current, ...appointmentData }, this.rows('appointments'))) {
+      throw new AppointmentConflictError();
+    }
+
+    return this.update('appointments', id, appointmentData);
+  }
+
+  // Revisions
+  async getRevision(id: number): Promise<Revision | undefined> {
+    return this.find('revisions', id);
+  }
+
+  async getRevisions(entityType: RevisionEntityType, entityId: number): Promise<Revision[]> {
+    return this.where('revisions', 'entityId', entityId)
+      .filter(revision => revision.entityType === entityType)
+      .sort((a, b) => b.version - a.version);
+  }
+
+  async createRevision(revisionData: InsertRevision): Promise<Revision> {
+    const [latest] = await this.getRevisions(revisionData.entityType, revisionData.entityId);
+    return this.insert('revisions', {
+      createdBy: null,
+      ...revisionData,
+      version: (latest?.version ?? 0) + 1,
+    }, ['createdAt']);
+  }
+
+  // Audit Log
+  async createAuditLog(entry: InsertAuditLog): Promise<AuditLog> {
+    return this.insert('auditLogs', {
+      companyId: null,
+      actorUid: null,
+      actorEmail: null,
+      requestMethod: null,
+      requestPath: null,
+      ipAddress: null,
+      userAgent: null,
+      ...entry,
+    }, ['createdAt']);
+  }
+
+  async getAuditLogs(companyId: number, filter: AuditLogFilter): Promise<AuditLogPage> {
+    const entries = this.where('auditLogs', 'companyId', companyId)
+      .filter(entry =>
+        (!filter.entityType || entry.entityType === filter.entityType) &&
+        (!filter.entityId || entry.entityId === filter.entityId) &&
+        (!filter.action || entry.action === filter.action) &&
+        (!filter.actorUid || entry.actorUid === filter.actorUid)
+      )
+      .sort((a, b) => b.id - a.id);
+
+    return {
+      entries: entries.slice(filter.offset, filter.offset + filter.limit),
+      total: entries.length,
+    };
+  }
+
+  // Trash
+  async getCompanyTrash(companyId: number): Promise<TrashedRecords> {
+    return {
+      services: this.where('services', 'companyId', companyId).filter(service => !!service.deletedAt),
+      jobOffers: this.where('jobOffers', 'companyId', companyId).filter(jobOffer => !!jobOffer.deletedAt),
+    };
+  }
+
+  async getTrashedBefore(cutoff: Date): Promise<TrashedRecords> {
+    return {
+      services: this.rows('services').filter(service => !!service.deletedAt && service.deletedAt <= cutoff).map(service => ({ ...service })),
+      jobOffers: this.rows('jobOffers').filter(jobOffer => !!jobOffer.deletedAt && jobOffer.deletedAt <= cutoff).map(jobOffer => ({ ...jobOffer })),
+    };
+  }
+
+  // Data Exports
+  async getDataExport(id: number): Promise<DataExport | undefined> {
+    return this.find('dataExports', id);
+  }
+
+  async getUserDataExports(userId: number): Promise<DataExport[]> {
+    return this.where('dataExports', 'userId', userId).sort((a, b) => b.id - a.id);
+  }
+
+  async createDataExport(dataExportData: InsertDataExport): Promise<DataExport> {
+    return this.insert('dataExports', {
+      fileKey: null,
+      fileSize: null,
+      error: null,
+      completedAt: null,
+      ...dataExportData,
+    }, ['createdAt', 'updatedAt']);
+  }
+
+  async updateDataExport(id: number, dataExportData: Partial<InsertDataExport>): Promise<DataExport | undefined> {
+    return this.update('dataExports', id, dataExportData);
+  }
+
+  async getExpiredDataExports(before: Date): Promise<DataExport[]> {
+    return this.rows('dataExports')
+      .filter(dataExport => dataExport.expiresAt <= before)
+      .map(dataExport => ({ ...dataExport }));
+  }
+
+  async deleteDataExport(id: number): Promise<void> {
+    this.remove('dataExports', row => row.id === id);
+  }
+
+  // Maintenance
+  async getOrphanedRecords(): Promise<OrphanedRecords> {
+    const serviceIds = new Set(this.rows('services').map(service => service.id));
+    const companyIds = new Set(this.rows('companies').map(company => company.id));
+
+    return {
+      serviceImages: this.rows('serviceImages').filter(image => !serviceIds.has(image.serviceId)).map(image => ({ ...image })),
+      jobOffers: this.rows('jobOffers').filter(jobOffer => !companyIds.has(jobOffer.companyId)).map(jobOffer => ({ ...jobOffer })),
+    };
+  }
+
+}
@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
-import { verifyToken } from '../firebase';
+import type { User } from '@shared/schema';
+import { storage } from '../storage';
 
 // Extend the Request type to include user property
 declare global {
@@ -7,10 +8,70 @@ declare global {
     interface Request {
       user?: any;
       token?: string;
+      // Usuário do uid do token, criado no primeiro pedido autenticado
+      dbUser?: User;
     }
   }
 }
 
+// Claims mínimos que qualquer verificador de token deve devolver
+export interface DecodedUserToken {
+  uid: string;
+  email?: string;
+  name?: string;
+  picture?: string;
+  [claim: string]: any;
+}
+
+// Provedor de identidade: verifica tokens e apaga contas; o perfil do usuário fica no storage
+export interface IdentityProvider {
+  verifyToken(token: string): Promise<DecodedUserToken>;
+  deleteUser(uid: string): Promise<void>;
+}
+
+export type AuthProviderName = 'firebase' | 'dev';
+
+// AUTH_PROVIDER=dev aceita tokens locais (ver server/dev-identity.ts); padrão: firebase
+export const authProviderName = (process.env.AUTH_PROVIDER || 'firebase') as AuthProviderName;
+
+let identityProvider: IdentityProvider | null = null;
+
+export const setIdentityProvider = (provider: IdentityProvider) => {
+  identityProvider = provider;
+};
+
+export const getIdentityProvider = (): IdentityProvider => {
+  if (!identityProvider) {
+    throw new Error('Identity provider not initialized. Call initIdentityProvider() first.');
+  }
+  return identityProvider;
+};
+
+// Importa o provedor dinamicamente para que o modo dev não inicialize o Firebase Admin
+export async function initIdentityProvider(): Promise<IdentityProvider> {
+  switch (authProviderName) {
+    case 'firebase': {
+      const { firebaseIdentityProvider } = await import('../firebase');
+      setIdentityProvider(firebaseIdentityProvider);
+      break;
+    }
+    case 'dev': {
+      // Os tokens de desenvolvimento não têm assinatura: qualquer um poderia se passar por qualquer uid
+      if (process.env.NODE_ENV === 'production') {
+        throw new Error('AUTH_PROVIDER=dev não pode ser usado com NODE_ENV=production');
+      }
+      const { DevIdentityProvider } = await import('../dev-identity');
+      setIdentityProvider(new DevIdentityProvider());
+      break;
+    }
+    default:
+      throw new Error(`AUTH_PROVIDER inválido: ${authProviderName}`);
+  }
+
+  console.log(`Autenticação inicializada com o provedor: ${authProviderName}`);
+  return getIdentityProvider();
+}
+
 // Authentication middleware
 export const authenticate = async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -48,7 +109,7 @@ export const authenticate = async (req: Request, res: Response, next: NextFuncti
     
     // Verify the token
     try {
-      const decodedToken = await verifyToken(token);
+      const decodedToken = await getIdentityProvider().verifyToken(token);
       console.log('Token verified successfully:', {
         uid: decodedToken.uid,
         email: decodedToken.email
@@ -57,8 +118,6 @@ export const authenticate = async (req: Request, res: Response, next: NextFuncti
       // Set the user in the request object
       req.user = decodedToken;
       req.token = token;
-      
-      next();
     } catch (error) {
       console.error('Error verifying token:', error);
       return res.status(401).json({ 
@@ -66,6 +125,16 @@ export const authenticate = async (req: Request, res: Response, next: NextFuncti
         error: error instanceof Error ? error.message : 'Token verification failed'
       });
     }
+    
+    // Provisionamento idempotente: o primeiro pedido cria o usuário, os seguintes só o leem
+    req.dbUser = await storage.provisionUser({
+      uid: req.user.uid,
+      email: req.user.email || '',
+      displayName: req.user.name || null,
+      photoURL: req.user.picture || null,
+    });
+    
+    next();
   } catch (error) {
     console.error('Error in authentication middleware:', error);
     return res.status(500).json({ 
@@ -0,0 +1,389 @@
+// Carrega as variáveis de ambiente primeiro
+import './load-env';
+
+import type { QueryDocumentSnapshot } from "firebase-admin/firestore";
+import type { ZodError } from "zod";
+import {
+  getServicePricingIssue,
+  hasCompanyRole,
+  insertCompanySchema,
+  insertJobOfferSchema,
+  insertServiceImageSchema,
+  insertServiceSchema,
+  type Company,
+} from "@shared/schema";
+import { firestore } from "./firebase";
+import { initStorage, storageDriver, type IStorage } from "./storage";
+import { generateCompanySlug } from "./company-slug";
+import { recordRevision } from "./revisions";
+import { isNumericId, normalizeLegacyFields, planUserMerge, type LegacyDoc } from "./legacy-firestore";
+
+/**
+ * Migração única dos dados que o cliente gravava direto no Firestore, de antes
+ * de todas as leituras e escritas passarem pela API:
+ *
+ * - perfis em users/{uid} e usuários da API em users/{uuid} ou users/{id} (com
+ *   o campo uid) viram um só documento users/{uid}, sem duplicados;
+ * - empresas, serviços, imagens e vagas com ids aleatórios do Firestore ou
+ *   uuids da primeira API são recriados com ids numéricos, com o dono, a
+ *   empresa e o serviço traduzidos para os ids novos;
+ * - vagas da coleção job_offers passam para jobOffers.
+ *
+ * Sem --apply só mostra o que seria feito. Documentos que não passam na
+ * validação ficam onde estão e aparecem no relatório, para correção manual;
+ * até lá o storage do Firestore os ignora.
+ * O índice de busca só vê os dados novos depois de reiniciar o servidor.
+ *
+ * Uso: npm run maintenance:migrate-firestore -- --apply
+ */
+
+const apply = process.argv.includes('--apply');
+
+// Id de um registro que só seria criado com --apply
+const PENDING_ID = 0;
+
+interface MigrationReport {
+  migrated: number;
+  skipped: string[];
+  notes: string[];
+}
+
+const fromLegacyDoc = (doc: QueryDocumentSnapshot) => normalizeLegacyFields(doc.data());
+
+const toLegacyDoc = (doc: QueryDocumentSnapshot): LegacyDoc => ({ id: doc.id, data: fromLegacyDoc(doc) });
+
+const describeIssues = (error: ZodError) =>
+  error.errors.map(issue => `${issue.path.join('.') || 'registro'}: ${issue.message}`).join('; ');
+
+// Campos que guardam o id de um usuário em outras coleções
+const USER_REFERENCES: [collection: string, field: string][] = [
+  ['companies', 'ownerId'],
+  ['companyInvitations', 'invitedBy'],
+  ['jobApplicationNotes', 'authorId'],
+  ['jobApplicationStageChanges', 'changedBy'],
+  ['revisions', 'createdBy'],
+];
+
+// Passa tudo o que apontava para um usuário duplicado para o usuário que fica. Na
+// mesma empresa, o membro duplicado sai e o que fica mantém o papel mais alto
+async function repointUser(fromId: number, toId: number) {
+  for (const [collection, field] of USER_REFERENCES) {
+    const snapshot = await firestore.collection(collection).where(field, '==', fromId).get();
+    await Promise.all(snapshot.docs.map(doc => doc.ref.update({ [field]: toId })));
+  }
+
+  const members = await firestore.collection('companyMembers').where('userId', '==', fromId).get();
+
+  for (const member of members.docs) {
+    const [kept] = (await firestore.collection('companyMembers')
+      .where('companyId', '==', member.get('companyId'))
+      .where('userId', '==', toId)
+      .get()).docs;
+
+    if (!kept) {
+      await member.ref.update({ userId: toId });
+      continue;
+    }
+
+    if (hasCompanyRole(member.get('role'), kept.get('role')) && member.get('role') !== kept.get('role')) {
+      await kept.ref.update({ role: member.get('role') });
+    }
+
+    await member.ref.delete();
+  }
+}
+
+/**
+ * Junta cada uid num só documento users/{uid}, com o id numérico num campo.
+ * Antes havia o perfil em users/{uid}, usuários da primeira API em users/{uuid}
+ * e usuários da API atual em users/{id}, às vezes mais de um por uid, criados
+ * em pedidos simultâneos. Os documentos são agrupados pelo campo uid; fica o id
+ * numérico mais antigo e as referências aos outros passam para ele. Sem nenhum,
+ * o usuário ganha um id novo. Devolve cada chave antiga (uid, uuid ou id) -> id.
+ */
+async function mergeUserDocuments(storage: IStorage, report: MigrationReport): Promise<Map<string, number>> {
+  const snapshot = await firestore.collection('users').get();
+  const refs = new Map(snapshot.docs.map(doc => [doc.id, doc.ref]));
+  const { plans, orphans } = planUserMerge(snapshot.docs.map(toLegacyDoc));
+  const userIds = new Map<string, number>();
+
+  orphans.forEach(doc => report.skipped.push(`usuário ${doc.id}: sem uid`));
+
+  for (const plan of plans) {
+    const setAliases = (id: number) => plan.aliases.forEach(alias => userIds.set(alias, id));
+
+    // Já no formato novo e sem duplicados
+    if (plan.keepId !== undefined && plan.profileDoc && plan.mergedDocs.length === 0) {
+      setAliases(plan.keepId);
+      continue;
+    }
+
+    report.migrated++;
+
+    if (plan.mergedDocs.length > 0) {
+      report.notes.push(`uid ${plan.uid}: documentos ${plan.mergedDocs.map(doc => doc.id).join(', ')} juntados ${plan.keepId !== undefined ? `no id ${plan.keepId}` : 'num id novo'}`);
+    }
+
+    if (!apply) {
+      setAliases(plan.keepId ?? PENDING_ID);
+      continue;
+    }
+
+    const user = {
+      uid: plan.uid,
+      email: plan.fields.email ?? '',
+      displayName: plan.fields.displayName ?? null,
+      photoURL: plan.fields.photoURL ?? null,
+    };
+    const createdAt = plan.fields.createdAt instanceof Date ? plan.fields.createdAt : new Date();
+    let userId = plan.keepId;
+
+    if (userId === undefined) {
+      // Sem id numérico: o usuário ganha um id novo no lugar do perfil antigo
+      await refs.get(plan.uid)?.delete();
+      userId = (await storage.createUser(user)).id;
+      await firestore.collection('users').doc(plan.uid).update({ createdAt });
+    } else {
+      // set() sem merge também tira campos antigos do perfil, como o companyId
+      await firestore.collection('users').doc(plan.uid).set({
+        ...user,
+        id: userId,
+        deletionScheduledAt: null,
+        createdAt,
+        updatedAt: new Date(),
+      });
+    }
+
+    for (const duplicateId of plan.duplicateIds) {
+      await repointUser(duplicateId, userId);
+    }
+    for (const doc of plan.mergedDocs) {
+      await refs.get(doc.id)?.delete();
+    }
+
+    setAliases(userId);
+  }
+
+  return userIds;
+}
+
+// Empresas criadas pelo cliente, com o dono em uid; devolve o id antigo -> empresa da API
+async function migrateCompanies(storage: IStorage, userIds: Map<string, number>, report: MigrationReport): Promise<Map<string, Pick<Company, 'id' | 'ownerId'>>> {
+  const snapshot = await firestore.collection('companies').get();
+  const companies = new Map<string, Pick<Company, 'id' | 'ownerId'>>();
+
+  for (const doc of snapshot.docs.filter(doc => !isNumericId(doc.id))) {
+    const data = fromLegacyDoc(doc);
+    const ownerId = userIds.get(String(data.ownerId));
+
+    if (ownerId === undefined) {
+      report.skipped.push(`empresa ${doc.id}: dono ${data.ownerId} sem usuário`);
+      continue;
+    }
+
+    const result = insertCompanySchema.safeParse({ ...data, ownerId });
+
+    if (!result.success) {
+      report.skipped.push(`empresa ${doc.id}: ${describeIssues(result.error)}`);
+      continue;
+    }
+
+    report.migrated++;
+
+    if (!apply) {
+      companies.set(doc.id, { id: PENDING_ID, ownerId });
+      continue;
+    }
+
+    const slugTaken = result.data.slug ? await storage.getCompanyBySlug(result.data.slug) : undefined;
+    const company = await storage.createCompany({
+      ...result.data,
+      slug: result.data.slug && !slugTaken ? result.data.slug : await generateCompanySlug(result.data.name),
+    });
+
+    await storage.createCompanyMember({ companyId: company.id, userId: ownerId, role: "owner" });
+    await recordRevision({ companyId: company.id, entityType: "company", entityId: company.id, after: company, createdBy: ownerId });
+    await doc.ref.delete();
+    companies.set(doc.id, company);
+  }
+
+  return companies;
+}
+
+// Empresa de um serviço ou vaga antigos: id do Firestore migrado agora ou id numérico da API
+async function resolveCompany(storage: IStorage, companies: Map<string, Pick<Company, 'id' | 'ownerId'>>, companyId: unknown) {
+  const key = String(companyId);
+  return companies.get(key) ?? (isNumericId(key) ? await storage.getCompany(Number(key)) : undefined);
+}
+
+// Devolve o id antigo -> id numérico do serviço
+async function migrateServices(storage: IStorage, companies: Map<string, Pick<Company, 'id' | 'ownerId'>>, report: MigrationReport): Promise<Map<string, number>> {
+  const snapshot = await firestore.collection('services').get();
+  const serviceIds = new Map<string, number>();
+
+  for (const doc of snapshot.docs.filter(doc => !isNumericId(doc.id))) {
+    const data = fromLegacyDoc(doc);
+    const company = await resolveCompany(storage, companies, data.companyId);
+
+    if (!company) {
+      report.skipped.push(`serviço ${doc.id}: empresa ${data.companyId} inexistente`);
+      continue;
+    }
+
+    // O preço e o horário em texto livre continuam como legado, como nos serviços antigos da API
+    const result = insertServiceSchema.omit({ deletedAt: true }).safeParse({
+      ...data,
+      companyId: company.id,
+      legacyPrice: data.price,
+      legacyWorkingHours: data.workingHours,
+    });
+
+    if (!result.success) {
+      report.skipped.push(`serviço ${doc.id}: ${describeIssues(result.error)}`);
+      continue;
+    }
+
+    const pricingIssue = getServicePricingIssue(result.data);
+
+    if (pricingIssue) {
+      report.skipped.push(`serviço ${doc.id}: ${pricingIssue.message}`);
+      continue;
+    }
+
+    report.migrated++;
+
+    if (!apply) {
+      serviceIds.set(doc.id, PENDING_ID);
+      continue;
+    }
+
+    const service = await storage.createService(result.data);
+    await recordRevision({ companyId: company.id, entityType: "service", entityId: service.id, after: service, createdBy: company.ownerId });
+    await doc.ref.delete();
+    serviceIds.set(doc.id, service.id);
+  }
+
+  return serviceIds;
+}
+
+// Imagens da primeira API, só com a URL, dos serviços migrados agora; a primeira de cada um vira a capa
+async function migrateServiceImages(storage: IStorage, serviceIds: Map<string, number>, report: MigrationReport) {
+  const snapshot = await firestore.collection('serviceImages').get();
+  const positions = new Map<number, number>();
+
+  for (const doc of snapshot.docs.filter(doc => !isNumericId(doc.id))) {
+    const data = fromLegacyDoc(doc);
+    const serviceId = serviceIds.get(String(data.serviceId));
+
+    if (serviceId === undefined) {
+      report.skipped.push(`imagem ${doc.id}: serviço ${data.serviceId} não migrado`);
+      continue;
+    }
+
+    const position = positions.get(serviceId) ?? 0;
+    const result = insertServiceImageSchema.safeParse({
+      url: data.url,
+      altText: data.altText,
+      serviceId,
+      position,
+      isCover: position === 0,
+    });
+
+    if (!result.success) {
+      report.skipped.push(`imagem ${doc.id}: ${describeIssues(result.error)}`);
+      continue;
+    }
+
+    report.migrated++;
+    positions.set(serviceId, position + 1);
+
+    if (!apply) continue;
+
+    await storage.createServiceImage(result.data);
+    await doc.ref.delete();
+  }
+}
+
+// Todas as vagas de job_offers (do cliente) e as de jobOffers com uuid (da primeira API)
+async function migrateJobOffers(storage: IStorage, companies: Map<string, Pick<Company, 'id' | 'ownerId'>>, report: MigrationReport) {
+  const [clientOffers, apiOffers] = await Promise.all([
+    firestore.collection('job_offers').get(),
+    firestore.collection('jobOffers').get(),
+  ]);
+
+  for (const doc of [...clientOffers.docs, ...apiOffers.docs.filter(doc => !isNumericId(doc.id))]) {
+    const data = fromLegacyDoc(doc);
+    const company = await resolveCompany(storage, companies, data.companyId);
+
+    if (!company) {
+      report.skipped.push(`vaga ${doc.ref.path}: empresa ${data.companyId} inexistente`);
+      continue;
+    }
+
+    // Vagas sem estado já estavam no ar, como as antigas de jobOffers
+    const result = insertJobOfferSchema.safeParse({
+      ...data,
+      companyId: company.id,
+      status: data.status ?? "published",
+      publishedAt: data.publishedAt ?? (data.status ? undefined : data.createdAt),
+    });
+
+    if (!result.success) {
+      report.skipped.push(`vaga ${doc.ref.path}: ${describeIssues(result.error)}`);
+      continue;
+    }
+
+    report.migrated++;
+
+    if (!apply) continue;
+
+    const jobOffer = await storage.createJobOffer(result.data);
+    await recordRevision({ companyId: company.id, entityType: "job_offer", entityId: jobOffer.id, after: jobOffer, createdBy: company.ownerId });
+    await doc.ref.delete();
+  }
+}
+
+function printReport(title: string, report: MigrationReport) {
+  console.log(`${title}: ${report.migrated} ${apply ? 'migrados' : 'a migrar'}, ${report.skipped.length} ignorados`);
+  report.notes.forEach(note => console.log(`  * ${note}`));
+  report.skipped.forEach(reason => console.log(`  - ${reason}`));
+}
+
+async function main() {
+  if (storageDriver !== 'firestore') {
+    throw new Error(`A migração só se aplica a STORAGE_DRIVER=firestore (atual: ${storageDriver})`);
+  }
+
+  const storage = await initStorage();
+  const reports = {
+    users: { migrated: 0, skipped: [], notes: [] } as MigrationReport,
+    companies: { migrated: 0, skipped: [], notes: [] } as MigrationReport,
+    services: { migrated: 0, skipped: [], notes: [] } as MigrationReport,
+    serviceImages: { migrated: 0, skipped: [], notes: [] } as MigrationReport,
+    jobOffers: { migrated: 0, skipped: [], notes: [] } as MigrationReport,
+  };
+
+  if (!apply) {
+    console.log('Simulação: nada é gravado. Use --apply para migrar.');
+  }
+
+  const userIds = await mergeUserDocuments(storage, reports.users);
+  const companies = await migrateCompanies(storage, userIds, reports.companies);
+  const serviceIds = await migrateServices(storage, companies, reports.services);
+  await migrateServiceImages(storage, serviceIds, reports.serviceImages);
+  await migrateJobOffers(storage, companies, reports.jobOffers);
+
+  printReport('Usuários e perfis', reports.users);
+  printReport('Empresas', reports.companies);
+  printReport('Serviços', reports.services);
+  printReport('Imagens de serviços', reports.serviceImages);
+  printReport('Vagas (job_offers e jobOffers com uuid)', reports.jobOffers);
+}
+
+main().then(
+  () => process.exit(0),
+  (error) => {
+    console.error('Erro na migração do Firestore:', error);
+    process.exit(1);
+  }
+);
@@ -0,0 +1,87 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  createDefaultOpeningHours,
+  getIntervalsOn,
+  getPortugueseHolidays,
+  isOpenAt,
+  localTimeToDate,
+} from "@shared/opening-hours";
+
+const holidayDate = (year: number, name: string) =>
+  getPortugueseHolidays(year).find(holiday => holiday.name === name)?.date;
+
+test("Easter and the holidays that depend on it", () => {
+  assert.equal(holidayDate(2024, "Páscoa"), "2024-03-31");
+  assert.equal(holidayDate(2025, "Páscoa"), "2025-04-20");
+  assert.equal(holidayDate(2026, "Páscoa"), "2026-04-05");
+  // A Páscoa mais tardia possível
+  assert.equal(holidayDate(2038, "Páscoa"), "2038-04-25");
+
+  assert.equal(holidayDate(2025, "Sexta-feira Santa"), "2025-04-18");
+  assert.equal(holidayDate(2025, "Corpo de Deus"), "2025-06-19");
+  // Com a Páscoa em março, a Sexta-feira Santa também cai em março
+  assert.equal(holidayDate(2024, "Sexta-feira Santa"), "2024-03-29");
+});
+
+test("holidays come in date order and include the fixed ones", () => {
+  const holidays = getPortugueseHolidays(2025);
+  const dates = holidays.map(holiday => holiday.date);
+
+  assert.equal(holidays.length, 13);
+  assert.deepEqual(dates, [...dates].sort());
+  assert.ok(dates.includes("2025-04-25"));
+  assert.ok(dates.includes("2025-12-08"));
+});
+
+test("isOpenAt reads the time in the offset in force on that day in Lisbon", () => {
+  const hours = createDefaultOpeningHours();
+
+  // Sexta antes da mudança de 30 de março: hora de inverno (UTC+0)
+  assert.equal(isOpenAt(hours, new Date("2025-03-28T08:30:00Z")), false);
+  assert.equal(isOpenAt(hours, new Date("2025-03-28T09:00:00Z")), true);
+  // Segunda depois da mudança: hora de verão (UTC+1)
+  assert.equal(isOpenAt(hours, new Date("2025-03-31T08:30:00Z")), true);
+  assert.equal(isOpenAt(hours, new Date("2025-03-31T17:30:00Z")), false);
+  // Segunda depois de 26 de outubro: de volta a UTC+0
+  assert.equal(isOpenAt(hours, new Date("2025-10-27T08:30:00Z")), false);
+});
+
+test("isOpenAt works in the Azores offset", () => {
+  const hours = { ...createDefaultOpeningHours(), timezone: "Atlantic/Azores" };
+
+  assert.equal(isOpenAt(hours, new Date("2025-01-15T09:30:00Z")), false);
+  assert.equal(isOpenAt(hours, new Date("2025-01-15T10:00:00Z")), true);
+});
+
+test("localTimeToDate uses the offset in force on that day in Lisbon", () => {
+  // Hora de inverno (UTC+0) e de verão (UTC+1), antes e depois da mudança de 30 de março
+  assert.equal(localTimeToDate("2025-03-29", "10:00", "Europe/Lisbon").toISOString(), "2025-03-29T10:00:00.000Z");
+  assert.equal(localTimeToDate("2025-03-31", "10:00", "Europe/Lisbon").toISOString(), "2025-03-31T09:00:00.000Z");
+});
+
+test("localTimeToDate is right on the days the clocks change", () => {
+  assert.equal(localTimeToDate("2025-03-30", "12:00", "Europe/Lisbon").toISOString(), "2025-03-30T11:00:00.000Z");
+  assert.equal(localTimeToDate("2025-10-26", "12:00", "Europe/Lisbon").toISOString(), "2025-10-26T12:00:00.000Z");
+  // A meia-noite do fim do dia da mudança já está na hora de verão
+  assert.equal(localTimeToDate("2025-03-29", "24:00", "Europe/Lisbon").toISOString(), "2025-03-30T00:00:00.000Z");
+  assert.equal(localTimeToDate("2025-03-30", "24:00", "Europe/Lisbon").toISOString(), "2025-03-30T23:00:00.000Z");
+});
+
+test("localTimeToDate works in the Azores offset", () => {
+  assert.equal(localTimeToDate("2025-01-15", "09:00", "Atlantic/Azores").toISOString(), "2025-01-15T10:00:00.000Z");
+});
+
+test("holidays close the day unless an exception is registered", () => {
+  const hours = createDefaultOpeningHours();
+
+  // Natal de 2025 é numa quinta-feira
+  assert.deepEqual(getIntervalsOn(hours, "2025-12-25"), []);
+  assert.equal(isOpenAt(hours, new Date("2025-12-25T10:00:00Z")), false);
+  assert.equal(isOpenAt(hours, new Date("2025-12-23T10:00:00Z")), true);
+
+  const withException = { ...hours, exceptions: [{ date: "2025-12-25", intervals: [{ start: "10:00", end: "12:00" }], note: "Aberto" }] };
+  assert.equal(isOpenAt(withException, new Date("2025-12-25T10:30:00Z")), true);
+
+  assert.equal(isOpenAt({ ...hours, closedOnPublicHolidays: false }, new Date("2025-12-25T10:00:00Z")), true);
+});
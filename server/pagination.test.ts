@@ -0,0 +1,55 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { decodeCursor, encodeCursor, paginateRecords } from "./pagination";
+
+test("a cursor decodes back for the sort it was made for", () => {
+  const encoded = encodeCursor("name", { value: "corte", id: 7 });
+
+  assert.deepEqual(decodeCursor(encoded, "name"), { value: "corte", id: 7 });
+  assert.equal(decodeCursor(encoded, "createdAt"), null);
+});
+
+test("malformed cursors decode to null", () => {
+  assert.equal(decodeCursor("not-a-cursor", "name"), null);
+  // Valor de texto numa ordenação numérica
+  assert.equal(decodeCursor(encodeCursor("createdAt", { value: "ontem", id: 1 }), "createdAt"), null);
+  assert.equal(decodeCursor(Buffer.from(JSON.stringify(["name", "a", 1.5])).toString("base64url"), "name"), null);
+});
+
+type Row = { id: number; name: string };
+const byName = (row: Row) => row.name;
+
+// Nomes repetidos para que o id tenha de desempatar
+const rows: Row[] = [
+  { id: 1, name: "b" },
+  { id: 2, name: "a" },
+  { id: 3, name: "b" },
+  { id: 4, name: "c" },
+  { id: 5, name: "b" },
+];
+
+function collect(order: "asc" | "desc", limit: number): number[] {
+  const ids: number[] = [];
+  let after;
+
+  do {
+    const page = paginateRecords(rows, { sort: "name", order, limit, after }, byName);
+    ids.push(...page.items.map(row => row.id));
+    after = page.nextCursor ? decodeCursor(page.nextCursor, "name") ?? undefined : undefined;
+  } while (after);
+
+  return ids;
+}
+
+test("pages follow the (value, id) order without skipping or repeating ties", () => {
+  assert.deepEqual(collect("asc", 2), [2, 1, 3, 5, 4]);
+  assert.deepEqual(collect("desc", 2), [4, 5, 3, 1, 2]);
+});
+
+test("the last page has no next cursor and the total counts every record", () => {
+  const page = paginateRecords(rows, { sort: "name", order: "asc", limit: 5 }, byName);
+
+  assert.equal(page.items.length, 5);
+  assert.equal(page.nextCursor, null);
+  assert.equal(page.total, 5);
+});
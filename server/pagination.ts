@@ -0,0 +1,113 @@
+import type {
+  CursorPage,
+  JobOffer,
+  JobOfferSortKey,
+  Service,
+  ServiceSortKey,
+} from "@shared/schema";
+
+// Posição do último registro de uma página: o valor da ordenação e o id, que desempata
+export interface Cursor {
+  value: string | number;
+  id: number;
+}
+
+export type SortValue = Cursor["value"];
+
+// Parte dos filtros de lista que a paginação em memória usa
+export interface ListFilter<TSort extends string> {
+  after?: Cursor;
+  limit: number;
+  sort: TSort;
+  order: "asc" | "desc";
+}
+
+// Ordenações por texto; as demais têm valor numérico
+const TEXT_SORTS = new Set(["name", "title"]);
+
+// O cursor leva a ordenação em que foi gerado, para não ser reaproveitado em outra
+export function encodeCursor(sort: string, cursor: Cursor): string {
+  return Buffer.from(JSON.stringify([sort, cursor.value, cursor.id])).toString("base64url");
+}
+
+// Nulo quando o cursor não foi gerado por encodeCursor para esta ordenação
+export function decodeCursor(encoded: string, sort: string): Cursor | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(encoded, "base64url").toString("utf8"));
+
+    if (
+      Array.isArray(decoded) &&
+      decoded.length === 3 &&
+      decoded[0] === sort &&
+      typeof decoded[1] === (TEXT_SORTS.has(sort) ? "string" : "number") &&
+      Number.isInteger(decoded[2])
+    ) {
+      return { value: decoded[1], id: decoded[2] };
+    }
+  } catch {
+    // Cai no retorno nulo abaixo
+  }
+
+  return null;
+}
+
+// Datas são comparadas em milissegundos; registros sem data ficam no início da ordem crescente
+const timeValue = (date: Date | null) => date?.getTime() ?? 0;
+
+export function serviceSortValue(service: Service, sort: ServiceSortKey): SortValue {
+  switch (sort) {
+    case "name": return service.name.toLowerCase();
+    case "createdAt": return timeValue(service.createdAt);
+    case "updatedAt": return timeValue(service.updatedAt);
+    // Serviços sem valor (sem preço ou sob orçamento) ficam juntos numa das pontas da lista
+    case "price": return service.priceCents ?? -1;
+  }
+}
+
+export function jobOfferSortValue(jobOffer: JobOffer, sort: JobOfferSortKey): SortValue {
+  switch (sort) {
+    case "title": return jobOffer.title.toLowerCase();
+    case "createdAt": return timeValue(jobOffer.createdAt);
+    case "updatedAt": return timeValue(jobOffer.updatedAt);
+  }
+}
+
+// Busca sem diferenciar maiúsculas em qualquer um dos campos
+export function matchesText(q: string | undefined, fields: (string | null)[]): boolean {
+  if (!q) return true;
+  const needle = q.toLowerCase();
+  return fields.some(field => !!field && field.toLowerCase().includes(needle));
+}
+
+/**
+ * Ordena, aplica o cursor e corta a página em memória.
+ *
+ * Usado pelos drivers que não ordenam no banco (memória e Firestore). A ordem
+ * é sempre por (valor, id), de modo que o cursor continua válido mesmo quando
+ * vários registros têm o mesmo valor.
+ */
+export function paginateRecords<T extends { id: number }, TSort extends string>(
+  records: T[],
+  filter: ListFilter<TSort>,
+  sortValue: (record: T, sort: TSort) => SortValue
+): CursorPage<T> {
+  const direction = filter.order === "asc" ? 1 : -1;
+  const compare = (a: Cursor, b: Cursor) => {
+    if (a.value !== b.value) return (a.value < b.value ? -1 : 1) * direction;
+    return (a.id - b.id) * direction;
+  };
+
+  const sorted = records
+    .map(record => ({ record, cursor: { value: sortValue(record, filter.sort), id: record.id } }))
+    .sort((a, b) => compare(a.cursor, b.cursor));
+  const after = filter.after;
+  const remaining = after ? sorted.filter(entry => compare(entry.cursor, after) > 0) : sorted;
+  const page = remaining.slice(0, filter.limit);
+  const last = page[page.length - 1];
+
+  return {
+    items: page.map(entry => entry.record),
+    nextCursor: remaining.length > filter.limit && last ? encodeCursor(filter.sort, last.cursor) : null,
+    total: records.length,
+  };
+}
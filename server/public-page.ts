@@ -0,0 +1,322 @@
+import {
+  getServiceCoverImage,
+  formatServicePrice,
+  formatVatRate,
+  type PublicCompanyProfile,
+} from "@shared/schema";
+import { formatWeeklySummary } from "@shared/opening-hours";
+
+// Escapa texto vindo dos dados da empresa antes de inserir no HTML
+function escapeHtml(value: string | null | undefined): string {
+  return (value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Só links http(s) viram âncoras, para não aceitar javascript: e afins
+function safeUrl(value: string | null | undefined): string | null {
+  return value && /^https?:\/\//i.test(value) ? escapeHtml(value) : null;
+}
+
+const paragraphs = (value: string | null | undefined) =>
+  escapeHtml(value).split(/\n{2,}/).map(text => `<p>${text.replace(/\n/g, '<br>')}</p>`).join('');
+
+const styles = `
+  * { box-sizing: border-box; }
+  body { margin: 0; font-family: system-ui, -apple-system, "Segoe UI", Roboto, sans-serif; color: #1f2937; background: #f9fafb; line-height: 1.5; }
+  main { max-width: 960px; margin: 0 auto; padding: 2rem 1rem 4rem; }
+  header { margin-bottom: 2rem; }
+  h1 { font-size: 2rem; margin: 0 0 .5rem; }
+  h2 { font-size: 1.25rem; margin: 2.5rem 0 1rem; }
+  h3 { font-size: 1.1rem; margin: 0 0 .25rem; }
+  .muted { color: #6b7280; font-size: .9rem; }
+  .contacts { display: flex; flex-wrap: wrap; gap: .5rem 1.5rem; margin-top: 1rem; font-size: .9rem; }
+  .grid { display: grid; gap: 1rem; grid-template-columns: repeat(auto-fill, minmax(280px, 1fr)); }
+  .card { background: #fff; border: 1px solid #e5e7eb; border-radius: .5rem; padding: 1.25rem; }
+  .card img { width: 100%; height: 160px; object-fit: cover; border-radius: .375rem; margin-bottom: .75rem; }
+  .variants { margin: 0; padding-left: 1.25rem; font-size: .9rem; }
+  .badge { display: inline-block; font-size: .75rem; font-weight: 600; padding: .1rem .6rem; border-radius: 999px; background: #e0e7ff; color: #3730a3; }
+  .badge.open { background: #dcfce7; color: #166534; }
+  .badge.closed { background: #f3f4f6; color: #4b5563; }
+  details { margin-top: .75rem; }
+  summary { cursor: pointer; color: #4f46e5; font-weight: 600; }
+  form { display: grid; gap: .75rem; margin-top: .75rem; }
+  label { display: grid; gap: .25rem; font-size: .9rem; }
+  input, textarea, select { font: inherit; padding: .5rem; border: 1px solid #d1d5db; border-radius: .375rem; }
+  button { font: inherit; font-weight: 600; padding: .6rem 1rem; border: 0; border-radius: .375rem; background: #4f46e5; color: #fff; cursor: pointer; }
+  button:disabled { opacity: .6; cursor: default; }
+  .form-message { font-size: .9rem; margin: 0; }
+  .category { font-size: 1rem; color: #4b5563; margin: 1.5rem 0 .75rem; }
+  .tags { display: flex; flex-wrap: wrap; gap: .35rem; margin: .5rem 0; }
+  .tag { font-size: .75rem; padding: .1rem .5rem; border-radius: 999px; background: #f3f4f6; color: #374151; }
+  a { color: #4f46e5; }
+`;
+
+// Envia a candidatura pelo endpoint público sem sair da página
+const applyScript = `
+  document.querySelectorAll('form[data-apply]').forEach(function (form) {
+    form.addEventListener('submit', function (event) {
+      event.preventDefault();
+      var button = form.querySelector('button');
+      var message = form.querySelector('.form-message');
+      button.disabled = true;
+      message.textContent = 'A enviar...';
+      fetch(form.action, { method: 'POST', body: new FormData(form) })
+        .then(function (response) {
+          return response.json().then(function (data) {
+            if (!response.ok) throw new Error(data.message || 'Não foi possível enviar a candidatura');
+            form.reset();
+            message.textContent = 'Candidatura enviada com sucesso. Obrigado!';
+          });
+        })
+        .catch(function (error) { message.textContent = error.message; })
+        .finally(function () { button.disabled = false; });
+    });
+  });
+`;
+
+// Agendamento: ao escolher o dia, carrega os horários livres; o pedido segue em JSON
+const bookScript = `
+  document.querySelectorAll('form[data-book]').forEach(function (form) {
+    var date = form.querySelector('input[name="date"]');
+    var select = form.querySelector('select[name="startsAt"]');
+    var button = form.querySelector('button');
+    var message = form.querySelector('.form-message');
+    var timezone = null;
+    var timeText = function (value) {
+      return new Date(value).toLocaleTimeString('pt-PT', { hour: '2-digit', minute: '2-digit', timeZone: timezone || undefined });
+    };
+    var loadSlots = function () {
+      select.innerHTML = '';
+      select.disabled = true;
+      if (!date.value) return;
+      message.textContent = 'A carregar horários...';
+      fetch(form.dataset.slots + '?days=1&from=' + encodeURIComponent(date.value))
+        .then(function (response) {
+          return response.json().then(function (data) {
+            if (!response.ok) throw new Error(data.message || 'Não foi possível carregar os horários');
+            timezone = data.timezone;
+            data.slots.forEach(function (slot) {
+              var option = document.createElement('option');
+              option.value = slot.startsAt;
+              option.textContent = timeText(slot.startsAt) + ' – ' + timeText(slot.endsAt);
+              select.appendChild(option);
+            });
+            select.disabled = data.slots.length === 0;
+            message.textContent = data.slots.length === 0 ? 'Não há horários livres neste dia.' : '';
+          });
+        })
+        .catch(function (error) { message.textContent = error.message; });
+    };
+    date.addEventListener('change', loadSlots);
+    form.addEventListener('submit', function (event) {
+      event.preventDefault();
+      var values = Object.fromEntries(new FormData(form));
+      delete values.date;
+      if (!values.phone) delete values.phone;
+      if (!values.notes) delete values.notes;
+      button.disabled = true;
+      message.textContent = 'A enviar...';
+      fetch(form.action, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(values) })
+        .then(function (response) {
+          return response.json().then(function (data) {
+            if (!response.ok) throw new Error(data.message || 'Não foi possível enviar o pedido');
+            form.reset();
+            select.innerHTML = '';
+            select.disabled = true;
+            message.textContent = 'Pedido enviado para ' + new Date(data.startsAt).toLocaleString('pt-PT', { dateStyle: 'short', timeStyle: 'short', timeZone: timezone || undefined }) + '. A empresa vai confirmar o agendamento.';
+          });
+        })
+        .catch(function (error) {
+          message.textContent = error.message;
+          loadSlots();
+        })
+        .finally(function () { button.disabled = false; });
+    });
+  });
+`;
+
+function layout(title: string, description: string, body: string): string {
+  return `<!DOCTYPE html>
+<html lang="pt-PT">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>${escapeHtml(title)}</title>
+    <meta name="description" content="${escapeHtml(description)}" />
+    <meta property="og:title" content="${escapeHtml(title)}" />
+    <meta property="og:description" content="${escapeHtml(description)}" />
+    <link rel="icon" type="image/png" href="/assets/images/favicon.png" />
+    <style>${styles}</style>
+  </head>
+  <body>
+    <main>${body}</main>
+  </body>
+</html>`;
+}
+
+// Preço principal com a nota de IVA e, abaixo, as variantes do serviço
+function renderServicePrice(service: PublicCompanyProfile["services"][number]): string {
+  const price = formatServicePrice(service);
+  if (!price) return '';
+
+  const vat = service.pricingType && service.pricingType !== 'quote' ? ` <span class="muted">(${formatVatRate(service.vatRate)})</span>` : '';
+  const variants = service.priceVariants.map(variant => `
+        <li>
+          <strong>${escapeHtml(variant.name)}</strong>: ${escapeHtml(formatServicePrice(service, variant.priceCents))}
+          ${variant.description ? `<br><span class="muted">${escapeHtml(variant.description)}</span>` : ''}
+        </li>`).join('');
+
+  return `
+      <p><strong>Preço:</strong> ${escapeHtml(price)}${vat}</p>
+      ${variants ? `<ul class="variants">${variants}</ul>` : ''}`;
+}
+
+// Horário estruturado com o estado de agora; sem ele, o texto antigo do serviço
+function renderServiceHours(service: PublicCompanyProfile["services"][number]): string {
+  if (!service.openingHours) {
+    return service.legacyWorkingHours ? `<p class="muted">Horário: ${escapeHtml(service.legacyWorkingHours)}</p>` : '';
+  }
+
+  const status = service.openNow
+    ? '<span class="badge open">Aberto agora</span>'
+    : '<span class="badge closed">Fechado agora</span>';
+
+  return `<p class="muted">Horário: ${escapeHtml(formatWeeklySummary(service.openingHours))} ${status}</p>`;
+}
+
+// Pedido de agendamento, só nos serviços com duração e horário
+function renderServiceBooking(service: PublicCompanyProfile["services"][number]): string {
+  if (!service.durationMinutes || !service.openingHours) return '';
+
+  return `
+      <details>
+        <summary>Agendar (${service.durationMinutes} min)</summary>
+        <form data-book data-slots="/api/public/services/${service.id}/slots" action="/api/public/services/${service.id}/appointments">
+          <label>Dia* <input name="date" type="date" required /></label>
+          <label>Horário* <select name="startsAt" required disabled></select></label>
+          <label>Nome* <input name="name" required minlength="2" maxlength="255" /></label>
+          <label>Email* <input name="email" type="email" required maxlength="255" /></label>
+          <label>Telefone <input name="phone" type="tel" maxlength="20" /></label>
+          <label>Observações <textarea name="notes" rows="3" maxlength="1000"></textarea></label>
+          <button type="submit">Pedir agendamento</button>
+          <p class="form-message" role="status"></p>
+        </form>
+      </details>`;
+}
+
+function renderService(service: PublicCompanyProfile["services"][number]): string {
+  const cover = getServiceCoverImage(service.images);
+
+  return `
+    <article class="card">
+      ${cover ? `<img src="${escapeHtml(cover.url)}" alt="${escapeHtml(cover.altText || service.name)}" loading="lazy" />` : ''}
+      <h3>${escapeHtml(service.name)}</h3>
+      ${service.tags.length > 0
+        ? `<div class="tags">${service.tags.map(tag => `<span class="tag">${escapeHtml(tag)}</span>`).join('')}</div>`
+        : ''}
+      ${paragraphs(service.description)}
+      ${renderServicePrice(service)}
+      ${renderServiceHours(service)}
+      ${renderServiceBooking(service)}
+    </article>`;
+}
+
+/**
+ * Serviços agrupados pelo caminho da categoria, em ordem alfabética (as
+ * subcategorias logo a seguir à categoria superior); os sem categoria ficam no
+ * fim. Sem nenhuma categoria, a grelha aparece sem títulos.
+ */
+function renderServiceGroups(services: PublicCompanyProfile["services"]): string {
+  if (services.every(service => service.categoryPath.length === 0)) {
+    return `<div class="grid">${services.map(renderService).join('')}</div>`;
+  }
+
+  const groups = new Map<string, PublicCompanyProfile["services"]>();
+  for (const service of services) {
+    const title = service.categoryPath.join(' › ');
+    groups.set(title, [...(groups.get(title) ?? []), service]);
+  }
+
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => !a ? 1 : !b ? -1 : a.localeCompare(b, 'pt'))
+    .map(([title, group]) => `
+      <h3 class="category">${escapeHtml(title || 'Outros serviços')}</h3>
+      <div class="grid">${group.map(renderService).join('')}</div>`)
+    .join('');
+}
+
+function renderJobOffer(jobOffer: PublicCompanyProfile["jobOffers"][number]): string {
+  const contactLink = safeUrl(jobOffer.contactLink);
+
+  return `
+    <article class="card">
+      <h3>${escapeHtml(jobOffer.title)}</h3>
+      <span class="badge">${escapeHtml(jobOffer.employmentType)}</span>
+      ${paragraphs(jobOffer.description)}
+      ${jobOffer.requirements ? `<p><strong>Requisitos:</strong></p>${paragraphs(jobOffer.requirements)}` : ''}
+      ${jobOffer.salaryRange ? `<p class="muted">Faixa salarial: ${escapeHtml(jobOffer.salaryRange)}</p>` : ''}
+      ${jobOffer.expiresAt ? `<p class="muted">Candidaturas até ${jobOffer.expiresAt.toLocaleDateString('pt-PT')}</p>` : ''}
+      ${jobOffer.contactEmail ? `<p class="muted">Contacto: <a href="mailto:${escapeHtml(jobOffer.contactEmail)}">${escapeHtml(jobOffer.contactEmail)}</a></p>` : ''}
+      ${contactLink ? `<p class="muted"><a href="${contactLink}" target="_blank" rel="noopener noreferrer">Mais informações</a></p>` : ''}
+      <details>
+        <summary>Candidatar-me</summary>
+        <form data-apply action="/api/public/job-offers/${jobOffer.id}/applications" enctype="multipart/form-data">
+          <label>Nome* <input name="name" required minlength="2" maxlength="255" /></label>
+          <label>Email* <input name="email" type="email" required maxlength="255" /></label>
+          <label>Telefone <input name="phone" type="tel" maxlength="20" /></label>
+          <label>Carta de apresentação <textarea name="coverLetter" rows="4" maxlength="5000"></textarea></label>
+          <label>CV (PDF ou Word, até 5 MB)* <input name="cv" type="file" required accept=".pdf,.doc,.docx,application/pdf,application/msword,application/vnd.openxmlformats-officedocument.wordprocessingml.document" /></label>
+          <button type="submit">Enviar candidatura</button>
+          <p class="form-message" role="status"></p>
+        </form>
+      </details>
+    </article>`;
+}
+
+export function renderPublicCompanyPage({ company, services, jobOffers }: PublicCompanyProfile): string {
+  const website = safeUrl(company.website);
+  const location = [company.address, [company.postalCode, company.city].filter(Boolean).join(' '), company.country]
+    .filter(Boolean)
+    .join(', ');
+
+  const body = `
+    <header>
+      <h1>${escapeHtml(company.name)}</h1>
+      ${paragraphs(company.description)}
+      <div class="contacts">
+        ${location ? `<span>${escapeHtml(location)}</span>` : ''}
+        ${company.email ? `<a href="mailto:${escapeHtml(company.email)}">${escapeHtml(company.email)}</a>` : ''}
+        ${company.phone ? `<a href="tel:${escapeHtml(company.phone)}">${escapeHtml(company.phone)}</a>` : ''}
+        ${website ? `<a href="${website}" target="_blank" rel="noopener noreferrer">${website}</a>` : ''}
+        ${company.nif ? `<span class="muted">NIF ${escapeHtml(company.nif)}</span>` : ''}
+      </div>
+    </header>
+
+    <section>
+      <h2>Serviços</h2>
+      ${services.length > 0
+        ? renderServiceGroups(services)
+        : '<p class="muted">Esta empresa ainda não publicou serviços.</p>'}
+    </section>
+
+    <section>
+      <h2>Vagas abertas</h2>
+      ${jobOffers.length > 0
+        ? `<div class="grid">${jobOffers.map(renderJobOffer).join('')}</div>`
+        : '<p class="muted">Não há vagas abertas de momento.</p>'}
+    </section>
+    ${jobOffers.length > 0 ? `<script>${applyScript}</script>` : ''}
+    ${services.some(service => service.durationMinutes && service.openingHours) ? `<script>${bookScript}</script>` : ''}`;
+
+  return layout(company.name, company.description.slice(0, 160), body);
+}
+
+export function renderPublicNotFoundPage(): string {
+  return layout('Página não encontrada', 'Esta empresa não existe ou não tem página pública.', `
+    <h1>Página não encontrada</h1>
+    <p class="muted">Esta empresa não existe ou não tem página pública.</p>`);
+}
@@ -0,0 +1,33 @@
+// Carrega as variáveis de ambiente primeiro
+import './load-env';
+
+import { initStorage } from "./storage";
+
+/**
+ * Tarefa de manutenção: lista imagens de serviços sem serviço e vagas sem
+ * empresa, sobras de exclusões interrompidas ou de dados antigos do Firestore.
+ *
+ * Só gera o relatório; nada é apagado. Uso: npm run maintenance:orphans
+ */
+async function main() {
+  const storage = await initStorage();
+  const orphans = await storage.getOrphanedRecords();
+
+  console.log(`Imagens de serviço órfãs: ${orphans.serviceImages.length}`);
+  orphans.serviceImages.forEach(image => {
+    console.log(`  - imagem ${image.id} (serviço ${image.serviceId} inexistente): ${image.url}`);
+  });
+
+  console.log(`Vagas órfãs: ${orphans.jobOffers.length}`);
+  orphans.jobOffers.forEach(jobOffer => {
+    console.log(`  - vaga ${jobOffer.id} "${jobOffer.title}" (empresa ${jobOffer.companyId} inexistente)`);
+  });
+}
+
+main().then(
+  () => process.exit(0),
+  (error) => {
+    console.error('Erro ao gerar o relatório de órfãos:', error);
+    process.exit(1);
+  }
+);
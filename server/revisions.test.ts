@@ -0,0 +1,72 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { startTestServer, type TestServer } from "./test-server";
+
+let server: TestServer;
+let companyId: number;
+
+before(async () => {
+  server = await startTestServer();
+  const company = await server.request("POST", "/api/companies", {
+    uid: "owner",
+    body: { name: "Empresa", slug: "empresa", description: "Empresa de teste", isPublic: true },
+  });
+  assert.equal(company.status, 201);
+  companyId = company.body.id;
+});
+
+after(async () => {
+  await server.close();
+});
+
+// O editor preenche o formulário com o que GET devolve; depois de restaurar, deve ser a versão antiga
+test("restoring a service revision brings back its values", async () => {
+  const created = await server.request("POST", `/api/companies/${companyId}/services`, {
+    uid: "owner",
+    body: { name: "Corte", description: "Corte de cabelo" },
+  });
+  assert.equal(created.status, 201);
+
+  const updated = await server.request("PUT", `/api/services/${created.body.id}`, {
+    uid: "owner",
+    body: { name: "Corte e barba", description: "Corte de cabelo e barba" },
+  });
+  assert.equal(updated.status, 200);
+
+  const revisions = await server.request("GET", `/api/services/${created.body.id}/revisions`, { uid: "owner" });
+  assert.equal(revisions.status, 200);
+  const first = revisions.body.find((revision: any) => revision.version === 1);
+
+  const restored = await server.request("POST", `/api/revisions/${first.id}/restore`, { uid: "owner" });
+  assert.equal(restored.status, 200);
+
+  const service = await server.request("GET", `/api/services/${created.body.id}`, { uid: "owner" });
+  assert.equal(service.body.name, "Corte");
+  assert.equal(service.body.description, "Corte de cabelo");
+});
+
+test("restoring a job offer revision brings back its expiry date", async () => {
+  const expiresAt = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString();
+  const created = await server.request("POST", `/api/companies/${companyId}/job-offers`, {
+    uid: "owner",
+    body: { title: "Cabeleireiro", description: "Vaga para cabeleireiro", employmentType: "full-time", expiresAt },
+  });
+  assert.equal(created.status, 201);
+
+  const updated = await server.request("PUT", `/api/job-offers/${created.body.id}`, {
+    uid: "owner",
+    body: { title: "Barbeiro", expiresAt: null },
+  });
+  assert.equal(updated.status, 200);
+  assert.equal(updated.body.expiresAt, null);
+
+  const revisions = await server.request("GET", `/api/job-offers/${created.body.id}/revisions`, { uid: "owner" });
+  const first = revisions.body.find((revision: any) => revision.version === 1);
+
+  const restored = await server.request("POST", `/api/revisions/${first.id}/restore`, { uid: "owner" });
+  assert.equal(restored.status, 200);
+
+  const jobOffer = await server.request("GET", `/api/job-offers/${created.body.id}`, { uid: "owner" });
+  assert.equal(jobOffer.body.title, "Cabeleireiro");
+  assert.equal(jobOffer.body.expiresAt, expiresAt);
+});
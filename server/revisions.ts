@@ -0,0 +1,87 @@
+import { z } from "zod";
+import {
+  insertCompanySchema,
+  serviceFieldsSchema,
+  jobOfferFieldsSchema,
+  type RevisionEntityType,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { diffRecords } from "./audit";
+
+// Campos que entram em cada versão: os mesmos que as rotas de edição aceitam.
+// Estado da vaga, lixeira, dono e datas automáticas ficam de fora e não voltam ao restaurar
+export const revisionFieldSchemas = {
+  company: insertCompanySchema.omit({ ownerId: true }),
+  service: serviceFieldsSchema.omit({ companyId: true }),
+  job_offer: jobOfferFieldsSchema.omit({ companyId: true }),
+};
+
+export interface RevisionEntry {
+  companyId: number;
+  entityType: RevisionEntityType;
+  entityId: number;
+  // Estado anterior à gravação; sem ele na criação
+  before?: object | null;
+  after: object;
+  createdBy: number;
+}
+
+// Campos editáveis do registro como saem no JSON da API, com undefined como null
+export function toSnapshot(entityType: RevisionEntityType, record: object): Record<string, unknown> {
+  const values: Record<string, unknown> = { ...record };
+
+  return Object.fromEntries(
+    Object.keys(revisionFieldSchemas[entityType].shape).map(field => [
+      field,
+      values[field] === undefined ? null : JSON.parse(JSON.stringify(values[field])),
+    ])
+  );
+}
+
+/**
+ * Grava uma nova versão do registro depois de uma criação ou edição.
+ *
+ * Registros criados antes do histórico ganham antes uma versão inicial com o
+ * estado anterior à edição, para que ele também possa ser restaurado. Se nenhum
+ * campo editável mudou desde a última versão, nada é gravado. Assim como a
+ * auditoria, uma falha aqui só é registrada no log.
+ */
+export async function recordRevision(entry: RevisionEntry): Promise<void> {
+  const { companyId, entityType, entityId, before, after, createdBy } = entry;
+
+  try {
+    const [latest] = await storage.getRevisions(entityType, entityId);
+    let latestSnapshot = latest?.snapshot;
+
+    if (!latest && before) {
+      latestSnapshot = toSnapshot(entityType, before);
+      await storage.createRevision({ companyId, entityType, entityId, snapshot: latestSnapshot, createdBy: null });
+    }
+
+    const snapshot = toSnapshot(entityType, after);
+
+    if (latestSnapshot && Object.keys(diffRecords(latestSnapshot, snapshot)).length === 0) return;
+
+    await storage.createRevision({ companyId, entityType, entityId, snapshot, createdBy });
+  } catch (error) {
+    console.error('Erro ao gravar a versão:', error);
+  }
+}
+
+/**
+ * Valida os campos de uma versão com o schema das rotas de edição.
+ *
+ * Os refinamentos do schema não aceitam null, por isso os campos vazios na
+ * versão não passam pela validação e voltam a ficar vazios no registro.
+ */
+export function parseRevisionSnapshot<T extends z.AnyZodObject>(schema: T, snapshot: Record<string, unknown>) {
+  const entries = Object.entries(snapshot).filter(([field]) => field in schema.shape);
+  const cleared = Object.fromEntries(entries.filter(([, value]) => value === null));
+  const result = schema.partial().safeParse(Object.fromEntries(entries.filter(([, value]) => value !== null)));
+
+  if (!result.success) {
+    return { success: false as const, errors: result.error.errors };
+  }
+
+  return { success: true as const, data: { ...cleared, ...result.data } as Partial<z.infer<T>> };
+}
@@ -1,279 +1,2650 @@
 import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
+import { randomBytes } from "crypto";
+import multer from "multer";
 import { authenticate } from "./middleware/auth";
-import { getUserData, updateUserData, verifyToken } from "./firebase";
-import { storage } from "./storage";
+import { storage, AppointmentConflictError } from "./storage";
+import { blobStore } from "./blob-store";
+import {
+  processImage,
+  InvalidImageError,
+  PROCESSED_IMAGE_CONTENT_TYPE,
+  PROCESSED_IMAGE_EXTENSION
+} from "./image-processing";
+import { renderPublicCompanyPage, renderPublicNotFoundPage } from "./public-page";
+import { deleteServiceImageFiles, purgeCompany, purgeService, purgeJobOffer, trashRetentionDays } from "./trash";
+import { recordAudit, diffRecords } from "./audit";
+import { recordRevision, toSnapshot, parseRevisionSnapshot, revisionFieldSchemas } from "./revisions";
+import { decodeCursor } from "./pagination";
+import { searchCompany, invalidateSearchIndex } from "./search-index";
+import { getUpcomingSpecialDays, isOpenAt, resolveOpeningHours } from "@shared/opening-hours";
+import { getCategoryDescendantIds, getCategoryPath, getCategorySubtreeHeight } from "@shared/service-categories";
+import { getAppointmentEnd, getBookingSchedule, getFreeSlots, getScheduleToday, isScheduledSlot } from "./appointments";
+import { route } from "./typed-routes";
+import { generateCompanySlug } from "./company-slug";
+import { accountDeletionDate, deleteAccount } from "./account-deletion";
+import { isCurrentDataExport, startDataExport } from "./data-export";
+import { apiContracts } from "@shared/api-contracts";
 import {
   insertCompanySchema,
-  insertServiceSchema,
+  serviceFieldsSchema,
+  serviceCategoryFieldsSchema,
+  serviceTagSchema,
+  renameServiceTagSchema,
+  MAX_SERVICE_CATEGORY_DEPTH,
   insertServiceImageSchema,
-  insertJobOfferSchema,
-  User
+  updateServiceImageSchema,
+  reorderServiceImagesSchema,
+  jobOfferFieldsSchema,
+  createInvitationSchema,
+  updateMemberRoleSchema,
+  applyToJobOfferSchema,
+  updateApplicationStageSchema,
+  createApplicationNoteSchema,
+  auditLogQuerySchema,
+  searchQuerySchema,
+  serviceListQuerySchema,
+  jobOfferListQuerySchema,
+  appointmentListQuerySchema,
+  serviceSlotsQuerySchema,
+  bookAppointmentSchema,
+  rescheduleAppointmentSchema,
+  revisionDiffQuerySchema,
+  updateProfileSchema,
+  deleteAccountSchema,
+  hasCompanyRole,
+  getServicePricingIssue,
+  canTransitionJobOffer,
+  canTransitionAppointment,
+  isActiveAppointment,
+  Appointment,
+  AppointmentStatus,
+  AppointmentWithService,
+  BookAppointmentResponse,
+  User,
+  Company,
+  ServiceImageVariants,
+  JobOffer,
+  CompanyRole,
+  CompanyMember,
+  CompanyMemberWithUser,
+  JobApplication,
+  JobApplicationSummary,
+  JobApplicationWithActivity,
+  DataExport,
+  DataExportSummary,
+  JobOfferStatus,
+  PublicCompanyProfile,
+  Revision,
+  RevisionEntityType,
+  RevisionWithAuthor,
+  Service,
+  ServiceAvailabilityResponse,
+  ServiceCategory,
+  ServiceTagSummary,
+  ServiceImage,
+  ServiceSlotsResponse,
+  ServiceWithImages
 } from "@shared/schema";
 import { z } from "zod";
 
-// Helper function to get user entry in database from Firebase uid
+// Invitations expire after 7 days
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Deleting the account requires a sign-in from the last 5 minutes
+const RECENT_SIGN_IN_MS = 5 * 60 * 1000;
+
+// CV files accepted by the public application form, mapped to their extension
+const CV_MAX_BYTES = 5 * 1024 * 1024;
+const CV_CONTENT_TYPES: Record<string, string> = {
+  "application/pdf": "pdf",
+  "application/msword": "doc",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": "docx"
+};
+
+const cvUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: CV_MAX_BYTES, files: 1 }
+}).single("cv");
+
+// Service images are re-encoded on the server, so only the upload itself is limited here
+const SERVICE_IMAGE_MAX_BYTES = 10 * 1024 * 1024;
+const SERVICE_IMAGE_CONTENT_TYPES = ["image/jpeg", "image/png", "image/webp"];
+
+const serviceImageUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: SERVICE_IMAGE_MAX_BYTES, files: 1 }
+}).single("image");
+
+// The user record of the authenticated request, provisioned by the authenticate middleware
 async function getUserByFirebaseUid(req: Request, res: Response): Promise<User | null> {
+  if (!req.dbUser) {
+    res.status(401).json({ message: "Unauthorized" });
+    return null;
+  }
+  
+  return req.dbUser;
+}
+
+// Resolve the user's role in a company. Companies created before teams existed
+// have no member record for the owner, so it is created on first access.
+async function getCompanyRole(company: Company, user: User): Promise<CompanyRole | null> {
+  const member = await storage.getCompanyMember(company.id, user.id);
+  
+  if (member) {
+    return member.role;
+  }
+  
+  if (company.ownerId === user.id) {
+    await storage.createCompanyMember({ companyId: company.id, userId: user.id, role: "owner" });
+    return "owner";
+  }
+  
+  return null;
+}
+
+// Load the company and the authenticated user and check that the user has at
+// least the required role. On failure the response has already been sent.
+async function authorizeCompany(
+  req: Request,
+  res: Response,
+  companyId: number,
+  requiredRole: CompanyRole,
+  forbiddenMessage: string
+): Promise<{ dbUser: User; company: Company; role: CompanyRole } | null> {
+  const company = await storage.getCompany(companyId);
+  
+  if (!company) {
+    res.status(404).json({ message: "Company not found" });
+    return null;
+  }
+  
+  const dbUser = await getUserByFirebaseUid(req, res);
+  
+  if (!dbUser) {
+    return null;
+  }
+  
+  const role = await getCompanyRole(company, dbUser);
+  
+  if (!role || !hasCompanyRole(role, requiredRole)) {
+    res.status(403).json({ message: forbiddenMessage });
+    return null;
+  }
+  
+  return { dbUser, company, role };
+}
+
+// Attach the public user fields to each member for the members screen
+async function withMemberUsers(members: CompanyMember[]): Promise<CompanyMemberWithUser[]> {
+  const result = await Promise.all(
+    members.map(async (member) => {
+      const user = await storage.getUser(member.userId);
+      
+      if (!user) return null;
+      
+      return {
+        ...member,
+        user: {
+          id: user.id,
+          email: user.email,
+          displayName: user.displayName,
+          photoURL: user.photoURL
+        }
+      };
+    })
+  );
+  
+  return result.filter((member): member is CompanyMemberWithUser => member !== null);
+}
+
+// Run an upload parser inside the route so upload errors become 400
+// responses. Resolves to false when the response has already been sent.
+function receiveFile(
+  upload: ReturnType<multer.Multer["single"]>,
+  req: Request,
+  res: Response,
+  tooLargeMessage: string
+): Promise<boolean> {
+  return new Promise((resolve, reject) => {
+    upload(req, res, (error: unknown) => {
+      if (error instanceof multer.MulterError) {
+        res.status(400).json({
+          message: error.code === "LIMIT_FILE_SIZE" ? tooLargeMessage : error.message
+        });
+        return resolve(false);
+      }
+      
+      if (error) {
+        return reject(error);
+      }
+      
+      resolve(true);
+    });
+  });
+}
+
+// New images go to the end of the list; the first image of a service becomes its cover
+async function nextServiceImagePlacement(serviceId: number) {
+  const images = await storage.getServiceImages(serviceId);
+  const lastPosition = images.reduce((max, image) => Math.max(max, image.position), -1);
+  
+  return { position: lastPosition + 1, isCover: images.length === 0 };
+}
+
+// Attach the images of each service, loaded with a single query
+async function withServiceImages(services: Service[]): Promise<ServiceWithImages[]> {
+  const images = await storage.getServiceImagesForServices(services.map(service => service.id));
+  const imagesByService = new Map<number, ServiceImage[]>();
+  
+  images.forEach(image => {
+    imagesByService.set(image.serviceId, [...(imagesByService.get(image.serviceId) ?? []), image]);
+  });
+  
+  return services.map(service => ({ ...service, images: imagesByService.get(service.id) ?? [] }));
+}
+
+// The blob key of the CV never leaves the server
+function toApplicationSummary(application: JobApplication): JobApplicationSummary {
+  const { cvKey, ...summary } = application;
+  return summary;
+}
+
+// Same for the key of an exported ZIP, which is only read by the download route
+function toDataExportSummary(dataExport: DataExport): DataExportSummary {
+  const { fileKey, ...summary } = dataExport;
+  return summary;
+}
+
+// Attach notes and stage history, oldest first, with the users who wrote them
+async function withApplicationActivity(application: JobApplication): Promise<JobApplicationWithActivity> {
+  const [notes, history] = await Promise.all([
+    storage.getJobApplicationNotes(application.id),
+    storage.getJobApplicationStageChanges(application.id)
+  ]);
+  
+  const userIds = new Set([
+    ...notes.map(note => note.authorId),
+    ...history.map(change => change.changedBy).filter((id): id is number => id !== null)
+  ]);
+  const users = new Map(
+    await Promise.all(Array.from(userIds).map(async (id) => {
+      const user = await storage.getUser(id);
+      return [id, user ? { id: user.id, email: user.email, displayName: user.displayName } : null] as const;
+    }))
+  );
+  
+  const byCreatedAt = (a: { createdAt: Date | null }, b: { createdAt: Date | null }) =>
+    (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0);
+  
+  return {
+    ...toApplicationSummary(application),
+    notes: notes.sort(byCreatedAt).map(note => ({ ...note, author: users.get(note.authorId) ?? null })),
+    history: history.sort(byCreatedAt).map(change => ({
+      ...change,
+      user: change.changedBy !== null ? users.get(change.changedBy) ?? null : null
+    }))
+  };
+}
+
+// Only open job offers are listed; the sweeper may lag behind expiry dates
+function isOpenJobOffer(jobOffer: JobOffer): boolean {
+  return jobOffer.status === "published" && !jobOffer.deletedAt && !isPastExpiry(jobOffer.expiresAt);
+}
+
+// Hours that apply to a service (its own or the company default) and whether it is open right now
+function effectiveOpeningHours(service: Service, company: Company, at = new Date()) {
+  const { openingHours } = resolveOpeningHours(service, company);
+  return { openingHours, openNow: openingHours ? isOpenAt(openingHours, at) : null };
+}
+
+// A category sent with a service must belong to the same company
+async function isCompanyCategory(companyId: number, categoryId: number | null | undefined): Promise<boolean> {
+  if (!categoryId) return true;
+  
+  const category = await storage.getServiceCategory(categoryId);
+  return category?.companyId === companyId;
+}
+
+// Tags in use by the services of a company (trash excluded), alphabetically
+async function getServiceTags(companyId: number): Promise<ServiceTagSummary[]> {
+  const counts = new Map<string, number>();
+  
+  for (const service of await storage.getCompanyServices(companyId)) {
+    service.tags.forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1));
+  }
+  
+  return Array.from(counts, ([tag, serviceCount]) => ({ tag, serviceCount }))
+    .sort((a, b) => a.tag.localeCompare(b.tag, "pt"));
+}
+
+// Rename (or, without a replacement, remove) a tag on every service that has it;
+// each service gets its own audit entry and revision. Returns how many changed
+async function replaceServiceTag(req: Request, companyId: number, userId: number, tag: string, replacement: string | null): Promise<number> {
+  const tagged = (await storage.getCompanyServices(companyId)).filter(service => service.tags.includes(tag));
+  
+  for (const service of tagged) {
+    const tags = Array.from(new Set(service.tags.flatMap(current => current !== tag ? [current] : replacement ? [replacement] : [])));
+    const updatedService = await storage.updateService(service.id, { tags });
+    await recordAudit(req, { companyId, entityType: "service", entityId: service.id, action: "update", before: service, after: updatedService });
+    
+    if (updatedService) {
+      await recordRevision({ companyId, entityType: "service", entityId: service.id, before: service, after: updatedService, createdBy: userId });
+    }
+  }
+  
+  if (tagged.length > 0) {
+    invalidateSearchIndex(companyId);
+  }
+  
+  return tagged.length;
+}
+
+// Checks the parent of a category being created or moved: same company, not inside
+// the category itself and within the depth limit. Returns an error message, or null
+function getCategoryParentIssue(categories: ServiceCategory[], parentId: number, category?: ServiceCategory): string | null {
+  const parent = categories.find(current => current.id === parentId);
+  
+  if (!parent) {
+    return "Invalid parent category";
+  }
+  
+  if (category && getCategoryDescendantIds(categories, category.id).includes(parentId)) {
+    return "A category cannot be moved inside itself";
+  }
+  
+  const height = category ? getCategorySubtreeHeight(categories, category.id) : 1;
+  
+  if (getCategoryPath(categories, parentId).length + height > MAX_SERVICE_CATEGORY_DEPTH) {
+    return `Categories can be at most ${MAX_SERVICE_CATEGORY_DEPTH} levels deep`;
+  }
+  
+  return null;
+}
+
+// Sibling categories cannot share a name, ignoring case
+function hasSiblingNamed(categories: ServiceCategory[], parentId: number | null, name: string, ignoreId?: number): boolean {
+  return categories.some(category =>
+    category.id !== ignoreId &&
+    category.parentId === parentId &&
+    category.name.toLowerCase() === name.toLowerCase()
+  );
+}
+
+// Public data of a company page: profile, services with images and open job offers
+async function getPublicCompanyProfile(company: Company): Promise<PublicCompanyProfile> {
+  const [services, jobOffers, categories] = await Promise.all([
+    storage.getCompanyServices(company.id),
+    storage.getCompanyJobOffers(company.id),
+    storage.getCompanyServiceCategories(company.id)
+  ]);
+  
+  const servicesWithImages = (await withServiceImages(services)).map(service => ({
+    id: service.id,
+    name: service.name,
+    description: service.description,
+    pricingType: service.pricingType,
+    priceCents: service.priceCents,
+    currency: service.currency,
+    vatRate: service.vatRate,
+    priceVariants: service.priceVariants,
+    legacyPrice: service.legacyPrice,
+    legacyWorkingHours: service.legacyWorkingHours,
+    durationMinutes: service.durationMinutes,
+    tags: service.tags,
+    categoryPath: getCategoryPath(categories, service.categoryId).map(category => category.name),
+    ...effectiveOpeningHours(service, company),
+    images: service.images.map(({ url, altText, isCover }) => ({ url, altText, isCover }))
+  }));
+  
+  return {
+    company: {
+      name: company.name,
+      slug: company.slug,
+      description: company.description,
+      nif: company.nif,
+      email: company.email,
+      phone: company.phone,
+      address: company.address,
+      postalCode: company.postalCode,
+      city: company.city,
+      country: company.country,
+      website: company.website
+    },
+    services: servicesWithImages,
+    jobOffers: jobOffers.filter(isOpenJobOffer).map(jobOffer => ({
+      id: jobOffer.id,
+      title: jobOffer.title,
+      description: jobOffer.description,
+      employmentType: jobOffer.employmentType,
+      salaryRange: jobOffer.salaryRange,
+      requirements: jobOffer.requirements,
+      contactEmail: jobOffer.contactEmail,
+      contactLink: jobOffer.contactLink,
+      expiresAt: jobOffer.expiresAt,
+      publishedAt: jobOffer.publishedAt
+    }))
+  };
+}
+
+// Companies that are not public are reported as missing
+async function getPublicCompany(slug: string): Promise<Company | null> {
+  const company = await storage.getCompanyBySlug(slug);
+  return company && company.isPublic ? company : null;
+}
+
+// An expiry date, when given, has to be in the future
+function isPastExpiry(expiresAt: Date | null | undefined): boolean {
+  return !!expiresAt && expiresAt.getTime() <= Date.now();
+}
+
+// Current state of the record a revision belongs to. Records in the trash have
+// no version history until they are restored.
+async function getRevisionTarget(entityType: RevisionEntityType, entityId: number): Promise<{ companyId: number; record: object } | null> {
+  switch (entityType) {
+    case "company": {
+      const company = await storage.getCompany(entityId);
+      return company ? { companyId: company.id, record: company } : null;
+    }
+    case "service": {
+      const service = await storage.getService(entityId);
+      return service && !service.deletedAt ? { companyId: service.companyId, record: service } : null;
+    }
+    case "job_offer": {
+      const jobOffer = await storage.getJobOffer(entityId);
+      return jobOffer && !jobOffer.deletedAt ? { companyId: jobOffer.companyId, record: jobOffer } : null;
+    }
+  }
+}
+
+// Attach the public fields of the user who saved each revision
+async function withRevisionAuthors(revisions: Revision[]): Promise<RevisionWithAuthor[]> {
+  const authorIds = Array.from(new Set(revisions.map(revision => revision.createdBy).filter((id): id is number => id !== null)));
+  const authors = new Map(
+    (await Promise.all(authorIds.map(id => storage.getUser(id))))
+      .filter((user): user is User => !!user)
+      .map(user => [user.id, { id: user.id, email: user.email, displayName: user.displayName }])
+  );
+  
+  return revisions.map(revision => ({
+    ...revision,
+    author: revision.createdBy !== null ? authors.get(revision.createdBy) ?? null : null
+  }));
+}
+
+// Shared by the revision list routes of companies, services and job offers
+async function listRevisions(req: Request, res: Response, entityType: RevisionEntityType) {
+  try {
+    const entityId = parseInt(req.params.id);
+    
+    if (isNaN(entityId)) {
+      return res.status(400).json({ message: "Invalid ID" });
+    }
+    
+    const target = await getRevisionTarget(entityType, entityId);
+    
+    if (!target) {
+      return res.status(404).json({ message: "Record not found" });
+    }
+    
+    // Check if user has the required role in the company
+    const access = await authorizeCompany(req, res, target.companyId, 'viewer', "Not authorized to view the versions of this record");
+    
+    if (!access) return;
+    
+    const revisions = await storage.getRevisions(entityType, entityId);
+    
+    res.json(await withRevisionAuthors(revisions));
+  } catch (error) {
+    console.error("Error getting revisions:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+}
+
+// Shared by the publish, unpublish and close routes
+async function changeJobOfferStatus(req: Request, res: Response, status: JobOfferStatus) {
+  try {
+    const jobOfferId = parseInt(req.params.id);
+    
+    if (isNaN(jobOfferId)) {
+      return res.status(400).json({ message: "Invalid job offer ID" });
+    }
+    
+    const jobOffer = await storage.getJobOffer(jobOfferId);
+    
+    if (!jobOffer || jobOffer.deletedAt) {
+      return res.status(404).json({ message: "Job offer not found" });
+    }
+    
+    // Check if user has the required role in the company
+    const access = await authorizeCompany(req, res, jobOffer.companyId, 'editor', "Not authorized to change the status of this job offer");
+    
+    if (!access) return;
+    
+    if (!canTransitionJobOffer(jobOffer.status, status)) {
+      return res.status(409).json({ message: `Cannot change job offer status from ${jobOffer.status} to ${status}` });
+    }
+    
+    if (status === "published" && isPastExpiry(jobOffer.expiresAt)) {
+      return res.status(400).json({ message: "The expiry date has passed; set a new one before publishing" });
+    }
+    
+    const now = new Date();
+    const updatedJobOffer = await storage.updateJobOffer(jobOfferId, {
+      status,
+      ...(status === "published" && { publishedAt: jobOffer.publishedAt ?? now, closedAt: null }),
+      ...(status === "closed" && { closedAt: now })
+    });
+    invalidateSearchIndex(jobOffer.companyId);
+    await recordAudit(req, { companyId: jobOffer.companyId, entityType: "job_offer", entityId: jobOfferId, action: "update", before: jobOffer, after: updatedJobOffer });
+    
+    res.json(updatedJobOffer);
+  } catch (error) {
+    console.error("Error changing job offer status:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+}
+
+// Attach the service name and duration; appointments of trashed services keep showing them
+async function withAppointmentServices(appointments: Appointment[]): Promise<AppointmentWithService[]> {
+  const serviceIds = Array.from(new Set(appointments.map(appointment => appointment.serviceId)));
+  const services = await Promise.all(serviceIds.map(id => storage.getService(id)));
+  const servicesById = new Map(services.filter((service): service is Service => !!service).map(service => [service.id, service]));
+  
+  return appointments.map(appointment => {
+    const service = servicesById.get(appointment.serviceId);
+    return {
+      ...appointment,
+      service: service ? { id: service.id, name: service.name, durationMinutes: service.durationMinutes } : null
+    };
+  });
+}
+
+// Shared by the public and dashboard slot routes
+async function sendServiceSlots(req: Request, res: Response, service: Service, company: Company) {
+  const schedule = getBookingSchedule(service, company);
+  
+  if (!schedule) {
+    return res.status(409).json({ message: "This service does not take appointments" });
+  }
+  
+  const result = serviceSlotsQuerySchema.safeParse(req.query);
+  
+  if (!result.success) {
+    return res.status(400).json({ message: "Invalid slot parameters", errors: result.error.errors });
+  }
+  
+  const from = result.data.from ?? getScheduleToday(schedule);
+  const response: ServiceSlotsResponse = {
+    durationMinutes: schedule.durationMinutes,
+    timezone: schedule.openingHours.timezone,
+    slots: await getFreeSlots(service.id, schedule, from, result.data.days)
+  };
+  
+  res.json(response);
+}
+
+// Shared by the confirm, cancel, complete and no-show routes
+async function changeAppointmentStatus(req: Request, res: Response, status: AppointmentStatus) {
   try {
-    if (!req.user || !req.user.uid) {
-      res.status(401).json({ message: "Unauthorized" });
-      return null;
+    const appointmentId = parseInt(req.params.id);
+    
+    if (isNaN(appointmentId)) {
+      return res.status(400).json({ message: "Invalid appointment ID" });
+    }
+    
+    const appointment = await storage.getAppointment(appointmentId);
+    
+    if (!appointment) {
+      return res.status(404).json({ message: "Appointment not found" });
+    }
+    
+    // Check if user has the required role in the company
+    const access = await authorizeCompany(req, res, appointment.companyId, 'editor', "Not authorized to change the status of this appointment");
+    
+    if (!access) return;
+    
+    if (!canTransitionAppointment(appointment.status, status)) {
+      return res.status(409).json({ message: `Cannot change appointment status from ${appointment.status} to ${status}` });
+    }
+    
+    // Attendance is only known once the appointment has started
+    if ((status === "completed" || status === "no_show") && appointment.startsAt > new Date()) {
+      return res.status(400).json({ message: "The appointment has not started yet" });
+    }
+    
+    const updatedAppointment = await storage.updateAppointment(appointmentId, { status });
+    
+    if (!updatedAppointment) {
+      return res.status(404).json({ message: "Appointment not found" });
+    }
+    
+    await recordAudit(req, { companyId: appointment.companyId, entityType: "appointment", entityId: appointmentId, action: "update", before: appointment, after: updatedAppointment });
+    
+    const [withService] = await withAppointmentServices([updatedAppointment]);
+    res.json(withService);
+  } catch (error) {
+    if (error instanceof AppointmentConflictError) {
+      return res.status(409).json({ message: "This time slot is no longer available" });
+    }
+    
+    console.error("Error changing appointment status:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+}
+
+export async function registerRoutes(app: Express): Promise<Server> {
+  // Authentication routes
+  route(app, apiContracts.getCurrentUser, authenticate, async (req, res) => {
+    const dbUser = await getUserByFirebaseUid(req, res);
+    
+    if (!dbUser) return;
+    
+    res.json(dbUser);
+  });
+
+  // User profile routes
+  route(app, apiContracts.updateProfile, authenticate, async (req, res) => {
+    try {
+      const result = updateProfileSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid profile data", errors: result.error.errors });
+      }
+      
+      const dbUser = await getUserByFirebaseUid(req, res);
+      
+      if (!dbUser) return;
+      
+      // Only the fields sent are changed
+      const updatedUser = await storage.updateUser(dbUser.id, result.data);
+      
+      await recordAudit(req, { companyId: null, entityType: "user", entityId: dbUser.id, action: "update", before: dbUser, after: updatedUser });
+      
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error updating user profile:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Deletes the account right away or schedules it after the grace period
+  route(app, apiContracts.deleteAccount, authenticate, async (req, res) => {
+    try {
+      const result = deleteAccountSchema.safeParse(req.body ?? {});
+      
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid account deletion data", errors: result.error.errors });
+      }
+      
+      const dbUser = await getUserByFirebaseUid(req, res);
+      
+      if (!dbUser) return;
+      
+      // The client re-authenticates before asking, so the token must be fresh; without auth_time it can't be told apart from an old one
+      if (typeof req.user.auth_time !== "number" || Date.now() - req.user.auth_time * 1000 > RECENT_SIGN_IN_MS) {
+        return res.status(401).json({ message: "Recent sign-in required" });
+      }
+      
+      if (result.data.immediate) {
+        const companies = await deleteAccount(dbUser);
+        
+        // The erased data must not survive in the audit log: only the ids are kept
+        for (const company of companies) {
+          await recordAudit(req, { companyId: null, entityType: "company", entityId: company.id, action: "delete", anonymous: true });
+        }
+        await recordAudit(req, { companyId: null, entityType: "user", entityId: dbUser.id, action: "delete", anonymous: true });
+        
+        return res.json({ deleted: true, deletionScheduledAt: null });
+      }
+      
+      const updatedUser = await storage.updateUser(dbUser.id, { deletionScheduledAt: accountDeletionDate() });
+      
+      await recordAudit(req, { companyId: null, entityType: "user", entityId: dbUser.id, action: "update", before: dbUser, after: updatedUser });
+      
+      res.json({ deleted: false, deletionScheduledAt: updatedUser!.deletionScheduledAt!.toISOString() });
+    } catch (error) {
+      console.error("Error deleting account:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  route(app, apiContracts.cancelAccountDeletion, authenticate, async (req, res) => {
+    try {
+      const dbUser = await getUserByFirebaseUid(req, res);
+      
+      if (!dbUser) return;
+      
+      if (!dbUser.deletionScheduledAt) {
+        return res.json(dbUser);
+      }
+      
+      const updatedUser = await storage.updateUser(dbUser.id, { deletionScheduledAt: null });
+      
+      await recordAudit(req, { companyId: null, entityType: "user", entityId: dbUser.id, action: "update", before: dbUser, after: updatedUser });
+      
+      res.json(updatedUser);
+    } catch (error) {
+      console.error("Error cancelling account deletion:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // GDPR data export: reuses the pending or ready export, otherwise starts a new one
+  route(app, apiContracts.requestDataExport, authenticate, async (req, res) => {
+    try {
+      const dbUser = await getUserByFirebaseUid(req, res);
+      
+      if (!dbUser) return;
+      
+      const [latest] = await storage.getUserDataExports(dbUser.id);
+      
+      if (latest && isCurrentDataExport(latest)) {
+        return res.status(latest.status === "pending" ? 202 : 200).json(toDataExportSummary(latest));
+      }
+      
+      const dataExport = await startDataExport(dbUser);
+      
+      res.status(202).json(toDataExportSummary(dataExport));
+    } catch (error) {
+      console.error("Error requesting data export:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  route(app, apiContracts.getLatestDataExport, authenticate, async (req, res) => {
+    try {
+      const dbUser = await getUserByFirebaseUid(req, res);
+      
+      if (!dbUser) return;
+      
+      const [latest] = await storage.getUserDataExports(dbUser.id);
+      
+      res.json(latest ? toDataExportSummary(latest) : null);
+    } catch (error) {
+      console.error("Error getting data export:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/user/export/:id/download", authenticate, async (req, res) => {
+    try {
+      const exportId = parseInt(req.params.id);
+      
+      if (isNaN(exportId)) {
+        return res.status(400).json({ message: "Invalid export ID" });
+      }
+      
+      const dbUser = await getUserByFirebaseUid(req, res);
+      
+      if (!dbUser) return;
+      
+      const dataExport = await storage.getDataExport(exportId);
+      
+      // Another user's export is reported as missing
+      if (!dataExport || dataExport.userId !== dbUser.id) {
+        return res.status(404).json({ message: "Export not found" });
+      }
+      
+      if (dataExport.status !== "ready" || !dataExport.fileKey || dataExport.expiresAt <= new Date()) {
+        return res.status(409).json({ message: "Export is not available for download" });
+      }
+      
+      const file = await blobStore.get(dataExport.fileKey);
+      
+      if (!file) {
+        return res.status(404).json({ message: "Export file not found" });
+      }
+      
+      res.attachment(`data-export-${dataExport.id}.zip`);
+      res.type("application/zip");
+      res.send(file);
+    } catch (error) {
+      console.error("Error downloading data export:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // Company routes
+  route(app, apiContracts.getCompanies, authenticate, async (req, res) => {
+    try {
+      const dbUser = await getUserByFirebaseUid(req, res);
+      
+      if (!dbUser) return;
+      
+      const companies = await storage.getUserCompanies(dbUser.id);
+      
+      // Include the user's role so the client can adapt the UI
+      const companiesWithRole = await Promise.all(
+        companies.map(async (company) => ({
+          ...company,
+          role: await getCompanyRole(company, dbUser)
+        }))
+      );
+      
+      // A company the user no longer belongs to has no role and is left out
+      res.json(companiesWithRole.flatMap(({ role, ...company }) => role ? [{ ...company, role }] : []));
+    } catch (error) {
+      console.error("Error getting companies:", error);
+      res.status(500).json({ 
+        message: "Internal server error",
+        error: error instanceof Error ? error.message : "Failed to fetch companies"
+      });
+    }
+  });
+  
+  route(app, apiContracts.getCompany, authenticate, async (req, res) => {
+    try {
+      const companyId = parseInt(req.params.id);
+      
+      if (isNaN(companyId)) {
+        return res.status(400).json({ 
+          message: "Invalid company ID",
+          error: "Invalid company ID format"
+        });
+      }
+      
+      // Check if user has the required role in the company
+      const access = await authorizeCompany(req, res, companyId, 'viewer', "Not authorized to view this company");
+      
+      if (!access) return;
+      
+      res.json({ ...access.company, role: access.role });
+    } catch (error) {
+      console.error("Error getting company:", error);
+      res.status(500).json({ 
+        message: "Internal server error",
+        error: error instanceof Error ? error.message : "Failed to fetch company"
+      });
+    }
+  });
+  
+  route(app, apiContracts.createCompany, authenticate, async (req, res) => {
+    try {
+      const dbUser = await getUserByFirebaseUid(req, res);
+      
+      if (!dbUser) return;
+      
+      // The owner always comes from the authenticated user, never from the body
+      const result = insertCompanySchema.safeParse({
+        ...req.body,
+        ownerId: dbUser.id
+      });
+      
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid company data", errors: result.error.errors });
+      }
+      
+      if (result.data.slug && await storage.getCompanyBySlug(result.data.slug)) {
+        return res.status(409).json({ message: "This public address is already in use" });
+      }
+      
+      // Create company
+      const company = await storage.createCompany({
+        ...result.data,
+        slug: result.data.slug || await generateCompanySlug(result.data.name),
+        ownerId: dbUser.id
+      });
+      
+      await storage.createCompanyMember({ companyId: company.id, userId: dbUser.id, role: "owner" });
+      await recordAudit(req, { companyId: company.id, entityType: "company", entityId: company.id, action: "create", after: company });
+      await recordRevision({ companyId: company.id, entityType: "company", entityId: company.id, after: company, createdBy: dbUser.id });
+      
+      res.status(201).json({ ...company, role: "owner" });
+    } catch (error) {
+      console.error("Error creating company:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  route(app, apiContracts.updateCompany, authenticate, async (req, res) => {
+    try {
+      const companyId = parseInt(req.params.id);
+      
+      if (isNaN(companyId)) {
+        return res.status(400).json({ message: "Invalid company ID" });
+      }
+      
+      // Check if user has the required role in the company
+      const access = await authorizeCompany(req, res, companyId, 'admin', "Not authorized to update this company");
+      
+      if (!access) return;
+      
+      // Ownership is never transferred through this endpoint
+      const result = insertCompanySchema.omit({ ownerId: true }).partial().safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid company data", errors: result.error.errors });
+      }
+      
+      const { slug } = result.data;
+      
+      if (slug && slug !== access.company.slug) {
+        const existing = await storage.getCompanyBySlug(slug);
+        
+        if (existing && existing.id !== companyId) {
+          return res.status(409).json({ message: "This public address is already in use" });
+        }
+      }
+      
+      // Companies created before public pages get a slug on their next update
+      const companyData = slug === undefined && access.company.slug
+        ? result.data
+        : { ...result.data, slug: slug || await generateCompanySlug(result.data.name ?? access.company.name) };
+      
+      // Update company
+      const updatedCompany = await storage.updateCompany(companyId, companyData);
+      await recordAudit(req, { companyId, entityType: "company", entityId: companyId, action: "update", before: access.company, after: updatedCompany });
+      
+      if (updatedCompany) {
+        await recordRevision({ companyId, entityType: "company", entityId: companyId, before: access.company, after: updatedCompany, createdBy: access.dbUser.id });
+      }
+      
+      res.json(updatedCompany);
+    } catch (error) {
+      console.error("Error updating company:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  route(app, apiContracts.deleteCompany, authenticate, async (req, res) => {
+    try {
+      const companyId = parseInt(req.params.id);
+      
+      if (isNaN(companyId)) {
+        return res.status(400).json({ message: "Invalid company ID" });
+      }
+      
+      // Only the owner can delete the company
+      const access = await authorizeCompany(req, res, companyId, 'owner', "Not authorized to delete this company");
+      
+      if (!access) return;
+      
+      // Delete company (this also deletes its services, job offers, applications, members, invitations and files)
+      await purgeCompany(companyId);
+      invalidateSearchIndex(companyId);
+      // The company's audit log went with it; only the id of the deleted company is kept
+      await recordAudit(req, { companyId: null, entityType: "company", entityId: companyId, action: "delete" });
+      
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting company:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // Service routes
+  route(app, apiContracts.getCompanyServices, authenticate, async (req, res) => {
+    try {
+      const companyId = parseInt(req.params.companyId);
+      
+      if (isNaN(companyId)) {
+        return res.status(400).json({ message: "Invalid company ID" });
+      }
+      
+      // Check if user has the required role in the company
+      const access = await authorizeCompany(req, res, companyId, 'viewer', "Not authorized to view services for this company");
+      
+      if (!access) return;
+      
+      const result = serviceListQuerySchema.safeParse(req.query);
+      
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid list parameters", errors: result.error.errors });
+      }
+      
+      const { cursor, categoryId, ...filter } = result.data;
+      const after = cursor ? decodeCursor(cursor, filter.sort) : undefined;
+      
+      if (after === null) {
+        return res.status(400).json({ message: "Invalid cursor" });
+      }
+      
+      // A category also lists the services of its subcategories
+      const categoryIds = categoryId
+        ? getCategoryDescendantIds(await storage.getCompanyServiceCategories(companyId), categoryId)
+        : undefined;
+      const page = await storage.listCompanyServices(companyId, { ...filter, after, categoryIds });
+      const now = new Date();
+      const items = (await withServiceImages(page.items)).map(service => ({
+        ...service,
+        openNow: effectiveOpeningHours(service, access.company, now).openNow
+      }));
+      
+      res.json({ ...page, items });
+    } catch (error) {
+      console.error("Error getting services:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  route(app, apiContracts.getService, authenticate, async (req, res) => {
+    try {
+      const serviceId = parseInt(req.params.id);
+      
+      if (isNaN(serviceId)) {
+        return res.status(400).json({ message: "Invalid service ID" });
+      }
+      
+      const service = await storage.getService(serviceId);
+      
+      if (!service || service.deletedAt) {
+        return res.status(404).json({ message: "Service not found" });
+      }
+      
+      // Check if user has the required role in the company
+      const access = await authorizeCompany(req, res, service.companyId, 'viewer', "Not authorized to view this service");
+      
+      if (!access) return;
+      
+      // Get service images
+      const images = await storage.getServiceImages(serviceId);
+      
+      res.json({
+        ...service,
+        images
+      });
+    } catch (error) {
+      console.error("Error getting service:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // Effective opening hours of a service, whether it is open now and the special days ahead
+  route(app, apiContracts.getServiceAvailability, authenticate, async (req, res) => {
+    try {
+      const serviceId = parseInt(req.params.id);
+      
+      if (isNaN(serviceId)) {
+        return res.status(400).json({ message: "Invalid service ID" });
+      }
+      
+      const service = await storage.getService(serviceId);
+      
+      if (!service || service.deletedAt) {
+        return res.status(404).json({ message: "Service not found" });
+      }
+      
+      // Check if user has the required role in the company
+      const access = await authorizeCompany(req, res, service.companyId, 'viewer', "Not authorized to view this service");
+      
+      if (!access) return;
+      
+      const now = new Date();
+      const { source, openingHours } = resolveOpeningHours(service, access.company);
+      const availability: ServiceAvailabilityResponse = {
+        source,
+        openingHours,
+        openNow: openingHours ? isOpenAt(openingHours, now) : null,
+        specialDays: openingHours ? getUpcomingSpecialDays(openingHours, now) : []
+      };
+      
+      res.json(availability);
+    } catch (error) {
+      console.error("Error getting service availability:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  route(app, apiContracts.createService, authenticate, async (req, res) => {
+    try {
+      const companyId = parseInt(req.params.companyId);
+      
+      if (isNaN(companyId)) {
+        return res.status(400).json({ message: "Invalid company ID" });
+      }
+      
+      // Check if user has the required role in the company
+      const access = await authorizeCompany(req, res, companyId, 'editor', "Not authorized to create services for this company");
+      
+      if (!access) return;
+      
+      const result = serviceFieldsSchema.safeParse({
+        ...req.body,
+        companyId
+      });
+      
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid service data", errors: result.error.errors });
+      }
+      
+      const pricingIssue = getServicePricingIssue(result.data);
+      
+      if (pricingIssue) {
+        return res.status(400).json({ message: "Invalid service pricing", errors: [pricingIssue] });
+      }
+      
+      if (!(await isCompanyCategory(companyId, result.data.categoryId))) {
+        return res.status(400).json({ message: "Invalid service category" });
+      }
+      
+      // Create service
+      const service = await storage.createService(result.data);
+      invalidateSearchIndex(companyId);
+      await recordAudit(req, { companyId, entityType: "service", entityId: service.id, action: "create", after: service });
+      await recordRevision({ companyId, entityType: "service", entityId: service.id, after: service, createdBy: access.dbUser.id });
+      
+      res.status(201).json({ ...service, images: [] });
+    } catch (error) {
+      console.error("Error creating service:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  route(app, apiContracts.updateService, authenticate, async (req, res) => {
+    try {
+      const serviceId = parseInt(req.params.id);
+      
+      if (isNaN(serviceId)) {
+        return res.status(400).json({ message: "Invalid service ID" });
+      }
+      
+      const service = await storage.getService(serviceId);
+      
+      if (!service || service.deletedAt) {
+        return res.status(404).json({ message: "Service not found" });
+      }
+      
+      // Check if user has the required role in the company
+      const access = await authorizeCompany(req, res, service.companyId, 'editor', "Not authorized to update this service");
+      
+      if (!access) return;
+      
+      // The company comes from the stored service; a companyId in the body is dropped
+      const result = serviceFieldsSchema.omit({ companyId: true }).partial().safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid service data", errors: result.error.errors });
+      }
+      
+      // Pricing fields are checked together, so a partial update is merged with the stored ones
+      const pricingIssue = getServicePricingIssue({ ...service, ...result.data });
+      
+      if (pricingIssue) {
+        return res.status(400).json({ message: "Invalid service pricing", errors: [pricingIssue] });
+      }
+      
+      if (!(await isCompanyCategory(service.companyId, result.data.categoryId))) {
+        return res.status(400).json({ message: "Invalid service category" });
+      }
+      
+      // Update service; choosing a pricing type or a schedule replaces the old free-text price or hours
+      const updatedService = await storage.updateService(serviceId, {
+        ...result.data,
+        ...(result.data.pricingType && { legacyPrice: null }),
+        ...(result.data.openingHours && { legacyWorkingHours: null })
+      });
+      
+      if (!updatedService) {
+        return res.status(404).json({ message: "Service not found" });
+      }
+      
+      invalidateSearchIndex(service.companyId);
+      await recordAudit(req, { companyId: service.companyId, entityType: "service", entityId: serviceId, action: "update", before: service, after: updatedService });
+      await recordRevision({ companyId: service.companyId, entityType: "service", entityId: serviceId, before: service, after: updatedService, createdBy: access.dbUser.id });
+      
+      // Get service images
+      const images = await storage.getServiceImages(serviceId);
+      
+      res.json({
+        ...updatedService,
+        images
+      });
+    } catch (error) {
+      console.error("Error updating service:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  route(app, apiContracts.deleteService, authenticate, async (req, res) => {
+    try {
+      const serviceId = parseInt(req.params.id);
+      
+      if (isNaN(serviceId)) {
+        return res.status(400).json({ message: "Invalid service ID" });
+      }
+      
+      const service = await storage.getService(serviceId);
+      
+      if (!service || service.deletedAt) {
+        return res.status(404).json({ message: "Service not found" });
+      }
+      
+      // Check if user has the required role in the company
+      const access = await authorizeCompany(req, res, service.companyId, 'editor', "Not authorized to delete this service");
+      
+      if (!access) return;
+      
+      // Move to the trash; images are kept until the service is purged
+      const trashedService = await storage.updateService(serviceId, { deletedAt: new Date() });
+      invalidateSearchIndex(service.companyId);
+      await recordAudit(req, { companyId: service.companyId, entityType: "service", entityId: serviceId, action: "delete", before: service, after: trashedService });
+      
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting service:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  route(app, apiContracts.restoreService, authenticate, async (req, res) => {
+    try {
+      const serviceId = parseInt(req.params.id);
+      
+      if (isNaN(serviceId)) {
+        return res.status(400).json({ message: "Invalid service ID" });
+      }
+      
+      const service = await storage.getService(serviceId);
+      
+      if (!service) {
+        return res.status(404).json({ message: "Service not found" });
+      }
+      
+      // Check if user has the required role in the company
+      const access = await authorizeCompany(req, res, service.companyId, 'editor', "Not authorized to restore this service");
+      
+      if (!access) return;
+      
+      if (!service.deletedAt) {
+        return res.status(409).json({ message: "Service is not in the trash" });
+      }
+      
+      const restoredService = await storage.updateService(serviceId, { deletedAt: null });
+      invalidateSearchIndex(service.companyId);
+      await recordAudit(req, { companyId: service.companyId, entityType: "service", entityId: serviceId, action: "restore", before: service, after: restoredService });
+      
+      res.json(restoredService);
+    } catch (error) {
+      console.error("Error restoring service:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  route(app, apiContracts.purgeService, authenticate, async (req, res) => {
+    try {
+      const serviceId = parseInt(req.params.id);
+      
+      if (isNaN(serviceId)) {
+        return res.status(400).json({ message: "Invalid service ID" });
+      }
+      
+      const service = await storage.getService(serviceId);
+      
+      if (!service) {
+        return res.status(404).json({ message: "Service not found" });
+      }
+      
+      // Emptying the trash cannot be undone, so it needs a higher role than deleting
+      const access = await authorizeCompany(req, res, service.companyId, 'admin', "Not authorized to permanently delete this service");
+      
+      if (!access) return;
+      
+      if (!service.deletedAt) {
+        return res.status(409).json({ message: "Only services in the trash can be permanently deleted" });
+      }
+      
+      // Delete service (this also deletes images), then the image files
+      await purgeService(serviceId);
+      await recordAudit(req, { companyId: service.companyId, entityType: "service", entityId: serviceId, action: "purge", before: service });
+      
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error permanently deleting service:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // Service category routes: a tree of up to MAX_SERVICE_CATEGORY_DEPTH levels per company
+  route(app, apiContracts.getServiceCategories, authenticate, async (req, res) => {
+    try {
+      const companyId = parseInt(req.params.companyId);
+      
+      if (isNaN(companyId)) {
+        return res.status(400).json({ message: "Invalid company ID" });
+      }
+      
+      // Check if user has the required role in the company
+      const access = await authorizeCompany(req, res, companyId, 'viewer', "Not authorized to view the service categories of this company");
+      
+      if (!access) return;
+      
+      const [categories, services] = await Promise.all([
+        storage.getCompanyServiceCategories(companyId),
+        storage.getCompanyServices(companyId)
+      ]);
+      
+      res.json(categories
+        .map(category => ({
+          ...category,
+          serviceCount: services.filter(service => service.categoryId === category.id).length
+        }))
+        .sort((a, b) => a.name.localeCompare(b.name, "pt")));
+    } catch (error) {
+      console.error("Error getting service categories:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  route(app, apiContracts.createServiceCategory, authenticate, async (req, res) => {
+    try {
+      const companyId = parseInt(req.params.companyId);
+      
+      if (isNaN(companyId)) {
+        return res.status(400).json({ message: "Invalid company ID" });
+      }
+      
+      // Check if user has the required role in the company
+      const access = await authorizeCompany(req, res, companyId, 'editor', "Not authorized to create service categories for this company");
+      
+      if (!access) return;
+      
+      const result = serviceCategoryFieldsSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid category data", errors: result.error.errors });
+      }
+      
+      const parentId = result.data.parentId ?? null;
+      const categories = await storage.getCompanyServiceCategories(companyId);
+      const parentIssue = parentId !== null ? getCategoryParentIssue(categories, parentId) : null;
+      
+      if (parentIssue) {
+        return res.status(400).json({ message: parentIssue });
+      }
+      
+      if (hasSiblingNamed(categories, parentId, result.data.name)) {
+        return res.status(409).json({ message: "A category with this name already exists at this level" });
+      }
+      
+      const category = await storage.createServiceCategory({ ...result.data, parentId, companyId });
+      await recordAudit(req, { companyId, entityType: "service_category", entityId: category.id, action: "create", after: category });
+      
+      res.status(201).json({ ...category, serviceCount: 0 });
+    } catch (error) {
+      console.error("Error creating service category:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // Renames a category or moves it, with its subcategories, under another parent
+  route(app, apiContracts.updateServiceCategory, authenticate, async (req, res) => {
+    try {
+      const categoryId = parseInt(req.params.id);
+      
+      if (isNaN(categoryId)) {
+        return res.status(400).json({ message: "Invalid category ID" });
+      }
+      
+      const category = await storage.getServiceCategory(categoryId);
+      
+      if (!category) {
+        return res.status(404).json({ message: "Category not found" });
+      }
+      
+      // Check if user has the required role in the company
+      const access = await authorizeCompany(req, res, category.companyId, 'editor', "Not authorized to update this category");
+      
+      if (!access) return;
+      
+      const result = serviceCategoryFieldsSchema.partial().safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid category data", errors: result.error.errors });
+      }
+      
+      const categories = await storage.getCompanyServiceCategories(category.companyId);
+      const parentId = result.data.parentId !== undefined ? result.data.parentId : category.parentId;
+      const parentIssue = parentId !== null && parentId !== category.parentId
+        ? getCategoryParentIssue(categories, parentId, category)
+        : null;
+      
+      if (parentIssue) {
+        return res.status(400).json({ message: parentIssue });
+      }
+      
+      if (hasSiblingNamed(categories, parentId, result.data.name ?? category.name, categoryId)) {
+        return res.status(409).json({ message: "A category with this name already exists at this level" });
+      }
+      
+      const updatedCategory = await storage.updateServiceCategory(categoryId, result.data);
+      await recordAudit(req, { companyId: category.companyId, entityType: "service_category", entityId: categoryId, action: "update", before: category, after: updatedCategory });
+      
+      res.json(updatedCategory);
+    } catch (error) {
+      console.error("Error updating service category:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // Subcategories and services of a deleted category move up to its parent
+  route(app, apiContracts.deleteServiceCategory, authenticate, async (req, res) => {
+    try {
+      const categoryId = parseInt(req.params.id);
+      
+      if (isNaN(categoryId)) {
+        return res.status(400).json({ message: "Invalid category ID" });
+      }
+      
+      const category = await storage.getServiceCategory(categoryId);
+      
+      if (!category) {
+        return res.status(404).json({ message: "Category not found" });
+      }
+      
+      // Check if user has the required role in the company
+      const access = await authorizeCompany(req, res, category.companyId, 'editor', "Not authorized to delete this category");
+      
+      if (!access) return;
+      
+      await storage.deleteServiceCategory(categoryId);
+      await recordAudit(req, { companyId: category.companyId, entityType: "service_category", entityId: categoryId, action: "delete", before: category });
+      
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting service category:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // Service tags are free text on each service; these routes list, rename and remove them company-wide
+  route(app, apiContracts.getServiceTags, authenticate, async (req, res) => {
+    try {
+      const companyId = parseInt(req.params.companyId);
+      
+      if (isNaN(companyId)) {
+        return res.status(400).json({ message: "Invalid company ID" });
+      }
+      
+      // Check if user has the required role in the company
+      const access = await authorizeCompany(req, res, companyId, 'viewer', "Not authorized to view the service tags of this company");
+      
+      if (!access) return;
+      
+      res.json(await getServiceTags(companyId));
+    } catch (error) {
+      console.error("Error getting service tags:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // Renaming to a tag that already exists merges both
+  route(app, apiContracts.renameServiceTag, authenticate, async (req, res) => {
+    try {
+      const companyId = parseInt(req.params.companyId);
+      
+      if (isNaN(companyId)) {
+        return res.status(400).json({ message: "Invalid company ID" });
+      }
+      
+      // Check if user has the required role in the company
+      const access = await authorizeCompany(req, res, companyId, 'editor', "Not authorized to update the service tags of this company");
+      
+      if (!access) return;
+      
+      const tag = serviceTagSchema.safeParse(req.params.tag);
+      const result = renameServiceTagSchema.safeParse(req.body);
+      
+      if (!tag.success || !result.success) {
+        return res.status(400).json({ message: "Invalid tag", errors: [...(tag.error?.errors ?? []), ...(result.error?.errors ?? [])] });
+      }
+      
+      const changed = await replaceServiceTag(req, companyId, access.dbUser.id, tag.data, result.data.name);
+      
+      if (changed === 0) {
+        return res.status(404).json({ message: "Tag not found" });
+      }
+      
+      res.json(await getServiceTags(companyId));
+    } catch (error) {
+      console.error("Error renaming service tag:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  route(app, apiContracts.deleteServiceTag, authenticate, async (req, res) => {
+    try {
+      const companyId = parseInt(req.params.companyId);
+      
+      if (isNaN(companyId)) {
+        return res.status(400).json({ message: "Invalid company ID" });
+      }
+      
+      // Check if user has the required role in the company
+      const access = await authorizeCompany(req, res, companyId, 'editor', "Not authorized to update the service tags of this company");
+      
+      if (!access) return;
+      
+      const tag = serviceTagSchema.safeParse(req.params.tag);
+      
+      if (!tag.success) {
+        return res.status(400).json({ message: "Invalid tag", errors: tag.error.errors });
+      }
+      
+      const changed = await replaceServiceTag(req, companyId, access.dbUser.id, tag.data, null);
+      
+      if (changed === 0) {
+        return res.status(404).json({ message: "Tag not found" });
+      }
+      
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting service tag:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Service Images routes
+  route(app, apiContracts.addServiceImage, authenticate, async (req, res) => {
+    try {
+      const serviceId = parseInt(req.params.serviceId);
+      
+      if (isNaN(serviceId)) {
+        return res.status(400).json({ message: "Invalid service ID" });
+      }
+      
+      const service = await storage.getService(serviceId);
+      
+      if (!service || service.deletedAt) {
+        return res.status(404).json({ message: "Service not found" });
+      }
+      
+      // Check if user has the required role in the company
+      const access = await authorizeCompany(req, res, service.companyId, 'editor', "Not authorized to add images to this service");
+      
+      if (!access) return;
+      
+      const result = insertServiceImageSchema.safeParse({
+        serviceId,
+        url: req.body.url,
+        altText: req.body.altText || null
+      });
+      
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid image data", errors: result.error.errors });
+      }
+      
+      // Create image
+      const image = await storage.createServiceImage({
+        ...result.data,
+        ...(await nextServiceImagePlacement(serviceId))
+      });
+      await recordAudit(req, { companyId: service.companyId, entityType: "service_image", entityId: image.id, action: "create", after: image });
+      
+      res.status(201).json(image);
+    } catch (error) {
+      console.error("Error adding service image:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  route(app, apiContracts.uploadServiceImage, authenticate, async (req, res) => {
+    try {
+      const serviceId = parseInt(req.params.serviceId);
+      
+      if (isNaN(serviceId)) {
+        return res.status(400).json({ message: "Invalid service ID" });
+      }
+      
+      const service = await storage.getService(serviceId);
+      
+      if (!service || service.deletedAt) {
+        return res.status(404).json({ message: "Service not found" });
+      }
+      
+      // Check if user has the required role in the company
+      const access = await authorizeCompany(req, res, service.companyId, 'editor', "Not authorized to add images to this service");
+      
+      if (!access) return;
+      
+      if (!(await receiveFile(serviceImageUpload, req, res, "Image must be at most 10 MB"))) return;
+      
+      const file = req.file;
+      
+      if (!file) {
+        return res.status(400).json({ message: "Image file is required" });
+      }
+      
+      if (!SERVICE_IMAGE_CONTENT_TYPES.includes(file.mimetype)) {
+        return res.status(400).json({ message: "Image must be a JPEG, PNG or WebP file" });
+      }
+      
+      const altText = updateServiceImageSchema.shape.altText.safeParse(req.body.altText || null);
+      
+      if (!altText.success) {
+        return res.status(400).json({ message: "Invalid image data", errors: altText.error.errors });
+      }
+      
+      let processed;
+      
+      try {
+        // Re-encoding strips EXIF and other metadata from the original file
+        processed = await processImage(file.buffer);
+      } catch (error) {
+        if (error instanceof InvalidImageError) {
+          return res.status(400).json({ message: "Image must be a valid JPEG, PNG or WebP file" });
+        }
+        throw error;
+      }
+      
+      const baseKey = `public/companies/${service.companyId}/services/${serviceId}/${randomBytes(16).toString("hex")}`;
+      const stored = await Promise.all(processed.map(async ({ variant, data, width, height }) => {
+        const key = `${baseKey}-${variant}.${PROCESSED_IMAGE_EXTENSION}`;
+        const url = await blobStore.putPublic(key, data, PROCESSED_IMAGE_CONTENT_TYPE);
+        return [variant, { key, url, width, height }] as const;
+      }));
+      const variants = Object.fromEntries(stored) as ServiceImageVariants;
+      
+      // The large variant is the image shown by default
+      const image = await storage.createServiceImage({
+        serviceId,
+        url: variants.large.url,
+        variants,
+        altText: altText.data || null,
+        ...(await nextServiceImagePlacement(serviceId))
+      });
+      await recordAudit(req, { companyId: service.companyId, entityType: "service_image", entityId: image.id, action: "create", after: image });
+      
+      res.status(201).json(image);
+    } catch (error) {
+      console.error("Error uploading service image:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  route(app, apiContracts.reorderServiceImages, authenticate, async (req, res) => {
+    try {
+      const serviceId = parseInt(req.params.serviceId);
+      
+      if (isNaN(serviceId)) {
+        return res.status(400).json({ message: "Invalid service ID" });
+      }
+      
+      const service = await storage.getService(serviceId);
+      
+      if (!service || service.deletedAt) {
+        return res.status(404).json({ message: "Service not found" });
+      }
+      
+      // Check if user has the required role in the company
+      const access = await authorizeCompany(req, res, service.companyId, 'editor', "Not authorized to reorder images of this service");
+      
+      if (!access) return;
+      
+      const result = reorderServiceImagesSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid image order", errors: result.error.errors });
+      }
+      
+      // The new order must list every image of the service exactly once
+      const images = await storage.getServiceImages(serviceId);
+      const { imageIds } = result.data;
+      const currentIds = new Set(images.map(image => image.id));
+      
+      if (imageIds.length !== currentIds.size || new Set(imageIds).size !== imageIds.length || !imageIds.every(id => currentIds.has(id))) {
+        return res.status(400).json({ message: "Image order must list every image of the service once" });
+      }
+      
+      await storage.reorderServiceImages(serviceId, imageIds);
+      await recordAudit(req, {
+        companyId: service.companyId,
+        entityType: "service",
+        entityId: serviceId,
+        action: "update",
+        before: { imageOrder: images.map(image => image.id) },
+        after: { imageOrder: imageIds }
+      });
+      
+      res.json(await storage.getServiceImages(serviceId));
+    } catch (error) {
+      console.error("Error reordering service images:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  route(app, apiContracts.updateServiceImage, authenticate, async (req, res) => {
+    try {
+      const imageId = parseInt(req.params.id);
+      
+      if (isNaN(imageId)) {
+        return res.status(400).json({ message: "Invalid image ID" });
+      }
+      
+      const image = await storage.getServiceImage(imageId);
+      
+      if (!image) {
+        return res.status(404).json({ message: "Image not found" });
+      }
+      
+      // Get service to find company
+      const service = await storage.getService(image.serviceId);
+      
+      if (!service || service.deletedAt) {
+        return res.status(404).json({ message: "Service not found" });
+      }
+      
+      // Check if user has the required role in the company
+      const access = await authorizeCompany(req, res, service.companyId, 'editor', "Not authorized to update this image");
+      
+      if (!access) return;
+      
+      const result = updateServiceImageSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid image data", errors: result.error.errors });
+      }
+      
+      const { altText, isCover } = result.data;
+      
+      if (altText !== undefined) {
+        await storage.updateServiceImage(imageId, { altText: altText || null });
+      }
+      
+      if (isCover) {
+        await storage.setServiceCoverImage(service.id, imageId);
+      }
+      
+      const updatedImage = await storage.getServiceImage(imageId);
+      await recordAudit(req, { companyId: service.companyId, entityType: "service_image", entityId: imageId, action: "update", before: image, after: updatedImage });
+      
+      res.json(updatedImage);
+    } catch (error) {
+      console.error("Error updating service image:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  route(app, apiContracts.deleteServiceImage, authenticate, async (req, res) => {
+    try {
+      const imageId = parseInt(req.params.id);
+      
+      if (isNaN(imageId)) {
+        return res.status(400).json({ message: "Invalid image ID" });
+      }
+      
+      const image = await storage.getServiceImage(imageId);
+      
+      if (!image) {
+        return res.status(404).json({ message: "Image not found" });
+      }
+      
+      // Get service to find company
+      const service = await storage.getService(image.serviceId);
+      
+      if (!service || service.deletedAt) {
+        return res.status(404).json({ message: "Service not found" });
+      }
+      
+      // Check if user has the required role in the company
+      const access = await authorizeCompany(req, res, service.companyId, 'editor', "Not authorized to delete this image");
+      
+      if (!access) return;
+      
+      // Delete the record first so a failed blob cleanup never leaves a broken image listed
+      await storage.deleteServiceImage(imageId);
+      await recordAudit(req, { companyId: service.companyId, entityType: "service_image", entityId: imageId, action: "delete", before: image });
+      await deleteServiceImageFiles(image);
+      
+      // The next image in order takes over as cover
+      if (image.isCover) {
+        const [nextCover] = await storage.getServiceImages(service.id);
+        
+        if (nextCover) {
+          await storage.setServiceCoverImage(service.id, nextCover.id);
+        }
+      }
+      
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting service image:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // Job Offers routes
+  route(app, apiContracts.getCompanyJobOffers, authenticate, async (req, res) => {
+    try {
+      const companyId = parseInt(req.params.companyId);
+      
+      if (isNaN(companyId)) {
+        return res.status(400).json({ message: "Invalid company ID" });
+      }
+      
+      // Check if user has the required role in the company
+      const access = await authorizeCompany(req, res, companyId, 'viewer', "Not authorized to view job offers for this company");
+      
+      if (!access) return;
+      
+      const result = jobOfferListQuerySchema.safeParse(req.query);
+      
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid list parameters", errors: result.error.errors });
+      }
+      
+      const { cursor, ...filter } = result.data;
+      const after = cursor ? decodeCursor(cursor, filter.sort) : undefined;
+      
+      if (after === null) {
+        return res.status(400).json({ message: "Invalid cursor" });
+      }
+      
+      res.json(await storage.listCompanyJobOffers(companyId, { ...filter, after }));
+    } catch (error) {
+      console.error("Error getting job offers:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  route(app, apiContracts.getJobOffer, authenticate, async (req, res) => {
+    try {
+      const jobOfferId = parseInt(req.params.id);
+      
+      if (isNaN(jobOfferId)) {
+        return res.status(400).json({ message: "Invalid job offer ID" });
+      }
+      
+      const jobOffer = await storage.getJobOffer(jobOfferId);
+      
+      if (!jobOffer || jobOffer.deletedAt) {
+        return res.status(404).json({ message: "Job offer not found" });
+      }
+      
+      // Check if user has the required role in the company
+      const access = await authorizeCompany(req, res, jobOffer.companyId, 'viewer', "Not authorized to view this job offer");
+      
+      if (!access) return;
+      
+      res.json(jobOffer);
+    } catch (error) {
+      console.error("Error getting job offer:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  route(app, apiContracts.createJobOffer, authenticate, async (req, res) => {
+    try {
+      const companyId = parseInt(req.params.companyId);
+      
+      if (isNaN(companyId)) {
+        return res.status(400).json({ message: "Invalid company ID" });
+      }
+      
+      // Check if user has the required role in the company
+      const access = await authorizeCompany(req, res, companyId, 'editor', "Not authorized to create job offers for this company");
+      
+      if (!access) return;
+      
+      const result = jobOfferFieldsSchema.safeParse({
+        ...req.body,
+        companyId
+      });
+      
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid job offer data", errors: result.error.errors });
+      }
+      
+      if (isPastExpiry(result.data.expiresAt)) {
+        return res.status(400).json({ message: "Expiry date must be in the future" });
+      }
+      
+      // New job offers start as drafts until they are published
+      const jobOffer = await storage.createJobOffer({ ...result.data, status: "draft" });
+      invalidateSearchIndex(companyId);
+      await recordAudit(req, { companyId, entityType: "job_offer", entityId: jobOffer.id, action: "create", after: jobOffer });
+      await recordRevision({ companyId, entityType: "job_offer", entityId: jobOffer.id, after: jobOffer, createdBy: access.dbUser.id });
+      
+      res.status(201).json(jobOffer);
+    } catch (error) {
+      console.error("Error creating job offer:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  route(app, apiContracts.updateJobOffer, authenticate, async (req, res) => {
+    try {
+      const jobOfferId = parseInt(req.params.id);
+      
+      if (isNaN(jobOfferId)) {
+        return res.status(400).json({ message: "Invalid job offer ID" });
+      }
+      
+      const jobOffer = await storage.getJobOffer(jobOfferId);
+      
+      if (!jobOffer || jobOffer.deletedAt) {
+        return res.status(404).json({ message: "Job offer not found" });
+      }
+      
+      // Check if user has the required role in the company
+      const access = await authorizeCompany(req, res, jobOffer.companyId, 'editor', "Not authorized to update this job offer");
+      
+      if (!access) return;
+      
+      const result = jobOfferFieldsSchema.omit({ companyId: true }).partial().safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid job offer data", errors: result.error.errors });
+      }
+      
+      if (isPastExpiry(result.data.expiresAt)) {
+        return res.status(400).json({ message: "Expiry date must be in the future" });
+      }
+      
+      // Update job offer
+      const updatedJobOffer = await storage.updateJobOffer(jobOfferId, result.data);
+      invalidateSearchIndex(jobOffer.companyId);
+      await recordAudit(req, { companyId: jobOffer.companyId, entityType: "job_offer", entityId: jobOfferId, action: "update", before: jobOffer, after: updatedJobOffer });
+      
+      if (updatedJobOffer) {
+        await recordRevision({ companyId: jobOffer.companyId, entityType: "job_offer", entityId: jobOfferId, before: jobOffer, after: updatedJobOffer, createdBy: access.dbUser.id });
+      }
+      
+      res.json(updatedJobOffer);
+    } catch (error) {
+      console.error("Error updating job offer:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // Job offer lifecycle: draft -> published <-> paused -> closed; closed offers can be republished
+  route(app, apiContracts.publishJobOffer, authenticate, (req, res) => changeJobOfferStatus(req, res, "published"));
+  
+  route(app, apiContracts.unpublishJobOffer, authenticate, (req, res) => changeJobOfferStatus(req, res, "paused"));
+  
+  route(app, apiContracts.closeJobOffer, authenticate, (req, res) => changeJobOfferStatus(req, res, "closed"));
+  
+  route(app, apiContracts.deleteJobOffer, authenticate, async (req, res) => {
+    try {
+      const jobOfferId = parseInt(req.params.id);
+      
+      if (isNaN(jobOfferId)) {
+        return res.status(400).json({ message: "Invalid job offer ID" });
+      }
+      
+      const jobOffer = await storage.getJobOffer(jobOfferId);
+      
+      if (!jobOffer || jobOffer.deletedAt) {
+        return res.status(404).json({ message: "Job offer not found" });
+      }
+      
+      // Check if user has the required role in the company
+      const access = await authorizeCompany(req, res, jobOffer.companyId, 'editor', "Not authorized to delete this job offer");
+      
+      if (!access) return;
+      
+      // Move to the trash; applications and CVs are kept until the offer is purged
+      const trashedJobOffer = await storage.updateJobOffer(jobOfferId, { deletedAt: new Date() });
+      invalidateSearchIndex(jobOffer.companyId);
+      await recordAudit(req, { companyId: jobOffer.companyId, entityType: "job_offer", entityId: jobOfferId, action: "delete", before: jobOffer, after: trashedJobOffer });
+      
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting job offer:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  route(app, apiContracts.restoreJobOffer, authenticate, async (req, res) => {
+    try {
+      const jobOfferId = parseInt(req.params.id);
+      
+      if (isNaN(jobOfferId)) {
+        return res.status(400).json({ message: "Invalid job offer ID" });
+      }
+      
+      const jobOffer = await storage.getJobOffer(jobOfferId);
+      
+      if (!jobOffer) {
+        return res.status(404).json({ message: "Job offer not found" });
+      }
+      
+      // Check if user has the required role in the company
+      const access = await authorizeCompany(req, res, jobOffer.companyId, 'editor', "Not authorized to restore this job offer");
+      
+      if (!access) return;
+      
+      if (!jobOffer.deletedAt) {
+        return res.status(409).json({ message: "Job offer is not in the trash" });
+      }
+      
+      const restoredJobOffer = await storage.updateJobOffer(jobOfferId, { deletedAt: null });
+      invalidateSearchIndex(jobOffer.companyId);
+      await recordAudit(req, { companyId: jobOffer.companyId, entityType: "job_offer", entityId: jobOfferId, action: "restore", before: jobOffer, after: restoredJobOffer });
+      
+      res.json(restoredJobOffer);
+    } catch (error) {
+      console.error("Error restoring job offer:", error);
+      res.status(500).json({ message: "Internal server error" });
     }
-    
-    const dbUser = await storage.getUserByUid(req.user.uid);
-    
-    if (!dbUser) {
-      // Create the user if not found
-      const userData = await getUserData(req.user.uid);
+  });
+  
+  route(app, apiContracts.purgeJobOffer, authenticate, async (req, res) => {
+    try {
+      const jobOfferId = parseInt(req.params.id);
+      
+      if (isNaN(jobOfferId)) {
+        return res.status(400).json({ message: "Invalid job offer ID" });
+      }
+      
+      const jobOffer = await storage.getJobOffer(jobOfferId);
+      
+      if (!jobOffer) {
+        return res.status(404).json({ message: "Job offer not found" });
+      }
+      
+      // Emptying the trash cannot be undone, so it needs a higher role than deleting
+      const access = await authorizeCompany(req, res, jobOffer.companyId, 'admin', "Not authorized to permanently delete this job offer");
+      
+      if (!access) return;
+      
+      if (!jobOffer.deletedAt) {
+        return res.status(409).json({ message: "Only job offers in the trash can be permanently deleted" });
+      }
+      
+      // Delete job offer (this also deletes its applications), then the applicants' CV files
+      await purgeJobOffer(jobOfferId);
+      await recordAudit(req, { companyId: jobOffer.companyId, entityType: "job_offer", entityId: jobOfferId, action: "purge", before: jobOffer });
+      
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error permanently deleting job offer:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // Trash: deleted services and job offers, until they are restored or purged
+  route(app, apiContracts.getCompanyTrash, authenticate, async (req, res) => {
+    try {
+      const companyId = parseInt(req.params.companyId);
+      
+      if (isNaN(companyId)) {
+        return res.status(400).json({ message: "Invalid company ID" });
+      }
+      
+      // Check if user has the required role in the company
+      const access = await authorizeCompany(req, res, companyId, 'viewer', "Not authorized to view the trash of this company");
+      
+      if (!access) return;
+      
+      const { services, jobOffers } = await storage.getCompanyTrash(companyId);
+      
+      // Most recently deleted first
+      const byDeletedAt = (a: { deletedAt: Date | null }, b: { deletedAt: Date | null }) =>
+        (b.deletedAt?.getTime() ?? 0) - (a.deletedAt?.getTime() ?? 0);
+      
+      res.json({
+        retentionDays: trashRetentionDays,
+        services: services.sort(byDeletedAt),
+        jobOffers: jobOffers.sort(byDeletedAt)
+      });
+    } catch (error) {
+      console.error("Error getting trash:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // Audit log of a company, newest first, optionally narrowed to one entity
+  route(app, apiContracts.getCompanyAuditLogs, authenticate, async (req, res) => {
+    try {
+      const companyId = parseInt(req.params.companyId);
+      
+      if (isNaN(companyId)) {
+        return res.status(400).json({ message: "Invalid company ID" });
+      }
+      
+      // Check if user has the required role in the company
+      const access = await authorizeCompany(req, res, companyId, 'viewer', "Not authorized to view the activity of this company");
+      
+      if (!access) return;
       
-      if (!userData) {
-        res.status(404).json({ message: "User not found" });
-        return null;
+      const result = auditLogQuerySchema.safeParse(req.query);
+      
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid filters", errors: result.error.errors });
       }
       
-      // Create user in database
-      const newUser = await storage.createUser({
-        uid: req.user.uid,
-        email: req.user.email || "",
-        displayName: userData.displayName || null,
-        photoURL: userData.photoURL || null
+      const { page, pageSize, ...filters } = result.data;
+      const { entries, total } = await storage.getAuditLogs(companyId, {
+        ...filters,
+        limit: pageSize,
+        offset: (page - 1) * pageSize
       });
       
-      return newUser;
+      // Where the request came from is only shown to admins
+      const canSeeRequestDetails = hasCompanyRole(access.role, "admin");
+      
+      res.json({
+        entries: canSeeRequestDetails
+          ? entries
+          : entries.map(entry => ({ ...entry, ipAddress: null, userAgent: null })),
+        total,
+        page,
+        pageSize
+      });
+    } catch (error) {
+      console.error("Error getting audit logs:", error);
+      res.status(500).json({ message: "Internal server error" });
     }
-    
-    return dbUser;
-  } catch (error) {
-    console.error("Error finding user:", error);
-    throw error;
-  }
-}
+  });
 
-export async function registerRoutes(app: Express): Promise<Server> {
-  // Authentication routes
-  app.get("/api/auth/me", authenticate, async (req, res) => {
+  // Search over the services and job offers of a company, ignoring case and accents
+  route(app, apiContracts.searchCompany, authenticate, async (req, res) => {
     try {
-      // req.user comes from the authenticate middleware
-      const userData = await getUserData(req.user.uid);
-      res.json(userData);
+      const companyId = parseInt(req.params.companyId);
+      
+      if (isNaN(companyId)) {
+        return res.status(400).json({ message: "Invalid company ID" });
+      }
+      
+      // Check if user has the required role in the company
+      const access = await authorizeCompany(req, res, companyId, 'viewer', "Not authorized to search this company");
+      
+      if (!access) return;
+      
+      const result = searchQuerySchema.safeParse(req.query);
+      
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid search parameters", errors: result.error.errors });
+      }
+      
+      const results = await searchCompany(companyId, result.data.q, result.data.limit);
+      
+      res.json({ results });
     } catch (error) {
-      console.error("Error getting user data:", error);
+      console.error("Error searching company:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // User profile routes
-  app.put("/api/user/profile", authenticate, async (req, res) => {
+  // Revisions: every save of a company profile, service or job offer keeps an immutable copy of its fields
+  route(app, apiContracts.getCompanyRevisions, authenticate, (req, res) => listRevisions(req, res, "company"));
+  
+  route(app, apiContracts.getServiceRevisions, authenticate, (req, res) => listRevisions(req, res, "service"));
+  
+  route(app, apiContracts.getJobOfferRevisions, authenticate, (req, res) => listRevisions(req, res, "job_offer"));
+  
+  // Fields that change when going from another revision (or the current state
+  // when compareTo is not given) to this one
+  route(app, apiContracts.getRevisionDiff, authenticate, async (req, res) => {
     try {
-      const { displayName, photoURL } = req.body;
-      await updateUserData(req.user.uid, { displayName, photoURL });
+      const revisionId = parseInt(req.params.id);
+      const query = revisionDiffQuerySchema.safeParse(req.query);
       
-      // Also update in our database
-      const dbUser = await getUserByFirebaseUid(req, res);
+      if (isNaN(revisionId) || !query.success) {
+        return res.status(400).json({ message: "Invalid revision ID" });
+      }
       
-      if (dbUser && 'id' in dbUser) {
-        await storage.updateUser(dbUser.id, { 
-          displayName: displayName || null, 
-          photoURL: photoURL || null
-        });
+      const compareToId = query.data.compareTo ?? null;
+      
+      const revision = await storage.getRevision(revisionId);
+      const target = revision && await getRevisionTarget(revision.entityType, revision.entityId);
+      
+      if (!revision || !target) {
+        return res.status(404).json({ message: "Revision not found" });
       }
       
-      res.json({ success: true });
+      // Check if user has the required role in the company
+      const access = await authorizeCompany(req, res, target.companyId, 'viewer', "Not authorized to view the versions of this record");
+      
+      if (!access) return;
+      
+      let base = toSnapshot(revision.entityType, target.record);
+      
+      if (compareToId !== null) {
+        const compareTo = await storage.getRevision(compareToId);
+        
+        // Only versions of the same record can be compared
+        if (!compareTo || compareTo.entityType !== revision.entityType || compareTo.entityId !== revision.entityId) {
+          return res.status(404).json({ message: "Revision to compare with not found" });
+        }
+        
+        base = compareTo.snapshot;
+      }
+      
+      const [withAuthor] = await withRevisionAuthors([revision]);
+      
+      res.json({
+        revision: withAuthor,
+        compareTo: compareToId,
+        changes: diffRecords(base, revision.snapshot)
+      });
     } catch (error) {
-      console.error("Error updating user profile:", error);
+      console.error("Error comparing revisions:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // Restoring saves the fields of the revision as a new revision; older ones never change
+  route(app, apiContracts.restoreRevision, authenticate, async (req, res) => {
+    try {
+      const revisionId = parseInt(req.params.id);
+      
+      if (isNaN(revisionId)) {
+        return res.status(400).json({ message: "Invalid revision ID" });
+      }
+      
+      const revision = await storage.getRevision(revisionId);
+      const target = revision && await getRevisionTarget(revision.entityType, revision.entityId);
+      
+      if (!revision || !target) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+      
+      // Same roles as editing the record itself
+      const requiredRole = revision.entityType === "company" ? 'admin' : 'editor';
+      const access = await authorizeCompany(req, res, target.companyId, requiredRole, "Not authorized to restore this version");
+      
+      if (!access) return;
+      
+      const { entityType, entityId } = revision;
+      let restored: Company | Service | JobOffer | undefined;
+      
+      switch (entityType) {
+        case "company": {
+          const result = parseRevisionSnapshot(revisionFieldSchemas.company, revision.snapshot);
+          
+          if (!result.success) {
+            return res.status(400).json({ message: "This version can no longer be restored", errors: result.errors });
+          }
+          
+          const { slug } = result.data;
+          
+          if (slug && slug !== access.company.slug) {
+            const existing = await storage.getCompanyBySlug(slug);
+            
+            if (existing && existing.id !== entityId) {
+              return res.status(409).json({ message: "The public address of this version is now used by another company" });
+            }
+          }
+          
+          restored = await storage.updateCompany(entityId, result.data);
+          break;
+        }
+        case "service": {
+          const result = parseRevisionSnapshot(revisionFieldSchemas.service, revision.snapshot);
+          
+          if (!result.success) {
+            return res.status(400).json({ message: "This version can no longer be restored", errors: result.errors });
+          }
+          
+          const pricingIssue = getServicePricingIssue({ ...target.record, ...result.data });
+          
+          if (pricingIssue) {
+            return res.status(400).json({ message: "This version can no longer be restored", errors: [pricingIssue] });
+          }
+          
+          // A category deleted since then leaves the service uncategorized
+          const categoryExists = await isCompanyCategory(target.companyId, result.data.categoryId);
+          
+          restored = await storage.updateService(entityId, { ...result.data, ...(!categoryExists && { categoryId: null }) });
+          break;
+        }
+        case "job_offer": {
+          const result = parseRevisionSnapshot(revisionFieldSchemas.job_offer, revision.snapshot);
+          
+          if (!result.success) {
+            return res.status(400).json({ message: "This version can no longer be restored", errors: result.errors });
+          }
+          
+          if (isPastExpiry(result.data.expiresAt)) {
+            return res.status(400).json({ message: "The expiry date of this version has already passed" });
+          }
+          
+          restored = await storage.updateJobOffer(entityId, result.data);
+          break;
+        }
+      }
+      
+      if (!restored) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+      
+      if (entityType !== "company") {
+        invalidateSearchIndex(target.companyId);
+      }
+      
+      await recordAudit(req, { companyId: target.companyId, entityType, entityId, action: "update", before: target.record, after: restored });
+      await recordRevision({ companyId: target.companyId, entityType, entityId, before: target.record, after: restored, createdBy: access.dbUser.id });
+      
+      res.json(restored);
+    } catch (error) {
+      console.error("Error restoring revision:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // User settings routes
-  app.post("/api/user/settings", authenticate, async (req, res) => {
+  // Public routes: no authentication, only companies marked as public
+  route(app, apiContracts.getPublicCompany, async (req, res) => {
     try {
-      const data = req.body;
-      await updateUserData(req.user.uid, data);
-      res.json({ success: true });
+      const company = await getPublicCompany(req.params.slug);
+      
+      if (!company) {
+        return res.status(404).json({ message: "Company not found" });
+      }
+      
+      res.json(await getPublicCompanyProfile(company));
     } catch (error) {
-      console.error("Error updating user settings:", error);
+      console.error("Error getting public company:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
   
-  // Company routes
-  app.get("/api/companies", authenticate, async (req, res) => {
+  // Server-rendered public page, so it works without the dashboard bundle and can be indexed
+  app.get("/c/:slug", async (req, res) => {
     try {
-      const dbUser = await getUserByFirebaseUid(req, res);
+      const company = await getPublicCompany(req.params.slug);
       
-      if (!dbUser || !('id' in dbUser)) {
-        return res.status(404).json({ 
-          message: "User not found",
-          error: "User not found in database"
-        });
+      if (!company) {
+        return res.status(404).type("html").send(renderPublicNotFoundPage());
       }
       
-      const companies = await storage.getUserCompanies(dbUser.id);
-      res.json(companies);
+      res.type("html").send(renderPublicCompanyPage(await getPublicCompanyProfile(company)));
     } catch (error) {
-      console.error("Error getting companies:", error);
-      res.status(500).json({ 
-        message: "Internal server error",
-        error: error instanceof Error ? error.message : "Failed to fetch companies"
+      console.error("Error rendering public company page:", error);
+      res.status(500).type("html").send("Internal server error");
+    }
+  });
+  
+  // Job application routes
+  
+  // Public: candidates apply without an account, sending the form as multipart
+  route(app, apiContracts.applyToJobOffer, async (req, res) => {
+    try {
+      const jobOfferId = parseInt(req.params.id);
+      
+      if (isNaN(jobOfferId)) {
+        return res.status(400).json({ message: "Invalid job offer ID" });
+      }
+      
+      const jobOffer = await storage.getJobOffer(jobOfferId);
+      
+      if (!jobOffer || jobOffer.deletedAt) {
+        return res.status(404).json({ message: "Job offer not found" });
+      }
+      
+      // Offers of companies without a public page are not visible to candidates
+      const company = await storage.getCompany(jobOffer.companyId);
+      
+      if (!company?.isPublic) {
+        return res.status(404).json({ message: "Job offer not found" });
+      }
+      
+      if (!isOpenJobOffer(jobOffer)) {
+        return res.status(409).json({ message: "This job offer is not accepting applications" });
+      }
+      
+      if (!(await receiveFile(cvUpload, req, res, "CV file must be at most 5 MB"))) return;
+      
+      const result = applyToJobOfferSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid application data", errors: result.error.errors });
+      }
+      
+      const cv = req.file;
+      
+      if (!cv) {
+        return res.status(400).json({ message: "CV file is required" });
+      }
+      
+      const extension = CV_CONTENT_TYPES[cv.mimetype];
+      
+      if (!extension) {
+        return res.status(400).json({ message: "CV must be a PDF or Word document" });
+      }
+      
+      const email = result.data.email.toLowerCase();
+      const existingApplications = await storage.getJobOfferApplications(jobOfferId);
+      
+      if (existingApplications.some(application => application.email === email)) {
+        return res.status(409).json({ message: "An application with this email already exists for this job offer" });
+      }
+      
+      const cvKey = `companies/${jobOffer.companyId}/applications/${randomBytes(16).toString("hex")}.${extension}`;
+      await blobStore.put(cvKey, cv.buffer, cv.mimetype);
+      
+      const application = await storage.createJobApplication({
+        jobOfferId,
+        companyId: jobOffer.companyId,
+        name: result.data.name,
+        email,
+        phone: result.data.phone || null,
+        coverLetter: result.data.coverLetter || null,
+        cvKey,
+        cvFileName: cv.originalname,
+        cvContentType: cv.mimetype,
+        cvSize: cv.size,
+        stage: "new"
+      });
+      
+      await storage.createJobApplicationStageChange({
+        applicationId: application.id,
+        toStage: "new"
       });
+      await recordAudit(req, { companyId: jobOffer.companyId, entityType: "job_application", entityId: application.id, action: "create", after: application });
+      
+      // Candidates only get confirmation that the application was received
+      res.status(201).json({ id: application.id, createdAt: application.createdAt });
+    } catch (error) {
+      console.error("Error creating job application:", error);
+      res.status(500).json({ message: "Internal server error" });
     }
   });
   
-  app.get("/api/companies/:id", authenticate, async (req, res) => {
+  route(app, apiContracts.getJobOfferApplications, authenticate, async (req, res) => {
     try {
-      const companyId = parseInt(req.params.id);
+      const jobOfferId = parseInt(req.params.id);
       
-      if (isNaN(companyId)) {
-        return res.status(400).json({ 
-          message: "Invalid company ID",
-          error: "Invalid company ID format"
-        });
+      if (isNaN(jobOfferId)) {
+        return res.status(400).json({ message: "Invalid job offer ID" });
+      }
+      
+      const jobOffer = await storage.getJobOffer(jobOfferId);
+      
+      if (!jobOffer || jobOffer.deletedAt) {
+        return res.status(404).json({ message: "Job offer not found" });
       }
       
-      const company = await storage.getCompany(companyId);
+      // Check if user has the required role in the company
+      const access = await authorizeCompany(req, res, jobOffer.companyId, 'viewer', "Not authorized to view applications for this job offer");
       
-      if (!company) {
-        return res.status(404).json({ 
-          message: "Company not found",
-          error: "Company not found"
-        });
+      if (!access) return;
+      
+      const applications = await storage.getJobOfferApplications(jobOfferId);
+      
+      // Newest applications first
+      applications.sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+      
+      res.json(applications.map(toApplicationSummary));
+    } catch (error) {
+      console.error("Error getting job applications:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  route(app, apiContracts.getApplication, authenticate, async (req, res) => {
+    try {
+      const applicationId = parseInt(req.params.id);
+      
+      if (isNaN(applicationId)) {
+        return res.status(400).json({ message: "Invalid application ID" });
       }
       
-      // Check if user is the owner
-      const dbUser = await getUserByFirebaseUid(req, res);
+      const application = await storage.getJobApplication(applicationId);
       
-      if (!dbUser || !('id' in dbUser) || company.ownerId !== dbUser.id) {
-        return res.status(403).json({ 
-          message: "Not authorized to view this company",
-          error: "User is not the owner of this company"
-        });
+      if (!application) {
+        return res.status(404).json({ message: "Application not found" });
       }
       
-      res.json(company);
+      // Check if user has the required role in the company
+      const access = await authorizeCompany(req, res, application.companyId, 'viewer', "Not authorized to view this application");
+      
+      if (!access) return;
+      
+      res.json(await withApplicationActivity(application));
     } catch (error) {
-      console.error("Error getting company:", error);
-      res.status(500).json({ 
-        message: "Internal server error",
-        error: error instanceof Error ? error.message : "Failed to fetch company"
-      });
+      console.error("Error getting job application:", error);
+      res.status(500).json({ message: "Internal server error" });
     }
   });
   
-  app.post("/api/companies", authenticate, async (req, res) => {
+  app.get("/api/applications/:id/cv", authenticate, async (req, res) => {
     try {
-      const result = insertCompanySchema.safeParse(req.body);
+      const applicationId = parseInt(req.params.id);
       
-      if (!result.success) {
-        return res.status(400).json({ message: "Invalid company data", errors: result.error.errors });
+      if (isNaN(applicationId)) {
+        return res.status(400).json({ message: "Invalid application ID" });
       }
       
-      const dbUser = await getUserByFirebaseUid(req, res);
+      const application = await storage.getJobApplication(applicationId);
       
-      if (!dbUser || !('id' in dbUser)) {
-        return res.status(404).json({ message: "User not found" });
+      if (!application) {
+        return res.status(404).json({ message: "Application not found" });
       }
       
-      // Check if user already has a company
-      const userCompanies = await storage.getUserCompanies(dbUser.id);
+      // Check if user has the required role in the company
+      const access = await authorizeCompany(req, res, application.companyId, 'viewer', "Not authorized to view this application");
+      
+      if (!access) return;
       
-      if (userCompanies.length > 0) {
-        return res.status(400).json({ message: "User already has a company" });
+      const file = await blobStore.get(application.cvKey);
+      
+      if (!file) {
+        return res.status(404).json({ message: "CV file not found" });
       }
       
-      // Create company
-      const company = await storage.createCompany({
-        ...result.data,
-        ownerId: dbUser.id
+      res.attachment(application.cvFileName);
+      res.type(application.cvContentType);
+      res.send(file);
+    } catch (error) {
+      console.error("Error downloading CV:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  route(app, apiContracts.updateApplicationStage, authenticate, async (req, res) => {
+    try {
+      const applicationId = parseInt(req.params.id);
+      
+      if (isNaN(applicationId)) {
+        return res.status(400).json({ message: "Invalid application ID" });
+      }
+      
+      const application = await storage.getJobApplication(applicationId);
+      
+      if (!application) {
+        return res.status(404).json({ message: "Application not found" });
+      }
+      
+      // Check if user has the required role in the company
+      const access = await authorizeCompany(req, res, application.companyId, 'editor', "Not authorized to update this application");
+      
+      if (!access) return;
+      
+      const result = updateApplicationStageSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid stage", errors: result.error.errors });
+      }
+      
+      // Only actual moves are recorded in the history
+      if (result.data.stage === application.stage) {
+        return res.json(await withApplicationActivity(application));
+      }
+      
+      const updatedApplication = await storage.updateJobApplication(applicationId, { stage: result.data.stage });
+      
+      if (!updatedApplication) {
+        return res.status(404).json({ message: "Application not found" });
+      }
+      
+      await storage.createJobApplicationStageChange({
+        applicationId,
+        fromStage: application.stage,
+        toStage: result.data.stage,
+        changedBy: access.dbUser.id
       });
+      await recordAudit(req, { companyId: application.companyId, entityType: "job_application", entityId: applicationId, action: "update", before: application, after: updatedApplication });
       
-      res.status(201).json(company);
+      res.json(await withApplicationActivity(updatedApplication));
     } catch (error) {
-      console.error("Error creating company:", error);
+      console.error("Error updating application stage:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
   
-  app.put("/api/companies/:id", authenticate, async (req, res) => {
+  route(app, apiContracts.addApplicationNote, authenticate, async (req, res) => {
     try {
-      const companyId = parseInt(req.params.id);
+      const applicationId = parseInt(req.params.id);
       
-      if (isNaN(companyId)) {
-        return res.status(400).json({ message: "Invalid company ID" });
+      if (isNaN(applicationId)) {
+        return res.status(400).json({ message: "Invalid application ID" });
       }
       
-      const company = await storage.getCompany(companyId);
+      const application = await storage.getJobApplication(applicationId);
       
-      if (!company) {
-        return res.status(404).json({ message: "Company not found" });
+      if (!application) {
+        return res.status(404).json({ message: "Application not found" });
       }
       
-      // Check if user is the owner
-      const dbUser = await getUserByFirebaseUid(req, res);
+      // Check if user has the required role in the company
+      const access = await authorizeCompany(req, res, application.companyId, 'editor', "Not authorized to add notes to this application");
       
-      if (!dbUser || !('id' in dbUser) || company.ownerId !== dbUser.id) {
-        return res.status(403).json({ message: "Not authorized to update this company" });
-      }
+      if (!access) return;
       
-      const result = insertCompanySchema.partial().safeParse(req.body);
+      const result = createApplicationNoteSchema.safeParse(req.body);
       
       if (!result.success) {
-        return res.status(400).json({ message: "Invalid company data", errors: result.error.errors });
+        return res.status(400).json({ message: "Invalid note", errors: result.error.errors });
       }
       
-      // Update company
-      const updatedCompany = await storage.updateCompany(companyId, result.data);
+      const note = await storage.createJobApplicationNote({
+        applicationId,
+        authorId: access.dbUser.id,
+        body: result.data.body
+      });
+      await recordAudit(req, { companyId: application.companyId, entityType: "application_note", entityId: note.id, action: "create", after: note });
       
-      res.json(updatedCompany);
+      res.status(201).json(await withApplicationActivity(application));
     } catch (error) {
-      console.error("Error updating company:", error);
+      console.error("Error adding application note:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
+
+  // Appointment routes
   
-  // Service routes
-  app.get("/api/companies/:companyId/services", authenticate, async (req, res) => {
+  // Public: free slots of a bookable service on the company page
+  route(app, apiContracts.getPublicServiceSlots, async (req, res) => {
     try {
-      const companyId = parseInt(req.params.companyId);
+      const serviceId = parseInt(req.params.id);
       
-      if (isNaN(companyId)) {
-        return res.status(400).json({ message: "Invalid company ID" });
+      if (isNaN(serviceId)) {
+        return res.status(400).json({ message: "Invalid service ID" });
       }
       
-      const company = await storage.getCompany(companyId);
+      const service = await storage.getService(serviceId);
       
-      if (!company) {
-        return res.status(404).json({ message: "Company not found" });
+      if (!service || service.deletedAt) {
+        return res.status(404).json({ message: "Service not found" });
       }
       
-      // Check if user is the owner
-      const dbUser = await getUserByFirebaseUid(req, res);
+      // Services of companies without a public page are not visible to customers
+      const company = await storage.getCompany(service.companyId);
       
-      if (!dbUser || company.ownerId !== dbUser.id) {
-        return res.status(403).json({ message: "Not authorized to view services for this company" });
+      if (!company?.isPublic) {
+        return res.status(404).json({ message: "Service not found" });
       }
       
-      const services = await storage.getCompanyServices(companyId);
-      
-      // For each service, fetch its images
-      const servicesWithImages = await Promise.all(
-        services.map(async (service) => {
-          const images = await storage.getServiceImages(service.id);
-          return {
-            ...service,
-            images: images.map(img => img.url)
-          };
-        })
-      );
-      
-      res.json(servicesWithImages);
+      await sendServiceSlots(req, res, service, company);
     } catch (error) {
-      console.error("Error getting services:", error);
+      console.error("Error getting public service slots:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
   
-  app.get("/api/services/:id", authenticate, async (req, res) => {
+  // Public: customers request an appointment without an account; the owner confirms it later
+  route(app, apiContracts.bookAppointment, async (req, res) => {
     try {
       const serviceId = parseInt(req.params.id);
       
@@ -283,38 +2654,68 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const service = await storage.getService(serviceId);
       
-      if (!service) {
+      if (!service || service.deletedAt) {
         return res.status(404).json({ message: "Service not found" });
       }
       
-      // Get company to check ownership
       const company = await storage.getCompany(service.companyId);
       
-      if (!company) {
-        return res.status(404).json({ message: "Company not found" });
+      if (!company?.isPublic) {
+        return res.status(404).json({ message: "Service not found" });
       }
       
-      // Check if user is the owner
-      const dbUser = await getUserByFirebaseUid(req, res);
+      const schedule = getBookingSchedule(service, company);
       
-      if (!dbUser || company.ownerId !== dbUser.id) {
-        return res.status(403).json({ message: "Not authorized to view this service" });
+      if (!schedule) {
+        return res.status(409).json({ message: "This service does not take appointments" });
       }
       
-      // Get service images
-      const images = await storage.getServiceImages(serviceId);
+      const result = bookAppointmentSchema.safeParse(req.body);
       
-      res.json({
-        ...service,
-        images: images.map(img => img.url)
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid appointment data", errors: result.error.errors });
+      }
+      
+      const { startsAt } = result.data;
+      
+      if (startsAt <= new Date() || !isScheduledSlot(schedule, startsAt)) {
+        return res.status(400).json({ message: "The chosen time is not one of the available slots" });
+      }
+      
+      const appointment = await storage.createAppointment({
+        companyId: service.companyId,
+        serviceId,
+        customerName: result.data.name,
+        customerEmail: result.data.email.toLowerCase(),
+        customerPhone: result.data.phone || null,
+        notes: result.data.notes || null,
+        startsAt,
+        endsAt: getAppointmentEnd(schedule, startsAt),
+        status: "requested"
       });
+      await recordAudit(req, { companyId: service.companyId, entityType: "appointment", entityId: appointment.id, action: "create", after: appointment });
+      
+      // Customers only get confirmation that the request was received
+      const response: BookAppointmentResponse = {
+        id: appointment.id,
+        startsAt: appointment.startsAt.toISOString(),
+        endsAt: appointment.endsAt.toISOString(),
+        status: appointment.status
+      };
+      
+      res.status(201).json(response);
     } catch (error) {
-      console.error("Error getting service:", error);
+      if (error instanceof AppointmentConflictError) {
+        return res.status(409).json({ message: "This time slot is no longer available" });
+      }
+      
+      console.error("Error creating appointment:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
   
-  app.post("/api/companies/:companyId/services", authenticate, async (req, res) => {
+  // Company calendar: appointments starting in the requested range
+  route(app, apiContracts.getCompanyAppointments, authenticate, async (req, res) => {
     try {
       const companyId = parseInt(req.params.companyId);
       
@@ -322,39 +2723,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid company ID" });
       }
       
-      const company = await storage.getCompany(companyId);
-      
-      if (!company) {
-        return res.status(404).json({ message: "Company not found" });
-      }
-      
-      // Check if user is the owner
-      const dbUser = await getUserByFirebaseUid(req, res);
+      // Check if user has the required role in the company
+      const access = await authorizeCompany(req, res, companyId, 'viewer', "Not authorized to view the appointments of this company");
       
-      if (!dbUser || company.ownerId !== dbUser.id) {
-        return res.status(403).json({ message: "Not authorized to create services for this company" });
-      }
+      if (!access) return;
       
-      const result = insertServiceSchema.safeParse({
-        ...req.body,
-        companyId
-      });
+      const result = appointmentListQuerySchema.safeParse(req.query);
       
       if (!result.success) {
-        return res.status(400).json({ message: "Invalid service data", errors: result.error.errors });
+        return res.status(400).json({ message: "Invalid filters", errors: result.error.errors });
       }
       
-      // Create service
-      const service = await storage.createService(result.data);
+      const appointments = await storage.getCompanyAppointments(companyId, result.data);
       
-      res.status(201).json(service);
+      res.json(await withAppointmentServices(appointments));
     } catch (error) {
-      console.error("Error creating service:", error);
+      console.error("Error getting company appointments:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
   
-  app.put("/api/services/:id", authenticate, async (req, res) => {
+  // Free slots for the dashboard, used when rescheduling
+  route(app, apiContracts.getServiceSlots, authenticate, async (req, res) => {
     try {
       const serviceId = parseInt(req.params.id);
       
@@ -364,182 +2754,231 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const service = await storage.getService(serviceId);
       
-      if (!service) {
+      if (!service || service.deletedAt) {
         return res.status(404).json({ message: "Service not found" });
       }
       
-      // Get company to check ownership
-      const company = await storage.getCompany(service.companyId);
+      // Check if user has the required role in the company
+      const access = await authorizeCompany(req, res, service.companyId, 'viewer', "Not authorized to view this service");
       
-      if (!company) {
-        return res.status(404).json({ message: "Company not found" });
-      }
+      if (!access) return;
       
-      // Check if user is the owner
-      const dbUser = await getUserByFirebaseUid(req, res);
+      await sendServiceSlots(req, res, service, access.company);
+    } catch (error) {
+      console.error("Error getting service slots:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  route(app, apiContracts.getAppointment, authenticate, async (req, res) => {
+    try {
+      const appointmentId = parseInt(req.params.id);
       
-      if (!dbUser || company.ownerId !== dbUser.id) {
-        return res.status(403).json({ message: "Not authorized to update this service" });
+      if (isNaN(appointmentId)) {
+        return res.status(400).json({ message: "Invalid appointment ID" });
       }
       
-      const result = insertServiceSchema.partial().safeParse(req.body);
+      const appointment = await storage.getAppointment(appointmentId);
       
-      if (!result.success) {
-        return res.status(400).json({ message: "Invalid service data", errors: result.error.errors });
+      if (!appointment) {
+        return res.status(404).json({ message: "Appointment not found" });
       }
       
-      // Update service
-      const updatedService = await storage.updateService(serviceId, result.data);
+      // Check if user has the required role in the company
+      const access = await authorizeCompany(req, res, appointment.companyId, 'viewer', "Not authorized to view this appointment");
       
-      // Get service images
-      const images = await storage.getServiceImages(serviceId);
+      if (!access) return;
       
-      res.json({
-        ...updatedService,
-        images: images.map(img => img.url)
-      });
+      const [withService] = await withAppointmentServices([appointment]);
+      res.json(withService);
     } catch (error) {
-      console.error("Error updating service:", error);
+      console.error("Error getting appointment:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
   
-  app.delete("/api/services/:id", authenticate, async (req, res) => {
+  route(app, apiContracts.confirmAppointment, authenticate, (req, res) => changeAppointmentStatus(req, res, "confirmed"));
+  
+  route(app, apiContracts.cancelAppointment, authenticate, (req, res) => changeAppointmentStatus(req, res, "cancelled"));
+  
+  route(app, apiContracts.completeAppointment, authenticate, (req, res) => changeAppointmentStatus(req, res, "completed"));
+  
+  route(app, apiContracts.markAppointmentNoShow, authenticate, (req, res) => changeAppointmentStatus(req, res, "no_show"));
+  
+  // Moves an appointment keeping its length; owners may pick times outside the public slots
+  route(app, apiContracts.rescheduleAppointment, authenticate, async (req, res) => {
     try {
-      const serviceId = parseInt(req.params.id);
+      const appointmentId = parseInt(req.params.id);
       
-      if (isNaN(serviceId)) {
-        return res.status(400).json({ message: "Invalid service ID" });
+      if (isNaN(appointmentId)) {
+        return res.status(400).json({ message: "Invalid appointment ID" });
       }
       
-      const service = await storage.getService(serviceId);
+      const appointment = await storage.getAppointment(appointmentId);
       
-      if (!service) {
-        return res.status(404).json({ message: "Service not found" });
+      if (!appointment) {
+        return res.status(404).json({ message: "Appointment not found" });
       }
       
-      // Get company to check ownership
-      const company = await storage.getCompany(service.companyId);
+      // Check if user has the required role in the company
+      const access = await authorizeCompany(req, res, appointment.companyId, 'editor', "Not authorized to reschedule this appointment");
       
-      if (!company) {
-        return res.status(404).json({ message: "Company not found" });
+      if (!access) return;
+      
+      if (!isActiveAppointment(appointment.status)) {
+        return res.status(409).json({ message: `Cannot reschedule an appointment that is ${appointment.status}` });
       }
       
-      // Check if user is the owner
-      const dbUser = await getUserByFirebaseUid(req, res);
+      const result = rescheduleAppointmentSchema.safeParse(req.body);
       
-      if (!dbUser || company.ownerId !== dbUser.id) {
-        return res.status(403).json({ message: "Not authorized to delete this service" });
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid appointment time", errors: result.error.errors });
       }
       
-      // Delete service (this also deletes images)
-      await storage.deleteService(serviceId);
+      const { startsAt } = result.data;
       
-      res.json({ success: true });
+      if (startsAt <= new Date()) {
+        return res.status(400).json({ message: "The new time must be in the future" });
+      }
+      
+      const length = appointment.endsAt.getTime() - appointment.startsAt.getTime();
+      const updatedAppointment = await storage.updateAppointment(appointmentId, {
+        startsAt,
+        endsAt: new Date(startsAt.getTime() + length)
+      });
+      
+      if (!updatedAppointment) {
+        return res.status(404).json({ message: "Appointment not found" });
+      }
+      
+      await recordAudit(req, { companyId: appointment.companyId, entityType: "appointment", entityId: appointmentId, action: "update", before: appointment, after: updatedAppointment });
+      
+      const [withService] = await withAppointmentServices([updatedAppointment]);
+      res.json(withService);
     } catch (error) {
-      console.error("Error deleting service:", error);
+      if (error instanceof AppointmentConflictError) {
+        return res.status(409).json({ message: "This time slot is no longer available" });
+      }
+      
+      console.error("Error rescheduling appointment:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
-  
-  // Service Images routes
-  app.post("/api/services/:serviceId/images", authenticate, async (req, res) => {
+
+  // Company member routes
+  route(app, apiContracts.getCompanyMembers, authenticate, async (req, res) => {
     try {
-      const serviceId = parseInt(req.params.serviceId);
+      const companyId = parseInt(req.params.companyId);
       
-      if (isNaN(serviceId)) {
-        return res.status(400).json({ message: "Invalid service ID" });
+      if (isNaN(companyId)) {
+        return res.status(400).json({ message: "Invalid company ID" });
       }
       
-      const service = await storage.getService(serviceId);
+      // Check if user has the required role in the company
+      const access = await authorizeCompany(req, res, companyId, 'viewer', "Not authorized to view members of this company");
       
-      if (!service) {
-        return res.status(404).json({ message: "Service not found" });
-      }
+      if (!access) return;
       
-      // Get company to check ownership
-      const company = await storage.getCompany(service.companyId);
+      const members = await storage.getCompanyMembers(companyId);
+      res.json(await withMemberUsers(members));
+    } catch (error) {
+      console.error("Error getting company members:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  route(app, apiContracts.updateCompanyMember, authenticate, async (req, res) => {
+    try {
+      const companyId = parseInt(req.params.companyId);
+      const memberId = parseInt(req.params.memberId);
       
-      if (!company) {
-        return res.status(404).json({ message: "Company not found" });
+      if (isNaN(companyId) || isNaN(memberId)) {
+        return res.status(400).json({ message: "Invalid company or member ID" });
       }
       
-      // Check if user is the owner
-      const dbUser = await getUserByFirebaseUid(req, res);
+      // Check if user has the required role in the company
+      const access = await authorizeCompany(req, res, companyId, 'admin', "Not authorized to manage members of this company");
       
-      if (!dbUser || company.ownerId !== dbUser.id) {
-        return res.status(403).json({ message: "Not authorized to add images to this service" });
+      if (!access) return;
+      
+      const member = await storage.getCompanyMemberById(memberId);
+      
+      if (!member || member.companyId !== companyId) {
+        return res.status(404).json({ message: "Member not found" });
       }
       
-      const result = insertServiceImageSchema.safeParse({
-        serviceId,
-        url: req.body.url
-      });
+      const result = updateMemberRoleSchema.safeParse(req.body);
       
       if (!result.success) {
-        return res.status(400).json({ message: "Invalid image data", errors: result.error.errors });
+        return res.status(400).json({ message: "Invalid member data", errors: result.error.errors });
       }
       
-      // Create image
-      const image = await storage.createServiceImage(result.data);
+      if (member.role === "owner") {
+        return res.status(403).json({ message: "The owner's role cannot be changed" });
+      }
       
-      res.status(201).json(image);
+      // Only the owner can promote to or demote from admin
+      if (access.role !== "owner" && (member.role === "admin" || result.data.role === "admin")) {
+        return res.status(403).json({ message: "Only the owner can manage admins" });
+      }
+      
+      const updatedMember = await storage.updateCompanyMember(memberId, { role: result.data.role });
+      await recordAudit(req, { companyId, entityType: "company_member", entityId: memberId, action: "update", before: member, after: updatedMember });
+      const [memberWithUser] = await withMemberUsers(updatedMember ? [updatedMember] : []);
+      
+      res.json(memberWithUser);
     } catch (error) {
-      console.error("Error adding service image:", error);
+      console.error("Error updating company member:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
   
-  app.delete("/api/service-images/:id", authenticate, async (req, res) => {
+  route(app, apiContracts.removeCompanyMember, authenticate, async (req, res) => {
     try {
-      const imageId = parseInt(req.params.id);
+      const companyId = parseInt(req.params.companyId);
+      const memberId = parseInt(req.params.memberId);
       
-      if (isNaN(imageId)) {
-        return res.status(400).json({ message: "Invalid image ID" });
+      if (isNaN(companyId) || isNaN(memberId)) {
+        return res.status(400).json({ message: "Invalid company or member ID" });
       }
       
-      // Get image to find service
-      const images = await storage.getServiceImages(imageId);
+      // Any member may leave; removing someone else requires admin
+      const access = await authorizeCompany(req, res, companyId, 'viewer', "Not authorized to manage members of this company");
       
-      if (images.length === 0) {
-        return res.status(404).json({ message: "Image not found" });
-      }
+      if (!access) return;
       
-      const image = images[0];
+      const member = await storage.getCompanyMemberById(memberId);
       
-      // Get service to find company
-      const service = await storage.getService(image.serviceId);
+      if (!member || member.companyId !== companyId) {
+        return res.status(404).json({ message: "Member not found" });
+      }
       
-      if (!service) {
-        return res.status(404).json({ message: "Service not found" });
+      if (member.role === "owner") {
+        return res.status(403).json({ message: "The owner cannot be removed from the company" });
       }
       
-      // Get company to check ownership
-      const company = await storage.getCompany(service.companyId);
+      const isSelf = member.userId === access.dbUser.id;
       
-      if (!company) {
-        return res.status(404).json({ message: "Company not found" });
+      if (!isSelf && !hasCompanyRole(access.role, "admin")) {
+        return res.status(403).json({ message: "Not authorized to manage members of this company" });
       }
       
-      // Check if user is the owner
-      const dbUser = await getUserByFirebaseUid(req, res);
-      
-      if (!dbUser || company.ownerId !== dbUser.id) {
-        return res.status(403).json({ message: "Not authorized to delete this image" });
+      if (!isSelf && member.role === "admin" && access.role !== "owner") {
+        return res.status(403).json({ message: "Only the owner can manage admins" });
       }
       
-      // Delete image
-      await storage.deleteServiceImage(imageId);
+      await storage.deleteCompanyMember(memberId);
+      await recordAudit(req, { companyId, entityType: "company_member", entityId: memberId, action: "delete", before: member });
       
       res.json({ success: true });
     } catch (error) {
-      console.error("Error deleting service image:", error);
+      console.error("Error removing company member:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
   
-  // Job Offers routes
-  app.get("/api/companies/:companyId/job-offers", authenticate, async (req, res) => {
+  // Company invitation routes
+  route(app, apiContracts.getCompanyInvitations, authenticate, async (req, res) => {
     try {
       const companyId = parseInt(req.params.companyId);
       
@@ -547,180 +2986,182 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid company ID" });
       }
       
-      const company = await storage.getCompany(companyId);
-      
-      if (!company) {
-        return res.status(404).json({ message: "Company not found" });
-      }
-      
-      // Check if user is the owner
-      const dbUser = await getUserByFirebaseUid(req, res);
+      // Check if user has the required role in the company
+      const access = await authorizeCompany(req, res, companyId, 'admin', "Not authorized to view invitations for this company");
       
-      if (!dbUser || company.ownerId !== dbUser.id) {
-        return res.status(403).json({ message: "Not authorized to view job offers for this company" });
-      }
+      if (!access) return;
       
-      const jobOffers = await storage.getCompanyJobOffers(companyId);
-      res.json(jobOffers);
+      const invitations = await storage.getCompanyInvitations(companyId);
+      res.json(invitations.filter(invitation => invitation.status === "pending"));
     } catch (error) {
-      console.error("Error getting job offers:", error);
+      console.error("Error getting invitations:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
   
-  app.get("/api/job-offers/:id", authenticate, async (req, res) => {
+  route(app, apiContracts.createCompanyInvitation, authenticate, async (req, res) => {
     try {
-      const jobOfferId = parseInt(req.params.id);
+      const companyId = parseInt(req.params.companyId);
       
-      if (isNaN(jobOfferId)) {
-        return res.status(400).json({ message: "Invalid job offer ID" });
+      if (isNaN(companyId)) {
+        return res.status(400).json({ message: "Invalid company ID" });
       }
       
-      const jobOffer = await storage.getJobOffer(jobOfferId);
+      // Check if user has the required role in the company
+      const access = await authorizeCompany(req, res, companyId, 'admin', "Not authorized to invite members to this company");
       
-      if (!jobOffer) {
-        return res.status(404).json({ message: "Job offer not found" });
-      }
+      if (!access) return;
       
-      // Get company to check ownership
-      const company = await storage.getCompany(jobOffer.companyId);
+      const result = createInvitationSchema.safeParse(req.body);
       
-      if (!company) {
-        return res.status(404).json({ message: "Company not found" });
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid invitation data", errors: result.error.errors });
       }
       
-      // Check if user is the owner
-      const dbUser = await getUserByFirebaseUid(req, res);
+      if (result.data.role === "admin" && access.role !== "owner") {
+        return res.status(403).json({ message: "Only the owner can manage admins" });
+      }
       
-      if (!dbUser || company.ownerId !== dbUser.id) {
-        return res.status(403).json({ message: "Not authorized to view this job offer" });
+      const email = result.data.email.toLowerCase();
+      const invitations = await storage.getCompanyInvitations(companyId);
+      
+      const hasPendingInvitation = invitations.some(invitation =>
+        invitation.status === "pending" &&
+        invitation.email === email &&
+        invitation.expiresAt.getTime() > Date.now()
+      );
+      
+      if (hasPendingInvitation) {
+        return res.status(409).json({ message: "An invitation is already pending for this email" });
       }
       
-      res.json(jobOffer);
+      const invitation = await storage.createCompanyInvitation({
+        companyId,
+        email,
+        role: result.data.role,
+        token: randomBytes(32).toString("hex"),
+        status: "pending",
+        invitedBy: access.dbUser.id,
+        expiresAt: new Date(Date.now() + INVITATION_TTL_MS)
+      });
+      await recordAudit(req, { companyId, entityType: "company_invitation", entityId: invitation.id, action: "create", after: invitation });
+      
+      res.status(201).json(invitation);
     } catch (error) {
-      console.error("Error getting job offer:", error);
+      console.error("Error creating invitation:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
   
-  app.post("/api/companies/:companyId/job-offers", authenticate, async (req, res) => {
+  route(app, apiContracts.revokeCompanyInvitation, authenticate, async (req, res) => {
     try {
-      const companyId = parseInt(req.params.companyId);
+      const invitationId = parseInt(req.params.id);
       
-      if (isNaN(companyId)) {
-        return res.status(400).json({ message: "Invalid company ID" });
+      if (isNaN(invitationId)) {
+        return res.status(400).json({ message: "Invalid invitation ID" });
       }
       
-      const company = await storage.getCompany(companyId);
+      const invitation = await storage.getCompanyInvitation(invitationId);
       
-      if (!company) {
-        return res.status(404).json({ message: "Company not found" });
+      if (!invitation) {
+        return res.status(404).json({ message: "Invitation not found" });
       }
       
-      // Check if user is the owner
-      const dbUser = await getUserByFirebaseUid(req, res);
-      
-      if (!dbUser || company.ownerId !== dbUser.id) {
-        return res.status(403).json({ message: "Not authorized to create job offers for this company" });
-      }
+      // Check if user has the required role in the company
+      const access = await authorizeCompany(req, res, invitation.companyId, 'admin', "Not authorized to revoke this invitation");
       
-      const result = insertJobOfferSchema.safeParse({
-        ...req.body,
-        companyId
-      });
+      if (!access) return;
       
-      if (!result.success) {
-        return res.status(400).json({ message: "Invalid job offer data", errors: result.error.errors });
+      if (invitation.status !== "pending") {
+        return res.status(409).json({ message: "Invitation is no longer pending" });
       }
       
-      // Create job offer
-      const jobOffer = await storage.createJobOffer(result.data);
+      const revokedInvitation = await storage.updateCompanyInvitation(invitationId, { status: "revoked" });
+      await recordAudit(req, { companyId: invitation.companyId, entityType: "company_invitation", entityId: invitationId, action: "update", before: invitation, after: revokedInvitation });
       
-      res.status(201).json(jobOffer);
+      res.json(revokedInvitation);
     } catch (error) {
-      console.error("Error creating job offer:", error);
+      console.error("Error revoking invitation:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
   
-  app.put("/api/job-offers/:id", authenticate, async (req, res) => {
+  route(app, apiContracts.getInvitation, authenticate, async (req, res) => {
     try {
-      const jobOfferId = parseInt(req.params.id);
-      
-      if (isNaN(jobOfferId)) {
-        return res.status(400).json({ message: "Invalid job offer ID" });
-      }
-      
-      const jobOffer = await storage.getJobOffer(jobOfferId);
+      const invitation = await storage.getCompanyInvitationByToken(req.params.token);
       
-      if (!jobOffer) {
-        return res.status(404).json({ message: "Job offer not found" });
+      if (!invitation) {
+        return res.status(404).json({ message: "Invitation not found" });
       }
       
-      // Get company to check ownership
-      const company = await storage.getCompany(jobOffer.companyId);
+      const company = await storage.getCompany(invitation.companyId);
       
       if (!company) {
         return res.status(404).json({ message: "Company not found" });
       }
       
-      // Check if user is the owner
-      const dbUser = await getUserByFirebaseUid(req, res);
-      
-      if (!dbUser || company.ownerId !== dbUser.id) {
-        return res.status(403).json({ message: "Not authorized to update this job offer" });
-      }
-      
-      const result = insertJobOfferSchema.partial().safeParse(req.body);
-      
-      if (!result.success) {
-        return res.status(400).json({ message: "Invalid job offer data", errors: result.error.errors });
-      }
-      
-      // Update job offer
-      const updatedJobOffer = await storage.updateJobOffer(jobOfferId, result.data);
-      
-      res.json(updatedJobOffer);
+      res.json({
+        ...invitation,
+        company: { id: company.id, name: company.name }
+      });
     } catch (error) {
-      console.error("Error updating job offer:", error);
+      console.error("Error getting invitation:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
   
-  app.delete("/api/job-offers/:id", authenticate, async (req, res) => {
+  route(app, apiContracts.acceptInvitation, authenticate, async (req, res) => {
     try {
-      const jobOfferId = parseInt(req.params.id);
+      const invitation = await storage.getCompanyInvitationByToken(req.params.token);
       
-      if (isNaN(jobOfferId)) {
-        return res.status(400).json({ message: "Invalid job offer ID" });
+      if (!invitation) {
+        return res.status(404).json({ message: "Invitation not found" });
       }
       
-      const jobOffer = await storage.getJobOffer(jobOfferId);
+      if (invitation.status !== "pending") {
+        return res.status(409).json({ message: "Invitation is no longer pending" });
+      }
       
-      if (!jobOffer) {
-        return res.status(404).json({ message: "Job offer not found" });
+      if (invitation.expiresAt.getTime() < Date.now()) {
+        return res.status(410).json({ message: "Invitation has expired" });
       }
       
-      // Get company to check ownership
-      const company = await storage.getCompany(jobOffer.companyId);
+      const dbUser = await getUserByFirebaseUid(req, res);
       
-      if (!company) {
-        return res.status(404).json({ message: "Company not found" });
+      if (!dbUser) return;
+      
+      // An unverified address proves nothing: anyone can sign up with the invitee's email
+      if (req.user.email_verified !== true) {
+        return res.status(403).json({ message: "Verify your email before accepting this invitation" });
       }
       
-      // Check if user is the owner
-      const dbUser = await getUserByFirebaseUid(req, res);
+      // The invitation can only be accepted by the account it was sent to
+      if (dbUser.email.toLowerCase() !== invitation.email) {
+        return res.status(403).json({ message: "This invitation was sent to a different email" });
+      }
       
-      if (!dbUser || company.ownerId !== dbUser.id) {
-        return res.status(403).json({ message: "Not authorized to delete this job offer" });
+      const existingMember = await storage.getCompanyMember(invitation.companyId, dbUser.id);
+      
+      if (existingMember) {
+        return res.status(409).json({ message: "User is already a member of this company" });
       }
       
-      // Delete job offer
-      await storage.deleteJobOffer(jobOfferId);
+      const member = await storage.createCompanyMember({
+        companyId: invitation.companyId,
+        userId: dbUser.id,
+        role: invitation.role
+      });
+      
+      const acceptedInvitation = await storage.updateCompanyInvitation(invitation.id, {
+        status: "accepted",
+        acceptedAt: new Date()
+      });
+      await recordAudit(req, { companyId: invitation.companyId, entityType: "company_member", entityId: member.id, action: "create", after: member });
+      await recordAudit(req, { companyId: invitation.companyId, entityType: "company_invitation", entityId: invitation.id, action: "update", before: invitation, after: acceptedInvitation });
       
-      res.json({ success: true });
+      res.status(201).json(member);
     } catch (error) {
-      console.error("Error deleting job offer:", error);
+      console.error("Error accepting invitation:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
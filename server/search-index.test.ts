@@ -0,0 +1,68 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { startTestServer, type TestServer } from "./test-server";
+
+let server: TestServer;
+let companyId: number;
+let serviceId: number;
+
+before(async () => {
+  server = await startTestServer();
+  const company = await server.request("POST", "/api/companies", {
+    uid: "owner",
+    body: { name: "Empresa", slug: "empresa", description: "Empresa de teste", isPublic: true },
+  });
+  companyId = company.body.id;
+
+  const service = await server.request("POST", `/api/companies/${companyId}/services`, {
+    uid: "owner",
+    body: { name: "Gestão de redes sociais", description: "Publicações e campanhas nas redes" },
+  });
+  serviceId = service.body.id;
+  await server.request("POST", `/api/companies/${companyId}/services`, {
+    uid: "owner",
+    body: { name: "Corte de cabelo", description: "Corte feminino e masculino" },
+  });
+  await server.request("POST", `/api/companies/${companyId}/services`, {
+    uid: "owner",
+    body: { name: "Barba", description: "Acabamento depois do corte" },
+  });
+  await server.request("POST", `/api/companies/${companyId}/job-offers`, {
+    uid: "owner",
+    body: { title: "Cabeleireiro", description: "Vaga no salão", employmentType: "full-time", requirements: "Experiência em coloração" },
+  });
+});
+
+after(async () => {
+  await server.close();
+});
+
+async function search(q: string): Promise<string[]> {
+  const { status, body } = await server.request("GET", `/api/companies/${companyId}/search?q=${encodeURIComponent(q)}`, { uid: "owner" });
+  assert.equal(status, 200);
+  return body.results.map((result: { title: string }) => result.title);
+}
+
+test("terms match the start of words, without accents or case", async () => {
+  assert.deepEqual(await search("gest"), ["Gestão de redes sociais"]);
+  assert.deepEqual(await search("GESTAO"), ["Gestão de redes sociais"]);
+  assert.deepEqual(await search("experiencia"), ["Cabeleireiro"]);
+  // "estão" está no meio de "Gestão", não no início de uma palavra
+  assert.deepEqual(await search("estao"), []);
+});
+
+test("every term must appear in the record", async () => {
+  assert.deepEqual(await search("corte cabelo"), ["Corte de cabelo"]);
+  assert.deepEqual(await search("corte redes"), []);
+});
+
+test("a match in the title ranks above one in the description", async () => {
+  assert.deepEqual(await search("corte"), ["Corte de cabelo", "Barba"]);
+});
+
+test("edits show up in the next search", async () => {
+  await server.request("PUT", `/api/services/${serviceId}`, { uid: "owner", body: { name: "Marketing digital" } });
+
+  assert.deepEqual(await search("marketing"), ["Marketing digital"]);
+  assert.deepEqual(await search("gestao"), []);
+});
@@ -0,0 +1,211 @@
+import {
+  normalizeSearchText,
+  type JobOffer,
+  type SearchEntityType,
+  type SearchResult,
+  type Service,
+} from "@shared/schema";
+import { storage } from "./storage";
+
+// Tempo que um índice fica em memória (padrão: 10 minutos); depois disso a busca seguinte o
+// refaz e apanha gravações que não passaram pelas rotas, como as de outra instância
+const INDEX_TTL_MS = Number(process.env.SEARCH_INDEX_TTL_MS) || 10 * 60 * 1000;
+
+// Caracteres de contexto de cada lado do termo encontrado no trecho
+const SNIPPET_CONTEXT = 60;
+
+// Palavras comuns demais para distinguir registros; ficam fora do índice e da consulta
+const STOP_WORDS = new Set([
+  "a", "o", "as", "os", "e", "de", "da", "do", "das", "dos", "em", "no", "na", "nos", "nas",
+  "um", "uma", "para", "por", "com", "ao", "aos",
+]);
+
+// Peso de cada campo: o termo no título conta mais do que no texto
+const TITLE_WEIGHT = 3;
+const REQUIREMENTS_WEIGHT = 2;
+const TAG_WEIGHT = 2;
+const DESCRIPTION_WEIGHT = 1;
+
+interface IndexedField {
+  text: string;
+  normalized: string;
+  weight: number;
+}
+
+interface IndexedDocument {
+  entityType: SearchEntityType;
+  id: number;
+  title: string;
+  status: SearchResult["status"];
+  fields: IndexedField[];
+}
+
+function tokenize(normalized: string): string[] {
+  return normalized.split(/[^a-z0-9]+/).filter(token => token.length > 0 && !STOP_WORDS.has(token));
+}
+
+// Trecho do primeiro campo de texto (depois do título) em que algum termo aparece
+function buildSnippet(document: IndexedDocument, terms: string[]): string | null {
+  for (const field of document.fields.slice(1)) {
+    const positions = terms
+      .map(term => field.normalized.search(new RegExp(`(?:^|[^a-z0-9])${term}`)))
+      .filter(position => position >= 0);
+
+    if (positions.length === 0) continue;
+
+    const position = Math.min(...positions);
+    const start = Math.max(0, position - SNIPPET_CONTEXT);
+    const end = Math.min(field.text.length, position + SNIPPET_CONTEXT * 2);
+    const excerpt = field.text.slice(start, end).replace(/\s+/g, " ").trim();
+
+    return `${start > 0 ? "…" : ""}${excerpt}${end < field.text.length ? "…" : ""}`;
+  }
+
+  return null;
+}
+
+/**
+ * Índice invertido dos serviços e vagas de uma empresa.
+ *
+ * Cada termo da consulta precisa aparecer no registro, no início de alguma
+ * palavra ("gest" encontra "Gestão"). Termos completos valem o dobro dos
+ * prefixos, e a pontuação soma o peso do melhor campo de cada termo.
+ */
+class CompanySearchIndex {
+  // Termo normalizado -> id do documento -> maior peso entre os campos em que aparece
+  private postings = new Map<string, Map<string, number>>();
+  private documents = new Map<string, IndexedDocument>();
+
+  add(document: IndexedDocument) {
+    const key = `${document.entityType}:${document.id}`;
+    this.documents.set(key, document);
+
+    for (const field of document.fields) {
+      for (const token of tokenize(field.normalized)) {
+        const posting = this.postings.get(token) ?? new Map<string, number>();
+        posting.set(key, Math.max(posting.get(key) ?? 0, field.weight));
+        this.postings.set(token, posting);
+      }
+    }
+  }
+
+  search(query: string, limit: number): SearchResult[] {
+    const terms = Array.from(new Set(tokenize(normalizeSearchText(query))));
+    if (terms.length === 0) return [];
+
+    let scores: Map<string, number> | undefined;
+
+    for (const term of terms) {
+      const termScores = new Map<string, number>();
+
+      this.postings.forEach((posting, token) => {
+        if (!token.startsWith(term)) return;
+        const multiplier = token === term ? 2 : 1;
+
+        posting.forEach((weight, key) => {
+          termScores.set(key, Math.max(termScores.get(key) ?? 0, weight * multiplier));
+        });
+      });
+
+      // Só continuam os documentos que já tinham todos os termos anteriores
+      const previous = scores;
+      scores = new Map();
+      for (const [key, score] of Array.from(termScores)) {
+        if (!previous) scores.set(key, score);
+        else if (previous.has(key)) scores.set(key, previous.get(key)! + score);
+      }
+
+      if (scores.size === 0) return [];
+    }
+
+    return Array.from(scores ?? [])
+      .map(([key, score]) => ({ document: this.documents.get(key)!, score }))
+      .sort((a, b) => b.score - a.score || a.document.title.localeCompare(b.document.title, "pt"))
+      .slice(0, limit)
+      .map(({ document }) => ({
+        entityType: document.entityType,
+        id: document.id,
+        title: document.title,
+        snippet: buildSnippet(document, terms),
+        status: document.status,
+      }));
+  }
+}
+
+function field(text: string | null, weight: number): IndexedField[] {
+  return text ? [{ text, normalized: normalizeSearchText(text), weight }] : [];
+}
+
+function serviceDocument(service: Service): IndexedDocument {
+  return {
+    entityType: "service",
+    id: service.id,
+    title: service.name,
+    status: null,
+    fields: [
+      ...field(service.name, TITLE_WEIGHT),
+      ...field(service.description, DESCRIPTION_WEIGHT),
+      ...field(service.tags.join(", ") || null, TAG_WEIGHT),
+    ],
+  };
+}
+
+function jobOfferDocument(jobOffer: JobOffer): IndexedDocument {
+  return {
+    entityType: "job_offer",
+    id: jobOffer.id,
+    title: jobOffer.title,
+    status: jobOffer.status,
+    fields: [
+      ...field(jobOffer.title, TITLE_WEIGHT),
+      ...field(jobOffer.description, DESCRIPTION_WEIGHT),
+      ...field(jobOffer.requirements, REQUIREMENTS_WEIGHT),
+    ],
+  };
+}
+
+async function buildIndex(companyId: number): Promise<CompanySearchIndex> {
+  const [services, jobOffers] = await Promise.all([
+    storage.getCompanyServices(companyId),
+    storage.getCompanyJobOffers(companyId),
+  ]);
+
+  const index = new CompanySearchIndex();
+  services.forEach(service => index.add(serviceDocument(service)));
+  jobOffers.forEach(jobOffer => index.add(jobOfferDocument(jobOffer)));
+  return index;
+}
+
+// Índices em construção ou prontos, por empresa. Buscas simultâneas esperam a mesma construção
+const indexes = new Map<number, Promise<CompanySearchIndex>>();
+
+function getIndex(companyId: number): Promise<CompanySearchIndex> {
+  const cached = indexes.get(companyId);
+  if (cached) return cached;
+
+  const building = buildIndex(companyId);
+  indexes.set(companyId, building);
+
+  const forget = () => {
+    if (indexes.get(companyId) === building) indexes.delete(companyId);
+  };
+
+  // Uma construção que falhou sai logo do cache; um índice pronto sai quando expira,
+  // para não manter em memória empresas que não buscam mais
+  building.then(() => {
+    setTimeout(forget, INDEX_TTL_MS).unref();
+  }, forget);
+
+  return building;
+}
+
+// Chamado depois de cada gravação nos serviços ou vagas da empresa; a próxima busca refaz o índice
+export function invalidateSearchIndex(companyId: number) {
+  indexes.delete(companyId);
+}
+
+// Registros fora da lixeira cujo título ou texto contém todos os termos, sem diferenciar acentos
+export async function searchCompany(companyId: number, query: string, limit: number): Promise<SearchResult[]> {
+  const index = await getIndex(companyId);
+  return index.search(query, limit);
+}
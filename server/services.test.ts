@@ -0,0 +1,45 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { startTestServer, type TestServer } from "./test-server";
+
+let server: TestServer;
+
+before(async () => {
+  server = await startTestServer();
+});
+
+after(async () => {
+  await server.close();
+});
+
+async function createCompany(uid: string, slug: string) {
+  const { status, body } = await server.request("POST", "/api/companies", {
+    uid,
+    body: { name: slug, slug, description: "Empresa de teste", isPublic: true },
+  });
+  assert.equal(status, 201);
+  return body;
+}
+
+test("PUT /api/services/:id ignores a companyId in the body", async () => {
+  const own = await createCompany("owner-a", "empresa-a");
+  const other = await createCompany("owner-b", "empresa-b");
+
+  const created = await server.request("POST", `/api/companies/${own.id}/services`, {
+    uid: "owner-a",
+    body: { name: "Corte", description: "Corte de cabelo" },
+  });
+  assert.equal(created.status, 201);
+
+  const updated = await server.request("PUT", `/api/services/${created.body.id}`, {
+    uid: "owner-a",
+    body: { name: "Corte novo", companyId: other.id },
+  });
+  assert.equal(updated.status, 200);
+  assert.equal(updated.body.name, "Corte novo");
+  assert.equal(updated.body.companyId, own.id);
+
+  const otherServices = await server.request("GET", `/api/companies/${other.id}/services`, { uid: "owner-b" });
+  assert.equal(otherServices.status, 200);
+  assert.equal(otherServices.body.items.length, 0);
+});
@@ -1,38 +1,266 @@
-import { FirestoreStorage } from './firestore-storage';
+import type {
+  User,
+  InsertUser,
+  Company,
+  InsertCompany,
+  Service,
+  InsertService,
+  ServiceCategory,
+  InsertServiceCategory,
+  ServiceImage,
+  InsertServiceImage,
+  JobOffer,
+  InsertJobOffer,
+  CompanyMember,
+  InsertCompanyMember,
+  CompanyInvitation,
+  InsertCompanyInvitation,
+  JobApplication,
+  InsertJobApplication,
+  JobApplicationNote,
+  InsertJobApplicationNote,
+  JobApplicationStageChange,
+  InsertJobApplicationStageChange,
+  Appointment,
+  InsertAppointment,
+  AppointmentListQuery,
+  Revision,
+  InsertRevision,
+  RevisionEntityType,
+  AuditLog,
+  InsertAuditLog,
+  AuditLogQuery,
+  DataExport,
+  InsertDataExport,
+  CursorPage,
+  ServiceListQuery,
+  JobOfferListQuery,
+} from '@shared/schema';
+import { isActiveAppointment } from '@shared/schema';
+import type { Cursor } from './pagination';
 
-// Exporta a instância do FirestoreStorage como storage padrão
-export const storage = new FirestoreStorage();
+export type StorageDriver = 'firestore' | 'postgres' | 'memory';
+
+// Serviços e vagas na lixeira (com deletedAt preenchido)
+export interface TrashedRecords {
+  services: Service[];
+  jobOffers: JobOffer[];
+}
+
+// Registros cujo serviço ou empresa já não existe (sobras de exclusões interrompidas)
+export interface OrphanedRecords {
+  serviceImages: ServiceImage[];
+  jobOffers: JobOffer[];
+}
+
+// Filtros do registro de auditoria de uma empresa, já convertidos de página para limit/offset
+export type AuditLogFilter = Omit<AuditLogQuery, 'page' | 'pageSize'> & {
+  limit: number;
+  offset: number;
+};
+
+// Filtros das listas de serviços e de vagas, com o cursor já decodificado
+// e a categoria já expandida para as suas subcategorias
+export type ServiceListFilter = Omit<ServiceListQuery, 'cursor' | 'categoryId'> & { after?: Cursor; categoryIds?: number[] };
+export type JobOfferListFilter = Omit<JobOfferListQuery, 'cursor'> & { after?: Cursor };
+
+// Lançado quando o horário do agendamento se sobrepõe a outro agendamento ativo do mesmo serviço
+export class AppointmentConflictError extends Error {}
+
+type AppointmentSlotFields = Pick<Appointment, 'serviceId' | 'startsAt' | 'endsAt' | 'status'> & { id?: number };
+
+// Conflito entre um agendamento ativo e os demais ativos do mesmo serviço, para os drivers
+// que filtram em memória; o id (ausente num agendamento novo) exclui o próprio registro
+export function hasAppointmentConflict(appointment: AppointmentSlotFields, others: Appointment[]): boolean {
+  if (!isActiveAppointment(appointment.status)) return false;
+
+  return others.some(other =>
+    other.id !== appointment.id &&
+    other.serviceId === appointment.serviceId &&
+    isActiveAppointment(other.status) &&
+    other.startsAt < appointment.endsAt &&
+    appointment.startsAt < other.endsAt
+  );
+}
+
+export interface AuditLogPage {
+  entries: AuditLog[];
+  // Total de registros que atendem aos filtros, sem a paginação
+  total: number;
+}
+
+// Driver de persistência escolhido pela variável STORAGE_DRIVER (padrão: firestore)
+export const storageDriver = (process.env.STORAGE_DRIVER || 'firestore') as StorageDriver;
+
+// Instância usada pelas rotas; definida por initStorage() antes de registrar as rotas
+export let storage: IStorage;
+
+// Os drivers são importados dinamicamente para que o Firestore não exija
+// DATABASE_URL e o Postgres não inicialize o Firestore
+export async function initStorage(): Promise<IStorage> {
+  switch (storageDriver) {
+    case 'firestore': {
+      const { FirestoreStorage } = await import('./firestore-storage');
+      storage = new FirestoreStorage();
+      break;
+    }
+    case 'postgres': {
+      const { DrizzleStorage } = await import('./drizzle-storage');
+      storage = new DrizzleStorage();
+      break;
+    }
+    case 'memory': {
+      // MEMORY_STORAGE_FILE é opcional: sem ele os dados somem ao reiniciar
+      const { MemoryStorage } = await import('./memory-storage');
+      storage = new MemoryStorage(process.env.MEMORY_STORAGE_FILE);
+      break;
+    }
+    default:
+      throw new Error(`STORAGE_DRIVER inválido: ${storageDriver}`);
+  }
+
+  console.log(`Storage inicializado com o driver: ${storageDriver}`);
+  return storage;
+}
 
 // Exporta a interface IStorage para uso em outros lugares
 export interface IStorage {
   // Users
-  getUser(id: string): Promise<any>;
-  getUserByUid(uid: string): Promise<any>;
-  createUser(user: any): Promise<any>;
-  updateUser(id: string, userData: any): Promise<any>;
+  getUser(id: number): Promise<User | undefined>;
+  getUserByUid(uid: string): Promise<User | undefined>;
+  createUser(user: InsertUser): Promise<User>;
+  // Usuário do uid, criado na primeira chamada; pedidos simultâneos recebem o mesmo registro
+  provisionUser(user: InsertUser): Promise<User>;
+  updateUser(id: number, userData: Partial<InsertUser>): Promise<User | undefined>;
+  // Contas com exclusão agendada até a data indicada
+  getUsersScheduledForDeletion(before: Date): Promise<User[]>;
+  // Apaga o usuário, as participações em equipes, as notas, os convites e os pedidos de
+  // exportação dele (os arquivos das exportações ficam com quem chama) e o histórico
+  // de auditoria do perfil; nas mudanças de etapa e nas versões o autor fica em
+  // branco, e nos registros de auditoria que fez, também o email, o IP e o navegador.
+  // As empresas de que é dono devem ser excluídas antes
+  deleteUser(id: number): Promise<void>;
   
   // Companies
-  getCompany(id: string): Promise<any>;
-  getUserCompanies(userId: string): Promise<any[]>;
-  createCompany(company: any): Promise<any>;
-  updateCompany(id: string, company: any): Promise<any>;
+  getCompany(id: number): Promise<Company | undefined>;
+  // Empresas em que o usuário é membro, incluindo as que ele é dono
+  getUserCompanies(userId: number): Promise<Company[]>;
+  getCompanyBySlug(slug: string): Promise<Company | undefined>;
+  createCompany(company: InsertCompany): Promise<Company>;
+  updateCompany(id: number, company: Partial<InsertCompany>): Promise<Company | undefined>;
+  // Remove também serviços, categorias, imagens, vagas, candidaturas, agendamentos, membros, convites,
+  // versões e o registro de auditoria
+  deleteCompany(id: number): Promise<void>;
   
   // Services
-  getService(id: string): Promise<any>;
-  getCompanyServices(companyId: string): Promise<any[]>;
-  createService(service: any): Promise<any>;
-  updateService(id: string, service: any): Promise<any>;
-  deleteService(id: string): Promise<void>;
+  getService(id: number): Promise<Service | undefined>;
+  // Sem os serviços que estão na lixeira
+  getCompanyServices(companyId: number): Promise<Service[]>;
+  // Uma página dos serviços fora da lixeira, ordenada por (sort, id)
+  listCompanyServices(companyId: number, filter: ServiceListFilter): Promise<CursorPage<Service>>;
+  createService(service: InsertService): Promise<Service>;
+  updateService(id: number, service: Partial<InsertService>): Promise<Service | undefined>;
+  // Remove também as imagens, os agendamentos e as versões do serviço
+  deleteService(id: number): Promise<void>;
+  
+  // Service Categories
+  getServiceCategory(id: number): Promise<ServiceCategory | undefined>;
+  getCompanyServiceCategories(companyId: number): Promise<ServiceCategory[]>;
+  createServiceCategory(category: InsertServiceCategory): Promise<ServiceCategory>;
+  updateServiceCategory(id: number, category: Partial<InsertServiceCategory>): Promise<ServiceCategory | undefined>;
+  // As subcategorias e os serviços da categoria (inclusive os da lixeira) passam para a superior
+  deleteServiceCategory(id: number): Promise<void>;
   
   // Service Images
-  getServiceImages(serviceId: string): Promise<any[]>;
-  createServiceImage(image: any): Promise<any>;
-  deleteServiceImage(id: string): Promise<void>;
+  getServiceImage(id: number): Promise<ServiceImage | undefined>;
+  // Ordenadas por position
+  getServiceImages(serviceId: number): Promise<ServiceImage[]>;
+  // Imagens de vários serviços numa só consulta, ordenadas por serviço e position
+  getServiceImagesForServices(serviceIds: number[]): Promise<ServiceImage[]>;
+  createServiceImage(image: InsertServiceImage): Promise<ServiceImage>;
+  updateServiceImage(id: number, image: Partial<InsertServiceImage>): Promise<ServiceImage | undefined>;
+  // Grava position = índice de cada id na lista
+  reorderServiceImages(serviceId: number, imageIds: number[]): Promise<void>;
+  // Marca a imagem como capa e desmarca as demais do serviço
+  setServiceCoverImage(serviceId: number, imageId: number): Promise<void>;
+  deleteServiceImage(id: number): Promise<void>;
   
   // Job Offers
-  getJobOffer(id: string): Promise<any>;
-  getCompanyJobOffers(companyId: string): Promise<any[]>;
-  createJobOffer(jobOffer: any): Promise<any>;
-  updateJobOffer(id: string, jobOffer: any): Promise<any>;
-  deleteJobOffer(id: string): Promise<void>;
+  getJobOffer(id: number): Promise<JobOffer | undefined>;
+  // Sem as vagas que estão na lixeira
+  getCompanyJobOffers(companyId: number): Promise<JobOffer[]>;
+  // Uma página das vagas fora da lixeira, ordenada por (sort, id)
+  listCompanyJobOffers(companyId: number, filter: JobOfferListFilter): Promise<CursorPage<JobOffer>>;
+  // Vagas publicadas ou pausadas, fora da lixeira, cuja data de expiração já passou
+  getExpiredJobOffers(now: Date): Promise<JobOffer[]>;
+  createJobOffer(jobOffer: InsertJobOffer): Promise<JobOffer>;
+  updateJobOffer(id: number, jobOffer: Partial<InsertJobOffer>): Promise<JobOffer | undefined>;
+  // Remove também as candidaturas da vaga, com notas e histórico, e as versões
+  deleteJobOffer(id: number): Promise<void>;
+  
+  // Company Members
+  getCompanyMember(companyId: number, userId: number): Promise<CompanyMember | undefined>;
+  getCompanyMemberById(id: number): Promise<CompanyMember | undefined>;
+  getCompanyMembers(companyId: number): Promise<CompanyMember[]>;
+  createCompanyMember(member: InsertCompanyMember): Promise<CompanyMember>;
+  updateCompanyMember(id: number, member: Partial<InsertCompanyMember>): Promise<CompanyMember | undefined>;
+  deleteCompanyMember(id: number): Promise<void>;
+  
+  // Company Invitations
+  getCompanyInvitation(id: number): Promise<CompanyInvitation | undefined>;
+  getCompanyInvitationByToken(token: string): Promise<CompanyInvitation | undefined>;
+  getCompanyInvitations(companyId: number): Promise<CompanyInvitation[]>;
+  createCompanyInvitation(invitation: InsertCompanyInvitation): Promise<CompanyInvitation>;
+  updateCompanyInvitation(id: number, invitation: Partial<InsertCompanyInvitation>): Promise<CompanyInvitation | undefined>;
+  
+  // Job Applications
+  getJobApplication(id: number): Promise<JobApplication | undefined>;
+  getJobOfferApplications(jobOfferId: number): Promise<JobApplication[]>;
+  createJobApplication(application: InsertJobApplication): Promise<JobApplication>;
+  updateJobApplication(id: number, application: Partial<InsertJobApplication>): Promise<JobApplication | undefined>;
+  getJobApplicationNotes(applicationId: number): Promise<JobApplicationNote[]>;
+  createJobApplicationNote(note: InsertJobApplicationNote): Promise<JobApplicationNote>;
+  getJobApplicationStageChanges(applicationId: number): Promise<JobApplicationStageChange[]>;
+  createJobApplicationStageChange(change: InsertJobApplicationStageChange): Promise<JobApplicationStageChange>;
+  
+  // Appointments
+  getAppointment(id: number): Promise<Appointment | undefined>;
+  // Agendamentos da empresa que começam no período, por ordem de início
+  getCompanyAppointments(companyId: number, filter: AppointmentListQuery): Promise<Appointment[]>;
+  // Pedidos e confirmados do serviço que se sobrepõem ao período
+  getActiveServiceAppointments(serviceId: number, from: Date, to: Date): Promise<Appointment[]>;
+  // A verificação de conflito e a gravação são atômicas; se o horário de um agendamento
+  // ativo se sobrepõe a outro ativo do mesmo serviço, lançam AppointmentConflictError
+  createAppointment(appointment: InsertAppointment): Promise<Appointment>;
+  updateAppointment(id: number, appointment: Partial<InsertAppointment>): Promise<Appointment | undefined>;
+  
+  // Revisions
+  getRevision(id: number): Promise<Revision | undefined>;
+  // Da versão mais recente para a mais antiga
+  getRevisions(entityType: RevisionEntityType, entityId: number): Promise<Revision[]>;
+  // Grava com version = última versão do registro + 1
+  createRevision(revision: InsertRevision): Promise<Revision>;
+  
+  // Audit Log
+  createAuditLog(entry: InsertAuditLog): Promise<AuditLog>;
+  // Mais recentes primeiro
+  getAuditLogs(companyId: number, filter: AuditLogFilter): Promise<AuditLogPage>;
+  
+  // Trash
+  getCompanyTrash(companyId: number): Promise<TrashedRecords>;
+  // Itens de todas as empresas que foram para a lixeira até `cutoff`
+  getTrashedBefore(cutoff: Date): Promise<TrashedRecords>;
+  
+  // Data Exports
+  getDataExport(id: number): Promise<DataExport | undefined>;
+  // Mais recentes primeiro
+  getUserDataExports(userId: number): Promise<DataExport[]>;
+  createDataExport(dataExport: InsertDataExport): Promise<DataExport>;
+  updateDataExport(id: number, dataExport: Partial<InsertDataExport>): Promise<DataExport | undefined>;
+  // Exportações de todos os usuários cujo prazo terminou até `before`
+  getExpiredDataExports(before: Date): Promise<DataExport[]>;
+  deleteDataExport(id: number): Promise<void>;
+  
+  // Maintenance
+  getOrphanedRecords(): Promise<OrphanedRecords>;
 }
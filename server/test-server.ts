@@ -0,0 +1,62 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+
+/**
+ * Servidor de testes com as rotas reais sobre o storage em memória e o provedor
+ * de identidade de desenvolvimento. Cada chamada tem os próprios dados e arquivos.
+ *
+ * As variáveis de ambiente são definidas antes de importar as rotas, porque os
+ * módulos leem o driver na importação.
+ */
+export interface TestServer {
+  request(method: string, path: string, options?: { uid?: string; email?: string; unverified?: boolean; body?: unknown }): Promise<{ status: number; body: any }>;
+  close(): Promise<void>;
+}
+
+export async function startTestServer(): Promise<TestServer> {
+  const blobDir = fs.mkdtempSync(path.join(os.tmpdir(), "rbg-test-"));
+  process.env.STORAGE_DRIVER = "memory";
+  process.env.AUTH_PROVIDER = "dev";
+  process.env.BLOB_STORE_DRIVER = "local";
+  process.env.BLOB_STORAGE_DIR = blobDir;
+  delete process.env.MEMORY_STORAGE_FILE;
+
+  const { default: express } = await import("express");
+  const { initIdentityProvider } = await import("./middleware/auth");
+  const { initStorage } = await import("./storage");
+  const { initBlobStore } = await import("./blob-store");
+  const { registerRoutes } = await import("./routes");
+
+  await initIdentityProvider();
+  await initStorage();
+  await initBlobStore();
+
+  const app = express();
+  app.use(express.json());
+  const server: Server = await registerRoutes(app);
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    async request(method, requestPath, { uid, email, unverified, body } = {}) {
+      const headers: Record<string, string> = {};
+      if (uid) headers.Authorization = `Bearer dev:${uid}:${email ?? `${uid}@example.pt`}${unverified ? ':unverified' : ''}`;
+      if (body !== undefined) headers["Content-Type"] = "application/json";
+
+      const response = await fetch(`${baseUrl}${requestPath}`, {
+        method,
+        headers,
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      const text = await response.text();
+      return { status: response.status, body: text ? JSON.parse(text) : null };
+    },
+    async close() {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+      fs.rmSync(blobDir, { recursive: true, force: true });
+    },
+  };
+}
@@ -0,0 +1,86 @@
+import type { ServiceImage } from "@shared/schema";
+import { storage } from "./storage";
+import { blobStore } from "./blob-store";
+
+// Dias que um item fica na lixeira antes da exclusão definitiva (padrão: 30)
+export const trashRetentionDays = Number(process.env.TRASH_RETENTION_DAYS) || 30;
+
+// Intervalo entre limpezas da lixeira (padrão: 1 hora)
+const DEFAULT_INTERVAL_MS = 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Remove os arquivos das variantes de uma imagem enviada
+export async function deleteServiceImageFiles(image: ServiceImage) {
+  if (!image.variants) return;
+
+  await Promise.all(Object.values(image.variants).map(variant => blobStore.delete(variant.key)));
+}
+
+// Exclusão definitiva: primeiro os registros, depois os arquivos a que eles apontavam
+export async function purgeService(serviceId: number) {
+  const images = await storage.getServiceImages(serviceId);
+
+  await storage.deleteService(serviceId);
+  await Promise.all(images.map(deleteServiceImageFiles));
+}
+
+export async function purgeJobOffer(jobOfferId: number) {
+  const applications = await storage.getJobOfferApplications(jobOfferId);
+
+  await storage.deleteJobOffer(jobOfferId);
+  await Promise.all(applications.map(application => blobStore.delete(application.cvKey)));
+}
+
+// Empresa com tudo o que é dela, inclusive o que está na lixeira, e os arquivos enviados
+export async function purgeCompany(companyId: number) {
+  // Os arquivos são listados antes que os registros que apontam para eles desapareçam
+  const [services, jobOffers, trash] = await Promise.all([
+    storage.getCompanyServices(companyId),
+    storage.getCompanyJobOffers(companyId),
+    storage.getCompanyTrash(companyId),
+  ]);
+  const [images, applications] = await Promise.all([
+    storage.getServiceImagesForServices([...services, ...trash.services].map(service => service.id)),
+    Promise.all([...jobOffers, ...trash.jobOffers].map(jobOffer => storage.getJobOfferApplications(jobOffer.id))),
+  ]);
+
+  await storage.deleteCompany(companyId);
+  await Promise.all([
+    ...images.map(deleteServiceImageFiles),
+    ...applications.flat().map(application => blobStore.delete(application.cvKey)),
+  ]);
+}
+
+// Exclui de vez o que está na lixeira há mais tempo do que a retenção
+export async function purgeExpiredTrash(now = new Date()): Promise<number> {
+  const cutoff = new Date(now.getTime() - trashRetentionDays * DAY_MS);
+  const { services, jobOffers } = await storage.getTrashedBefore(cutoff);
+
+  for (const service of services) {
+    await purgeService(service.id);
+  }
+  for (const jobOffer of jobOffers) {
+    await purgeJobOffer(jobOffer.id);
+  }
+
+  return services.length + jobOffers.length;
+}
+
+export function startTrashPurger(intervalMs = Number(process.env.TRASH_PURGE_INTERVAL_MS) || DEFAULT_INTERVAL_MS) {
+  const purge = async () => {
+    try {
+      const purged = await purgeExpiredTrash();
+      if (purged > 0) {
+        console.log(`Itens excluídos da lixeira: ${purged}`);
+      }
+    } catch (error) {
+      console.error('Erro ao limpar a lixeira:', error);
+    }
+  };
+
+  purge();
+  const timer = setInterval(purge, intervalMs);
+  timer.unref();
+  return timer;
+}
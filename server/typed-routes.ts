@@ -0,0 +1,18 @@
+import type { Express, RequestHandler } from "express";
+import type { ApiContract, ApiErrorResponse, ContractResponse, Jsonable, PathParamNames } from "@shared/api-contracts";
+
+// Handler de uma rota do contrato: os parâmetros do caminho e o corpo da resposta vêm tipados dele
+export type ContractHandler<C extends ApiContract> = RequestHandler<
+  { [K in PathParamNames<C["path"]>]: string },
+  Jsonable<ContractResponse<C>> | ApiErrorResponse
+>;
+
+const expressMethods = { GET: "get", POST: "post", PUT: "put", DELETE: "delete" } as const;
+
+/**
+ * Regista a rota descrita pelo contrato. O `res.json` dos handlers só aceita a
+ * resposta do contrato (com datas ainda como Date) ou um corpo de erro.
+ */
+export function route<C extends ApiContract>(app: Express, contract: C, ...handlers: ContractHandler<C>[]) {
+  app[expressMethods[contract.method]](contract.path, ...(handlers as RequestHandler[]));
+}
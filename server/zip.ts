@@ -0,0 +1,105 @@
+import { deflateRawSync } from "zlib";
+
+/**
+ * Gerador mínimo de arquivos ZIP, suficiente para as exportações de dados.
+ *
+ * Todo o conteúdo fica em memória e cada entrada é comprimida com deflate; não há
+ * suporte a ZIP64, por isso o arquivo e cada entrada ficam abaixo de 4 GB.
+ */
+export interface ZipEntry {
+  // Caminho dentro do ZIP, com "/" como separador
+  name: string;
+  data: Buffer | string;
+  modifiedAt?: Date;
+}
+
+// Bit 11 das flags: nomes em UTF-8
+const UTF8_FLAG = 0x0800;
+const DEFLATE = 8;
+const STORE = 0;
+const VERSION = 20;
+
+// Tabela do CRC-32 (polinômio 0xEDB88320); o crc32 do zlib só existe a partir do Node 20.15
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Data e hora no formato do MS-DOS, usado nos cabeçalhos do ZIP (resolução de 2 segundos)
+function toDosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+export function createZip(entries: ZipEntry[]): Buffer {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf-8');
+    const data = typeof entry.data === 'string' ? Buffer.from(entry.data, 'utf-8') : entry.data;
+    const deflated = deflateRawSync(data);
+    // Arquivos já comprimidos (imagens, PDFs) podem crescer com o deflate
+    const method = deflated.length < data.length ? DEFLATE : STORE;
+    const content = method === DEFLATE ? deflated : data;
+    const checksum = crc32(data);
+    const { time, date } = toDosDateTime(entry.modifiedAt ?? new Date());
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(VERSION, 4);
+    local.writeUInt16LE(UTF8_FLAG, 6);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(date, 12);
+    local.writeUInt32LE(checksum, 14);
+    local.writeUInt32LE(content.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(VERSION, 4);
+    central.writeUInt16LE(VERSION, 6);
+    central.writeUInt16LE(UTF8_FLAG, 8);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt16LE(time, 12);
+    central.writeUInt16LE(date, 14);
+    central.writeUInt32LE(checksum, 16);
+    central.writeUInt32LE(content.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    // Extra, comentário, disco, atributos internos e externos ficam em zero
+    central.writeUInt32LE(offset, 42);
+
+    localParts.push(local, name, content);
+    centralParts.push(central, name);
+    offset += local.length + name.length + content.length;
+  }
+
+  const centralSize = centralParts.reduce((size, part) => size + part.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralSize, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, ...centralParts, end]);
+}
@@ -0,0 +1,239 @@
+import { z } from "zod";
+import {
+  insertCompanySchema,
+  serviceFieldsSchema,
+  serviceCategoryFieldsSchema,
+  renameServiceTagSchema,
+  updateServiceImageSchema,
+  reorderServiceImagesSchema,
+  jobOfferFieldsSchema,
+  createInvitationSchema,
+  updateMemberRoleSchema,
+  updateApplicationStageSchema,
+  createApplicationNoteSchema,
+  auditLogQuerySchema,
+  searchQuerySchema,
+  serviceListQuerySchema,
+  jobOfferListQuerySchema,
+  appointmentListQuerySchema,
+  serviceSlotsQuerySchema,
+  bookAppointmentSchema,
+  rescheduleAppointmentSchema,
+  revisionDiffQuerySchema,
+  updateProfileSchema,
+  deleteAccountSchema,
+  type AccountDeletionResponse,
+  type AppointmentResponse,
+  type AuditLogPageResponse,
+  type DataExportResponse,
+  type BookAppointmentResponse,
+  type CompanyInvitationResponse,
+  type CompanyInvitationWithCompanyResponse,
+  type CompanyMember,
+  type CompanyMemberResponse,
+  type CompanyResponse,
+  type CompanyTrashResponse,
+  type CompanyWithRoleResponse,
+  type JobApplicationDetailResponse,
+  type JobApplicationResponse,
+  type JobOfferListResponse,
+  type JobOfferResponse,
+  type PublicCompanyProfileResponse,
+  type RevisionDiffResponse,
+  type RevisionResponse,
+  type SearchResponse,
+  type Serialized,
+  type Service,
+  type ServiceAvailabilityResponse,
+  type ServiceCategory,
+  type ServiceCategoryResponse,
+  type ServiceImageResponse,
+  type ServiceListResponse,
+  type ServiceResponse,
+  type ServiceSlotsResponse,
+  type ServiceTagSummary,
+  type UserResponse,
+} from "./schema";
+
+/**
+ * Contratos das rotas da API: método, caminho, corpo e query validados pelos
+ * schemas zod e o tipo da resposta. O servidor regista as rotas a partir deles
+ * e o cliente monta os pedidos com eles, por isso uma resposta ou um corpo que
+ * não batem com o contrato falham na compilação dos dois lados.
+ */
+
+export type HttpMethod = "GET" | "POST" | "PUT" | "DELETE";
+
+export interface ApiContract<
+  TPath extends string = string,
+  TBody extends z.ZodTypeAny | undefined = z.ZodTypeAny | undefined,
+  TQuery extends z.ZodTypeAny | undefined = z.ZodTypeAny | undefined,
+  TResponse = unknown,
+> {
+  method: HttpMethod;
+  path: TPath;
+  body?: TBody;
+  query?: TQuery;
+  // Só existe no tipo: a resposta não é validada em tempo de execução
+  readonly response?: TResponse;
+}
+
+// Corpo de erro de todas as rotas; `errors` traz os problemas de validação
+export type ApiErrorResponse = {
+  message: string;
+  error?: string;
+  errors?: unknown[];
+};
+
+export type SuccessResponse = { success: boolean };
+
+// Valor como sai do JSON.stringify: datas ainda como Date de um lado, já como string do outro
+export type Jsonable<T> =
+  T extends Date ? Date | string :
+  T extends string ? T | Date :
+  T extends (infer U)[] ? Jsonable<U>[] :
+  T extends object ? { [K in keyof T]: Jsonable<T[K]> } :
+  T;
+
+export type PathParamNames<TPath extends string> =
+  TPath extends `${string}:${infer Param}/${infer Rest}` ? Param | PathParamNames<`/${Rest}`> :
+  TPath extends `${string}:${infer Param}` ? Param :
+  never;
+
+export type PathParams<TPath extends string> = { [K in PathParamNames<TPath>]: string | number };
+
+export type ContractResponse<C> = C extends ApiContract<string, any, any, infer TResponse> ? TResponse : never;
+export type ContractBody<C> = C extends ApiContract<string, infer TBody, any, unknown>
+  ? TBody extends z.ZodTypeAny ? z.input<TBody> : never
+  : never;
+export type ContractQuery<C> = C extends ApiContract<string, any, infer TQuery, unknown>
+  ? TQuery extends z.ZodTypeAny ? z.input<TQuery> : never
+  : never;
+
+// O tipo da resposta vai à parte para o resto do contrato continuar inferido
+const contract = <TResponse>() =>
+  <TPath extends string, TBody extends z.ZodTypeAny | undefined = undefined, TQuery extends z.ZodTypeAny | undefined = undefined>(
+    definition: { method: HttpMethod; path: TPath; body?: TBody; query?: TQuery }
+  ): ApiContract<TPath, TBody, TQuery, TResponse> => definition;
+
+// Substitui os :parâmetros do caminho pelos valores, já codificados para a URL
+export function buildPath<TPath extends string>(path: TPath, params: PathParams<TPath>): string {
+  return path.replace(/:(\w+)/g, (_, name: string) => encodeURIComponent(String((params as Record<string, string | number>)[name])));
+}
+
+// Corpos de criação e edição: a empresa e o dono vêm da rota e do usuário autenticado
+const companyBodySchema = insertCompanySchema.omit({ ownerId: true });
+const serviceBodySchema = serviceFieldsSchema.omit({ companyId: true });
+const jobOfferBodySchema = jobOfferFieldsSchema.omit({ companyId: true });
+const serviceImageUrlSchema = z.object({
+  url: z.string(),
+  altText: z.string().nullable().optional(),
+});
+
+type ServiceCategoryRecordResponse = Serialized<ServiceCategory>;
+type CompanyMemberRecordResponse = Serialized<CompanyMember>;
+type RestoredRevisionResponse = CompanyResponse | Serialized<Service> | JobOfferResponse;
+type JobApplicationReceiptResponse = { id: number; createdAt: string | null };
+
+export const apiContracts = {
+  // Auth
+  getCurrentUser: contract<UserResponse>()({ method: "GET", path: "/api/auth/me" }),
+  updateProfile: contract<SuccessResponse>()({ method: "PUT", path: "/api/user/profile", body: updateProfileSchema }),
+  deleteAccount: contract<AccountDeletionResponse>()({ method: "DELETE", path: "/api/user", body: deleteAccountSchema }),
+  cancelAccountDeletion: contract<UserResponse>()({ method: "POST", path: "/api/user/deletion/cancel" }),
+  // Devolve a exportação em curso ou pronta; sem nenhuma válida, começa uma nova.
+  // O ZIP é baixado em /api/user/export/:id/download, fora dos contratos por não ser JSON
+  requestDataExport: contract<DataExportResponse>()({ method: "GET", path: "/api/user/export" }),
+  getLatestDataExport: contract<DataExportResponse | null>()({ method: "GET", path: "/api/user/export/latest" }),
+
+  // Companies
+  getCompanies: contract<CompanyWithRoleResponse[]>()({ method: "GET", path: "/api/companies" }),
+  getCompany: contract<CompanyWithRoleResponse>()({ method: "GET", path: "/api/companies/:id" }),
+  createCompany: contract<CompanyWithRoleResponse>()({ method: "POST", path: "/api/companies", body: companyBodySchema }),
+  updateCompany: contract<CompanyResponse>()({ method: "PUT", path: "/api/companies/:id", body: companyBodySchema.partial() }),
+  deleteCompany: contract<SuccessResponse>()({ method: "DELETE", path: "/api/companies/:id" }),
+
+  // Services
+  getCompanyServices: contract<ServiceListResponse>()({ method: "GET", path: "/api/companies/:companyId/services", query: serviceListQuerySchema }),
+  getService: contract<ServiceResponse>()({ method: "GET", path: "/api/services/:id" }),
+  getServiceAvailability: contract<ServiceAvailabilityResponse>()({ method: "GET", path: "/api/services/:id/availability" }),
+  createService: contract<ServiceResponse>()({ method: "POST", path: "/api/companies/:companyId/services", body: serviceBodySchema }),
+  updateService: contract<ServiceResponse>()({ method: "PUT", path: "/api/services/:id", body: serviceBodySchema.partial() }),
+  deleteService: contract<SuccessResponse>()({ method: "DELETE", path: "/api/services/:id" }),
+  restoreService: contract<Serialized<Service>>()({ method: "POST", path: "/api/services/:id/restore" }),
+  purgeService: contract<SuccessResponse>()({ method: "DELETE", path: "/api/services/:id/permanent" }),
+
+  // Service categories and tags
+  getServiceCategories: contract<ServiceCategoryResponse[]>()({ method: "GET", path: "/api/companies/:companyId/service-categories" }),
+  createServiceCategory: contract<ServiceCategoryResponse>()({ method: "POST", path: "/api/companies/:companyId/service-categories", body: serviceCategoryFieldsSchema }),
+  updateServiceCategory: contract<ServiceCategoryRecordResponse>()({ method: "PUT", path: "/api/service-categories/:id", body: serviceCategoryFieldsSchema.partial() }),
+  deleteServiceCategory: contract<SuccessResponse>()({ method: "DELETE", path: "/api/service-categories/:id" }),
+  getServiceTags: contract<ServiceTagSummary[]>()({ method: "GET", path: "/api/companies/:companyId/service-tags" }),
+  renameServiceTag: contract<ServiceTagSummary[]>()({ method: "PUT", path: "/api/companies/:companyId/service-tags/:tag", body: renameServiceTagSchema }),
+  deleteServiceTag: contract<SuccessResponse>()({ method: "DELETE", path: "/api/companies/:companyId/service-tags/:tag" }),
+
+  // Service images: o upload vai em multipart, fora do corpo JSON
+  addServiceImage: contract<ServiceImageResponse>()({ method: "POST", path: "/api/services/:serviceId/images", body: serviceImageUrlSchema }),
+  uploadServiceImage: contract<ServiceImageResponse>()({ method: "POST", path: "/api/services/:serviceId/images/upload" }),
+  reorderServiceImages: contract<ServiceImageResponse[]>()({ method: "PUT", path: "/api/services/:serviceId/images/order", body: reorderServiceImagesSchema }),
+  updateServiceImage: contract<ServiceImageResponse>()({ method: "PUT", path: "/api/service-images/:id", body: updateServiceImageSchema }),
+  deleteServiceImage: contract<SuccessResponse>()({ method: "DELETE", path: "/api/service-images/:id" }),
+
+  // Job offers
+  getCompanyJobOffers: contract<JobOfferListResponse>()({ method: "GET", path: "/api/companies/:companyId/job-offers", query: jobOfferListQuerySchema }),
+  getJobOffer: contract<JobOfferResponse>()({ method: "GET", path: "/api/job-offers/:id" }),
+  createJobOffer: contract<JobOfferResponse>()({ method: "POST", path: "/api/companies/:companyId/job-offers", body: jobOfferBodySchema }),
+  updateJobOffer: contract<JobOfferResponse>()({ method: "PUT", path: "/api/job-offers/:id", body: jobOfferBodySchema.partial() }),
+  publishJobOffer: contract<JobOfferResponse>()({ method: "POST", path: "/api/job-offers/:id/publish" }),
+  unpublishJobOffer: contract<JobOfferResponse>()({ method: "POST", path: "/api/job-offers/:id/unpublish" }),
+  closeJobOffer: contract<JobOfferResponse>()({ method: "POST", path: "/api/job-offers/:id/close" }),
+  deleteJobOffer: contract<SuccessResponse>()({ method: "DELETE", path: "/api/job-offers/:id" }),
+  restoreJobOffer: contract<JobOfferResponse>()({ method: "POST", path: "/api/job-offers/:id/restore" }),
+  purgeJobOffer: contract<SuccessResponse>()({ method: "DELETE", path: "/api/job-offers/:id/permanent" }),
+
+  // Trash, audit log and search
+  getCompanyTrash: contract<CompanyTrashResponse>()({ method: "GET", path: "/api/companies/:companyId/trash" }),
+  getCompanyAuditLogs: contract<AuditLogPageResponse>()({ method: "GET", path: "/api/companies/:companyId/audit-logs", query: auditLogQuerySchema }),
+  searchCompany: contract<SearchResponse>()({ method: "GET", path: "/api/companies/:companyId/search", query: searchQuerySchema }),
+
+  // Revisions
+  getCompanyRevisions: contract<RevisionResponse[]>()({ method: "GET", path: "/api/companies/:id/revisions" }),
+  getServiceRevisions: contract<RevisionResponse[]>()({ method: "GET", path: "/api/services/:id/revisions" }),
+  getJobOfferRevisions: contract<RevisionResponse[]>()({ method: "GET", path: "/api/job-offers/:id/revisions" }),
+  getRevisionDiff: contract<RevisionDiffResponse>()({ method: "GET", path: "/api/revisions/:id/diff", query: revisionDiffQuerySchema }),
+  restoreRevision: contract<RestoredRevisionResponse>()({ method: "POST", path: "/api/revisions/:id/restore" }),
+
+  // Public pages: a candidatura vai em multipart, com o CV
+  getPublicCompany: contract<PublicCompanyProfileResponse>()({ method: "GET", path: "/api/public/companies/:slug" }),
+  applyToJobOffer: contract<JobApplicationReceiptResponse>()({ method: "POST", path: "/api/public/job-offers/:id/applications" }),
+  getPublicServiceSlots: contract<ServiceSlotsResponse>()({ method: "GET", path: "/api/public/services/:id/slots", query: serviceSlotsQuerySchema }),
+  bookAppointment: contract<BookAppointmentResponse>()({ method: "POST", path: "/api/public/services/:id/appointments", body: bookAppointmentSchema }),
+
+  // Job applications
+  getJobOfferApplications: contract<JobApplicationResponse[]>()({ method: "GET", path: "/api/job-offers/:id/applications" }),
+  getApplication: contract<JobApplicationDetailResponse>()({ method: "GET", path: "/api/applications/:id" }),
+  updateApplicationStage: contract<JobApplicationDetailResponse>()({ method: "PUT", path: "/api/applications/:id/stage", body: updateApplicationStageSchema }),
+  addApplicationNote: contract<JobApplicationDetailResponse>()({ method: "POST", path: "/api/applications/:id/notes", body: createApplicationNoteSchema }),
+
+  // Appointments
+  getCompanyAppointments: contract<AppointmentResponse[]>()({ method: "GET", path: "/api/companies/:companyId/appointments", query: appointmentListQuerySchema }),
+  getServiceSlots: contract<ServiceSlotsResponse>()({ method: "GET", path: "/api/services/:id/slots", query: serviceSlotsQuerySchema }),
+  getAppointment: contract<AppointmentResponse>()({ method: "GET", path: "/api/appointments/:id" }),
+  confirmAppointment: contract<AppointmentResponse>()({ method: "POST", path: "/api/appointments/:id/confirm" }),
+  cancelAppointment: contract<AppointmentResponse>()({ method: "POST", path: "/api/appointments/:id/cancel" }),
+  completeAppointment: contract<AppointmentResponse>()({ method: "POST", path: "/api/appointments/:id/complete" }),
+  markAppointmentNoShow: contract<AppointmentResponse>()({ method: "POST", path: "/api/appointments/:id/no-show" }),
+  rescheduleAppointment: contract<AppointmentResponse>()({ method: "POST", path: "/api/appointments/:id/reschedule", body: rescheduleAppointmentSchema }),
+
+  // Members and invitations
+  getCompanyMembers: contract<CompanyMemberResponse[]>()({ method: "GET", path: "/api/companies/:companyId/members" }),
+  updateCompanyMember: contract<CompanyMemberResponse>()({ method: "PUT", path: "/api/companies/:companyId/members/:memberId", body: updateMemberRoleSchema }),
+  removeCompanyMember: contract<SuccessResponse>()({ method: "DELETE", path: "/api/companies/:companyId/members/:memberId" }),
+  getCompanyInvitations: contract<CompanyInvitationResponse[]>()({ method: "GET", path: "/api/companies/:companyId/invitations" }),
+  createCompanyInvitation: contract<CompanyInvitationResponse>()({ method: "POST", path: "/api/companies/:companyId/invitations", body: createInvitationSchema }),
+  revokeCompanyInvitation: contract<CompanyInvitationResponse>()({ method: "POST", path: "/api/invitations/:id/revoke" }),
+  getInvitation: contract<CompanyInvitationWithCompanyResponse>()({ method: "GET", path: "/api/invitations/:token" }),
+  acceptInvitation: contract<CompanyMemberRecordResponse>()({ method: "POST", path: "/api/invitations/:token/accept" }),
+};
+
+export type ApiContracts = typeof apiContracts;
@@ -0,0 +1,240 @@
+import {
+  weekdays,
+  type Company,
+  type OpeningHours,
+  type Service,
+  type SpecialDay,
+  type TimeInterval,
+  type Weekday,
+} from "./schema";
+
+export const DEFAULT_TIMEZONE = "Europe/Lisbon";
+
+// Fusos de Portugal continental e das regiões autónomas
+export const portugueseTimezones = [
+  { value: "Europe/Lisbon", label: "Portugal continental" },
+  { value: "Atlantic/Madeira", label: "Madeira" },
+  { value: "Atlantic/Azores", label: "Açores" },
+];
+
+export const weekdayLabels: Record<Weekday, string> = {
+  mon: "Segunda-feira",
+  tue: "Terça-feira",
+  wed: "Quarta-feira",
+  thu: "Quinta-feira",
+  fri: "Sexta-feira",
+  sat: "Sábado",
+  sun: "Domingo",
+};
+
+const weekdayShortLabels: Record<Weekday, string> = {
+  mon: "Seg",
+  tue: "Ter",
+  wed: "Qua",
+  thu: "Qui",
+  fri: "Sex",
+  sat: "Sáb",
+  sun: "Dom",
+};
+
+// Ponto de partida do editor: dias úteis das 9h às 18h, com pausa para almoço
+export function createDefaultOpeningHours(): OpeningHours {
+  const workday = () => [{ start: "09:00", end: "13:00" }, { start: "14:00", end: "18:00" }];
+
+  return {
+    timezone: DEFAULT_TIMEZONE,
+    weekly: { mon: workday(), tue: workday(), wed: workday(), thu: workday(), fri: workday(), sat: [], sun: [] },
+    exceptions: [],
+    closedOnPublicHolidays: true,
+  };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const pad = (value: number) => String(value).padStart(2, "0");
+const isoDate = (year: number, month: number, day: number) => `${year}-${pad(month)}-${pad(day)}`;
+
+// Domingo de Páscoa pelo algoritmo de Meeus/Jones/Butcher (calendário gregoriano)
+function easterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function daysAfter(date: Date, days: number): string {
+  const shifted = new Date(date.getTime() + days * DAY_MS);
+  return isoDate(shifted.getUTCFullYear(), shifted.getUTCMonth() + 1, shifted.getUTCDate());
+}
+
+/**
+ * Feriados nacionais obrigatórios de Portugal num ano, por ordem de data.
+ *
+ * O Carnaval, os feriados municipais e os regionais (Madeira, Açores) não
+ * entram; quem fecha nesses dias cadastra uma exceção.
+ */
+export function getPortugueseHolidays(year: number): { date: string; name: string }[] {
+  const easter = easterSunday(year);
+
+  return [
+    { date: isoDate(year, 1, 1), name: "Ano Novo" },
+    { date: daysAfter(easter, -2), name: "Sexta-feira Santa" },
+    { date: daysAfter(easter, 0), name: "Páscoa" },
+    { date: isoDate(year, 4, 25), name: "Dia da Liberdade" },
+    { date: isoDate(year, 5, 1), name: "Dia do Trabalhador" },
+    { date: daysAfter(easter, 60), name: "Corpo de Deus" },
+    { date: isoDate(year, 6, 10), name: "Dia de Portugal" },
+    { date: isoDate(year, 8, 15), name: "Assunção de Nossa Senhora" },
+    { date: isoDate(year, 10, 5), name: "Implantação da República" },
+    { date: isoDate(year, 11, 1), name: "Dia de Todos os Santos" },
+    { date: isoDate(year, 12, 1), name: "Restauração da Independência" },
+    { date: isoDate(year, 12, 8), name: "Imaculada Conceição" },
+    { date: isoDate(year, 12, 25), name: "Natal" },
+  ].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// Dia da semana de uma data AAAA-MM-DD, sem depender do fuso do processo
+function weekdayOf(date: string): Weekday {
+  const day = new Date(`${date}T12:00:00Z`).getUTCDay();
+  return weekdays[(day + 6) % 7];
+}
+
+// Data e hora locais de um instante no fuso do horário
+function toLocalTime(at: Date, timeZone: string): { date: string; time: string } {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-CA", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    }).formatToParts(at).map(part => [part.type, part.value])
+  );
+
+  return { date: `${parts.year}-${parts.month}-${parts.day}`, time: `${parts.hour}:${parts.minute}` };
+}
+
+// Data AAAA-MM-DD somada de `days` dias
+export function addDays(date: string, days: number): string {
+  return daysAfter(new Date(`${date}T00:00:00Z`), days);
+}
+
+// Data de um instante no fuso do horário
+export function getLocalDate(at: Date, timeZone: string): string {
+  return toLocalTime(at, timeZone).date;
+}
+
+/**
+ * Instante em que uma data e hora locais acontecem no fuso `timeZone`.
+ *
+ * Parte da hora como se o fuso fosse UTC e corrige pela diferença observada;
+ * a segunda passagem acerta os dias de mudança de hora. "24:00" é a meia-noite
+ * do fim do dia.
+ */
+export function localTimeToDate(date: string, time: string, timeZone: string): Date {
+  const target = time === "24:00"
+    ? Date.parse(`${date}T00:00:00Z`) + DAY_MS
+    : Date.parse(`${date}T${time}:00Z`);
+  let instant = target;
+
+  for (let pass = 0; pass < 2; pass++) {
+    const local = toLocalTime(new Date(instant), timeZone);
+    instant += target - Date.parse(`${local.date}T${local.time}:00Z`);
+  }
+
+  return new Date(instant);
+}
+
+// Intervalos de uma data: a exceção cadastrada, o feriado (fechado) ou o dia da semana
+export function getIntervalsOn(hours: OpeningHours, date: string): TimeInterval[] {
+  const exception = hours.exceptions.find(entry => entry.date === date);
+  if (exception) return exception.intervals;
+
+  if (hours.closedOnPublicHolidays) {
+    const year = Number(date.slice(0, 4));
+    if (getPortugueseHolidays(year).some(holiday => holiday.date === date)) return [];
+  }
+
+  return hours.weekly[weekdayOf(date)];
+}
+
+export function isOpenAt(hours: OpeningHours, at: Date = new Date()): boolean {
+  const { date, time } = toLocalTime(at, hours.timezone);
+  return getIntervalsOn(hours, date).some(interval => interval.start <= time && time < interval.end);
+}
+
+/**
+ * Exceções e feriados entre hoje (no fuso do horário) e `days` dias depois.
+ *
+ * Feriados só aparecem quando o horário fecha neles; um feriado com exceção
+ * cadastrada aparece uma vez, como exceção.
+ */
+export function getUpcomingSpecialDays(hours: OpeningHours, from: Date = new Date(), days = 60): SpecialDay[] {
+  const today = toLocalTime(from, hours.timezone).date;
+  const todayUtc = new Date(`${today}T00:00:00Z`);
+  const last = daysAfter(todayUtc, days);
+  const inRange = (date: string) => date >= today && date <= last;
+
+  const exceptions: SpecialDay[] = hours.exceptions
+    .filter(exception => inRange(exception.date))
+    .map(exception => ({ date: exception.date, kind: "exception", label: exception.note, intervals: exception.intervals }));
+
+  const exceptionDates = new Set(exceptions.map(day => day.date));
+  const years = Array.from(new Set([today.slice(0, 4), last.slice(0, 4)])).map(Number);
+  const holidays: SpecialDay[] = hours.closedOnPublicHolidays
+    ? years
+        .flatMap(getPortugueseHolidays)
+        .filter(holiday => inRange(holiday.date) && !exceptionDates.has(holiday.date))
+        .map(holiday => ({ date: holiday.date, kind: "holiday", label: holiday.name, intervals: [] }))
+    : [];
+
+  return [...exceptions, ...holidays].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// Horário que vale para o serviço: o próprio ou, sem ele, o padrão da empresa
+export function resolveOpeningHours(
+  service: Pick<Service, "openingHours">,
+  company: Pick<Company, "openingHours"> | null | undefined
+): { source: "service" | "company" | null; openingHours: OpeningHours | null } {
+  if (service.openingHours) return { source: "service", openingHours: service.openingHours };
+  if (company?.openingHours) return { source: "company", openingHours: company.openingHours };
+  return { source: null, openingHours: null };
+}
+
+export const formatIntervals = (intervals: TimeInterval[]) =>
+  intervals.length === 0 ? "Fechado" : intervals.map(interval => `${interval.start}–${interval.end}`).join(", ");
+
+// Resumo da semana agrupando dias seguidos com o mesmo horário ("Seg–Sex 09:00–18:00; Sáb–Dom Fechado")
+export function formatWeeklySummary(hours: OpeningHours): string {
+  const groups: { from: Weekday; to: Weekday; text: string }[] = [];
+
+  for (const day of weekdays) {
+    const text = formatIntervals(hours.weekly[day]);
+    const last = groups[groups.length - 1];
+
+    if (last && last.text === text) last.to = day;
+    else groups.push({ from: day, to: day, text });
+  }
+
+  return groups
+    .map(group => {
+      const days = group.from === group.to
+        ? weekdayShortLabels[group.from]
+        : `${weekdayShortLabels[group.from]}–${weekdayShortLabels[group.to]}`;
+      return `${days} ${group.text}`;
+    })
+    .join("; ");
+}
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp, varchar } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, varchar, date, numeric, unique, jsonb, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
@@ -10,23 +10,71 @@ export const users = pgTable("users", {
   email: text("email").notNull(),
   displayName: text("display_name"),
   photoURL: text("photo_url"),
+  // Data em que a conta será excluída; nulo quando não há pedido de exclusão
+  deletionScheduledAt: timestamp("deletion_scheduled_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
 export const usersRelations = relations(users, ({ one, many }) => ({
   companies: many(companies),
+  memberships: many(companyMembers),
 }));
 
+// Horário de funcionamento: intervalos "HH:MM" em cada dia da semana, no fuso horário indicado.
+// Intervalos que passam da meia-noite não são aceites; use um até 24:00 e outro a partir de 00:00
+export const weekdays = ["mon", "tue", "wed", "thu", "fri", "sat", "sun"] as const;
+export type Weekday = typeof weekdays[number];
+
+export interface TimeInterval {
+  start: string;
+  end: string;
+}
+
+// Data com horário diferente do habitual; sem intervalos, fechado o dia todo
+export interface OpeningHoursException {
+  date: string;
+  intervals: TimeInterval[];
+  note: string | null;
+}
+
+// Dia em que não vale o horário semanal: uma exceção cadastrada ou um feriado nacional
+export interface SpecialDay {
+  date: string;
+  kind: "exception" | "holiday";
+  // Nome do feriado ou nota da exceção
+  label: string | null;
+  intervals: TimeInterval[];
+}
+
+export interface OpeningHours {
+  timezone: string;
+  weekly: Record<Weekday, TimeInterval[]>;
+  exceptions: OpeningHoursException[];
+  // Fechado nos feriados nacionais, salvo quando há uma exceção para a data
+  closedOnPublicHolidays: boolean;
+}
+
 // Company model
 export const companies = pgTable("companies", {
   id: serial("id").primaryKey(),
   name: varchar("name", { length: 255 }).notNull(),
   description: text("description").notNull(),
-  cnpj: varchar("cnpj", { length: 20 }),
-  address: text("address"),
+  nif: varchar("nif", { length: 9 }),
+  email: varchar("email", { length: 255 }),
   phone: varchar("phone", { length: 20 }),
+  address: text("address"),
+  postalCode: varchar("postal_code", { length: 8 }),
+  city: varchar("city", { length: 100 }),
+  country: varchar("country", { length: 100 }).notNull().default("Portugal"),
   website: text("website"),
+  caeCode: varchar("cae_code", { length: 5 }),
+  constitutionDate: date("constitution_date"),
+  shareCapital: numeric("share_capital", { precision: 14, scale: 2 }),
+  slug: varchar("slug", { length: 100 }).unique(),
+  isPublic: boolean("is_public").notNull().default(false),
+  // Horário padrão dos serviços que não têm um próprio
+  openingHours: jsonb("opening_hours").$type<OpeningHours>(),
   ownerId: integer("owner_id").notNull().references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -39,16 +87,77 @@ export const companiesRelations = relations(companies, ({ one, many }) => ({
   }),
   services: many(services),
   jobOffers: many(jobOffers),
+  members: many(companyMembers),
+  invitations: many(companyInvitations),
+  revisions: many(revisions),
+  appointments: many(appointments),
+  serviceCategories: many(serviceCategories),
+}));
+
+// Níveis da árvore de categorias: categoria, subcategoria e mais um
+export const MAX_SERVICE_CATEGORY_DEPTH = 3;
+
+// Categoria de serviços da empresa; sem parentId, fica na raiz da árvore
+export const serviceCategories = pgTable("service_categories", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").notNull().references(() => companies.id),
+  parentId: integer("parent_id").references((): AnyPgColumn => serviceCategories.id),
+  name: varchar("name", { length: 100 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const serviceCategoriesRelations = relations(serviceCategories, ({ one, many }) => ({
+  company: one(companies, {
+    fields: [serviceCategories.companyId],
+    references: [companies.id],
+  }),
+  parent: one(serviceCategories, {
+    fields: [serviceCategories.parentId],
+    references: [serviceCategories.id],
+    relationName: "subcategories",
+  }),
+  subcategories: many(serviceCategories, { relationName: "subcategories" }),
+  services: many(services),
 }));
 
+// Formas de cobrar um serviço; pedidos de orçamento não têm valor
+export const servicePricingTypes = ["fixed", "hourly", "from", "quote"] as const;
+export type ServicePricingType = typeof servicePricingTypes[number];
+
+// Variante ou pacote de um serviço, cobrado da mesma forma e na mesma moeda que ele
+export interface ServicePriceVariant {
+  name: string;
+  description: string | null;
+  priceCents: number;
+}
+
 // Service model
 export const services = pgTable("services", {
   id: serial("id").primaryKey(),
   name: varchar("name", { length: 255 }).notNull(),
   description: text("description").notNull(),
-  price: varchar("price", { length: 50 }),
-  workingHours: varchar("working_hours", { length: 100 }),
+  // Sem tipo, o serviço não mostra preço. Valores em cêntimos, com o IVA incluído
+  pricingType: varchar("pricing_type", { length: 20 }).$type<ServicePricingType>(),
+  priceCents: integer("price_cents"),
+  currency: varchar("currency", { length: 3 }).notNull().default("EUR"),
+  // Taxa de IVA em %, já incluída nos valores
+  vatRate: integer("vat_rate").notNull().default(23),
+  priceVariants: jsonb("price_variants").$type<ServicePriceVariant[]>().notNull().default([]),
+  // Preço em texto livre de antes dos campos acima; só aparece enquanto o serviço não tem tipo de preço
+  legacyPrice: varchar("price", { length: 50 }),
+  // Sem horário próprio, vale o da empresa
+  openingHours: jsonb("opening_hours").$type<OpeningHours>(),
+  // Horário em texto livre de antes do campo acima; só aparece enquanto o serviço não tem horário próprio
+  legacyWorkingHours: varchar("working_hours", { length: 100 }),
+  // Duração de cada atendimento; sem ela o serviço não recebe agendamentos
+  durationMinutes: integer("duration_minutes"),
+  categoryId: integer("category_id").references(() => serviceCategories.id),
+  // Etiquetas livres, em minúsculas e sem repetição
+  tags: jsonb("tags").$type<string[]>().notNull().default([]),
   companyId: integer("company_id").notNull().references(() => companies.id),
+  // Preenchido quando o serviço vai para a lixeira
+  deletedAt: timestamp("deleted_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -58,17 +167,78 @@ export const servicesRelations = relations(services, ({ one, many }) => ({
     fields: [services.companyId],
     references: [companies.id],
   }),
+  category: one(serviceCategories, {
+    fields: [services.categoryId],
+    references: [serviceCategories.id],
+  }),
   images: many(serviceImages),
+  appointments: many(appointments),
 }));
 
+// Tamanhos gerados para cada imagem enviada de um serviço
+export const serviceImageVariantNames = ["thumbnail", "medium", "large"] as const;
+export type ServiceImageVariantName = typeof serviceImageVariantNames[number];
+
+export interface ServiceImageVariant {
+  key: string;
+  url: string;
+  width: number;
+  height: number;
+}
+
+export type ServiceImageVariants = Record<ServiceImageVariantName, ServiceImageVariant>;
+
 // Service images model
 export const serviceImages = pgTable("service_images", {
   id: serial("id").primaryKey(),
   url: text("url").notNull(),
+  // Só existe para imagens enviadas; imagens antigas guardam apenas a URL
+  variants: jsonb("variants").$type<ServiceImageVariants>(),
+  altText: varchar("alt_text", { length: 255 }),
+  // Ordem de exibição no serviço, a partir de 0
+  position: integer("position").notNull().default(0),
+  // Cada serviço com imagens tem exatamente uma capa
+  isCover: boolean("is_cover").notNull().default(false),
   serviceId: integer("service_id").notNull().references(() => services.id),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Valor em cêntimos no formato de Portugal ("1250,00 €")
+export function formatPriceAmount(priceCents: number, currency = "EUR"): string {
+  return new Intl.NumberFormat("pt-PT", { style: "currency", currency }).format(priceCents / 100);
+}
+
+const pricingTypeFormats: Record<ServicePricingType, (amount: string) => string> = {
+  fixed: amount => amount,
+  hourly: amount => `${amount}/hora`,
+  from: amount => `A partir de ${amount}`,
+  quote: () => "Sob orçamento",
+};
+
+/**
+ * Preço do serviço como texto, ou o de uma variante quando `priceCents` é
+ * informado. Serviços sem tipo de preço mostram o texto livre antigo, se houver.
+ */
+export function formatServicePrice(
+  service: Pick<Service, "pricingType" | "priceCents" | "currency" | "legacyPrice">,
+  priceCents = service.priceCents
+): string | null {
+  if (!service.pricingType) return service.legacyPrice || null;
+  if (service.pricingType === "quote") return pricingTypeFormats.quote("");
+  if (priceCents === null) return null;
+
+  return pricingTypeFormats[service.pricingType](formatPriceAmount(priceCents, service.currency));
+}
+
+export function formatVatRate(vatRate: number): string {
+  return vatRate === 0 ? "Isento de IVA" : `IVA ${vatRate}% incluído`;
+}
+
+// Imagem de capa do serviço; sem capa marcada, vale a primeira da ordem
+export function getServiceCoverImage<T extends Pick<ServiceImage, "isCover">>(images: T[]): T | undefined {
+  return images.find(image => image.isCover) ?? images[0];
+}
+
 export const serviceImagesRelations = relations(serviceImages, ({ one }) => ({
   service: one(services, {
     fields: [serviceImages.serviceId],
@@ -76,6 +246,22 @@ export const serviceImagesRelations = relations(serviceImages, ({ one }) => ({
   }),
 }));
 
+// Ciclo de vida da vaga: só vagas publicadas aparecem e recebem candidaturas
+export const jobOfferStatuses = ["draft", "published", "paused", "closed"] as const;
+export type JobOfferStatus = typeof jobOfferStatuses[number];
+
+const jobOfferStatusTransitions: Record<JobOfferStatus, JobOfferStatus[]> = {
+  draft: ["published", "closed"],
+  published: ["paused", "closed"],
+  paused: ["published", "closed"],
+  closed: ["published"],
+};
+
+// Indica se a vaga pode passar do estado `from` para `to`
+export function canTransitionJobOffer(from: JobOfferStatus, to: JobOfferStatus): boolean {
+  return jobOfferStatusTransitions[from].includes(to);
+}
+
 // Job offer model
 export const jobOffers = pgTable("job_offers", {
   id: serial("id").primaryKey(),
@@ -86,49 +272,723 @@ export const jobOffers = pgTable("job_offers", {
   requirements: text("requirements"),
   contactEmail: varchar("contact_email", { length: 255 }),
   contactLink: text("contact_link"),
+  status: varchar("status", { length: 20 }).$type<JobOfferStatus>().notNull().default("draft"),
+  expiresAt: timestamp("expires_at"),
+  publishedAt: timestamp("published_at"),
+  closedAt: timestamp("closed_at"),
+  // Preenchido quando a vaga vai para a lixeira
+  deletedAt: timestamp("deleted_at"),
   companyId: integer("company_id").notNull().references(() => companies.id),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
-export const jobOffersRelations = relations(jobOffers, ({ one }) => ({
+export const jobOffersRelations = relations(jobOffers, ({ one, many }) => ({
   company: one(companies, {
     fields: [jobOffers.companyId],
     references: [companies.id],
   }),
+  applications: many(jobApplications),
 }));
 
+// Papéis na equipe da empresa, do maior para o menor nível de acesso
+export const companyRoles = ["owner", "admin", "editor", "viewer"] as const;
+export type CompanyRole = typeof companyRoles[number];
+
+const companyRoleRank: Record<CompanyRole, number> = {
+  owner: 4,
+  admin: 3,
+  editor: 2,
+  viewer: 1,
+};
+
+// Indica se o papel `role` tem pelo menos o nível de acesso de `required`
+export function hasCompanyRole(role: CompanyRole | null | undefined, required: CompanyRole): boolean {
+  return !!role && companyRoleRank[role] >= companyRoleRank[required];
+}
+
+// Company member model
+export const companyMembers = pgTable("company_members", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").notNull().references(() => companies.id),
+  userId: integer("user_id").notNull().references(() => users.id),
+  role: varchar("role", { length: 20 }).$type<CompanyRole>().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  companyUserUnique: unique().on(table.companyId, table.userId),
+}));
+
+export const companyMembersRelations = relations(companyMembers, ({ one }) => ({
+  company: one(companies, {
+    fields: [companyMembers.companyId],
+    references: [companies.id],
+  }),
+  user: one(users, {
+    fields: [companyMembers.userId],
+    references: [users.id],
+  }),
+}));
+
+// Company invitation model
+export const invitationStatuses = ["pending", "accepted", "revoked"] as const;
+export type InvitationStatus = typeof invitationStatuses[number];
+
+export const companyInvitations = pgTable("company_invitations", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").notNull().references(() => companies.id),
+  email: varchar("email", { length: 255 }).notNull(),
+  role: varchar("role", { length: 20 }).$type<CompanyRole>().notNull(),
+  token: varchar("token", { length: 64 }).notNull().unique(),
+  status: varchar("status", { length: 20 }).$type<InvitationStatus>().notNull().default("pending"),
+  invitedBy: integer("invited_by").notNull().references(() => users.id),
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedAt: timestamp("accepted_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const companyInvitationsRelations = relations(companyInvitations, ({ one }) => ({
+  company: one(companies, {
+    fields: [companyInvitations.companyId],
+    references: [companies.id],
+  }),
+  inviter: one(users, {
+    fields: [companyInvitations.invitedBy],
+    references: [users.id],
+  }),
+}));
+
+// Etapas do processo seletivo, na ordem em que o candidato avança
+export const applicationStages = ["new", "screening", "interview", "offer", "hired", "rejected"] as const;
+export type ApplicationStage = typeof applicationStages[number];
+
+// Job application model
+export const jobApplications = pgTable("job_applications", {
+  id: serial("id").primaryKey(),
+  jobOfferId: integer("job_offer_id").notNull().references(() => jobOffers.id),
+  companyId: integer("company_id").notNull().references(() => companies.id),
+  name: varchar("name", { length: 255 }).notNull(),
+  email: varchar("email", { length: 255 }).notNull(),
+  phone: varchar("phone", { length: 20 }),
+  coverLetter: text("cover_letter"),
+  cvKey: text("cv_key").notNull(),
+  cvFileName: varchar("cv_file_name", { length: 255 }).notNull(),
+  cvContentType: varchar("cv_content_type", { length: 100 }).notNull(),
+  cvSize: integer("cv_size").notNull(),
+  stage: varchar("stage", { length: 20 }).$type<ApplicationStage>().notNull().default("new"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const jobApplicationsRelations = relations(jobApplications, ({ one, many }) => ({
+  jobOffer: one(jobOffers, {
+    fields: [jobApplications.jobOfferId],
+    references: [jobOffers.id],
+  }),
+  company: one(companies, {
+    fields: [jobApplications.companyId],
+    references: [companies.id],
+  }),
+  notes: many(jobApplicationNotes),
+  stageChanges: many(jobApplicationStageChanges),
+}));
+
+// Job application note model
+export const jobApplicationNotes = pgTable("job_application_notes", {
+  id: serial("id").primaryKey(),
+  applicationId: integer("application_id").notNull().references(() => jobApplications.id),
+  authorId: integer("author_id").notNull().references(() => users.id),
+  body: text("body").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const jobApplicationNotesRelations = relations(jobApplicationNotes, ({ one }) => ({
+  application: one(jobApplications, {
+    fields: [jobApplicationNotes.applicationId],
+    references: [jobApplications.id],
+  }),
+  author: one(users, {
+    fields: [jobApplicationNotes.authorId],
+    references: [users.id],
+  }),
+}));
+
+// Histórico de etapas; sem fromStage/changedBy quando é a entrada da candidatura pública
+export const jobApplicationStageChanges = pgTable("job_application_stage_changes", {
+  id: serial("id").primaryKey(),
+  applicationId: integer("application_id").notNull().references(() => jobApplications.id),
+  fromStage: varchar("from_stage", { length: 20 }).$type<ApplicationStage>(),
+  toStage: varchar("to_stage", { length: 20 }).$type<ApplicationStage>().notNull(),
+  changedBy: integer("changed_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const jobApplicationStageChangesRelations = relations(jobApplicationStageChanges, ({ one }) => ({
+  application: one(jobApplications, {
+    fields: [jobApplicationStageChanges.applicationId],
+    references: [jobApplications.id],
+  }),
+  user: one(users, {
+    fields: [jobApplicationStageChanges.changedBy],
+    references: [users.id],
+  }),
+}));
+
+// Ciclo de vida do agendamento: o cliente pede, a empresa confirma e, depois do horário,
+// marca como concluído ou como falta. Cancelados, concluídos e faltas não mudam mais
+export const appointmentStatuses = ["requested", "confirmed", "cancelled", "completed", "no_show"] as const;
+export type AppointmentStatus = typeof appointmentStatuses[number];
+
+const appointmentStatusTransitions: Record<AppointmentStatus, AppointmentStatus[]> = {
+  requested: ["confirmed", "cancelled"],
+  confirmed: ["completed", "no_show", "cancelled"],
+  cancelled: [],
+  completed: [],
+  no_show: [],
+};
+
+// Indica se o agendamento pode passar do estado `from` para `to`
+export function canTransitionAppointment(from: AppointmentStatus, to: AppointmentStatus): boolean {
+  return appointmentStatusTransitions[from].includes(to);
+}
+
+// Pedidos e confirmados ocupam o horário do serviço; os demais o deixam livre
+export const activeAppointmentStatuses: AppointmentStatus[] = ["requested", "confirmed"];
+
+export function isActiveAppointment(status: AppointmentStatus): boolean {
+  return activeAppointmentStatuses.includes(status);
+}
+
+// Appointment model
+export const appointments = pgTable("appointments", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").notNull().references(() => companies.id),
+  serviceId: integer("service_id").notNull().references(() => services.id),
+  customerName: varchar("customer_name", { length: 255 }).notNull(),
+  customerEmail: varchar("customer_email", { length: 255 }).notNull(),
+  customerPhone: varchar("customer_phone", { length: 20 }),
+  notes: text("notes"),
+  startsAt: timestamp("starts_at").notNull(),
+  endsAt: timestamp("ends_at").notNull(),
+  status: varchar("status", { length: 20 }).$type<AppointmentStatus>().notNull().default("requested"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const appointmentsRelations = relations(appointments, ({ one }) => ({
+  company: one(companies, {
+    fields: [appointments.companyId],
+    references: [companies.id],
+  }),
+  service: one(services, {
+    fields: [appointments.serviceId],
+    references: [services.id],
+  }),
+}));
+
+// Versões salvas da empresa, dos serviços e das vagas. Cada gravação gera uma
+// nova versão e as anteriores nunca mudam; restaurar também gera uma versão nova
+export const revisionEntityTypes = ["company", "service", "job_offer"] as const;
+export type RevisionEntityType = typeof revisionEntityTypes[number];
+
+export const revisions = pgTable("revisions", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").notNull().references(() => companies.id),
+  entityType: varchar("entity_type", { length: 20 }).$type<RevisionEntityType>().notNull(),
+  entityId: integer("entity_id").notNull(),
+  // Sequência por registro, começando em 1
+  version: integer("version").notNull(),
+  // Campos editáveis do registro nesta versão, como no JSON da API
+  snapshot: jsonb("snapshot").$type<Record<string, unknown>>().notNull(),
+  // Nulo na versão inicial de registros criados antes do histórico de versões
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  entityVersionUnique: unique().on(table.entityType, table.entityId, table.version),
+}));
+
+export const revisionsRelations = relations(revisions, ({ one }) => ({
+  company: one(companies, {
+    fields: [revisions.companyId],
+    references: [companies.id],
+  }),
+  author: one(users, {
+    fields: [revisions.createdBy],
+    references: [users.id],
+  }),
+}));
+
+// Registro de auditoria: quem fez cada alteração, com o valor anterior e o novo de cada campo
+export const auditEntityTypes = [
+  "company",
+  "service",
+  "service_image",
+  "service_category",
+  "job_offer",
+  "job_application",
+  "application_note",
+  "company_member",
+  "company_invitation",
+  "appointment",
+  "user",
+] as const;
+export type AuditEntityType = typeof auditEntityTypes[number];
+
+export const auditActions = ["create", "update", "delete", "restore", "purge"] as const;
+export type AuditAction = typeof auditActions[number];
+
+// Só os campos que mudaram; datas ficam como string ISO
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+export const auditLogs = pgTable("audit_logs", {
+  id: serial("id").primaryKey(),
+  // Sem referência a companies; os registros são apagados junto com a empresa.
+  // Nulo nas alterações do próprio perfil do usuário
+  companyId: integer("company_id"),
+  // Nulo quando não há usuário autenticado (candidatura pela página pública)
+  actorUid: varchar("actor_uid", { length: 128 }),
+  actorEmail: varchar("actor_email", { length: 255 }),
+  entityType: varchar("entity_type", { length: 30 }).$type<AuditEntityType>().notNull(),
+  entityId: integer("entity_id").notNull(),
+  action: varchar("action", { length: 20 }).$type<AuditAction>().notNull(),
+  changes: jsonb("changes").$type<AuditChanges>().notNull(),
+  requestMethod: varchar("request_method", { length: 10 }),
+  requestPath: text("request_path"),
+  ipAddress: varchar("ip_address", { length: 45 }),
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Exportação dos dados do usuário (pedido de acesso do RGPD), gerada em segundo plano
+export const dataExportStatuses = ["pending", "ready", "failed"] as const;
+export type DataExportStatus = typeof dataExportStatuses[number];
+
+export const dataExports = pgTable("data_exports", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  status: varchar("status", { length: 20 }).$type<DataExportStatus>().notNull().default("pending"),
+  // Chave do ZIP no armazenamento de arquivos; só existe depois de pronto
+  fileKey: text("file_key"),
+  fileSize: integer("file_size"),
+  error: text("error"),
+  completedAt: timestamp("completed_at"),
+  // Depois desta data o arquivo é apagado e é preciso pedir uma nova exportação
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).pick({
   uid: true,
   email: true,
   displayName: true,
   photoURL: true,
+  deletionScheduledAt: true,
+});
+
+// Endereço da página pública (/c/:slug): letras minúsculas, números e hífens
+export const companySlugPattern = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+// Campos específicos de Portugal: NIF (9 dígitos), Código Postal (XXXX-XXX) e CAE (5 dígitos).
+// Os refinamentos perdem o opcional no tipo inferido, por isso o `.optional()` explícito
+const timeOfDay = (pattern: RegExp) => z.string().regex(pattern, { message: "Hora inválida. Use o formato HH:MM" });
+
+const timeIntervalSchema = z.object({
+  start: timeOfDay(/^(?:[01]\d|2[0-3]):[0-5]\d$/),
+  end: timeOfDay(/^(?:(?:[01]\d|2[0-3]):[0-5]\d|24:00)$/),
+}).refine(interval => interval.start < interval.end, {
+  message: "O fim do intervalo deve ser depois do início",
+  path: ["end"],
+});
+
+const dayIntervalsSchema = z.array(timeIntervalSchema)
+  .max(6, { message: "No máximo 6 intervalos por dia" })
+  .refine(intervals => {
+    const sorted = [...intervals].sort((a, b) => a.start.localeCompare(b.start));
+    return sorted.every((interval, index) => index === 0 || sorted[index - 1].end <= interval.start);
+  }, { message: "Os intervalos do dia não podem se sobrepor" });
+
+const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat("pt-PT", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const openingHoursSchema = z.object({
+  timezone: z.string().refine(isValidTimeZone, { message: "Fuso horário inválido" }),
+  weekly: z.object({
+    mon: dayIntervalsSchema,
+    tue: dayIntervalsSchema,
+    wed: dayIntervalsSchema,
+    thu: dayIntervalsSchema,
+    fri: dayIntervalsSchema,
+    sat: dayIntervalsSchema,
+    sun: dayIntervalsSchema,
+  }),
+  exceptions: z.array(z.object({
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, { message: "Data inválida. Use o formato AAAA-MM-DD" }),
+    intervals: dayIntervalsSchema,
+    note: z.string().trim().max(100, { message: "A nota deve ter no máximo 100 caracteres" }).nullable().default(null),
+  }))
+    .max(100, { message: "No máximo 100 exceções" })
+    .refine(exceptions => new Set(exceptions.map(exception => exception.date)).size === exceptions.length, {
+      message: "Cada data só pode ter uma exceção",
+    }),
+  closedOnPublicHolidays: z.boolean(),
+});
+
+export const insertCompanySchema = createInsertSchema(companies, {
+  nif: (schema) => schema.regex(/^\d{9}$/, { message: "NIF inválido. Deve conter 9 dígitos" }).optional(),
+  email: (schema) => schema.email({ message: "Email inválido" }).optional(),
+  postalCode: (schema) => schema.regex(/^\d{4}-\d{3}$/, { message: "Código Postal inválido. Use o formato XXXX-XXX" }).optional(),
+  caeCode: (schema) => schema.regex(/^\d{5}$/, { message: "Código CAE inválido. Deve conter 5 dígitos" }).optional(),
+  constitutionDate: (schema) => schema.regex(/^\d{4}-\d{2}-\d{2}$/, { message: "Data inválida. Use o formato AAAA-MM-DD" }).optional(),
+  shareCapital: (schema) => schema.regex(/^\d+(\.\d{1,2})?$/, { message: "Capital social inválido" }).optional(),
+  slug: (schema) => schema.regex(companySlugPattern, { message: "Endereço inválido. Use letras minúsculas, números e hífens" }).max(100).optional(),
+  openingHours: openingHoursSchema.nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Até 1 000 000,00 na moeda do serviço
+const MAX_PRICE_CENTS = 100_000_000;
+
+const priceCentsSchema = z.number()
+  .int({ message: "Valor inválido" })
+  .min(0, { message: "O valor não pode ser negativo" })
+  .max(MAX_PRICE_CENTS, { message: "Valor acima do permitido" });
+
+export const servicePriceVariantSchema = z.object({
+  name: z.string().trim().min(1, { message: "Dê um nome à variante" }).max(100, { message: "O nome da variante deve ter no máximo 100 caracteres" }),
+  description: z.string().trim().max(300, { message: "A descrição da variante deve ter no máximo 300 caracteres" }).nullable().default(null),
+  priceCents: priceCentsSchema,
+});
+
+// Etiqueta como é gravada: sem espaços a mais e em minúsculas, para "Cabelo" e "cabelo" serem a mesma
+export const serviceTagSchema = z.string()
+  .trim()
+  .min(1, { message: "A etiqueta não pode ficar vazia" })
+  .max(30, { message: "Cada etiqueta deve ter no máximo 30 caracteres" })
+  .transform(tag => tag.replace(/\s+/g, " ").toLowerCase());
+
+export const insertServiceSchema = createInsertSchema(services, {
+  pricingType: z.enum(servicePricingTypes, { errorMap: () => ({ message: "Tipo de preço inválido" }) }).nullable().optional(),
+  priceCents: priceCentsSchema.nullable().optional(),
+  currency: z.string().regex(/^[A-Z]{3}$/, { message: "Moeda inválida" }).optional(),
+  vatRate: z.number().int().min(0).max(100, { message: "Taxa de IVA inválida" }).optional(),
+  priceVariants: z.array(servicePriceVariantSchema).max(20, { message: "O serviço pode ter no máximo 20 variantes" }).optional(),
+  openingHours: openingHoursSchema.nullable().optional(),
+  durationMinutes: z.number()
+    .int({ message: "Duração inválida" })
+    .min(5, { message: "A duração deve ser de pelo menos 5 minutos" })
+    .max(480, { message: "A duração deve ser de no máximo 8 horas" })
+    .nullable()
+    .optional(),
+  categoryId: z.number().int().positive({ message: "Categoria inválida" }).nullable().optional(),
+  tags: z.array(serviceTagSchema)
+    .max(20, { message: "O serviço pode ter no máximo 20 etiquetas" })
+    .transform(tags => Array.from(new Set(tags)))
+    .optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Campos que o cliente pode enviar; a lixeira tem rotas próprias e os textos antigos só são apagados
+export const serviceFieldsSchema = insertServiceSchema.omit({
+  deletedAt: true,
+  legacyPrice: true,
+  legacyWorkingHours: true,
+});
+
+export const insertServiceCategorySchema = createInsertSchema(serviceCategories, {
+  name: z.string().trim().min(1, { message: "Dê um nome à categoria" }).max(100, { message: "O nome da categoria deve ter no máximo 100 caracteres" }),
+  parentId: z.number().int().positive({ message: "Categoria superior inválida" }).nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Campos que o cliente envia ao criar ou editar uma categoria; a empresa vem da rota
+export const serviceCategoryFieldsSchema = insertServiceCategorySchema.omit({ companyId: true });
+
+// Renomear uma etiqueta para outra que já existe junta as duas
+export const renameServiceTagSchema = z.object({
+  name: serviceTagSchema,
+});
+
+/**
+ * Confere o tipo de preço com os valores, que não dá para validar campo a campo
+ * nas edições parciais. Devolve o primeiro problema encontrado, ou null.
+ */
+export function getServicePricingIssue(
+  service: Partial<Pick<InsertService, "pricingType" | "priceCents" | "priceVariants">>
+): { path: string[]; message: string } | null {
+  const hasAmount = !!service.pricingType && service.pricingType !== "quote";
+  const hasPrice = service.priceCents !== null && service.priceCents !== undefined;
+
+  if (hasAmount && !hasPrice) {
+    return { path: ["priceCents"], message: "Informe o valor para este tipo de preço" };
+  }
+  if (!hasAmount && hasPrice) {
+    return { path: ["priceCents"], message: "Este tipo de preço não tem valor" };
+  }
+  if (!hasAmount && service.priceVariants?.length) {
+    return { path: ["priceVariants"], message: "As variantes precisam de um tipo de preço com valor" };
+  }
+
+  return null;
+}
+
+export const insertServiceImageSchema = createInsertSchema(serviceImages, {
+  altText: schema => schema.max(255, "O texto alternativo deve ter no máximo 255 caracteres").nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Só o texto alternativo e a capa são editáveis; a ordem tem rota própria
+export const updateServiceImageSchema = z.object({
+  altText: z.string().trim().max(255, "O texto alternativo deve ter no máximo 255 caracteres").nullable().optional(),
+  isCover: z.literal(true).optional(),
+});
+
+export const reorderServiceImagesSchema = z.object({
+  imageIds: z.array(z.number().int().positive()),
+});
+
+// A data de expiração chega como string ISO no JSON
+export const insertJobOfferSchema = createInsertSchema(jobOffers, {
+  status: z.enum(jobOfferStatuses).optional(),
+  expiresAt: z.coerce.date({ invalid_type_error: "Data de expiração inválida" }).nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// O estado só muda pelas rotas de publicar, pausar e encerrar
+export const jobOfferFieldsSchema = insertJobOfferSchema.omit({
+  status: true,
+  publishedAt: true,
+  closedAt: true,
+  deletedAt: true,
+});
+
+export const insertCompanyMemberSchema = createInsertSchema(companyMembers, {
+  role: z.enum(companyRoles),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
 });
 
-export const insertCompanySchema = createInsertSchema(companies).omit({
+export const insertDataExportSchema = createInsertSchema(dataExports, {
+  status: z.enum(dataExportStatuses),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
-export const insertServiceSchema = createInsertSchema(services).omit({
+export const insertCompanyInvitationSchema = createInsertSchema(companyInvitations, {
+  email: (schema) => schema.email({ message: "Email inválido" }),
+  role: z.enum(companyRoles),
+  status: z.enum(invitationStatuses),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
-export const insertServiceImageSchema = createInsertSchema(serviceImages).omit({
+// O dono só é definido na criação da empresa; convites e alterações de papel usam os demais
+export const assignableRoleSchema = z.enum(["admin", "editor", "viewer"], {
+  errorMap: () => ({ message: "Papel inválido" }),
+});
+
+export const createInvitationSchema = z.object({
+  email: z.string().email({ message: "Por favor, digite um email válido" }),
+  role: assignableRoleSchema,
+});
+
+export const updateMemberRoleSchema = z.object({
+  role: assignableRoleSchema,
+});
+
+export const insertJobApplicationSchema = createInsertSchema(jobApplications, {
+  email: (schema) => schema.email({ message: "Email inválido" }),
+  stage: z.enum(applicationStages).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertJobApplicationNoteSchema = createInsertSchema(jobApplicationNotes).omit({
   id: true,
   createdAt: true,
 });
 
-export const insertJobOfferSchema = createInsertSchema(jobOffers).omit({
+export const insertJobApplicationStageChangeSchema = createInsertSchema(jobApplicationStageChanges, {
+  fromStage: z.enum(applicationStages).nullable().optional(),
+  toStage: z.enum(applicationStages),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertAppointmentSchema = createInsertSchema(appointments, {
+  customerEmail: (schema) => schema.email({ message: "Email inválido" }),
+  status: z.enum(appointmentStatuses).optional(),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
+export const insertRevisionSchema = createInsertSchema(revisions, {
+  entityType: z.enum(revisionEntityTypes),
+  snapshot: z.record(z.unknown()),
+}).omit({
+  id: true,
+  version: true,
+  createdAt: true,
+});
+
+export const insertAuditLogSchema = createInsertSchema(auditLogs, {
+  entityType: z.enum(auditEntityTypes),
+  action: z.enum(auditActions),
+  changes: z.custom<AuditChanges>(value => typeof value === "object" && value !== null),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Filtros da página de atividade; page começa em 1
+export const auditLogQuerySchema = z.object({
+  entityType: z.enum(auditEntityTypes).optional(),
+  entityId: z.coerce.number().int().positive().optional(),
+  action: z.enum(auditActions).optional(),
+  actorUid: z.string().max(128).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(25),
+});
+
+// Listas de serviços e vagas: paginação por cursor, ordenação e filtros.
+// O cursor é opaco para o cliente; basta repassar o nextCursor da página anterior
+export const serviceSortKeys = ["name", "createdAt", "updatedAt", "price"] as const;
+export type ServiceSortKey = typeof serviceSortKeys[number];
+export const jobOfferSortKeys = ["title", "createdAt", "updatedAt"] as const;
+export type JobOfferSortKey = typeof jobOfferSortKeys[number];
+export const sortOrders = ["asc", "desc"] as const;
+
+const listQueryFields = {
+  cursor: z.string().max(500).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(12),
+  order: z.enum(sortOrders).default("desc"),
+  // Busca simples, sem diferenciar maiúsculas, no nome e na descrição
+  q: z.string().trim().max(100).optional(),
+};
+
+export const serviceListQuerySchema = z.object({
+  ...listQueryFields,
+  sort: z.enum(serviceSortKeys).default("createdAt"),
+  pricingType: z.enum(servicePricingTypes).optional(),
+  // Inclui os serviços das subcategorias
+  categoryId: z.coerce.number().int().positive().optional(),
+  tag: serviceTagSchema.optional(),
+});
+
+export const jobOfferListQuerySchema = z.object({
+  ...listQueryFields,
+  sort: z.enum(jobOfferSortKeys).default("createdAt"),
+  status: z.enum(jobOfferStatuses).optional(),
+  employmentType: z.string().trim().max(50).optional(),
+});
+
+// Busca da paleta de comandos nos serviços e vagas da empresa
+export const searchEntityTypes = ["service", "job_offer"] as const;
+export type SearchEntityType = typeof searchEntityTypes[number];
+
+export const searchQuerySchema = z.object({
+  q: z.string().trim().min(2, { message: "Digite pelo menos 2 caracteres" }).max(100),
+  limit: z.coerce.number().int().min(1).max(25).default(10),
+});
+
+// Versão com que comparar; sem ela, a comparação é com o estado atual do registro
+export const revisionDiffQuerySchema = z.object({
+  compareTo: z.coerce.number().int().positive().optional(),
+});
+
+// Minúsculas e sem acentos ("Gestão" vira "gestao"), caractere a caractere,
+// para que as posições no texto normalizado valham também no original
+export function normalizeSearchText(text: string): string {
+  return Array.from(text, char => {
+    const base = char.toLowerCase().normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+    return base.length === char.length ? base : char;
+  }).join("");
+}
+
+// Agenda da empresa: agendamentos que começam entre `from` e `to`, no máximo 62 dias de cada vez
+const MAX_APPOINTMENT_RANGE_MS = 62 * 24 * 60 * 60 * 1000;
+
+export const appointmentListQuerySchema = z.object({
+  from: z.coerce.date({ invalid_type_error: "Data inicial inválida" }),
+  to: z.coerce.date({ invalid_type_error: "Data final inválida" }),
+  serviceId: z.coerce.number().int().positive().optional(),
+  status: z.enum(appointmentStatuses).optional(),
+}).refine(query => query.from < query.to && query.to.getTime() - query.from.getTime() <= MAX_APPOINTMENT_RANGE_MS, {
+  message: "O período deve ter no máximo 62 dias",
+  path: ["to"],
+});
+
+// Horários livres a partir de `from` (data no fuso do horário do serviço; padrão: hoje)
+export const serviceSlotsQuerySchema = z.object({
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, { message: "Data inválida. Use o formato AAAA-MM-DD" }).optional(),
+  days: z.coerce.number().int().min(1).max(31).default(7),
+});
+
+// Pedido de agendamento pela página pública; o fim vem da duração do serviço
+export const bookAppointmentSchema = z.object({
+  startsAt: z.coerce.date({ invalid_type_error: "Horário inválido" }),
+  name: z.string().trim().min(2, { message: "O nome deve ter pelo menos 2 caracteres" }).max(255),
+  email: z.string().trim().email({ message: "Por favor, digite um email válido" }),
+  phone: z.string().trim().max(20, { message: "Telefone inválido" }).optional(),
+  notes: z.string().trim().max(1000, { message: "As observações devem ter no máximo 1000 caracteres" }).optional(),
+});
+
+// A duração do agendamento se mantém; só muda o início
+export const rescheduleAppointmentSchema = z.object({
+  startsAt: z.coerce.date({ invalid_type_error: "Horário inválido" }),
+});
+
+// Campos do formulário público de candidatura; o CV chega como arquivo multipart
+export const applyToJobOfferSchema = z.object({
+  name: z.string().trim().min(2, { message: "O nome deve ter pelo menos 2 caracteres" }).max(255),
+  email: z.string().trim().email({ message: "Por favor, digite um email válido" }),
+  phone: z.string().trim().max(20, { message: "Telefone inválido" }).optional(),
+  coverLetter: z.string().trim().max(5000, { message: "A carta de apresentação deve ter no máximo 5000 caracteres" }).optional(),
+});
+
+export const updateApplicationStageSchema = z.object({
+  stage: z.enum(applicationStages, {
+    errorMap: () => ({ message: "Etapa inválida" }),
+  }),
+});
+
+export const createApplicationNoteSchema = z.object({
+  body: z.string().trim().min(1, { message: "A nota não pode estar vazia" }).max(5000),
+});
+
 // Types
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
@@ -136,10 +996,178 @@ export type Company = typeof companies.$inferSelect;
 export type InsertCompany = z.infer<typeof insertCompanySchema>;
 export type Service = typeof services.$inferSelect;
 export type InsertService = z.infer<typeof insertServiceSchema>;
+export type ServiceCategory = typeof serviceCategories.$inferSelect;
+export type InsertServiceCategory = z.infer<typeof insertServiceCategorySchema>;
 export type ServiceImage = typeof serviceImages.$inferSelect;
 export type InsertServiceImage = z.infer<typeof insertServiceImageSchema>;
 export type JobOffer = typeof jobOffers.$inferSelect;
 export type InsertJobOffer = z.infer<typeof insertJobOfferSchema>;
+export type CompanyMember = typeof companyMembers.$inferSelect;
+export type InsertCompanyMember = z.infer<typeof insertCompanyMemberSchema>;
+export type CompanyInvitation = typeof companyInvitations.$inferSelect;
+export type InsertCompanyInvitation = z.infer<typeof insertCompanyInvitationSchema>;
+export type JobApplication = typeof jobApplications.$inferSelect;
+export type InsertJobApplication = z.infer<typeof insertJobApplicationSchema>;
+export type JobApplicationNote = typeof jobApplicationNotes.$inferSelect;
+export type InsertJobApplicationNote = z.infer<typeof insertJobApplicationNoteSchema>;
+export type JobApplicationStageChange = typeof jobApplicationStageChanges.$inferSelect;
+export type InsertJobApplicationStageChange = z.infer<typeof insertJobApplicationStageChangeSchema>;
+export type Appointment = typeof appointments.$inferSelect;
+export type InsertAppointment = z.infer<typeof insertAppointmentSchema>;
+export type Revision = typeof revisions.$inferSelect;
+export type InsertRevision = z.infer<typeof insertRevisionSchema>;
+export type AuditLog = typeof auditLogs.$inferSelect;
+export type DataExport = typeof dataExports.$inferSelect;
+export type InsertDataExport = z.infer<typeof insertDataExportSchema>;
+export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
+export type AuditLogQuery = z.infer<typeof auditLogQuerySchema>;
+export type ServiceListQuery = z.infer<typeof serviceListQuerySchema>;
+export type JobOfferListQuery = z.infer<typeof jobOfferListQuerySchema>;
+export type SearchQuery = z.infer<typeof searchQuerySchema>;
+export type ApplyToJobOfferInput = z.infer<typeof applyToJobOfferSchema>;
+export type AppointmentListQuery = z.infer<typeof appointmentListQuerySchema>;
+export type ServiceSlotsQuery = z.infer<typeof serviceSlotsQuerySchema>;
+export type BookAppointmentInput = z.infer<typeof bookAppointmentSchema>;
+export type UpdateServiceImageInput = z.infer<typeof updateServiceImageSchema>;
+
+// Formato das entidades depois de passar pelo JSON da API (Date vira string ISO)
+type SerializedValue<V> = V extends Date ? string : V;
+export type Serialized<T> = { [K in keyof T]: SerializedValue<T[K]> };
+
+// Respostas da API
+// As imagens vêm ordenadas por `position`
+export type ServiceWithImages = Service & { images: ServiceImage[] };
+export type CompanyWithRole = Company & { role: CompanyRole };
+export type CompanyMemberWithUser = CompanyMember & {
+  user: Pick<User, "id" | "email" | "displayName" | "photoURL">;
+};
+// Dados expostos na página pública da empresa, sem campos internos
+export type PublicCompanyProfile = {
+  company: Pick<Company, "name" | "slug" | "description" | "nif" | "email" | "phone" | "address" | "postalCode" | "city" | "country" | "website">;
+  services: (Pick<Service, "id" | "name" | "description" | "pricingType" | "priceCents" | "currency" | "vatRate" | "priceVariants" | "legacyPrice" | "legacyWorkingHours" | "durationMinutes" | "tags"> & {
+    images: Pick<ServiceImage, "url" | "altText" | "isCover">[];
+    // Nomes da categoria, da raiz até a do serviço; vazio sem categoria
+    categoryPath: string[];
+    // Horário do serviço ou, sem ele, o da empresa
+    openingHours: OpeningHours | null;
+    openNow: boolean | null;
+  })[];
+  jobOffers: Pick<JobOffer, "id" | "title" | "description" | "employmentType" | "salaryRange" | "requirements" | "contactEmail" | "contactLink" | "expiresAt" | "publishedAt">[];
+};
+export type CompanyInvitationWithCompany = CompanyInvitation & {
+  company: Pick<Company, "id" | "name">;
+};
+type UserSummary = Pick<User, "id" | "email" | "displayName">;
+// A chave do CV no blob store fica no servidor; o arquivo sai pela rota de download
+export type JobApplicationSummary = Omit<JobApplication, "cvKey">;
+export type DataExportSummary = Omit<DataExport, "fileKey">;
+export type AppointmentWithService = Appointment & {
+  service: Pick<Service, "id" | "name" | "durationMinutes"> | null;
+};
+export type JobApplicationWithActivity = JobApplicationSummary & {
+  notes: (JobApplicationNote & { author: UserSummary | null })[];
+  history: (JobApplicationStageChange & { user: UserSummary | null })[];
+};
+
+export type UserResponse = Serialized<User>;
+export type CompanyResponse = Serialized<Company>;
+export type CompanyWithRoleResponse = Serialized<CompanyWithRole>;
+export type CompanyMemberResponse = Serialized<CompanyMemberWithUser>;
+export type CompanyInvitationResponse = Serialized<CompanyInvitation>;
+export type CompanyInvitationWithCompanyResponse = Serialized<CompanyInvitationWithCompany>;
+export type ServiceImageResponse = Serialized<ServiceImage>;
+export type ServiceResponse = Serialized<Service> & { images: ServiceImageResponse[] };
+export type JobOfferResponse = Serialized<JobOffer>;
+// Uma página de uma lista paginada por cursor; nextCursor é nulo na última página
+export type CursorPage<T> = {
+  items: T[];
+  nextCursor: string | null;
+  // Total de registros que atendem aos filtros, em todas as páginas
+  total: number;
+};
+// Na lista, cada serviço vem com o estado do horário no momento da consulta (null sem horário)
+export type ServiceListItemResponse = ServiceResponse & { openNow: boolean | null };
+export type ServiceListResponse = CursorPage<ServiceListItemResponse>;
+// Categoria com o número de serviços ligados diretamente a ela (sem contar as subcategorias)
+export type ServiceCategoryResponse = Serialized<ServiceCategory> & { serviceCount: number };
+export type ServiceTagSummary = { tag: string; serviceCount: number };
+// Horário que vale para o serviço e as datas especiais das próximas semanas
+export type ServiceAvailabilityResponse = {
+  source: "service" | "company" | null;
+  openingHours: OpeningHours | null;
+  openNow: boolean | null;
+  specialDays: SpecialDay[];
+};
+export type JobOfferListResponse = CursorPage<JobOfferResponse>;
+export type DataExportResponse = Serialized<DataExportSummary>;
+export type AccountDeletionResponse = {
+  // true quando a conta já foi excluída; senão, a data agendada
+  deleted: boolean;
+  deletionScheduledAt: string | null;
+};
+export type CompanyTrashResponse = {
+  // Dias na lixeira antes da exclusão definitiva
+  retentionDays: number;
+  services: Serialized<Service>[];
+  jobOffers: JobOfferResponse[];
+};
+export type PublicCompanyProfileResponse = {
+  company: PublicCompanyProfile["company"];
+  services: PublicCompanyProfile["services"];
+  jobOffers: Serialized<PublicCompanyProfile["jobOffers"][number]>[];
+};
+export type JobApplicationResponse = Serialized<JobApplicationSummary>;
+export type AppointmentResponse = Serialized<AppointmentWithService>;
+// Horários livres de um serviço, já sem os ocupados e os que passaram
+export type AppointmentSlot = { startsAt: string; endsAt: string };
+export type ServiceSlotsResponse = {
+  durationMinutes: number;
+  timezone: string;
+  slots: AppointmentSlot[];
+};
+// O cliente só recebe a confirmação do pedido
+export type BookAppointmentResponse = Pick<AppointmentResponse, "id" | "startsAt" | "endsAt" | "status">;
+export type RevisionWithAuthor = Revision & {
+  author: { id: number; email: string; displayName: string | null } | null;
+};
+export type RevisionResponse = Serialized<RevisionWithAuthor>;
+// Diferença entre uma versão e outra (ou o estado atual, quando compareTo é nulo)
+export type RevisionDiffResponse = {
+  revision: RevisionResponse;
+  compareTo: number | null;
+  changes: AuditChanges;
+};
+// Resultado da busca: o trecho da descrição onde o termo aparece, para a paleta de comandos
+export type SearchResult = {
+  entityType: SearchEntityType;
+  id: number;
+  title: string;
+  snippet: string | null;
+  // Só nas vagas
+  status: JobOfferStatus | null;
+};
+export type SearchResponse = {
+  results: SearchResult[];
+};
+export type AuditLogResponse = Serialized<AuditLog>;
+export type AuditLogPageResponse = {
+  entries: AuditLogResponse[];
+  total: number;
+  page: number;
+  pageSize: number;
+};
+export type JobApplicationNoteResponse = Serialized<JobApplicationWithActivity["notes"][number]>;
+export type JobApplicationStageChangeResponse = Serialized<JobApplicationWithActivity["history"][number]>;
+export type JobApplicationDetailResponse = JobApplicationResponse & {
+  notes: JobApplicationNoteResponse[];
+  history: JobApplicationStageChangeResponse[];
+};
+
+// Corpos de requisição: ids de dono/empresa vêm da rota e do usuário autenticado
+export type CompanyInput = Omit<InsertCompany, "ownerId">;
+export type ServiceInput = Omit<z.infer<typeof serviceFieldsSchema>, "companyId">;
+export type ServiceCategoryInput = z.infer<typeof serviceCategoryFieldsSchema>;
+export type JobOfferInput = Omit<z.infer<typeof jobOfferFieldsSchema>, "companyId">;
 
 // Auth schemas
 export const loginSchema = z.object({
@@ -147,14 +1175,37 @@ export const loginSchema = z.object({
   password: z.string().min(6, { message: "A senha deve ter pelo menos 6 caracteres" }),
 });
 
+// Regras de força da senha, as mesmas no registo e na troca de senha
+export const passwordSchema = z
+  .string()
+  .min(8, { message: "A senha deve ter pelo menos 8 caracteres" })
+  .regex(/[0-9]/, { message: "A senha deve conter pelo menos um número" })
+  .regex(/[^a-zA-Z0-9]/, { message: "A senha deve conter pelo menos um caractere especial" });
+
 export const registerSchema = z.object({
   name: z.string().min(2, { message: "O nome deve ter pelo menos 2 caracteres" }),
   email: z.string().email({ message: "Por favor, digite um email válido" }),
-  password: z
-    .string()
-    .min(8, { message: "A senha deve ter pelo menos 8 caracteres" })
-    .regex(/[0-9]/, { message: "A senha deve conter pelo menos um número" })
-    .regex(/[^a-zA-Z0-9]/, { message: "A senha deve conter pelo menos um caractere especial" }),
+  password: passwordSchema,
+});
+
+export const changePasswordSchema = z
+  .object({
+    currentPassword: z.string().min(1, { message: "Digite a senha atual" }),
+    newPassword: passwordSchema,
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.newPassword === data.confirmPassword, {
+    message: "As senhas não coincidem",
+    path: ["confirmPassword"],
+  })
+  .refine((data) => data.newPassword !== data.currentPassword, {
+    message: "A nova senha deve ser diferente da atual",
+    path: ["newPassword"],
+  });
+
+// Sem immediate, a conta só é excluída depois do prazo de carência
+export const deleteAccountSchema = z.object({
+  immediate: z.boolean().default(false),
 });
 
 export const resetPasswordSchema = z.object({
@@ -165,3 +1216,7 @@ export const updateProfileSchema = z.object({
   displayName: z.string().min(2, { message: "O nome deve ter pelo menos 2 caracteres" }).optional(),
   photoURL: z.string().url().optional(),
 });
+
+export type UpdateProfileInput = z.infer<typeof updateProfileSchema>;
+export type ChangePasswordInput = z.infer<typeof changePasswordSchema>;
+export type DeleteAccountInput = z.infer<typeof deleteAccountSchema>;
@@ -0,0 +1,68 @@
+import type { ServiceCategory } from "./schema";
+
+type CategoryNode = Pick<ServiceCategory, "id" | "parentId" | "name">;
+
+const byName = (a: CategoryNode, b: CategoryNode) => a.name.localeCompare(b.name, "pt");
+
+// Categorias da raiz até `id`; um ciclo nos dados interrompe a subida em vez de travar
+export function getCategoryPath<T extends CategoryNode>(categories: T[], id: number | null): T[] {
+  const byId = new Map(categories.map(category => [category.id, category]));
+  const path: T[] = [];
+  const seen = new Set<number>();
+
+  for (let current = id !== null ? byId.get(id) : undefined; current && !seen.has(current.id); current = current.parentId !== null ? byId.get(current.parentId) : undefined) {
+    seen.add(current.id);
+    path.unshift(current);
+  }
+
+  return path;
+}
+
+export const formatCategoryPath = (path: CategoryNode[]) => path.map(category => category.name).join(" › ");
+
+// A própria categoria e todas as que estão abaixo dela
+export function getCategoryDescendantIds(categories: CategoryNode[], id: number): number[] {
+  const ids = [id];
+
+  for (let index = 0; index < ids.length; index++) {
+    categories
+      .filter(category => category.parentId === ids[index] && !ids.includes(category.id))
+      .forEach(category => ids.push(category.id));
+  }
+
+  return ids;
+}
+
+// Níveis da subárvore que começa em `id`: 1 para uma categoria sem subcategorias
+export function getCategorySubtreeHeight(categories: CategoryNode[], id: number): number {
+  const descendants = new Set(getCategoryDescendantIds(categories, id));
+  const depthOf = (categoryId: number) => getCategoryPath(categories, categoryId).length;
+  const rootDepth = depthOf(id);
+
+  return Math.max(...Array.from(descendants).map(categoryId => depthOf(categoryId) - rootDepth + 1));
+}
+
+/**
+ * Árvore em pré-ordem, com os irmãos por nome e o nível de cada categoria
+ * (0 na raiz), pronta para listas e selects indentados.
+ */
+export function flattenCategoryTree<T extends CategoryNode>(categories: T[]): (T & { depth: number })[] {
+  const ids = new Set(categories.map(category => category.id));
+  const result: (T & { depth: number })[] = [];
+
+  const visit = (parentId: number | null, depth: number) => {
+    categories
+      .filter(category => parentId === null
+        ? category.parentId === null || !ids.has(category.parentId)
+        : category.parentId === parentId)
+      .sort(byName)
+      .forEach(category => {
+        if (result.some(entry => entry.id === category.id)) return;
+        result.push({ ...category, depth });
+        visit(category.id, depth + 1);
+      });
+  };
+
+  visit(null, 0);
+  return result;
+}